@@ -0,0 +1,193 @@
+/*
+ Development stand-in for the live attendance channel (src/lib/attendance-live.ts).
+ - Mounted by the Vite dev server at /__attendance-live; never part of a build
+ - Relays "changes" and presence between every tab on the same event/date
+ - Speaks SSE (stream/) and polling (poll/) plus publish/; no WebSocket
+ - State is in memory and lost on restart; no auth, any client may join
+*/
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+const MOUNT_PATH = "/__attendance-live";
+const PRESENCE_TTL_MS = 45000;
+const BACKLOG_SIZE = 200;
+
+type Peer = {
+  client_id: string;
+  user_id: number;
+  name: string;
+  email: string;
+};
+
+type Message = Record<string, unknown> & { seq?: number };
+
+type Channel = {
+  seq: number;
+  backlog: Message[];
+  peers: Map<string, { peer: Peer; seenAt: number }>;
+  streams: Set<ServerResponse>;
+};
+
+const channels = new Map<string, Channel>();
+
+function getChannel(url: URL): Channel | null {
+  const event = url.searchParams.get("event");
+  const date = url.searchParams.get("date");
+  if (!event || !date) return null;
+  const key = `${event}:${date}`;
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = { seq: 0, backlog: [], peers: new Map(), streams: new Set() };
+    channels.set(key, channel);
+  }
+  return channel;
+}
+
+function presenceMessage(channel: Channel): Message {
+  return {
+    type: "presence",
+    peers: Array.from(channel.peers.values()).map((entry) => entry.peer),
+  };
+}
+
+function broadcast(channel: Channel, message: Message) {
+  const payload = `data: ${JSON.stringify(message)}\n\n`;
+  channel.streams.forEach((stream) => stream.write(payload));
+}
+
+function record(channel: Channel, message: Message) {
+  channel.seq += 1;
+  const stamped = { ...message, seq: channel.seq };
+  channel.backlog.push(stamped);
+  if (channel.backlog.length > BACKLOG_SIZE) channel.backlog.shift();
+  broadcast(channel, stamped);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function handleStream(
+  channel: Channel,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write("retry: 3000\n\n");
+  res.write(`data: ${JSON.stringify(presenceMessage(channel))}\n\n`);
+  channel.streams.add(res);
+  req.on("close", () => channel.streams.delete(res));
+}
+
+function handlePoll(channel: Channel, url: URL, res: ServerResponse) {
+  // No cursor yet: the client is joining and only needs the current state
+  const since = url.searchParams.get("since");
+  const missed =
+    since === null
+      ? []
+      : channel.backlog.filter((message) => (message.seq ?? 0) > Number(since));
+  sendJson(res, 200, {
+    cursor: channel.seq,
+    messages: [...missed, presenceMessage(channel)],
+  });
+}
+
+async function handlePublish(
+  channel: Channel,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  let message: Message;
+  try {
+    message = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { error: "Invalid JSON" });
+    return;
+  }
+
+  if (message.type === "presence") {
+    const peer = message.peer as Peer | undefined;
+    if (!peer?.client_id) {
+      sendJson(res, 400, { error: "Missing peer" });
+      return;
+    }
+    const known = channel.peers.has(peer.client_id);
+    if (message.state === "leave") {
+      channel.peers.delete(peer.client_id);
+    } else {
+      channel.peers.set(peer.client_id, { peer, seenAt: Date.now() });
+    }
+    // Heartbeats from peers we already know change nothing for the others
+    if (message.state === "leave" || !known) {
+      broadcast(channel, presenceMessage(channel));
+    }
+  } else if (message.type === "changes") {
+    record(channel, { ...message, at: new Date().toISOString() });
+  } else {
+    sendJson(res, 400, { error: "Unknown message type" });
+    return;
+  }
+  sendJson(res, 202, { ok: true });
+}
+
+function expirePeers() {
+  const cutoff = Date.now() - PRESENCE_TTL_MS;
+  channels.forEach((channel) => {
+    let changed = false;
+    channel.peers.forEach((entry, clientId) => {
+      if (entry.seenAt < cutoff) {
+        channel.peers.delete(clientId);
+        changed = true;
+      }
+    });
+    if (changed) broadcast(channel, presenceMessage(channel));
+  });
+}
+
+export function attendanceLiveDevServer(): Plugin {
+  return {
+    name: "attendance-live-dev-server",
+    apply: "serve",
+    configureServer(server) {
+      const sweep = setInterval(expirePeers, 10000);
+      server.httpServer?.on("close", () => clearInterval(sweep));
+
+      server.middlewares.use(MOUNT_PATH, (req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const channel = getChannel(url);
+        if (!channel) {
+          sendJson(res, 400, { error: "event and date are required" });
+          return;
+        }
+        const route = url.pathname.replace(/^\/+|\/+$/g, "");
+        if (route === "stream" && req.method === "GET") {
+          handleStream(channel, req, res);
+        } else if (route === "poll" && req.method === "GET") {
+          handlePoll(channel, url, res);
+        } else if (route === "publish" && req.method === "POST") {
+          handlePublish(channel, req, res).catch((error) => {
+            console.error("[attendance-live] publish failed:", error);
+            sendJson(res, 500, { error: "Publish failed" });
+          });
+        } else {
+          sendJson(res, 404, { error: "Not found" });
+        }
+      });
+    },
+  };
+}
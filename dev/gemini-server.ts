@@ -0,0 +1,169 @@
+/*
+ Development stand-in for the Gemini proxy (netlify/functions/gemini-proxy.ts).
+ - Mounted by the Vite dev server at /__gemini; never part of a build
+ - Answers gemini-proxy with a canned generateContent response so AI features
+   work offline and without a key; no model is called
+ - The reply names the prompt it got, which is enough to check the wiring
+ - Structured requests get placeholder JSON shaped by their schema, taken from
+   generationConfig or, with URL Context on, from the system instruction
+ - No session check or rate limit; set VITE_GEMINI_PROXY_URL to use the real
+   function instead
+*/
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+const MOUNT_PATH = "/__gemini";
+// Roughly what a real call takes, so loading states stay visible
+const RESPONSE_DELAY_MS = 800;
+
+// Same wording as src/services/llm/gemini.ts uses when tools are on
+const SCHEMA_MARKER = "Respond with JSON only, matching this schema:\n";
+
+type Part = { text?: string };
+type Schema = {
+  type?: string;
+  enum?: string[];
+  properties?: Record<string, Schema>;
+  items?: Schema;
+};
+type ProxyRequest = {
+  model?: string;
+  request?: {
+    contents?: Array<{ parts?: Part[] }>;
+    system_instruction?: { parts?: Part[] };
+    generationConfig?: { responseSchema?: Schema };
+  };
+};
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function summarize(parts: Part[] | undefined, max: number): string {
+  const text = (parts ?? [])
+    .map((part) => part.text ?? "")
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function standInReply(payload: ProxyRequest): string {
+  const prompt = summarize(payload.request?.contents?.[0]?.parts, 160);
+  const system = summarize(payload.request?.system_instruction?.parts, 80);
+  return [
+    "**Stand-in response** (development only, no model was called).",
+    "",
+    `- Model requested: ${payload.model ?? "default"}`,
+    system ? `- Instructions: ${system}` : null,
+    `- Prompt: ${prompt || "(empty)"}`,
+    "",
+    "Set VITE_GEMINI_PROXY_URL to reach the real proxy.",
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
+function requestedSchema(payload: ProxyRequest): Schema | null {
+  const configured = payload.request?.generationConfig?.responseSchema;
+  if (configured) return configured;
+  const system = (payload.request?.system_instruction?.parts ?? [])
+    .map((part) => part.text ?? "")
+    .join("\n");
+  const at = system.lastIndexOf(SCHEMA_MARKER);
+  if (at < 0) return null;
+  try {
+    return JSON.parse(system.slice(at + SCHEMA_MARKER.length)) as Schema;
+  } catch {
+    return null;
+  }
+}
+
+function placeholderFor(schema: Schema, name: string): unknown {
+  switch ((schema.type ?? "").toLowerCase()) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          placeholderFor(value, key),
+        ])
+      );
+    case "array":
+      return schema.items ? [placeholderFor(schema.items, name)] : [];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return schema.enum?.[0] ?? `Stand-in ${name}`;
+  }
+}
+
+export function geminiDevServer(): Plugin {
+  return {
+    name: "gemini-dev-server",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(MOUNT_PATH, (req, res) => {
+        const route = (req.url ?? "/").split("?")[0].replace(/^\/+|\/+$/g, "");
+        if (route !== "gemini-proxy" || req.method !== "POST") {
+          sendJson(res, 404, { detail: "Not found" });
+          return;
+        }
+        readBody(req)
+          .then((body) => {
+            let payload: ProxyRequest;
+            try {
+              payload = JSON.parse(body || "{}");
+            } catch {
+              sendJson(res, 400, { detail: "Invalid JSON" });
+              return;
+            }
+            if (!Array.isArray(payload.request?.contents)) {
+              sendJson(res, 400, { detail: "Missing 'request.contents'" });
+              return;
+            }
+            const schema = requestedSchema(payload);
+            const reply = schema
+              ? JSON.stringify(placeholderFor(schema, "value"))
+              : standInReply(payload);
+            // About 4 characters per token, like the mock provider
+            const promptTokenCount = Math.ceil(body.length / 4);
+            const candidatesTokenCount = Math.ceil(reply.length / 4);
+            setTimeout(() => {
+              sendJson(res, 200, {
+                candidates: [
+                  {
+                    content: {
+                      role: "model",
+                      parts: [{ text: reply }],
+                    },
+                    finishReason: "STOP",
+                  },
+                ],
+                usageMetadata: {
+                  promptTokenCount,
+                  candidatesTokenCount,
+                  totalTokenCount: promptTokenCount + candidatesTokenCount,
+                },
+                modelVersion: "stand-in",
+              });
+            }, RESPONSE_DELAY_MS);
+          })
+          .catch(() => sendJson(res, 500, { detail: "Stand-in failed" }));
+      });
+    },
+  };
+}
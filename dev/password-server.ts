@@ -0,0 +1,189 @@
+/*
+ Development stand-in for the password endpoints (src/services/auth.ts).
+ - Mounted by the Vite dev server at /__auth; never part of a build
+ - Opt-in: the app only calls it when VITE_PASSWORD_API_URL=/__auth
+ - password/reset/ prints the reset link to the dev server console instead of
+   sending an email; links expire after RESET_TOKEN_TTL_MS and work once
+ - Edit or reuse a printed link to see the expired-link state
+ - password/change/ remembers the last password set per Authorization header;
+   until one is set any non-empty current password is accepted
+ - State is in memory and lost on restart; errors use DRF's {field: [msgs]}
+*/
+import { randomBytes } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+const MOUNT_PATH = "/__auth";
+const RESET_TOKEN_TTL_MS = 15 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+type ResetToken = { email: string; expiresAt: number };
+
+const resetTokens = new Map<string, ResetToken>();
+const passwords = new Map<string, string>();
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function validateNewPassword(password: string): string[] {
+  const problems: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problems.push(
+      `This password is too short. It must contain at least ${MIN_PASSWORD_LENGTH} characters.`
+    );
+  }
+  if (/^\d+$/.test(password)) {
+    problems.push("This password is entirely numeric.");
+  }
+  return problems;
+}
+
+// Looks up a live token; expired ones are dropped on the way
+function findResetToken(uid: string, token: string): ResetToken | null {
+  const entry = resetTokens.get(token);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    resetTokens.delete(token);
+    return null;
+  }
+  return Buffer.from(uid, "base64url").toString() === entry.email
+    ? entry
+    : null;
+}
+
+const INVALID_TOKEN = { token: ["This link is invalid or has expired."] };
+
+function handleResetRequest(
+  body: Record<string, unknown>,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const email = asString(body.email).trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    sendJson(res, 400, { email: ["Enter a valid email address."] });
+    return;
+  }
+  const token = randomBytes(16).toString("hex");
+  resetTokens.set(token, { email, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+  const uid = Buffer.from(email).toString("base64url");
+  const origin = `http://${req.headers.host ?? "localhost:5173"}`;
+  console.log(
+    `[password] reset link for ${email}: ${origin}/reset-password?uid=${uid}&token=${token}`
+  );
+  // Same answer whether or not the account exists
+  sendJson(res, 200, {
+    detail: "If the account exists, a reset link has been sent.",
+  });
+}
+
+function handleResetValidate(
+  body: Record<string, unknown>,
+  res: ServerResponse
+) {
+  if (!findResetToken(asString(body.uid), asString(body.token))) {
+    sendJson(res, 400, INVALID_TOKEN);
+    return;
+  }
+  sendJson(res, 200, { detail: "Token is valid." });
+}
+
+function handleResetConfirm(
+  body: Record<string, unknown>,
+  res: ServerResponse
+) {
+  const token = asString(body.token);
+  const entry = findResetToken(asString(body.uid), token);
+  if (!entry) {
+    sendJson(res, 400, INVALID_TOKEN);
+    return;
+  }
+  const problems = validateNewPassword(asString(body.new_password));
+  if (problems.length) {
+    sendJson(res, 400, { new_password: problems });
+    return;
+  }
+  resetTokens.delete(token);
+  console.log(`[password] password reset for ${entry.email}`);
+  sendJson(res, 200, { detail: "Password has been reset." });
+}
+
+function handleChange(
+  body: Record<string, unknown>,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const account = req.headers.authorization ?? "anonymous";
+  const current = asString(body.current_password);
+  const next = asString(body.new_password);
+  const known = passwords.get(account);
+  if (!current || (known !== undefined && current !== known)) {
+    sendJson(res, 400, {
+      current_password: ["Your current password was entered incorrectly."],
+    });
+    return;
+  }
+  const problems = validateNewPassword(next);
+  if (next === current) {
+    problems.push("The new password must be different from the current one.");
+  }
+  if (problems.length) {
+    sendJson(res, 400, { new_password: problems });
+    return;
+  }
+  passwords.set(account, next);
+  sendJson(res, 200, { detail: "Password has been changed." });
+}
+
+export function passwordDevServer(): Plugin {
+  return {
+    name: "password-dev-server",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(MOUNT_PATH, (req, res) => {
+        if (req.method !== "POST") {
+          sendJson(res, 405, { detail: "Method not allowed" });
+          return;
+        }
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const route = url.pathname.replace(/^\/+|\/+$/g, "");
+        readJson(req)
+          .then((body) => {
+            if (route === "password/reset") {
+              handleResetRequest(body, req, res);
+            } else if (route === "password/reset/validate") {
+              handleResetValidate(body, res);
+            } else if (route === "password/reset/confirm") {
+              handleResetConfirm(body, res);
+            } else if (route === "password/change") {
+              handleChange(body, req, res);
+            } else {
+              sendJson(res, 404, { detail: "Not found" });
+            }
+          })
+          .catch(() => sendJson(res, 400, { detail: "Invalid JSON" }));
+      });
+    },
+  };
+}
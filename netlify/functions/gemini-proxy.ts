@@ -0,0 +1,119 @@
+// Netlify function: server-side proxy for Gemini generateContent
+// Keeps GEMINI_API_KEY out of the browser bundle. Each request must carry the
+// caller's access token; it's checked against the backend's /me and the user
+// needs a role that uses the AI features (candidate review or form results).
+//
+// Environment:
+// - GEMINI_API_KEY: Google AI Studio key (required)
+// - API_BASE_URL: backend used for the session check; falls back to
+//   VITE_API_BASE_URL, then the production API
+// - GEMINI_RATE_LIMIT_PER_MINUTE: requests per user per minute (default 10)
+//
+// The rate limit lives in memory, so it's per warm function instance: a
+// best-effort brake on runaway clients, not a quota.
+
+import { resolveCapabilities, type PermissionSubject } from "../../src/lib/permissions";
+
+type HandlerEvent = {
+  httpMethod: string;
+  headers?: Record<string, string | undefined>;
+  body?: string | null;
+};
+
+type Handler = (event: HandlerEvent) => Promise<{ statusCode: number; headers?: Record<string, string>; body: string }>;
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+const ALLOWED_MODELS = ["gemini-2.5-flash", "gemini-2.5-pro"];
+const DEFAULT_MODEL = "gemini-2.5-flash";
+const RATE_WINDOW_MS = 60_000;
+
+const apiBaseUrl = (
+  process.env.API_BASE_URL ||
+  process.env.VITE_API_BASE_URL ||
+  "https://tgp.tatweer.dev/api/v1"
+).replace(/\/+$/, "");
+const rateLimit = Number(process.env.GEMINI_RATE_LIMIT_PER_MINUTE) || 10;
+
+// user id -> request timestamps inside the current window
+const recentRequests = new Map<number, number[]>();
+
+function json(statusCode: number, body: unknown, headers: Record<string, string> = {}) {
+  return {
+    statusCode,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  };
+}
+
+// Returns seconds until the caller may retry, or 0 when under the limit
+function takeRateLimitSlot(userId: number): number {
+  const now = Date.now();
+  const recent = (recentRequests.get(userId) ?? []).filter((at) => now - at < RATE_WINDOW_MS);
+  if (recent.length >= rateLimit) {
+    recentRequests.set(userId, recent);
+    return Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000);
+  }
+  recent.push(now);
+  recentRequests.set(userId, recent);
+  return 0;
+}
+
+async function getSessionUser(authorization: string | undefined) {
+  if (!authorization) return null;
+  const res = await fetch(`${apiBaseUrl}/me/`, {
+    headers: { Accept: "application/json", Authorization: authorization },
+  });
+  if (!res.ok) return null;
+  return (await res.json()) as PermissionSubject & { user_id: number };
+}
+
+export const handler: Handler = async (event) => {
+  try {
+    if (event.httpMethod !== "POST") {
+      return { statusCode: 405, body: "Method Not Allowed" };
+    }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      return json(503, { detail: "The AI proxy isn't configured (GEMINI_API_KEY is missing)" });
+    }
+
+    const me = await getSessionUser(event.headers?.authorization);
+    if (!me) {
+      return json(401, { detail: "Sign in to use AI features" });
+    }
+    const capabilities = resolveCapabilities(me);
+    if (!capabilities.has("candidates.read") && !capabilities.has("forms.results")) {
+      return json(403, { detail: "Your role can't use AI features" });
+    }
+
+    const { model = DEFAULT_MODEL, request } = JSON.parse(event.body || "{}");
+    if (!ALLOWED_MODELS.includes(model)) {
+      return json(400, { detail: `Unsupported model '${model}'` });
+    }
+    if (!request || !Array.isArray(request.contents)) {
+      return json(400, { detail: "Missing 'request.contents'" });
+    }
+
+    const retryAfter = takeRateLimitSlot(me.user_id);
+    if (retryAfter > 0) {
+      return json(
+        429,
+        { detail: `Too many AI requests. Try again in ${retryAfter} seconds.` },
+        { "Retry-After": String(retryAfter) }
+      );
+    }
+
+    const res = await fetch(`${GEMINI_API_BASE}/${model}:generateContent`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
+      body: JSON.stringify(request),
+    });
+    const text = await res.text();
+    if (!res.ok) {
+      return json(502, { detail: `Gemini request failed (model=${model}): ${res.status} ${text}` });
+    }
+    return { statusCode: 200, headers: { "Content-Type": "application/json" }, body: text };
+  } catch (err) {
+    return json(500, { detail: (err instanceof Error && err.message) || "Unexpected error" });
+  }
+};
@@ -16,14 +16,51 @@ import {
   IconClock,
   IconCheck,
   IconCoffee,
+  IconHistory,
+  IconMessageReport,
   IconX,
 } from "@tabler/icons-react";
-import type { AttendanceLog, AttendanceEvent } from "@/lib/api";
+import {
+  attendanceRangeToLogs,
+  getAttendanceRange,
+  type AttendanceLog,
+  type AttendanceEvent,
+} from "@/lib/api";
+import {
+  ATTENDANCE_POLICY_STATUSES,
+  applyWeeklyBreakLimit,
+  classifyAttendance,
+  countAttendanceStatuses,
+} from "@/lib/attendance-policy";
+import { lastNDays, todayIsoDate } from "@/lib/date-range";
+import {
+  calculateDurationMs,
+  extractBreakInfo,
+  formatDurationFromMs,
+  parseDateValue,
+  type BreakIntervalEntry,
+} from "@/lib/attendance-breaks";
+import { useAttendancePolicies } from "@/hooks/useAttendancePolicies";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import { AttendancePolicyBadge } from "@/components/AttendanceStatusBadge";
+import {
+  AttendanceRequestDialog,
+  type AttendanceRequestTarget,
+} from "@/components/AttendanceRequestDialog";
+import { AttendanceLogHistoryDialog } from "@/components/AttendanceLogHistoryDialog";
+import { AttendanceCalendarHeatmap } from "@/components/AttendanceCalendarHeatmap";
+import { buildCalendarDays } from "@/lib/attendance-calendar";
+import { useExcusedDates } from "@/hooks/useExcusedDates";
+import { useProgramDates } from "@/hooks/useProgramDates";
+import { useQuery } from "@/hooks/useQuery";
+import { queryKeys } from "@/lib/query-keys";
 import { Loader } from "@/components/ui/loader";
 
 interface AttendanceBreakdownProps {
   userId: string;
   className?: string;
+  // Trainee's track, used to pick the attendance policy
+  track?: string | null;
   attendanceLog?: {
     attendance_days: number;
     absent_days: number;
@@ -87,13 +124,6 @@ interface AttendanceDay {
   }>;
 }
 
-type BreakIntervalEntry = {
-  start: string;
-  end: string | null;
-  durationLabel?: string | null;
-  durationMs?: number | null;
-};
-
 type BreakEntry = {
   date: string;
   eventTitle: string;
@@ -117,13 +147,26 @@ type FlaggedBreakDay = {
   notes?: string | null;
 };
 
-const WEEK_BREAK_LIMIT_HOURS = 4;
+// History window used when the user detail payload has no attendance_log
+const FALLBACK_RANGE_DAYS = 30;
 
 export function AttendanceBreakdown({
   userId,
   className,
+  track,
   attendanceLog,
 }: AttendanceBreakdownProps) {
+  const { getPolicy } = useAttendancePolicies();
+  const policy = useMemo(() => getPolicy(track), [getPolicy, track]);
+  // Trainees viewing their own breakdown can dispute a day from here
+  const { isTrainee } = useUserGroups();
+  const [requestTarget, setRequestTarget] =
+    useState<AttendanceRequestTarget | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<{
+    eventId: number;
+    eventTitle: string;
+    date: string;
+  } | null>(null);
   const [attendanceLogs, setAttendanceLogs] = useState<AttendanceLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -173,6 +216,98 @@ export function AttendanceBreakdown({
     };
   }, [breakEntries]);
 
+  const weekBreakLimitLabel =
+    formatDecimalHours(policy.max_break_minutes_per_week / 60) ?? "-";
+
+  // Policy status of every attended event, newest day first. The weekly
+  // break cap is applied across all events before regrouping by day.
+  const classifiedDays = useMemo(() => {
+    const classifiedEvents = applyWeeklyBreakLimit(
+      attendanceDays.flatMap((day) =>
+        day.events.map((event) => ({
+          date: day.date,
+          eventId: event.eventId,
+          eventTitle: event.eventTitle,
+          checkInTime: event.checkInTime,
+          checkOutTime: event.checkOutTime,
+          classification: classifyAttendance(
+            {
+              checkIn: event.checkInTime,
+              checkOut: event.checkOutTime,
+              eventStart: event.startTime,
+              eventEnd: event.endTime,
+              breakMinutes:
+                (event.breaks ?? []).reduce(
+                  (sum, interval) => sum + (interval.durationMs ?? 0),
+                  0
+                ) / 60000,
+            },
+            policy
+          ),
+        }))
+      ),
+      policy
+    );
+    return attendanceDays
+      .map((day) => ({
+        date: day.date,
+        events: classifiedEvents.filter((event) => event.date === day.date),
+      }))
+      .reverse();
+  }, [attendanceDays, policy]);
+
+  // Without the backend's attendance_log, a recent range stands in (below)
+  const hasBackendLog = Boolean(
+    attendanceLog && Array.isArray(attendanceLog.events)
+  );
+  const fallbackParams = useMemo(
+    () => ({ ...lastNDays(FALLBACK_RANGE_DAYS), user: userId }),
+    [userId]
+  );
+
+  const excusedDates = useExcusedDates({ traineeId: userId });
+  const programDates = useProgramDates(track);
+  const calendarDays = useMemo(
+    () =>
+      buildCalendarDays(attendanceDays, {
+        excusedDates,
+        // The fallback range is recent only; older program days are unknown
+        programDates: hasBackendLog
+          ? programDates
+          : programDates.filter((date) => date >= fallbackParams.from),
+        today: todayIsoDate(),
+        flaggedDates: [
+          ...flaggedBreakDays.map((entry) => entry.date),
+          ...classifiedDays
+            .filter((day) =>
+              day.events.some((event) =>
+                event.classification.statuses.includes("over_break")
+              )
+            )
+            .map((day) => day.date),
+        ],
+      }),
+    [
+      attendanceDays,
+      excusedDates,
+      programDates,
+      hasBackendLog,
+      fallbackParams,
+      flaggedBreakDays,
+      classifiedDays,
+    ]
+  );
+
+  const policyCounts = useMemo(
+    () =>
+      countAttendanceStatuses(
+        classifiedDays.flatMap((day) =>
+          day.events.map((event) => event.classification)
+        )
+      ),
+    [classifiedDays]
+  );
+
   const totalBreakHoursLabel =
     formatDecimalHours(normalizeHoursValue(attendanceLog?.total_break_hours)) ??
     breakStats.totalLabel;
@@ -242,34 +377,33 @@ export function AttendanceBreakdown({
     }
   }, [selectedWeek, weekOptions]);
 
-  useEffect(() => {
-    const hydrateFromBackend = () => {
-      if (attendanceLog && Array.isArray(attendanceLog.events)) {
-        // Process the new event-based structure
-        processNewAttendanceData(attendanceLog);
-        setIsLoading(false);
-        return true;
-      }
-      return false;
-    };
+  // Fallback: one range request when the backend sent no attendance_log.
+  // Subscribed through useQuery so edits that invalidate ranges refresh it.
+  const fallbackRange = useQuery(
+    queryKeys.attendanceRange(fallbackParams),
+    () => getAttendanceRange(fallbackParams),
+    { enabled: !hasBackendLog }
+  );
 
-    setIsLoading(true);
-    if (hydrateFromBackend()) return;
-
-    // Fallback: derive from overview if backend did not send attendance_log
-    (async () => {
-      try {
-        const { getUserAttendanceFromOverview } = await import("@/lib/api");
-        const logs = await getUserAttendanceFromOverview(userId);
-        setAttendanceLogs(logs);
-        processAttendanceData(logs);
-      } catch (error) {
-        console.error("Failed to fetch attendance data:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    })();
-  }, [userId, attendanceLog]);
+  useEffect(() => {
+    if (attendanceLog && Array.isArray(attendanceLog.events)) {
+      // Process the new event-based structure
+      processNewAttendanceData(attendanceLog);
+      setIsLoading(false);
+      return;
+    }
+    if (fallbackRange.data) {
+      const logs = attendanceRangeToLogs(fallbackRange.data, userId);
+      setAttendanceLogs(logs);
+      processAttendanceData(logs);
+      setIsLoading(false);
+    } else if (fallbackRange.error) {
+      console.error("Failed to fetch attendance data:", fallbackRange.error);
+      setIsLoading(false);
+    } else {
+      setIsLoading(true);
+    }
+  }, [userId, attendanceLog, fallbackRange.data, fallbackRange.error]);
 
   const processNewAttendanceData = (
     attendanceLog: NonNullable<AttendanceBreakdownProps["attendanceLog"]>
@@ -593,128 +727,6 @@ export function AttendanceBreakdown({
     });
   };
 
-  const extractBreakInfo = (
-    source?:
-      | {
-          break_intervals?: Array<{ start: string; end: string | null }>;
-          break_time?: string | null;
-          break_accumulated?: string | null;
-        }
-      | undefined
-  ): {
-    intervals: BreakIntervalEntry[];
-    totalLabel: string | null;
-    totalMs: number | null;
-  } | null => {
-    if (!source) return null;
-    const rawIntervals = source.break_intervals ?? [];
-    const intervals = rawIntervals.map((interval) => {
-      const durationMs =
-        interval.end != null
-          ? calculateDurationMs(interval.start, interval.end)
-          : null;
-      return {
-        start: interval.start,
-        end: interval.end,
-        durationLabel:
-          durationMs != null ? formatDurationFromMs(durationMs) : null,
-        durationMs,
-      };
-    });
-
-    const totalFromSource = formatClockDuration(
-      source.break_time ?? source.break_accumulated ?? null
-    );
-    if (intervals.length === 0 && !totalFromSource) {
-      return null;
-    }
-
-    const totalMsFromSource = parseClockDurationToMs(
-      source.break_time ?? source.break_accumulated ?? null
-    );
-    const summedMs = rawIntervals.reduce((sum, interval) => {
-      const diff = interval.end
-        ? calculateDurationMs(interval.start, interval.end)
-        : null;
-      return sum + (diff ?? 0);
-    }, 0);
-
-    const effectiveTotalMs =
-      totalMsFromSource != null && totalMsFromSource > 0
-        ? totalMsFromSource
-        : summedMs;
-
-    const totalLabel =
-      totalFromSource ??
-      (effectiveTotalMs > 0 ? formatDurationFromMs(effectiveTotalMs) : null);
-
-    return {
-      intervals,
-      totalLabel: totalLabel ?? null,
-      totalMs: effectiveTotalMs > 0 ? effectiveTotalMs : null,
-    };
-  };
-
-  const formatClockDuration = (value: string | null): string | null => {
-    if (!value) return null;
-    const parts = value.split(":").map((part) => Number(part));
-    if (parts.some((part) => Number.isNaN(part))) {
-      return value;
-    }
-    const [hours, minutes, seconds] = [
-      parts[0] ?? 0,
-      parts[1] ?? 0,
-      parts[2] ?? 0,
-    ];
-    const totalMs =
-      hours * 60 * 60 * 1000 + minutes * 60 * 1000 + seconds * 1000;
-    return formatDurationFromMs(totalMs) ?? value;
-  };
-
-  const parseClockDurationToMs = (value: string | null): number | null => {
-    if (!value) return null;
-    const parts = value.split(":").map((part) => Number(part));
-    if (parts.some((part) => Number.isNaN(part))) {
-      return null;
-    }
-    const [hours, minutes, seconds] = [
-      parts[0] ?? 0,
-      parts[1] ?? 0,
-      parts[2] ?? 0,
-    ];
-    return hours * 60 * 60 * 1000 + minutes * 60 * 1000 + seconds * 1000;
-  };
-
-  const calculateDurationMs = (
-    startValue: string,
-    endValue: string | null
-  ): number | null => {
-    if (!startValue || !endValue) return null;
-    const start = parseDateValue(startValue);
-    const end = parseDateValue(endValue);
-    if (!start || !end) return null;
-    const diff = end.getTime() - start.getTime();
-    return diff > 0 ? diff : null;
-  };
-
-  const formatDurationFromMs = (diffMs: number): string | null => {
-    if (!Number.isFinite(diffMs) || diffMs <= 0) return null;
-    const hours = Math.floor(diffMs / (1000 * 60 * 60));
-    const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-    if (hours === 0 && minutes === 0) return "Less than 1m";
-    if (hours === 0) return `${minutes}m`;
-    if (minutes === 0) return `${hours}h`;
-    return `${hours}h ${minutes}m`;
-  };
-
-  function parseDateValue(value: string | null | undefined): Date | null {
-    if (!value) return null;
-    const direct = new Date(value);
-    if (!isNaN(direct.getTime())) return direct;
-    const fallback = new Date(`2000-01-01T${value}`);
-    return isNaN(fallback.getTime()) ? null : fallback;
-  }
-
   const getSortableTime = (value?: string | null): number => {
     const parsed = parseDateValue(value);
     return parsed ? parsed.getTime() : 0;
@@ -846,6 +858,17 @@ export function AttendanceBreakdown({
           </div>
         </div>
 
+        {/* Calendar heatmap */}
+        {calendarDays.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <IconCalendar className="size-4" />
+              Attendance Calendar
+            </div>
+            <AttendanceCalendarHeatmap days={calendarDays} />
+          </div>
+        )}
+
         {/* Break summaries */}
         {breakEntries.length > 0 && (
           <div className="space-y-3">
@@ -968,7 +991,7 @@ export function AttendanceBreakdown({
                         : selectedWeekLabel || "-"}{" "}
                       {selectedWeek !== "all" && (
                         <span className="text-muted-foreground text-xs">
-                          / {WEEK_BREAK_LIMIT_HOURS}h target
+                          / {weekBreakLimitLabel} target
                         </span>
                       )}
                     </div>
@@ -1042,6 +1065,21 @@ export function AttendanceBreakdown({
                           </div>
                         </div>
                         <div className="inline-flex items-center gap-2 text-xs">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-6"
+                            title="Change history"
+                            onClick={() =>
+                              setHistoryTarget({
+                                eventId: entry.eventId,
+                                eventTitle: entry.eventTitle,
+                                date: entry.date,
+                              })
+                            }
+                          >
+                            <IconHistory className="size-3.5" />
+                          </Button>
                           {entry.type && (
                             <Badge
                               variant="destructive"
@@ -1135,6 +1173,93 @@ export function AttendanceBreakdown({
           )}
         </div>
 
+        {/* Policy classification */}
+        {classifiedDays.length > 0 && (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-muted-foreground">
+              Attendance Policy
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {ATTENDANCE_POLICY_STATUSES.filter(
+                (status) => policyCounts[status] > 0
+              ).map((status) => (
+                <span key={status} className="inline-flex items-center gap-1">
+                  <AttendancePolicyBadge status={status} />
+                  <span className="text-sm font-semibold">
+                    {policyCounts[status]}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+              {classifiedDays.slice(0, 10).map((day) =>
+                day.events.map((event) => (
+                  <div
+                    key={`${day.date}-${event.eventId}`}
+                    className="flex items-center justify-between gap-2 border rounded-md px-3 py-2 text-xs"
+                  >
+                    <div>
+                      <span className="font-medium">{formatDate(day.date)}</span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        • {event.eventTitle}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-end gap-1">
+                      {event.classification.statuses.map((status) => (
+                        <AttendancePolicyBadge
+                          key={status}
+                          status={status}
+                          minutes={
+                            status === "late"
+                              ? event.classification.lateMinutes
+                              : status === "early_leave"
+                                ? event.classification.earlyLeaveMinutes
+                                : undefined
+                          }
+                        />
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        title="Change history"
+                        onClick={() =>
+                          setHistoryTarget({
+                            eventId: event.eventId,
+                            eventTitle: event.eventTitle,
+                            date: day.date,
+                          })
+                        }
+                      >
+                        <IconHistory className="size-3.5" />
+                      </Button>
+                      {isTrainee && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="size-6"
+                          title="Request a correction"
+                          onClick={() =>
+                            setRequestTarget({
+                              event: event.eventId,
+                              attendanceDate: day.date,
+                              checkInTime: event.checkInTime,
+                              checkOutTime: event.checkOutTime,
+                            })
+                          }
+                        >
+                          <IconMessageReport className="size-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Attendance Trend Visualization */}
         {attendanceDays.length > 0 && (
           <div className="space-y-4">
@@ -1190,6 +1315,35 @@ export function AttendanceBreakdown({
           </div>
         )}
       </CardContent>
+      <AttendanceLogHistoryDialog
+        open={historyTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setHistoryTarget(null);
+        }}
+        logRef={
+          historyTarget
+            ? {
+                candidate_id: Number(userId),
+                event: historyTarget.eventId,
+                attendance_date: historyTarget.date,
+              }
+            : null
+        }
+        subtitle={
+          historyTarget
+            ? `${historyTarget.eventTitle} • ${formatDate(historyTarget.date)}`
+            : undefined
+        }
+      />
+      {isTrainee && (
+        <AttendanceRequestDialog
+          open={requestTarget !== null}
+          onOpenChange={(open) => {
+            if (!open) setRequestTarget(null);
+          }}
+          target={requestTarget}
+        />
+      )}
     </Card>
   );
 }
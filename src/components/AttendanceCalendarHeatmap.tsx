@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IconFlame, IconTrophy, IconX } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { parseDateValue } from "@/lib/attendance-breaks";
+import {
+  ATTENDANCE_CALENDAR_STATUSES,
+  buildCalendarWeeks,
+  computeAttendanceStreaks,
+  type AttendanceCalendarDay,
+  type AttendanceCalendarStatus,
+} from "@/lib/attendance-calendar";
+import { addDays, todayIsoDate } from "@/lib/date-range";
+import { cn } from "@/lib/utils";
+
+const STATUS_COLORS: Record<AttendanceCalendarStatus, string> = {
+  present: "bg-green-500 dark:bg-green-500/80",
+  partial: "bg-amber-400 dark:bg-amber-400/80",
+  flagged: "bg-purple-500 dark:bg-purple-400/80",
+  excused: "bg-sky-400 dark:bg-sky-400/80",
+  absent: "bg-red-400 dark:bg-red-500/70",
+};
+
+const STATUS_LABELS: Record<AttendanceCalendarStatus, string> = {
+  present: "Present",
+  partial: "Partial",
+  flagged: "Flagged break",
+  excused: "Excused",
+  absent: "Absent",
+};
+
+// Short programs still get a readable grid
+const MIN_WEEKS = 12;
+
+function formatTime(value?: string | null): string {
+  if (!value) return "-";
+  const parsed = parseDateValue(value);
+  if (!parsed) return value;
+  return parsed.toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+type AttendanceCalendarHeatmapProps = {
+  days: AttendanceCalendarDay[];
+  className?: string;
+};
+
+/**
+ * Whole-program attendance calendar, one cell per day in week columns.
+ * Clicking a day shows its events and break intervals underneath.
+ */
+export function AttendanceCalendarHeatmap({
+  days,
+  className,
+}: AttendanceCalendarHeatmapProps) {
+  const { t, i18n } = useTranslation();
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const today = todayIsoDate();
+
+  const daysByDate = useMemo(
+    () => new Map(days.map((day) => [day.date, day])),
+    [days]
+  );
+  const streaks = useMemo(
+    () => computeAttendanceStreaks(days, today),
+    [days, today]
+  );
+  const weeks = useMemo(() => {
+    const lastDate = days[days.length - 1]?.date;
+    const to = lastDate && lastDate > today ? lastDate : today;
+    const earliest = addDays(to, -(MIN_WEEKS * 7 - 1));
+    const from = days[0] && days[0].date < earliest ? days[0].date : earliest;
+    return buildCalendarWeeks(from, to);
+  }, [days, today]);
+
+  // Open on the most recent weeks
+  useEffect(() => {
+    const node = scrollRef.current;
+    if (node) node.scrollLeft = node.scrollWidth;
+  }, [weeks]);
+
+  const statusLabel = (status: AttendanceCalendarStatus) =>
+    t(`pages.attendanceCalendar.status.${status}`, {
+      defaultValue: STATUS_LABELS[status],
+    });
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(i18n.language, {
+      ...options,
+      timeZone: "UTC",
+    });
+
+  const selectedDay = selectedDate ? daysByDate.get(selectedDate) : null;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-4 text-sm">
+          <span className="flex items-center gap-1.5">
+            <IconFlame className="size-4 text-orange-500" />
+            {t("pages.attendanceCalendar.currentStreak", {
+              count: streaks.current,
+              defaultValue: "Current streak: {{count}} days",
+            })}
+          </span>
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <IconTrophy className="size-4 text-amber-500" />
+            {t("pages.attendanceCalendar.longestStreak", {
+              count: streaks.longest,
+              defaultValue: "Longest: {{count}} days",
+            })}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {ATTENDANCE_CALENDAR_STATUSES.map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <span
+                className={cn("size-2.5 rounded-sm", STATUS_COLORS[status])}
+              />
+              {statusLabel(status)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Time runs left to right in both languages, like a timeline */}
+      <div ref={scrollRef} dir="ltr" className="overflow-x-auto pb-1">
+        <div className="inline-flex gap-[3px]">
+          {weeks.map((week) => {
+            const firstDate = week.find(Boolean);
+            const startsMonth = week.some(
+              (date) => date && date.endsWith("-01")
+            );
+            return (
+              <div key={firstDate} className="flex flex-col gap-[3px]">
+                <div className="h-4 text-[10px] leading-4 text-muted-foreground whitespace-nowrap">
+                  {startsMonth &&
+                    formatDay(
+                      week.find((date) => date?.endsWith("-01"))!,
+                      { month: "short" }
+                    )}
+                </div>
+                {week.map((date, index) => {
+                  if (!date) {
+                    return <div key={index} className="size-3" />;
+                  }
+                  const day = daysByDate.get(date);
+                  const label = `${formatDay(date, {
+                    weekday: "short",
+                    month: "short",
+                    day: "numeric",
+                  })}: ${
+                    day
+                      ? statusLabel(day.status)
+                      : t("pages.attendanceCalendar.noSession", {
+                          defaultValue: "No session",
+                        })
+                  }`;
+                  return (
+                    <button
+                      key={date}
+                      type="button"
+                      title={label}
+                      aria-label={label}
+                      disabled={!day}
+                      onClick={() =>
+                        setSelectedDate((current) =>
+                          current === date ? null : date
+                        )
+                      }
+                      className={cn(
+                        "size-3 rounded-sm",
+                        day ? STATUS_COLORS[day.status] : "bg-muted",
+                        day &&
+                          "cursor-pointer hover:ring-1 hover:ring-foreground/40",
+                        date === today && "ring-1 ring-foreground/60",
+                        date === selectedDate &&
+                          "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                      )}
+                    />
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedDay && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span
+                className={cn(
+                  "size-3 rounded-sm",
+                  STATUS_COLORS[selectedDay.status]
+                )}
+              />
+              <span className="font-medium">
+                {formatDay(selectedDay.date, {
+                  weekday: "long",
+                  year: "numeric",
+                  month: "long",
+                  day: "numeric",
+                })}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {statusLabel(selectedDay.status)}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              onClick={() => setSelectedDate(null)}
+              aria-label={t("common.buttons.close", { defaultValue: "Close" })}
+            >
+              <IconX className="size-4" />
+            </Button>
+          </div>
+          {selectedDay.events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t("pages.attendanceCalendar.noEvents", {
+                defaultValue: "No attendance recorded for this day.",
+              })}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {selectedDay.events.map((event, index) => (
+                <div
+                  key={`${event.eventId}-${index}`}
+                  className="rounded-md bg-muted/50 p-3 space-y-1 text-sm"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium">{event.eventTitle}</span>
+                    <span className="text-muted-foreground">
+                      {event.checkInTime
+                        ? `${formatTime(event.checkInTime)} – ${formatTime(
+                            event.checkOutTime
+                          )}`
+                        : statusLabel("absent")}
+                    </span>
+                  </div>
+                  {(event.breaks ?? []).length > 0 && (
+                    <div className="space-y-0.5 text-xs text-muted-foreground">
+                      {(event.breaks ?? []).map((interval, breakIndex) => (
+                        <div
+                          key={`${interval.start}-${breakIndex}`}
+                          className="flex items-center justify-between"
+                        >
+                          <span>
+                            {t("pages.attendanceCalendar.break", {
+                              defaultValue: "Break",
+                            })}{" "}
+                            {formatTime(interval.start)} –{" "}
+                            {interval.end
+                              ? formatTime(interval.end)
+                              : t("pages.attendanceCalendar.ongoing", {
+                                  defaultValue: "Ongoing",
+                                })}
+                          </span>
+                          {interval.durationLabel && (
+                            <span className="font-medium text-foreground/70">
+                              {interval.durationLabel}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useTranslation } from "react-i18next";
+import { ConsistentAvatar } from "@/components/ui/consistent-avatar";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type {
+  AttendanceLivePeer,
+  AttendanceLiveStatus,
+} from "@/lib/attendance-live";
+import { cn } from "@/lib/utils";
+
+const MAX_AVATARS = 4;
+
+const STATUS_DOT: Record<AttendanceLiveStatus, string> = {
+  live: "bg-green-500",
+  connecting: "bg-amber-400 animate-pulse",
+  offline: "bg-muted-foreground/50",
+};
+
+type AttendanceLivePresenceProps = {
+  status: AttendanceLiveStatus;
+  peers: AttendanceLivePeer[];
+};
+
+// Connection state plus the other trackers on the same event and date
+export function AttendanceLivePresence({
+  status,
+  peers,
+}: AttendanceLivePresenceProps) {
+  const { t } = useTranslation();
+  const statusLabel = {
+    live: t("pages.attendance.live.status.live", { defaultValue: "Live" }),
+    connecting: t("pages.attendance.live.status.connecting", {
+      defaultValue: "Connecting…",
+    }),
+    offline: t("pages.attendance.live.status.offline", {
+      defaultValue: "Live updates off",
+    }),
+  }[status];
+  const visiblePeers = peers.slice(0, MAX_AVATARS);
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span className="flex items-center gap-1.5">
+        <span className={cn("size-2 rounded-full", STATUS_DOT[status])} />
+        {statusLabel}
+      </span>
+      {peers.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="flex items-center -space-x-2 cursor-default">
+              {visiblePeers.map((peer) => (
+                <ConsistentAvatar
+                  key={peer.client_id}
+                  user={{ name: peer.name, email: peer.email }}
+                  className="size-6 border-2 border-background"
+                  fallbackClassName="text-[10px]"
+                />
+              ))}
+              {peers.length > MAX_AVATARS && (
+                <span className="ms-3">+{peers.length - MAX_AVATARS}</span>
+              )}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            <div className="space-y-0.5">
+              <div className="font-medium">
+                {t("pages.attendance.live.alsoHere", {
+                  defaultValue: "Also tracking this event",
+                })}
+              </div>
+              {peers.map((peer) => (
+                <div key={peer.client_id}>{peer.name}</div>
+              ))}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useTranslation } from "react-i18next";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Loader } from "@/components/ui/loader";
+import { useQuery } from "@/hooks/useQuery";
+import {
+  getAttendanceLogHistory,
+  type AttendanceChangeSource,
+  type AttendanceLogHistoryEntry,
+  type AttendanceLogRef,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { queryKeys } from "@/lib/query-keys";
+
+type AttendanceLogHistoryDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  logRef: AttendanceLogRef | null;
+  // Shown under the title, e.g. "Jane Doe • 2025-03-02"
+  subtitle?: string;
+};
+
+const SOURCE_LABELS: Record<AttendanceChangeSource, string> = {
+  manual: "Manual",
+  bulk: "Bulk",
+  qr: "QR",
+  correction: "Correction",
+  kiosk: "Kiosk",
+};
+
+const ACTION_LABELS: Record<AttendanceLogHistoryEntry["action"], string> = {
+  created: "created the record",
+  updated: "updated",
+  deleted: "deleted the record",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  check_in_time: "Check-in",
+  check_out_time: "Check-out",
+  break_start_time: "Break start",
+  break_end_time: "Break end",
+  notes: "Notes",
+};
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/** Audit trail of one attendance log, newest change first. */
+export function AttendanceLogHistoryDialog({
+  open,
+  onOpenChange,
+  logRef,
+  subtitle,
+}: AttendanceLogHistoryDialogProps) {
+  const { t } = useTranslation();
+  const historyQuery = useQuery(
+    queryKeys.attendanceLogHistory(logRef ?? {}),
+    () => getAttendanceLogHistory(logRef!),
+    // Always refetch on open: the log may have just been edited
+    { enabled: open && logRef !== null, staleTime: 0 }
+  );
+  const entries = [...(historyQuery.data ?? [])].sort((a, b) =>
+    b.at.localeCompare(a.at)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg space-y-4">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">
+            {t("pages.attendance.history.title", {
+              defaultValue: "Change history",
+            })}
+          </DialogTitle>
+          {subtitle && (
+            <DialogDescription className="text-sm text-muted-foreground">
+              {subtitle}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {historyQuery.isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader />
+          </div>
+        ) : historyQuery.error ? (
+          <p className="text-sm text-destructive">
+            {getErrorMessage(historyQuery.error, "Failed to load history")}
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("pages.attendance.history.empty", {
+              defaultValue: "No changes recorded for this log.",
+            })}
+          </p>
+        ) : (
+          <ol className="space-y-3 border-s ps-4 max-h-96 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} className="text-sm space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">
+                    {entry.actor?.name ??
+                      t("pages.attendance.history.system", {
+                        defaultValue: "System",
+                      })}
+                  </span>
+                  <span>
+                    {t(`pages.attendance.history.actions.${entry.action}`, {
+                      defaultValue: ACTION_LABELS[entry.action],
+                    })}
+                  </span>
+                  <Badge variant="outline" className="text-[10px]">
+                    {t(`pages.attendance.history.sources.${entry.source}`, {
+                      defaultValue: SOURCE_LABELS[entry.source] ?? entry.source,
+                    })}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatTimestamp(entry.at)}
+                </div>
+                {Object.entries(entry.changes).map(([field, change]) => (
+                  <div
+                    key={field}
+                    className="text-xs tabular-nums grid grid-cols-[6rem_1fr] gap-2"
+                  >
+                    <span className="text-muted-foreground">
+                      {t(`pages.attendance.history.fields.${field}`, {
+                        defaultValue: FIELD_LABELS[field] ?? field,
+                      })}
+                    </span>
+                    <span className="break-words">
+                      <span className="line-through text-muted-foreground">
+                        {change.from || "—"}
+                      </span>{" "}
+                      → {change.to || "—"}
+                    </span>
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { FieldError } from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAttendancePolicies } from "@/hooks/useAttendancePolicies";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
+import { saveAttendancePolicy, type AttendancePolicy } from "@/lib/api";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+
+type AttendancePolicyDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tracks: string[];
+};
+
+// Select value standing in for the track-less default record
+const DEFAULT_TRACK = "__default__";
+
+const POLICY_FIELDS: Array<{
+  name: keyof AttendancePolicy;
+  label: string;
+  hint: string;
+}> = [
+  {
+    name: "grace_minutes",
+    label: "Grace period",
+    hint: "Minutes after the start that still count as on time",
+  },
+  {
+    name: "late_threshold_minutes",
+    label: "Late threshold",
+    hint: "Arriving later than this counts as an absence",
+  },
+  {
+    name: "early_leave_minutes",
+    label: "Early leave",
+    hint: "Leaving more than this before the end is flagged",
+  },
+  {
+    name: "max_break_minutes_per_day",
+    label: "Max break per day",
+    hint: "Total break minutes allowed in one day",
+  },
+  {
+    name: "max_break_minutes_per_week",
+    label: "Max break per week",
+    hint: "Total break minutes allowed in one week",
+  },
+];
+
+export function AttendancePolicyDialog({
+  open,
+  onOpenChange,
+  tracks,
+}: AttendancePolicyDialogProps) {
+  const { t } = useTranslation();
+  const { getPolicy } = useAttendancePolicies();
+  const fieldErrors = useFieldErrors();
+  const { resetFieldErrors } = fieldErrors;
+  const [track, setTrack] = useState(DEFAULT_TRACK);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the effective policy whenever the dialog opens or the track changes
+  useEffect(() => {
+    if (!open) return;
+    const policy = getPolicy(track === DEFAULT_TRACK ? null : track);
+    setValues(
+      Object.fromEntries(
+        POLICY_FIELDS.map((field) => [field.name, String(policy[field.name])])
+      )
+    );
+    resetFieldErrors();
+  }, [open, track, getPolicy, resetFieldErrors]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const policy = Object.fromEntries(
+        POLICY_FIELDS.map((field) => [field.name, Number(values[field.name])])
+      ) as AttendancePolicy;
+      await saveAttendancePolicy({
+        ...policy,
+        track: track === DEFAULT_TRACK ? null : track,
+      });
+      toast.success(
+        t("pages.attendance.policy.saved", {
+          defaultValue: "Attendance policy saved",
+        })
+      );
+      onOpenChange(false);
+    } catch (error) {
+      const unmapped = fieldErrors.applyError(error);
+      if (unmapped === null && error instanceof ValidationError) {
+        toast.error("Please fix the highlighted fields");
+      } else {
+        toast.error(
+          unmapped ?? getErrorMessage(error, "Failed to save attendance policy")
+        );
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg space-y-4">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">
+            {t("pages.attendance.policy.title", {
+              defaultValue: "Attendance policy",
+            })}
+          </DialogTitle>
+          <DialogDescription className="text-sm text-muted-foreground">
+            {t("pages.attendance.policy.description", {
+              defaultValue:
+                "Tracks without their own policy use the default policy.",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>
+            {t("pages.attendance.policy.track", { defaultValue: "Track" })}
+          </Label>
+          <Select value={track} onValueChange={setTrack}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_TRACK}>
+                {t("pages.attendance.policy.defaultTrack", {
+                  defaultValue: "Default (all tracks)",
+                })}
+              </SelectItem>
+              {tracks.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {POLICY_FIELDS.map((field) => (
+            <div key={field.name} className="space-y-1">
+              <Label htmlFor={`policy-${field.name}`}>
+                {t(`pages.attendance.policy.fields.${field.name}`, {
+                  defaultValue: field.label,
+                })}
+              </Label>
+              <Input
+                id={`policy-${field.name}`}
+                type="number"
+                min={0}
+                value={values[field.name] ?? ""}
+                aria-invalid={Boolean(fieldErrors.getFieldError(field.name))}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setValues((prev) => ({ ...prev, [field.name]: value }));
+                  fieldErrors.clearFieldError(field.name);
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t(`pages.attendance.policy.hints.${field.name}`, {
+                  defaultValue: field.hint,
+                })}
+              </p>
+              <FieldError errors={fieldErrors.getFieldErrorItems(field.name)} />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            {t("common.buttons.cancel", { defaultValue: "Cancel" })}
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <span className="flex items-center gap-2">
+                <Loader className="size-4" />
+                Saving…
+              </span>
+            ) : (
+              t("common.buttons.save", { defaultValue: "Save" })
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Textarea } from "@/components/ui/textarea";
+import { FieldError } from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
+import { useQuery } from "@/hooks/useQuery";
+import {
+  createAttendanceRequest,
+  getEvents,
+  type AttendanceRequestType,
+} from "@/lib/api";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+import { todayIsoDate } from "@/lib/date-range";
+import { queryKeys } from "@/lib/query-keys";
+
+// The log the request is about, when opened from a specific day
+export type AttendanceRequestTarget = {
+  event?: number | null;
+  attendanceDate?: string | null;
+  checkInTime?: string | null;
+  checkOutTime?: string | null;
+};
+
+type AttendanceRequestDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target?: AttendanceRequestTarget | null;
+  onSubmitted?: () => void;
+};
+
+// "HH:MM:SS" -> "HH:MM" for <input type="time">
+function toTimeInput(value?: string | null): string {
+  return value ? value.slice(0, 5) : "";
+}
+
+export function AttendanceRequestDialog({
+  open,
+  onOpenChange,
+  target,
+  onSubmitted,
+}: AttendanceRequestDialogProps) {
+  const { t } = useTranslation();
+  const fieldErrors = useFieldErrors();
+  const { resetFieldErrors } = fieldErrors;
+  const eventsQuery = useQuery(queryKeys.attendanceEvents(), getEvents, {
+    enabled: open,
+  });
+
+  const [type, setType] = useState<AttendanceRequestType>("correction");
+  const [event, setEvent] = useState("");
+  const [date, setDate] = useState(todayIsoDate);
+  const [reason, setReason] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [checkIn, setCheckIn] = useState("");
+  const [checkOut, setCheckOut] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    // Absent days can only be excused; logged days are usually disputed
+    setType(target && !target.checkInTime ? "excuse" : "correction");
+    setEvent(target?.event ? String(target.event) : "");
+    setDate(target?.attendanceDate ?? todayIsoDate());
+    setReason("");
+    setAttachment(null);
+    setCheckIn(toTimeInput(target?.checkInTime));
+    setCheckOut(toTimeInput(target?.checkOutTime));
+    resetFieldErrors();
+  }, [open, target, resetFieldErrors]);
+
+  // Default to the only/first event once the list arrives
+  useEffect(() => {
+    if (!open || event || !eventsQuery.data?.length) return;
+    setEvent(String(eventsQuery.data[0].id));
+  }, [open, event, eventsQuery.data]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await createAttendanceRequest({
+        type,
+        event: Number(event),
+        attendance_date: date,
+        reason: reason.trim(),
+        attachment,
+        proposed_check_in_time:
+          type === "correction" && checkIn ? checkIn : null,
+        proposed_check_out_time:
+          type === "correction" && checkOut ? checkOut : null,
+      });
+      toast.success(
+        t("pages.attendanceRequests.submitted", {
+          defaultValue: "Request sent for review",
+        })
+      );
+      onOpenChange(false);
+      onSubmitted?.();
+    } catch (error) {
+      const unmapped = fieldErrors.applyError(error);
+      if (unmapped === null && error instanceof ValidationError) {
+        toast.error("Please fix the highlighted fields");
+      } else {
+        toast.error(
+          unmapped ?? getErrorMessage(error, "Failed to submit request")
+        );
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canSubmit =
+    Boolean(event) &&
+    Boolean(date) &&
+    reason.trim().length > 0 &&
+    (type === "excuse" || Boolean(checkIn || checkOut));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg space-y-4">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">
+            {t("pages.attendanceRequests.newTitle", {
+              defaultValue: "Excuse or correction",
+            })}
+          </DialogTitle>
+          <DialogDescription className="text-sm text-muted-foreground">
+            {t("pages.attendanceRequests.newDescription", {
+              defaultValue:
+                "A tracker will review your request. You can follow its status on your stats page.",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>
+              {t("pages.attendanceRequests.type", { defaultValue: "Type" })}
+            </Label>
+            <Select
+              value={type}
+              onValueChange={(value) => setType(value as AttendanceRequestType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="correction">
+                  {t("pages.attendanceRequests.types.correction", {
+                    defaultValue: "Correction",
+                  })}
+                </SelectItem>
+                <SelectItem value="excuse">
+                  {t("pages.attendanceRequests.types.excuse", {
+                    defaultValue: "Excuse",
+                  })}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>
+              {t("pages.attendanceRequests.event", { defaultValue: "Event" })}
+            </Label>
+            <Select value={event} onValueChange={setEvent}>
+              <SelectTrigger>
+                <SelectValue placeholder="—" />
+              </SelectTrigger>
+              <SelectContent>
+                {(eventsQuery.data ?? []).map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FieldError errors={fieldErrors.getFieldErrorItems("event")} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="request-date">
+              {t("common.labels.date")}
+            </Label>
+            <Input
+              id="request-date"
+              type="date"
+              value={date}
+              onChange={(e) => {
+                setDate(e.target.value);
+                fieldErrors.clearFieldError("attendance_date");
+              }}
+            />
+            <FieldError
+              errors={fieldErrors.getFieldErrorItems("attendance_date")}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="request-attachment">
+              {t("pages.attendanceRequests.attachment", {
+                defaultValue: "Attachment",
+              })}
+            </Label>
+            <Input
+              id="request-attachment"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => {
+                setAttachment(e.target.files?.[0] ?? null);
+                fieldErrors.clearFieldError("attachment");
+              }}
+            />
+            <FieldError errors={fieldErrors.getFieldErrorItems("attachment")} />
+          </div>
+          {type === "correction" && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="request-check-in">
+                  {t("pages.attendanceRequests.proposedCheckIn", {
+                    defaultValue: "Correct check-in",
+                  })}
+                </Label>
+                <Input
+                  id="request-check-in"
+                  type="time"
+                  value={checkIn}
+                  onChange={(e) => setCheckIn(e.target.value)}
+                />
+                <FieldError
+                  errors={fieldErrors.getFieldErrorItems(
+                    "proposed_check_in_time"
+                  )}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="request-check-out">
+                  {t("pages.attendanceRequests.proposedCheckOut", {
+                    defaultValue: "Correct check-out",
+                  })}
+                </Label>
+                <Input
+                  id="request-check-out"
+                  type="time"
+                  value={checkOut}
+                  onChange={(e) => setCheckOut(e.target.value)}
+                />
+                <FieldError
+                  errors={fieldErrors.getFieldErrorItems(
+                    "proposed_check_out_time"
+                  )}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="request-reason">
+            {t("pages.attendanceRequests.reason", { defaultValue: "Reason" })}
+          </Label>
+          <Textarea
+            id="request-reason"
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value);
+              fieldErrors.clearFieldError("reason");
+            }}
+            placeholder={
+              type === "excuse"
+                ? "e.g. Medical appointment, certificate attached"
+                : "e.g. I checked out at 17:00 but the record shows 14:00"
+            }
+            className="min-h-[100px] resize-none"
+          />
+          <FieldError errors={fieldErrors.getFieldErrorItems("reason")} />
+        </div>
+
+        <DialogFooter className="gap-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            {t("common.buttons.cancel", { defaultValue: "Cancel" })}
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !canSubmit}>
+            {isSubmitting ? (
+              <span className="flex items-center gap-2">
+                <Loader className="size-4" />
+                Sending…
+              </span>
+            ) : (
+              t("pages.attendanceRequests.submit", {
+                defaultValue: "Submit request",
+              })
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useTranslation } from "react-i18next";
+import { Badge } from "@/components/ui/badge";
+import {
+  type AttendanceRequestHistoryEntry,
+  type AttendanceRequestStatus,
+} from "@/lib/api";
+
+const STATUS_STYLES: Record<AttendanceRequestStatus, string> = {
+  pending:
+    "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/20 dark:text-amber-200 dark:border-amber-500/30",
+  approved:
+    "bg-green-50 text-green-700 border-green-200 dark:bg-green-500/20 dark:text-green-200 dark:border-green-500/30",
+  rejected:
+    "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-200 dark:border-red-500/30",
+};
+
+const STATUS_LABELS: Record<AttendanceRequestStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export function AttendanceRequestStatusBadge({
+  status,
+}: {
+  status: AttendanceRequestStatus;
+}) {
+  const { t } = useTranslation();
+  return (
+    <Badge className={STATUS_STYLES[status]}>
+      {t(`pages.attendanceRequests.status.${status}`, {
+        defaultValue: STATUS_LABELS[status],
+      })}
+    </Badge>
+  );
+}
+
+const ACTION_LABELS: Record<AttendanceRequestHistoryEntry["action"], string> = {
+  created: "submitted the request",
+  approved: "approved",
+  rejected: "rejected",
+  applied: "updated the attendance record",
+};
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/** Who did what and when on a request, oldest first. */
+export function AttendanceRequestHistory({
+  entries,
+}: {
+  entries: AttendanceRequestHistoryEntry[];
+}) {
+  const { t } = useTranslation();
+  if (entries.length === 0) return null;
+
+  return (
+    <ol className="space-y-2 border-s ps-4">
+      {entries.map((entry, index) => (
+        <li key={`${entry.at}-${index}`} className="text-xs space-y-0.5">
+          <div>
+            <span className="font-medium">
+              {entry.actor?.name ??
+                t("pages.attendanceRequests.system", {
+                  defaultValue: "System",
+                })}
+            </span>{" "}
+            {t(`pages.attendanceRequests.actions.${entry.action}`, {
+              defaultValue: ACTION_LABELS[entry.action],
+            })}
+            <span className="text-muted-foreground">
+              {" "}
+              • {formatTimestamp(entry.at)}
+            </span>
+          </div>
+          {entry.changes &&
+            Object.entries(entry.changes).map(([field, change]) => (
+              <div key={field} className="text-muted-foreground tabular-nums">
+                {field}: {change.from ?? "—"} → {change.to ?? "—"}
+              </div>
+            ))}
+          {entry.note && (
+            <div className="text-muted-foreground italic">“{entry.note}”</div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
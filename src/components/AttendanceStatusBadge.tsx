@@ -1,11 +1,56 @@
 import { Badge } from "@/components/ui/badge";
 import { useTranslation } from "react-i18next";
+import {
+  ATTENDANCE_POLICY_STATUS_LABELS,
+  type AttendancePolicyStatus,
+} from "@/lib/attendance-policy";
+
+const POLICY_STATUS_STYLES: Record<AttendancePolicyStatus, string> = {
+  on_time:
+    "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/20 dark:text-emerald-200 dark:border-emerald-500/30",
+  late: "bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-500/20 dark:text-orange-200 dark:border-orange-500/30",
+  early_leave:
+    "bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-500/20 dark:text-purple-200 dark:border-purple-500/30",
+  over_break:
+    "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/20 dark:text-amber-200 dark:border-amber-500/30",
+  absent:
+    "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-200 dark:border-red-500/30",
+};
+
+interface AttendancePolicyBadgeProps {
+  status: AttendancePolicyStatus;
+  // Minutes late / early, shown next to the label when relevant
+  minutes?: number;
+  className?: string;
+}
+
+export function AttendancePolicyBadge({
+  status,
+  minutes,
+  className,
+}: AttendancePolicyBadgeProps) {
+  const { t } = useTranslation();
+  return (
+    <Badge
+      className={`${POLICY_STATUS_STYLES[status]} ${className ?? ""}`}
+    >
+      {t(`pages.attendance.policy.status.${status}`, {
+        defaultValue: ATTENDANCE_POLICY_STATUS_LABELS[status],
+      })}
+      {minutes ? (
+        <span className="ml-1 text-xs opacity-80">({minutes}m)</span>
+      ) : null}
+    </Badge>
+  );
+}
 
 interface AttendanceStatusBadgeProps {
   checkInTime: string | null;
   checkOutTime: string | null;
   isOnBreak?: boolean;
   breakSince?: string | null;
+  // Policy classification of the log, rendered after the status
+  policyStatuses?: AttendancePolicyStatus[];
   className?: string;
 }
 
@@ -14,9 +59,31 @@ export function AttendanceStatusBadge({
   checkOutTime,
   isOnBreak,
   breakSince,
+  policyStatuses,
   className,
 }: AttendanceStatusBadgeProps) {
   const { t } = useTranslation();
+  // "absent" duplicates the base badge for logs without a check-in
+  const flags = (policyStatuses ?? []).filter(
+    (status) => status !== "on_time" && (checkInTime || status !== "absent")
+  );
+  if (flags.length > 0) {
+    return (
+      <span className="inline-flex flex-wrap items-center justify-center gap-1">
+        <AttendanceStatusBadge
+          checkInTime={checkInTime}
+          checkOutTime={checkOutTime}
+          isOnBreak={isOnBreak}
+          breakSince={breakSince}
+          className={className}
+        />
+        {flags.map((status) => (
+          <AttendancePolicyBadge key={status} status={status} />
+        ))}
+      </span>
+    );
+  }
+
   if (!checkInTime) {
     return (
       <Badge variant="outline" className={className}>
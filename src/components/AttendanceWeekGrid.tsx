@@ -0,0 +1,193 @@
+import { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { IconChevronLeft, IconChevronRight } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useQuery } from "@/hooks/useQuery";
+import {
+  getAttendanceRange,
+  type AttendanceOverviewEntry,
+  type AttendanceRangeParams,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { addDays, eachDay, startOfWeek } from "@/lib/date-range";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+
+type AttendanceWeekGridProps = {
+  // Any date inside the week to show
+  date: string;
+  onDateChange: (date: string) => void;
+  event?: number | null;
+  track?: string | null;
+  // Limit the grid to a single trainee
+  user?: number | string;
+};
+
+type CellStatus = "completed" | "present" | "absent" | "none";
+
+function getCellStatus(entry: AttendanceOverviewEntry | undefined): CellStatus {
+  if (!entry) return "none";
+  if (!entry.check_in_time) return "absent";
+  return entry.check_out_time ? "completed" : "present";
+}
+
+const CELL_STYLES: Record<CellStatus, string> = {
+  completed:
+    "bg-blue-50 text-blue-700 dark:bg-blue-500/20 dark:text-blue-200",
+  present:
+    "bg-green-50 text-green-700 dark:bg-green-500/20 dark:text-green-200",
+  absent: "bg-red-50 text-red-700 dark:bg-red-500/15 dark:text-red-200",
+  none: "text-muted-foreground",
+};
+
+export function AttendanceWeekGrid({
+  date,
+  onDateChange,
+  event,
+  track,
+  user,
+}: AttendanceWeekGridProps) {
+  const { t } = useTranslation();
+  const weekStart = startOfWeek(date);
+  const weekEnd = addDays(weekStart, 6);
+  const days = useMemo(() => eachDay(weekStart, weekEnd), [weekStart, weekEnd]);
+
+  const params: AttendanceRangeParams = {
+    from: weekStart,
+    to: weekEnd,
+    event: event ?? undefined,
+    track: track ?? undefined,
+    user,
+  };
+  const rangeQuery = useQuery(queryKeys.attendanceRange(params), () =>
+    getAttendanceRange(params)
+  );
+
+  const users = rangeQuery.data?.users ?? [];
+
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    });
+
+  const renderCell = (entries: AttendanceOverviewEntry[] | undefined) => {
+    const entry = event
+      ? entries?.find((item) => item.event_id === event)
+      : entries?.[0];
+    const status = getCellStatus(entry);
+    return (
+      <div
+        className={cn(
+          "rounded-md px-2 py-1 text-xs text-center tabular-nums",
+          CELL_STYLES[status]
+        )}
+        title={entry?.notes ?? undefined}
+      >
+        {status === "none"
+          ? "—"
+          : status === "absent"
+            ? t("pages.attendance.absent")
+            : `${entry?.check_in_time}${
+                entry?.check_out_time ? `–${entry.check_out_time}` : ""
+              }`}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onDateChange(addDays(weekStart, -7))}
+          aria-label={t("pages.attendance.week.previous", {
+            defaultValue: "Previous week",
+          })}
+        >
+          <IconChevronLeft className="size-4 rtl:rotate-180" />
+        </Button>
+        <div className="text-sm font-medium">
+          {formatDay(weekStart)} – {formatDay(weekEnd)}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onDateChange(addDays(weekStart, 7))}
+          aria-label={t("pages.attendance.week.next", {
+            defaultValue: "Next week",
+          })}
+        >
+          <IconChevronRight className="size-4 rtl:rotate-180" />
+        </Button>
+      </div>
+
+      {rangeQuery.isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader />
+        </div>
+      ) : rangeQuery.error ? (
+        <div className="text-center py-8 text-destructive">
+          {getErrorMessage(
+            rangeQuery.error,
+            t("pages.attendance.week.loadFailed", {
+              defaultValue: "Failed to load the weekly overview",
+            })
+          )}
+        </div>
+      ) : users.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          {t("pages.attendance.week.empty", {
+            defaultValue: "No attendance records for this week",
+          })}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-48">
+                  {t("common.labels.name", { defaultValue: "Name" })}
+                </TableHead>
+                {days.map((day) => (
+                  <TableHead key={day} className="text-center min-w-28">
+                    {formatDay(day)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.user_id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {user.full_name || user.user_name}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {user.user_email}
+                    </div>
+                  </TableCell>
+                  {days.map((day) => (
+                    <TableCell key={day}>{renderCell(user.days[day])}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
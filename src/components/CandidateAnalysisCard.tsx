@@ -0,0 +1,199 @@
+import { useTranslation } from "react-i18next";
+import {
+  IconAlertTriangle,
+  IconFileText,
+  IconThumbUp,
+} from "@tabler/icons-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  ANALYSIS_DIMENSIONS,
+  CONFIDENCE_LABELS,
+  DIMENSION_LABELS,
+  EVIDENCE_SOURCE_LABELS,
+  RECOMMENDATION_LABELS,
+  type AnalysisPoint,
+  type CandidateAnalysis,
+  type CandidateRecommendation,
+} from "@/lib/candidate-analysis";
+
+const RECOMMENDATION_STYLES: Record<CandidateRecommendation, string> = {
+  strong_yes:
+    "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/20 dark:text-emerald-200 dark:border-emerald-500/30",
+  yes: "bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-500/20 dark:text-sky-200 dark:border-sky-500/30",
+  maybe:
+    "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/20 dark:text-amber-200 dark:border-amber-500/30",
+  no: "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-200 dark:border-red-500/30",
+};
+
+function scoreBarClass(score: number): string {
+  if (score >= 70) return "bg-emerald-500";
+  if (score >= 40) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+export function CandidateRecommendationBadge({
+  recommendation,
+  className,
+}: {
+  recommendation: CandidateRecommendation;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+  return (
+    <Badge className={cn(RECOMMENDATION_STYLES[recommendation], className)}>
+      {t(`candidateAnalysis.recommendation.${recommendation}`, {
+        defaultValue: RECOMMENDATION_LABELS[recommendation],
+      })}
+    </Badge>
+  );
+}
+
+function PointList({
+  points,
+  tone,
+}: {
+  points: AnalysisPoint[];
+  tone: "strength" | "weakness";
+}) {
+  const { t } = useTranslation();
+  return (
+    <ul className="space-y-2">
+      {points.map((point, index) => (
+        <li key={index} className="flex gap-2 text-sm">
+          {tone === "strength" ? (
+            <IconThumbUp className="mt-0.5 size-4 shrink-0 text-emerald-600" />
+          ) : (
+            <IconAlertTriangle className="mt-0.5 size-4 shrink-0 text-amber-600" />
+          )}
+          <div className="space-y-0.5">
+            <div className="font-medium leading-snug">{point.point}</div>
+            <div className="text-xs text-muted-foreground">
+              <span className="font-medium">
+                {t(`candidateAnalysis.sources.${point.source}`, {
+                  defaultValue: EVIDENCE_SOURCE_LABELS[point.source],
+                })}
+                :
+              </span>{" "}
+              {point.evidence}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Structured result of the candidate analysis (lib/candidate-analysis.ts)
+export function CandidateAnalysisCard({
+  analysis,
+  model,
+  generatedAt,
+  className,
+}: {
+  analysis: CandidateAnalysis;
+  model?: string | null;
+  generatedAt?: string | null;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className={cn("space-y-4 rounded-lg border bg-background/70 p-4", className)}>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-3xl font-bold tabular-nums">
+          {analysis.overall_score}
+          <span className="text-base font-normal text-muted-foreground">/100</span>
+        </div>
+        <CandidateRecommendationBadge recommendation={analysis.recommendation} />
+        <Badge variant="outline">
+          {t(`candidateAnalysis.confidence.${analysis.confidence}`, {
+            defaultValue: CONFIDENCE_LABELS[analysis.confidence],
+          })}
+        </Badge>
+      </div>
+      <p className="text-sm leading-relaxed">{analysis.justification}</p>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {ANALYSIS_DIMENSIONS.map((dimension) => {
+          const entry = analysis.dimension_scores[dimension];
+          return (
+            <div key={dimension} className="space-y-1.5 rounded-md border p-3">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-xs font-medium text-muted-foreground">
+                  {t(`candidateAnalysis.dimensions.${dimension}`, {
+                    defaultValue: DIMENSION_LABELS[dimension],
+                  })}
+                </span>
+                <span className="text-sm font-semibold tabular-nums">
+                  {entry.score === null ? "—" : Math.round(entry.score)}
+                </span>
+              </div>
+              <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                {entry.score !== null && (
+                  <div
+                    className={cn("h-full rounded-full", scoreBarClass(entry.score))}
+                    style={{ width: `${entry.score}%` }}
+                  />
+                )}
+              </div>
+              {entry.tier && <div className="text-xs font-medium">{entry.tier}</div>}
+              {entry.note && (
+                <div className="text-xs text-muted-foreground">{entry.note}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            {t("candidateAnalysis.strengths", { defaultValue: "Strengths" })}
+          </h4>
+          <PointList points={analysis.strengths} tone="strength" />
+        </div>
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            {t("candidateAnalysis.weaknesses", { defaultValue: "Weaknesses" })}
+          </h4>
+          <PointList points={analysis.weaknesses} tone="weakness" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="flex items-center gap-1.5 text-sm font-semibold">
+          <IconFileText className="size-4" />
+          {t("candidateAnalysis.cvInsights", { defaultValue: "CV insights" })}
+        </h4>
+        {!analysis.cv_accessible ? (
+          <p className="text-sm text-muted-foreground">
+            {t("candidateAnalysis.cvNotAccessible", {
+              defaultValue: "The CV couldn't be read; profile fields were used instead.",
+            })}
+          </p>
+        ) : analysis.cv_insights.length > 0 ? (
+          <ul className="ml-5 list-disc space-y-1 text-sm">
+            {analysis.cv_insights.map((insight, index) => (
+              <li key={index}>{insight}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t("candidateAnalysis.noCvInsights", {
+              defaultValue: "No notable signals in the CV.",
+            })}
+          </p>
+        )}
+      </div>
+
+      {(model || generatedAt) && (
+        <div className="text-xs text-muted-foreground">
+          {[model, generatedAt ? new Date(generatedAt).toLocaleString() : null]
+            .filter(Boolean)
+            .join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+}
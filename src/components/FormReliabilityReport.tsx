@@ -0,0 +1,374 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { IconRefresh, IconUsersGroup } from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCandidateFormsEntries } from "@/hooks/useCandidateFormsEntries";
+import type { BackendForm } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import {
+  DEFAULT_DIVERGENCE_THRESHOLD,
+  DIVERGENCE_THRESHOLDS,
+  ICC_LEVEL_LABELS,
+  KAPPA_LEVEL_LABELS,
+  buildReliabilityReport,
+  type FieldAgreement,
+  type IccLevel,
+  type KappaLevel,
+} from "@/lib/inter-rater-reliability";
+import { cn } from "@/lib/utils";
+
+const GOOD_STYLE =
+  "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/20 dark:text-emerald-200 dark:border-emerald-500/30";
+const FAIR_STYLE =
+  "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/20 dark:text-amber-200 dark:border-amber-500/30";
+const POOR_STYLE =
+  "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-200 dark:border-red-500/30";
+
+const KAPPA_LEVEL_STYLES: Record<KappaLevel, string> = {
+  poor: POOR_STYLE,
+  slight: POOR_STYLE,
+  fair: FAIR_STYLE,
+  moderate: FAIR_STYLE,
+  substantial: GOOD_STYLE,
+  almost_perfect: GOOD_STYLE,
+};
+
+const ICC_LEVEL_STYLES: Record<IccLevel, string> = {
+  poor: POOR_STYLE,
+  moderate: FAIR_STYLE,
+  good: GOOD_STYLE,
+  excellent: GOOD_STYLE,
+};
+
+function formatCoefficient(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function KappaCell({ field }: { field: FieldAgreement }) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center gap-2">
+      <span className="tabular-nums">{formatCoefficient(field.kappa)}</span>
+      {field.kappaLevel && (
+        <Badge className={KAPPA_LEVEL_STYLES[field.kappaLevel]}>
+          {t(`formsReliability.kappaLevels.${field.kappaLevel}`, {
+            defaultValue: KAPPA_LEVEL_LABELS[field.kappaLevel],
+          })}
+        </Badge>
+      )}
+      {field.subjectCount > 0 && (
+        <span className="text-xs text-muted-foreground">
+          {field.kappaMethod === "cohen"
+            ? t("formsReliability.cohen", { defaultValue: "Cohen" })
+            : t("formsReliability.fleiss", { defaultValue: "Fleiss" })}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Agreement between interviewers who scored the same candidates on a form,
+ * and the candidates whose scores diverge enough to need a tie-breaker.
+ * Sweeping every candidate is heavy, so it only loads on request.
+ */
+export function FormReliabilityReport({
+  form,
+  maxScore,
+}: {
+  form: BackendForm;
+  maxScore?: number;
+}) {
+  const { t } = useTranslation();
+  const [requested, setRequested] = useState(false);
+  const [threshold, setThreshold] = useState(DEFAULT_DIVERGENCE_THRESHOLD);
+  const { data, error, isLoading, isFetching, refetch } =
+    useCandidateFormsEntries({ enabled: requested });
+
+  const report = useMemo(
+    () =>
+      data
+        ? buildReliabilityReport(form, data.candidates, { maxScore, threshold })
+        : null,
+    [data, form, maxScore, threshold]
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base font-semibold">
+              <IconUsersGroup className="size-5 text-primary" />
+              {t("formsReliability.title", { defaultValue: "Rater agreement" })}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t("formsReliability.subtitle", {
+                defaultValue:
+                  "Where interviewers scoring the same candidate on this form disagree, across all tracks.",
+              })}
+            </p>
+          </div>
+          {requested && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                refetch().catch(() => {
+                  // Error is exposed through the query
+                });
+              }}
+              disabled={isFetching}
+            >
+              <IconRefresh className={cn("size-4", isFetching && "animate-spin")} />
+              {t("common.buttons.refresh")}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!requested ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button size="sm" onClick={() => setRequested(true)}>
+              {t("formsReliability.compute", {
+                defaultValue: "Compute agreement",
+              })}
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {t("formsReliability.computeHint", {
+                defaultValue: "Loads every candidate's submitted forms.",
+              })}
+            </span>
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader />
+            <span>
+              {t("formsReliability.loading", {
+                defaultValue: "Collecting entries from every candidate…",
+              })}
+            </span>
+          </div>
+        ) : error && !report ? (
+          <div className="text-muted-foreground">
+            {getErrorMessage(
+              error,
+              t("formsReliability.loadFailed", {
+                defaultValue: "Couldn't load form entries.",
+              })
+            )}
+          </div>
+        ) : report && report.coRatedCount === 0 ? (
+          <div className="text-muted-foreground">
+            {t("formsReliability.noCoRated", {
+              defaultValue:
+                "No candidate has been scored on this form by more than one interviewer yet.",
+            })}
+          </div>
+        ) : report ? (
+          <>
+            <div className="text-sm text-muted-foreground">
+              {t("formsReliability.coRated", {
+                count: report.coRatedCount,
+                defaultValue:
+                  "{{count}} candidates scored by two or more interviewers",
+              })}
+              {data && data.failedCount > 0 &&
+                ` · ${t("formsReliability.failedCandidates", {
+                  count: data.failedCount,
+                  defaultValue: "{{count}} couldn't be loaded",
+                })}`}
+              {report.duplicateCount > 0 &&
+                ` · ${t("formsReliability.duplicates", {
+                  count: report.duplicateCount,
+                  defaultValue:
+                    "{{count}} repeat submissions by the same interviewer ignored",
+                })}`}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    {t("formsReliability.field", { defaultValue: "Field" })}
+                  </TableHead>
+                  <TableHead className="text-right">
+                    {t("formsReliability.candidates", {
+                      defaultValue: "Candidates",
+                    })}
+                  </TableHead>
+                  <TableHead className="text-right">
+                    {t("formsReliability.agreement", {
+                      defaultValue: "Agreement",
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t("formsReliability.kappa", { defaultValue: "Kappa" })}
+                  </TableHead>
+                  <TableHead>
+                    {t("formsReliability.icc", { defaultValue: "ICC" })}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.fields.map((field) => (
+                  <TableRow key={field.label}>
+                    <TableCell className="max-w-[24rem] whitespace-normal">
+                      <span dir="auto">{field.label}</span>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {field.subjectCount}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatPercent(field.percentAgreement)}
+                    </TableCell>
+                    <TableCell>
+                      <KappaCell field={field} />
+                    </TableCell>
+                    <TableCell>
+                      {field.scaled ? (
+                        <div className="flex items-center gap-2">
+                          <span className="tabular-nums">
+                            {formatCoefficient(field.icc)}
+                          </span>
+                          {field.iccLevel && (
+                            <Badge className={ICC_LEVEL_STYLES[field.iccLevel]}>
+                              {t(`formsReliability.iccLevels.${field.iccLevel}`, {
+                                defaultValue: ICC_LEVEL_LABELS[field.iccLevel],
+                              })}
+                            </Badge>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold">
+                  {t("formsReliability.divergentTitle", {
+                    count: report.divergent.length,
+                    defaultValue: "Candidates needing a tie-breaker ({{count}})",
+                  })}
+                </h3>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  {t("formsReliability.threshold", {
+                    defaultValue: "Score gap of at least",
+                  })}
+                  <Select
+                    value={String(threshold)}
+                    onValueChange={(value) => setThreshold(Number(value))}
+                  >
+                    <SelectTrigger className="w-[100px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIVERGENCE_THRESHOLDS.map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                          {Math.round(value * 100)}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {report.divergent.length === 0 ? (
+                <div className="text-sm text-muted-foreground">
+                  {t("formsReliability.noDivergent", {
+                    defaultValue: "No candidate's scores diverge beyond the threshold.",
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {report.divergent.map((candidate) => (
+                    <div
+                      key={candidate.candidateId}
+                      className="space-y-2 rounded-lg border p-3"
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <Link
+                          to={`/candidates/${candidate.candidateId}`}
+                          className="font-medium hover:underline"
+                        >
+                          {candidate.name}
+                        </Link>
+                        <span className="text-sm tabular-nums text-muted-foreground">
+                          {t("formsReliability.gap", {
+                            gap: candidate.gap.toFixed(1),
+                            max: report.maxScore,
+                            percent: Math.round(candidate.gapRatio * 100),
+                            defaultValue: "Gap {{gap}} of {{max}} ({{percent}}%)",
+                          })}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {candidate.raters.map((rater, index) => (
+                          <Badge key={index} variant="outline">
+                            {rater.interviewer}: {rater.finalScore}
+                          </Badge>
+                        ))}
+                      </div>
+                      {candidate.disagreements.length > 0 && (
+                        <ul className="space-y-1 text-sm">
+                          {candidate.disagreements.map((disagreement) => (
+                            <li key={disagreement.label}>
+                              <span dir="auto" className="font-medium">
+                                {disagreement.label}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {" — "}
+                                {disagreement.ratings
+                                  .map((rating) => `${rating.interviewer}: ${rating.option}`)
+                                  .join(" · ")}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {t("formsReliability.method", {
+                defaultValue:
+                  "Agreement is the share of interviewer pairs choosing the same option. Kappa corrects it for chance: Cohen's when the same two interviewers scored every candidate, Fleiss' otherwise. ICC(1) compares option scores on questions with three or more options.",
+              })}
+            </p>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+import { useIdleTimeout } from "@/hooks/useIdleTimeout";
+import { getKioskLock } from "@/lib/kiosk-lock";
+
+// A locked kiosk is meant to sit unattended; its PIN already guards it
+const isKioskLocked = () => getKioskLock() !== null;
+
+// Countdown shown before an idle session is signed out (lib/idle-timeout.ts)
+export function IdleTimeoutDialog() {
+  const { t } = useTranslation();
+  const { isAuthenticated, logout } = useAuth();
+
+  const signOut = async (idle: boolean) => {
+    try {
+      await logout();
+    } catch {
+      // logout clears local state even when the request fails
+    }
+    if (idle) {
+      toast.info(
+        t("idleTimeout.signedOut", {
+          defaultValue: "You were signed out after a period of inactivity.",
+        })
+      );
+    }
+  };
+
+  const { remainingMs, stayActive } = useIdleTimeout({
+    enabled: isAuthenticated,
+    onTimeout: () => void signOut(true),
+    isPaused: isKioskLocked,
+  });
+
+  const seconds = Math.ceil((remainingMs ?? 0) / 1000);
+
+  return (
+    <Dialog
+      open={remainingMs !== null}
+      onOpenChange={(open) => {
+        if (!open) stayActive();
+      }}
+    >
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {t("idleTimeout.title", { defaultValue: "Still there?" })}
+          </DialogTitle>
+          <DialogDescription>
+            {t("idleTimeout.description", {
+              count: seconds,
+              defaultValue:
+                "You'll be signed out in {{count}} seconds because of inactivity.",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="text-center text-4xl font-semibold tabular-nums">
+          {seconds}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => void signOut(false)}>
+            {t("idleTimeout.signOut", { defaultValue: "Sign out now" })}
+          </Button>
+          <Button onClick={stayActive}>
+            {t("idleTimeout.stay", { defaultValue: "Stay signed in" })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
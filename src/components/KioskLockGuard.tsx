@@ -0,0 +1,15 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { getKioskLock, getKioskPath } from "@/lib/kiosk-lock";
+
+// Keeps a locked kiosk device on the kiosk page (see lib/kiosk-lock.ts)
+export function KioskLockGuard({ children }: { children: React.ReactNode }) {
+  // Re-evaluated on every navigation
+  useLocation();
+  const lock = getKioskLock();
+
+  if (lock) {
+    return <Navigate to={getKioskPath(lock)} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getKioskPath, startKioskLock } from "@/lib/kiosk-lock";
+
+type KioskStartDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: number;
+  date: string;
+};
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export function KioskStartDialog({
+  open,
+  onOpenChange,
+  eventId,
+  date,
+}: KioskStartDialogProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPin("");
+    setConfirmPin("");
+  }, [open]);
+
+  const pinError =
+    pin && !PIN_PATTERN.test(pin)
+      ? t("pages.attendanceKiosk.pinFormat", {
+          defaultValue: "Use 4 to 8 digits",
+        })
+      : confirmPin && confirmPin !== pin
+        ? t("pages.attendanceKiosk.pinMismatch", {
+            defaultValue: "PINs don't match",
+          })
+        : null;
+
+  const handleStart = async () => {
+    if (pinError || !pin || confirmPin !== pin) return;
+    setIsStarting(true);
+    try {
+      const lock = await startKioskLock(eventId, date, pin);
+      onOpenChange(false);
+      navigate(getKioskPath(lock));
+    } catch (error) {
+      console.error("Failed to start kiosk:", error);
+      toast.error("Failed to start kiosk mode");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm space-y-4">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">
+            {t("pages.attendanceKiosk.startTitle", {
+              defaultValue: "Start kiosk mode",
+            })}
+          </DialogTitle>
+          <DialogDescription className="text-sm text-muted-foreground">
+            {t("pages.attendanceKiosk.startDescription", {
+              defaultValue:
+                "This device will only show the check-in kiosk until the PIN is entered.",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="kiosk-pin">
+              {t("pages.attendanceKiosk.pin", { defaultValue: "PIN" })}
+            </Label>
+            <Input
+              id="kiosk-pin"
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="kiosk-pin-confirm">
+              {t("pages.attendanceKiosk.confirmPin", {
+                defaultValue: "Confirm PIN",
+              })}
+            </Label>
+            <Input
+              id="kiosk-pin-confirm"
+              type="password"
+              inputMode="numeric"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleStart();
+              }}
+            />
+          </div>
+          {pinError && <p className="text-sm text-destructive">{pinError}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isStarting}
+          >
+            {t("common.buttons.cancel", { defaultValue: "Cancel" })}
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={
+              isStarting || Boolean(pinError) || !pin || confirmPin !== pin
+            }
+          >
+            {t("pages.attendanceKiosk.start", { defaultValue: "Lock & start" })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { useTranslation } from "react-i18next";
+import { IconCheck, IconX } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import {
+  MIN_PASSWORD_LENGTH,
+  type PasswordCheckId,
+  type PasswordStrength,
+} from "@/lib/password-strength";
+
+const SCORE_LABELS = ["", "Weak", "Fair", "Good", "Strong"];
+
+const SCORE_COLORS = [
+  "bg-muted",
+  "bg-red-500",
+  "bg-amber-500",
+  "bg-emerald-500",
+  "bg-emerald-600",
+];
+
+const CHECK_LABELS: Record<PasswordCheckId, string> = {
+  length: "At least {{min}} characters",
+  letter_and_number: "Letters and numbers",
+  not_common: "Not a commonly used password",
+  not_personal: "Doesn't contain your name or email",
+  mixed_case: "Upper and lower case letters",
+  symbol: "A symbol or space",
+};
+
+// Strength bar plus the checklist from lib/password-strength.ts
+export function PasswordStrengthMeter({
+  strength,
+  className,
+}: {
+  strength: PasswordStrength;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[1, 2, 3, 4].map((step) => (
+            <div
+              key={step}
+              className={cn(
+                "h-1.5 flex-1 rounded-full",
+                step <= strength.score ? SCORE_COLORS[strength.score] : "bg-muted"
+              )}
+            />
+          ))}
+        </div>
+        {strength.score > 0 && (
+          <span className="w-14 text-end text-xs text-muted-foreground">
+            {t(`password.strength.${strength.score}`, {
+              defaultValue: SCORE_LABELS[strength.score],
+            })}
+          </span>
+        )}
+      </div>
+      <ul className="grid gap-1 text-xs sm:grid-cols-2">
+        {strength.checks.map((check) => (
+          <li
+            key={check.id}
+            className={cn(
+              "flex items-center gap-1.5",
+              check.passed
+                ? "text-emerald-700 dark:text-emerald-400"
+                : "text-muted-foreground"
+            )}
+          >
+            {check.passed ? (
+              <IconCheck className="size-3.5 shrink-0" />
+            ) : (
+              <IconX className="size-3.5 shrink-0" />
+            )}
+            {t(`password.checks.${check.id}`, {
+              min: MIN_PASSWORD_LENGTH,
+              defaultValue: CHECK_LABELS[check.id],
+            })}
+            {!check.required && (
+              <span className="opacity-70">
+                {t("password.optional", { defaultValue: "(optional)" })}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,34 +1,39 @@
-import { Navigate, useLocation } from "react-router-dom";
+import { Navigate } from "react-router-dom";
 import { useUserGroups } from "@/hooks/useUserGroups";
+import { getRoute, type RouteGuard } from "@/routes";
+
+interface CapabilityRouteProps {
+  children: React.ReactNode;
+  capability: RouteGuard | null;
+}
+
+// Renders children when the user has the capability, otherwise sends them home
+export function CapabilityRoute({ children, capability }: CapabilityRouteProps) {
+  const { can, getHomePage } = useUserGroups();
+
+  const isAllowed =
+    capability === "authenticated" ||
+    (capability !== null && can(capability));
+  if (!isAllowed) {
+    return <Navigate to={getHomePage()} replace />;
+  }
+
+  return <>{children}</>;
+}
 
 interface PermissionProtectedRouteProps {
   children: React.ReactNode;
   requiredPage: string;
 }
 
+// Guards a page with the capability its route registry entry declares
 export function PermissionProtectedRoute({
   children,
   requiredPage,
 }: PermissionProtectedRouteProps) {
-  const { canAccessPage, getHomePage, isTrainee } = useUserGroups();
-  const location = useLocation();
-
-  // Check if user can access the current page
-  const currentPath = location.pathname;
-  const isTraineeOnlyRoute = requiredPage === "/my-stats";
-
-  if (isTraineeOnlyRoute && !isTrainee) {
-    const homePage = getHomePage();
-    return <Navigate to={homePage} replace />;
-  }
+  const capability = getRoute(requiredPage)?.guard ?? null;
 
-  if (!canAccessPage(currentPath)) {
-    // Redirect to user's home page
-    const homePage = getHomePage();
-    return <Navigate to={homePage} replace />;
-  }
-
-  return <>{children}</>;
+  return <CapabilityRoute capability={capability}>{children}</CapabilityRoute>;
 }
 
 // Component to redirect to home page
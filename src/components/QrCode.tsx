@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import { encodeQrCode, type QrErrorCorrection } from "@/lib/qr-code";
+import { cn } from "@/lib/utils";
+
+type QrCodeProps = {
+  value: string;
+  size?: number;
+  errorCorrection?: QrErrorCorrection;
+  className?: string;
+};
+
+// Light margin (in modules) required around the code for reliable scanning
+const QUIET_ZONE = 4;
+
+export function QrCode({
+  value,
+  size = 256,
+  errorCorrection = "M",
+  className,
+}: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value, errorCorrection);
+    // One path of 1x1 squares keeps the SVG small
+    const segments: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return {
+      path: segments.join(""),
+      dimension: modules.length + QUIET_ZONE * 2,
+    };
+  }, [value, errorCorrection]);
+
+  return (
+    <svg
+      role="img"
+      aria-label="QR code"
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={cn("rounded-lg bg-white", className)}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
@@ -0,0 +1,62 @@
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { IconEye, IconX } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+import { ROLE_DEFINITIONS } from "@/lib/permissions";
+
+// Shown on every page while staff are in read-only "view as" mode
+export function ViewAsBanner() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { viewAs, stopViewAs } = useAuth();
+
+  if (!viewAs) return null;
+
+  const target =
+    viewAs.kind === "user"
+      ? `${viewAs.name} (${viewAs.email})`
+      : [
+          t(`viewAs.roles.${viewAs.role}`, {
+            defaultValue: ROLE_DEFINITIONS[viewAs.role].label,
+          }),
+          viewAs.track,
+        ]
+          .filter(Boolean)
+          .join(" · ");
+
+  const handleExit = () => {
+    stopViewAs();
+    navigate("/", { replace: true });
+  };
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-20 flex flex-wrap items-center gap-2 border-b border-amber-300 bg-amber-100 px-4 py-2 text-sm text-amber-900 dark:border-amber-500/40 dark:bg-amber-500/15 dark:text-amber-200 lg:px-6"
+    >
+      <IconEye className="size-4 shrink-0" />
+      <span className="flex-1 min-w-0">
+        {viewAs.kind === "user"
+          ? t("viewAs.bannerUser", {
+              target,
+              defaultValue:
+                "Viewing as {{target}}: their role and groups, your own personal data. Read-only: changes are blocked.",
+            })
+          : t("viewAs.banner", {
+              target,
+              defaultValue: "Viewing as {{target}}. Read-only: changes are blocked.",
+            })}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 border-amber-400 bg-transparent hover:bg-amber-200/60 dark:hover:bg-amber-500/20"
+        onClick={handleExit}
+      >
+        <IconX className="size-3.5 mr-1" />
+        {t("viewAs.exit", { defaultValue: "Exit view as" })}
+      </Button>
+    </div>
+  );
+}
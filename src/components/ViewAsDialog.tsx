@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ConsistentAvatar } from "@/components/ui/consistent-avatar";
+import { useAuth } from "@/context/AuthContext";
+import { useQuery } from "@/hooks/useQuery";
+import {
+  getCandidates,
+  getPortalTracks,
+  getUserDetailById,
+  type BackendCandidate,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { rankFuzzyMatches } from "@/lib/fuzzy-match";
+import { ROLE_DEFINITIONS, type Role } from "@/lib/permissions";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+import { type ViewAsTarget } from "@/lib/view-as";
+
+type ViewAsRole = Extract<ViewAsTarget, { kind: "role" }>["role"];
+
+const VIEW_AS_ROLES = (Object.keys(ROLE_DEFINITIONS) as Role[]).filter(
+  (role): role is ViewAsRole => role !== "staff"
+);
+
+type ViewAsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Preselects "specific user" mode, e.g. from a trainee's detail page
+  user?: Pick<BackendCandidate, "id" | "name" | "email" | "avatar" | "groups">;
+};
+
+export function ViewAsDialog({ open, onOpenChange, user }: ViewAsDialogProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { startViewAs } = useAuth();
+  const [mode, setMode] = useState<"role" | "user">("role");
+  const [role, setRole] = useState<ViewAsRole>("trainee");
+  const [track, setTrack] = useState("");
+  const [search, setSearch] = useState("");
+  const [selectedUser, setSelectedUser] = useState<ViewAsDialogProps["user"]>();
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode(user ? "user" : "role");
+    setSelectedUser(user);
+    setSearch("");
+  }, [open, user]);
+
+  const tracksQuery = useQuery(queryKeys.portalTracks(), () => getPortalTracks(), {
+    enabled: open,
+  });
+  const candidatesQuery = useQuery(queryKeys.candidates(), () => getCandidates(), {
+    enabled: open && mode === "user",
+  });
+
+  const trackNames = (tracksQuery.data?.results ?? []).map((item) => item.name);
+  const matches = useMemo(
+    () =>
+      rankFuzzyMatches(
+        search,
+        candidatesQuery.data?.results ?? [],
+        (candidate) => [candidate.name, candidate.full_name, candidate.email],
+        { limit: 6 }
+      ),
+    [search, candidatesQuery.data]
+  );
+
+  const handleStart = async () => {
+    let target: ViewAsTarget;
+    if (mode === "role") {
+      target = { kind: "role", role, track: track.trim() || null };
+    } else {
+      if (!selectedUser) return;
+      setIsStarting(true);
+      try {
+        // The candidates list doesn't always carry groups
+        const groups =
+          selectedUser.groups ??
+          (await getUserDetailById(String(selectedUser.id))).groups ??
+          [];
+        target = {
+          kind: "user",
+          userId: selectedUser.id,
+          name: selectedUser.name,
+          email: selectedUser.email,
+          avatar: selectedUser.avatar ?? null,
+          groups,
+        };
+      } catch (error) {
+        toast.error(
+          getErrorMessage(
+            error,
+            t("viewAs.loadUserFailed", { defaultValue: "Couldn't load that user" })
+          )
+        );
+        return;
+      } finally {
+        setIsStarting(false);
+      }
+    }
+    startViewAs(target);
+    onOpenChange(false);
+    navigate("/", { replace: true });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {t("viewAs.title", { defaultValue: "View as" })}
+          </DialogTitle>
+          <DialogDescription>
+            {t("viewAs.description", {
+              defaultValue:
+                "See the app the way someone else does. Everything is read-only until you exit.",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "role" | "user")}>
+          <TabsList className="w-full">
+            <TabsTrigger value="role">
+              {t("viewAs.roleTab", { defaultValue: "Role & track" })}
+            </TabsTrigger>
+            <TabsTrigger value="user">
+              {t("viewAs.userTab", { defaultValue: "Specific user" })}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="role" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>{t("viewAs.role", { defaultValue: "Role" })}</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as ViewAsRole)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VIEW_AS_ROLES.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {t(`viewAs.roles.${item}`, {
+                        defaultValue: ROLE_DEFINITIONS[item].label,
+                      })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="view-as-track">
+                {t("viewAs.track", { defaultValue: "Track (optional)" })}
+              </Label>
+              <Input
+                id="view-as-track"
+                list="view-as-tracks"
+                value={track}
+                onChange={(event) => setTrack(event.target.value)}
+                placeholder={t("viewAs.trackPlaceholder", {
+                  defaultValue: "e.g. Data",
+                })}
+              />
+              <datalist id="view-as-tracks">
+                {trackNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="user" className="space-y-3 pt-2">
+            <p className="text-xs text-muted-foreground">
+              {t("viewAs.userHint", {
+                defaultValue:
+                  "Takes on their role and groups. Personal data such as attendance, stats and requests stays your own.",
+              })}
+            </p>
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder={t("viewAs.searchUser", {
+                defaultValue: "Search by name or email",
+              })}
+            />
+            <div className="space-y-1">
+              {selectedUser && !matches.some((m) => m.item.id === selectedUser.id) && (
+                <UserOption user={selectedUser} selected onSelect={() => undefined} />
+              )}
+              {matches.map(({ item }) => (
+                <UserOption
+                  key={item.id}
+                  user={item}
+                  selected={selectedUser?.id === item.id}
+                  onSelect={() => setSelectedUser(item)}
+                />
+              ))}
+              {search && matches.length === 0 && !candidatesQuery.isLoading && (
+                <p className="text-sm text-muted-foreground px-1">
+                  {t("viewAs.noUsers", { defaultValue: "No matching users" })}
+                </p>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.buttons.cancel", { defaultValue: "Cancel" })}
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={isStarting || (mode === "user" && !selectedUser)}
+          >
+            {t("viewAs.start", { defaultValue: "Start viewing" })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function UserOption({
+  user,
+  selected,
+  onSelect,
+}: {
+  user: NonNullable<ViewAsDialogProps["user"]>;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "flex w-full items-center gap-2 rounded-md border px-3 py-2 text-start text-sm",
+        selected ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+      )}
+    >
+      <ConsistentAvatar
+        user={{ name: user.name, email: user.email, avatar: user.avatar ?? undefined }}
+        className="size-7"
+      />
+      <div className="min-w-0">
+        <div className="truncate font-medium">{user.name}</div>
+        <div className="truncate text-xs text-muted-foreground">{user.email}</div>
+      </div>
+    </button>
+  );
+}
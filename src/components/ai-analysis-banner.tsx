@@ -13,6 +13,8 @@ type AIAnalysisBannerProps = {
   onAnalyze?: () => void;
   isLoading?: boolean;
   response?: string | null;
+  // Structured result, shown instead of the Markdown response
+  content?: React.ReactNode;
   className?: string;
   defaultCollapsed?: boolean;
   defaultCardCollapsed?: boolean;
@@ -27,6 +29,7 @@ export function AIAnalysisBanner({
   onAnalyze,
   isLoading = false,
   response = null,
+  content,
   className,
   defaultCollapsed = false,
   defaultCardCollapsed = false,
@@ -94,7 +97,7 @@ export function AIAnalysisBanner({
             </div>
             <div className="flex gap-2">
               <Button onClick={handleAnalyzeClick} size="sm" disabled={isLoading}>
-                {response ? rerunText : analyzeText}
+                {response || content ? rerunText : analyzeText}
               </Button>
               <Button
                 variant="ghost"
@@ -115,7 +118,8 @@ export function AIAnalysisBanner({
         </div>
         {!isCardCollapsed && (
           <div className="mt-3 space-y-3">
-            {(typedText || response) && (
+            {content}
+            {!content && (typedText || response) && (
               <Card className="border bg-background/70">
                 <CardContent className="pt-4 pb-4">
                   <div className="flex items-start gap-2">
@@ -0,0 +1,45 @@
+import { cn } from "@/lib/utils";
+import { Card, CardContent } from "@/components/ui/card";
+import { useTheme } from "@/components/theme-provider";
+import backgroundSvg from "@/assets/background.svg";
+import backgroundWhiteSvg from "@/assets/background-white.svg";
+
+// Full-screen backdrop and glass card shared by the signed-out pages
+// (login, forgot password, reset password)
+export function AuthScreen({
+  className,
+  children,
+  ...props
+}: React.ComponentProps<"div">) {
+  const { theme } = useTheme();
+
+  return (
+    <div
+      className={cn(
+        "fixed inset-0 flex items-center justify-center p-4",
+        className
+      )}
+      style={{
+        backgroundImage: `url(${
+          theme === "dark" ? backgroundSvg : backgroundWhiteSvg
+        })`,
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+        width: "100vw",
+        height: "100vh",
+      }}
+      {...props}
+    >
+      {/* Transparent overlay */}
+      <div className="absolute inset-0 bg-background/85 backdrop-blur-sm pointer-events-none" />
+
+      <div className="relative z-10 w-full max-w-md">
+        <Card className="bg-card/30 backdrop-blur-lg border-border/30 shadow-xl">
+          <CardContent className="p-8">{children}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
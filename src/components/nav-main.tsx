@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/sidebar";
 import { cn } from "@/lib/utils";
 import { useNewAnnouncements } from "@/hooks/useNewAnnouncements";
+import { getActiveNavPath } from "@/routes";
 
 type NavItem = {
   title: string;
@@ -35,6 +36,8 @@ export function NavMain({
   const location = useLocation();
   const { t } = useTranslation();
   const hasNewAnnouncements = useNewAnnouncements();
+  // Nested pages highlight the nav item they sit under in the route registry
+  const activeNavPath = getActiveNavPath(location.pathname);
 
   // If groups are provided, use them; otherwise fall back to flat items list
   const organizedGroups: NavGroup[] = groups || (items ? [{ items }] : []);
@@ -59,10 +62,7 @@ export function NavMain({
           <SidebarGroupContent className="flex flex-col gap-1">
             <SidebarMenu>
               {group.items.map((item, itemIndex) => {
-                const isActive =
-                  location.pathname === item.url ||
-                  location.pathname.startsWith(item.url + "/") ||
-                  (location.pathname === "/" && item.url === "/overview");
+                const isActive = item.url === activeNavPath;
                 
                 const isHome = item.url === "/home";
 
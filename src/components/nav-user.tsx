@@ -1,5 +1,7 @@
+import { useState } from "react";
 import {
   IconChevronUp,
+  IconEye,
   IconLogout,
   IconMoon,
   IconPalette,
@@ -34,6 +36,7 @@ import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
+import { ViewAsDialog } from "@/components/ViewAsDialog";
 
 export function NavUser({
   user,
@@ -46,7 +49,8 @@ export function NavUser({
 }) {
   const { isMobile } = useSidebar();
   const { theme, setTheme } = useTheme();
-  const { logout } = useAuth();
+  const { logout, realUser, viewAs } = useAuth();
+  const [showViewAs, setShowViewAs] = useState(false);
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
 
@@ -149,6 +153,15 @@ export function NavUser({
                 <IconUserCircle className="size-3.5" />
                 <span>{t('navigation.account')}</span>
               </DropdownMenuItem>
+              {realUser?.is_staff && !viewAs && (
+                <DropdownMenuItem
+                  onClick={() => setShowViewAs(true)}
+                  className="cursor-pointer transition-all duration-200 hover:bg-sidebar-accent/50 rounded-lg"
+                >
+                  <IconEye className="size-3.5" />
+                  <span>{t("viewAs.menu", { defaultValue: "View as…" })}</span>
+                </DropdownMenuItem>
+              )}
               
               <DropdownMenuSeparator className="my-1 bg-sidebar-border/30" />
 
@@ -227,6 +240,7 @@ export function NavUser({
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <ViewAsDialog open={showViewAs} onOpenChange={setShowViewAs} />
       </SidebarMenuItem>
     </SidebarMenu>
   );
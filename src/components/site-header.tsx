@@ -7,14 +7,21 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
-import { Link, useLocation } from "react-router-dom";
+import { Link, generatePath, useLocation } from "react-router-dom";
+import { useTranslation } from "react-i18next";
 import { Fragment, useEffect, useMemo, useState } from "react";
 import { useCandidates } from "@/context/CandidatesContext";
 import { getPortalSession } from "@/lib/api";
+import { fetchQuery } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import { canAccessPage, getRouteTrail, matchRoute } from "@/routes";
 
 export function SiteHeader() {
   const location = useLocation();
   const { getCandidateById } = useCandidates();
+  const { capabilities } = useUserGroups();
+  const { t } = useTranslation();
   const [sessionTitle, setSessionTitle] = useState<string | null>(null);
 
   // Load session title for breadcrumb when on a session route
@@ -32,7 +39,10 @@ export function SiteHeader() {
     let cancelled = false;
     (async () => {
       try {
-        const s = await getPortalSession(id);
+        // Shares the request with the session page rendering below
+        const s = await fetchQuery(queryKeys.portalSession(id), () =>
+          getPortalSession(id)
+        );
         if (!cancelled) setSessionTitle(s.title || null);
       } catch (_) {
         if (!cancelled) setSessionTitle(null);
@@ -45,45 +55,34 @@ export function SiteHeader() {
 
   const crumbs = useMemo(() => {
     const path = location.pathname;
-    const items: { label: string; to?: string }[] = [];
-    if (path === "/" || path === "/dashboard") {
-      items.push({ label: "Home" });
-    } else if (path === "/candidates") {
-      items.push({ label: "Trainees" });
-    } else if (path.startsWith("/candidates/")) {
-      items.push({ label: "Trainees", to: "/candidates" });
-      const id = path.match(/^\/candidates\/([^/]+)/)?.[1];
-      if (id) {
-        const candidate = getCandidateById(id);
-        items.push({ label: candidate?.fullName ?? `Trainee #${id}` });
-      }
-    } else if (path.startsWith("/forms")) {
-      items.push({ label: "Forms" });
-    } else if (path === "/modules") {
-      items.push({ label: "My Track" });
-    } else if (/^\/modules\/session\/.+/.test(path)) {
-      items.push({ label: "My Track", to: "/modules" });
-      items.push({ label: "Sessions" });
-      items.push({ label: sessionTitle ?? "Session" });
-    } else if (/^\/modules\/\d+\/pre-post-exams\/new$/.test(path)) {
-      items.push({ label: "My Track", to: "/modules" });
-      items.push({ label: "Create Pre/Post Exam" });
-    } else if (/^\/modules\/\d+\/pre-post-exams\/view$/.test(path)) {
-      items.push({ label: "My Track", to: "/modules" });
-      items.push({ label: "Pre/Post Exam" });
-      items.push({ label: "View" });
-    } else if (/^\/modules\/\d+\/exam\/(create|edit|results|take)$/.test(path)) {
-      items.push({ label: "My Track", to: "/modules" });
-      items.push({ label: "Exam" });
-      if (path.endsWith("/create")) items.push({ label: "Create" });
-      else if (path.endsWith("/edit")) items.push({ label: "Edit" });
-      else if (path.endsWith("/results")) items.push({ label: "Results" });
-      else if (path.endsWith("/take")) items.push({ label: "Take" });
-    } else {
-      items.push({ label: "Home" });
+    const params = matchRoute(path)?.params ?? {};
+    // Pages whose last crumb names the record being viewed
+    const dynamicTitles: Record<string, string | null | undefined> = {
+      "/candidates/:id": params.id
+        ? getCandidateById(params.id)?.fullName ?? `Trainee #${params.id}`
+        : null,
+      "/modules/session/:id": sessionTitle,
+    };
+
+    const trail = getRouteTrail(path);
+    if (trail.length === 0) {
+      return [{ label: t("navigation.home", { defaultValue: "Home" }) }];
     }
-    return items;
-  }, [location.pathname, getCandidateById, sessionTitle]);
+    return trail.map((route, index) => {
+      const label =
+        dynamicTitles[route.path] ??
+        t(route.titleKey, { defaultValue: route.defaultTitle });
+      if (index === trail.length - 1 || !canAccessPage(capabilities, route.path)) {
+        return { label };
+      }
+      try {
+        return { label, to: generatePath(route.path, params) };
+      } catch {
+        // The parent needs a param the current URL doesn't carry
+        return { label };
+      }
+    });
+  }, [location.pathname, getCandidateById, sessionTitle, t, capabilities]);
 
   return (
     <header className="flex h-(--header-height) shrink-0 items-center gap-2 border-b transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-(--header-height)">
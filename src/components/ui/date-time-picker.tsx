@@ -19,6 +19,7 @@ interface DateTimePickerProps {
   className?: string;
   label?: string;
   description?: string;
+  error?: string;
 }
 
 export function DateTimePicker({
@@ -29,6 +30,7 @@ export function DateTimePicker({
   className,
   label,
   description,
+  error,
 }: DateTimePickerProps) {
   const [isOpen, setIsOpen] = React.useState(false);
   
@@ -117,6 +119,7 @@ export function DateTimePicker({
           <Button
             variant="outline"
             disabled={disabled}
+            aria-invalid={error ? true : undefined}
             className={cn(
               "w-full justify-start text-left font-normal",
               !value && "text-muted-foreground"
@@ -167,6 +170,11 @@ export function DateTimePicker({
       {description && (
         <p className="text-xs text-muted-foreground">{description}</p>
       )}
+      {error && (
+        <p role="alert" className="text-destructive text-sm">
+          {error}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,41 @@
+import { useState, type ComponentProps } from "react";
+import { IconEye, IconEyeOff } from "@tabler/icons-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type PasswordInputProps = Omit<ComponentProps<typeof Input>, "type"> & {
+  // Accessible names for the visibility toggle
+  showLabel?: string;
+  hideLabel?: string;
+};
+
+export function PasswordInput({
+  className,
+  showLabel = "Show password",
+  hideLabel = "Hide password",
+  ...props
+}: PasswordInputProps) {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <div className="relative">
+      <Input
+        type={visible ? "text" : "password"}
+        className={cn("pr-10", className)}
+        {...props}
+      />
+      <button
+        type="button"
+        aria-label={visible ? hideLabel : showLabel}
+        onClick={() => setVisible((prev) => !prev)}
+        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {visible ? (
+          <IconEyeOff className="h-4 w-4" />
+        ) : (
+          <IconEye className="h-4 w-4" />
+        )}
+      </button>
+    </div>
+  );
+}
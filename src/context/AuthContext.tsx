@@ -4,6 +4,7 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from "react";
 import {
@@ -14,6 +15,14 @@ import {
 } from "@/services/auth";
 import { getCurrentUser, type CurrentUserResponse } from "@/lib/api";
 import { inferGroupIdFromGroups } from "@/lib/permissions";
+import { clearQueryCache } from "@/lib/query-cache";
+import { broadcastAuthEvent, subscribeAuthEvents } from "@/lib/auth-sync";
+import {
+  getViewAsGroups,
+  getViewAsTarget,
+  setViewAsTarget,
+  type ViewAsTarget,
+} from "@/lib/view-as";
 
 export type AuthUser = {
   id: number;
@@ -22,11 +31,18 @@ export type AuthUser = {
   is_staff?: boolean;
   groups?: string[]; // e.g., ["instructor -> Data"], ["Trainee"]
   group_id?: number; // Numeric group ID for permission system
+  capabilities?: string[]; // Granted on top of the roles in groups
   avatar?: string | null;
 };
 
 type AuthContextValue = {
+  // Who the app renders for: the view-as target while staff impersonate
   user: AuthUser | null;
+  // The signed-in account, regardless of view-as
+  realUser: AuthUser | null;
+  viewAs: ViewAsTarget | null;
+  startViewAs: (target: ViewAsTarget) => void;
+  stopViewAs: () => void;
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (credentials: LoginRequest) => Promise<LoginResponse>;
@@ -56,13 +72,40 @@ function mapProfileToAuthUser(
       profile.group_id ||
       inferGroupIdFromGroups(profile.groups) ||
       undefined,
+    capabilities: Array.isArray(profile.capabilities)
+      ? profile.capabilities
+      : undefined,
     avatar: profile.avatar ?? fallback?.avatar ?? null,
   };
 }
 
+// The user a staff member sees the app as while in view-as mode
+function toViewAsUser(realUser: AuthUser, target: ViewAsTarget): AuthUser {
+  const groups = getViewAsGroups(target);
+  const base =
+    target.kind === "user"
+      ? {
+          id: target.userId,
+          email: target.email,
+          name: target.name,
+          avatar: target.avatar ?? null,
+        }
+      : realUser;
+  return {
+    ...base,
+    is_staff: false,
+    groups,
+    group_id: inferGroupIdFromGroups(groups) || undefined,
+    capabilities: undefined,
+  };
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [viewAs, setViewAs] = useState<ViewAsTarget | null>(() =>
+    getViewAsTarget()
+  );
 
   useEffect(() => {
     let isMounted = true;
@@ -92,6 +135,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         const nextUser = mapProfileToAuthUser(profile, storedUser);
         setUser(nextUser);
         localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(nextUser));
+        // Other tabs still hold the old profile
+        if (JSON.stringify(nextUser) !== JSON.stringify(storedUser)) {
+          broadcastAuthEvent({ type: "user", user: nextUser });
+        }
       } catch (error: any) {
         // If we are unauthorized, clear any stale user
         if (error?.status === 401) {
@@ -115,10 +162,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  const startViewAs = useCallback((target: ViewAsTarget) => {
+    setViewAsTarget(target);
+    setViewAs(target);
+    // Cached queries were fetched as the staff member
+    clearQueryCache();
+  }, []);
+
+  const stopViewAs = useCallback(() => {
+    setViewAsTarget(null);
+    setViewAs(null);
+    clearQueryCache();
+  }, []);
+
   const login = useCallback(async (credentials: LoginRequest) => {
     setIsLoading(true);
+    setViewAsTarget(null);
+    setViewAs(null);
     try {
       const resp = await loginService(credentials);
+      // Cached queries belong to whoever was signed in before
+      clearQueryCache();
       // Fetch user details including groups from /me endpoint
       // After successful login, fetch current user profile (with groups)
       let profile: CurrentUserResponse | null = null;
@@ -132,6 +196,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         : resp.user;
       setUser(nextUser);
       localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(nextUser));
+      broadcastAuthEvent({ type: "login", user: nextUser });
       return resp;
     } finally {
       setIsLoading(false);
@@ -140,24 +205,76 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = useCallback(async () => {
     setIsLoading(true);
+    // Leave view-as first: it blocks the logout POST
+    setViewAsTarget(null);
+    setViewAs(null);
     try {
       await logoutService();
     } finally {
       setUser(null);
       localStorage.removeItem(USER_STORAGE_KEY);
+      clearQueryCache();
+      broadcastAuthEvent({ type: "logout" });
       setIsLoading(false);
     }
   }, []);
 
+  // Follow logins, logouts and /me refreshes made in other tabs
+  const userRef = useRef(user);
+  useEffect(() => {
+    userRef.current = user;
+  });
+  useEffect(
+    () =>
+      subscribeAuthEvents((event) => {
+        const nextUser = event.type === "logout" ? null : event.user;
+        if (nextUser?.id !== userRef.current?.id) {
+          // A different account: drop view-as and data cached for the old one
+          setViewAsTarget(null);
+          setViewAs(null);
+          clearQueryCache();
+        }
+        setUser(nextUser);
+      }),
+    []
+  );
+
+  // A target left over from a staff session must not keep the API read-only
+  useEffect(() => {
+    if (user && !user.is_staff && getViewAsTarget()) {
+      setViewAsTarget(null);
+    }
+  }, [user]);
+
+  // Only staff may view as someone else; a stale target is otherwise ignored
+  const activeViewAs = user?.is_staff ? viewAs : null;
+  const effectiveUser = useMemo(
+    () => (user && activeViewAs ? toViewAsUser(user, activeViewAs) : user),
+    [user, activeViewAs]
+  );
+
   const value = useMemo<AuthContextValue>(
     () => ({
-      user,
+      user: effectiveUser,
+      realUser: user,
+      viewAs: activeViewAs,
+      startViewAs,
+      stopViewAs,
       isAuthenticated: Boolean(user),
       isLoading,
       login,
       logout,
     }),
-    [user, isLoading, login, logout]
+    [
+      effectiveUser,
+      user,
+      activeViewAs,
+      startViewAs,
+      stopViewAs,
+      isLoading,
+      login,
+      logout,
+    ]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
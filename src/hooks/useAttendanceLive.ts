@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import {
+  connectAttendanceLive,
+  type AttendanceLiveChange,
+  type AttendanceLiveConnection,
+  type AttendanceLivePeer,
+  type AttendanceLiveStatus,
+} from "@/lib/attendance-live";
+
+// How long a row stays highlighted after someone else changed it
+const HIGHLIGHT_MS = 10000;
+
+// One id per tab, so the same account open twice still shows as two trackers
+const TAB_CLIENT_ID =
+  typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export type RemoteRowChange = {
+  by: string;
+  at: number;
+};
+
+type UseAttendanceLiveOptions = {
+  event: number | null;
+  date: string;
+  enabled?: boolean;
+  // Changes written by other trackers on this event and date
+  onChanges: (changes: AttendanceLiveChange[]) => void;
+  // The channel came back after a drop; reload whatever was missed
+  onReconnect?: () => void;
+};
+
+/**
+ * Live channel for the attendance roster: receives other trackers' writes,
+ * tracks who else is on the same event/date, and announces our own writes.
+ */
+export function useAttendanceLive({
+  event,
+  date,
+  enabled = true,
+  onChanges,
+  onReconnect,
+}: UseAttendanceLiveOptions) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<AttendanceLiveStatus>("offline");
+  const [peers, setPeers] = useState<AttendanceLivePeer[]>([]);
+  const [remoteChanges, setRemoteChanges] = useState<
+    Record<number, RemoteRowChange>
+  >({});
+  const connectionRef = useRef<AttendanceLiveConnection | null>(null);
+
+  const onChangesRef = useRef(onChanges);
+  const onReconnectRef = useRef(onReconnect);
+  useEffect(() => {
+    onChangesRef.current = onChanges;
+    onReconnectRef.current = onReconnect;
+  });
+
+  const self = useMemo<AttendanceLivePeer | null>(
+    () =>
+      user
+        ? {
+            client_id: TAB_CLIENT_ID,
+            user_id: user.id,
+            name: user.name,
+            email: user.email,
+          }
+        : null,
+    [user]
+  );
+
+  useEffect(() => {
+    setPeers([]);
+    setRemoteChanges({});
+    if (!enabled || !event || !self) {
+      setStatus("offline");
+      return;
+    }
+    const connection = connectAttendanceLive({
+      channel: { event, date },
+      peer: self,
+      onStatus: setStatus,
+      onReconnect: () => onReconnectRef.current?.(),
+      onMessage: (message) => {
+        if (message.type === "presence") {
+          setPeers(
+            message.peers.filter((peer) => peer.client_id !== self.client_id)
+          );
+          return;
+        }
+        onChangesRef.current(message.changes);
+        const at = Date.now();
+        setRemoteChanges((prev) => {
+          const next = { ...prev };
+          message.changes.forEach((change) => {
+            next[change.candidate_id] = { by: message.from.name, at };
+          });
+          return next;
+        });
+      },
+    });
+    connectionRef.current = connection;
+    return () => {
+      connectionRef.current = null;
+      connection.close();
+    };
+  }, [enabled, event, date, self]);
+
+  // Fade highlights out once they are old enough
+  useEffect(() => {
+    const stamps = Object.values(remoteChanges).map((change) => change.at);
+    if (!stamps.length) return;
+    const delay = Math.max(0, Math.min(...stamps) + HIGHLIGHT_MS - Date.now());
+    const timer = window.setTimeout(() => {
+      const cutoff = Date.now() - HIGHLIGHT_MS;
+      setRemoteChanges((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([, change]) => change.at > cutoff)
+        )
+      );
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [remoteChanges]);
+
+  const publish = useCallback((changes: AttendanceLiveChange[]) => {
+    connectionRef.current?.publish(changes);
+  }, []);
+
+  return { status, peers, remoteChanges, publish };
+}
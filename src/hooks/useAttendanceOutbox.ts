@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  dismissOutboxConflict,
+  flushOutbox,
+  listOutbox,
+  subscribeOutbox,
+  type OutboxOperation,
+} from "@/lib/attendance-outbox";
+
+type UseAttendanceOutboxOptions = {
+  // Called after queued operations were delivered, to reload server state
+  onSynced?: () => void;
+};
+
+/**
+ * Live view of the offline attendance outbox. Replays the queue on mount and
+ * whenever the browser reports that connectivity came back.
+ */
+export function useAttendanceOutbox(options: UseAttendanceOutboxOptions = {}) {
+  const [operations, setOperations] = useState<OutboxOperation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const onSyncedRef = useRef(options.onSynced);
+  useEffect(() => {
+    onSyncedRef.current = options.onSynced;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let pendingCount: number | null = null;
+    let syncedTimer: number | undefined;
+    const refresh = () => {
+      listOutbox()
+        .then((items) => {
+          if (cancelled) return;
+          setOperations(items);
+          const nextPending = items.filter(
+            (operation) => operation.status === "pending"
+          ).length;
+          // Something left the queue; reload once the replay settles
+          if (pendingCount !== null && nextPending < pendingCount) {
+            window.clearTimeout(syncedTimer);
+            syncedTimer = window.setTimeout(
+              () => onSyncedRef.current?.(),
+              300
+            );
+          }
+          pendingCount = nextPending;
+        })
+        .catch((error) => {
+          console.error("Failed to read attendance outbox:", error);
+        });
+    };
+    refresh();
+    const unsubscribe = subscribeOutbox(refresh);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(syncedTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await flushOutbox();
+    } catch (error) {
+      console.error("Attendance outbox sync failed:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  const dismissConflict = useCallback((id: number) => {
+    dismissOutboxConflict(id).catch((error) => {
+      console.error("Failed to dismiss attendance conflict:", error);
+    });
+  }, []);
+
+  return useMemo(() => {
+    const pending = operations.filter(
+      (operation) => operation.status === "pending"
+    );
+    const conflicts = operations.filter(
+      (operation) => operation.status === "conflict"
+    );
+    return {
+      operations,
+      pending,
+      conflicts,
+      pendingCount: pending.length,
+      isSyncing,
+      sync,
+      dismissConflict,
+    };
+  }, [operations, isSyncing, sync, dismissConflict]);
+}
@@ -0,0 +1,34 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@/hooks/useQuery";
+import { getAttendancePolicies } from "@/lib/api";
+import { resolveAttendancePolicy } from "@/lib/attendance-policy";
+import { queryKeys } from "@/lib/query-keys";
+
+const POLICY_STALE_TIME = 5 * 60 * 1000;
+
+/**
+ * Per-track attendance policies. Until they load (or if the user may not
+ * read them) every track resolves to the built-in defaults.
+ */
+export function useAttendancePolicies() {
+  const policiesQuery = useQuery(
+    queryKeys.attendancePolicies(),
+    getAttendancePolicies,
+    { staleTime: POLICY_STALE_TIME }
+  );
+  const records = policiesQuery.data;
+
+  const getPolicy = useCallback(
+    (track?: string | null) => resolveAttendancePolicy(records, track),
+    [records]
+  );
+
+  return useMemo(
+    () => ({
+      records: records ?? [],
+      isLoading: policiesQuery.isLoading,
+      getPolicy,
+    }),
+    [records, policiesQuery.isLoading, getPolicy]
+  );
+}
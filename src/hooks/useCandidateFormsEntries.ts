@@ -0,0 +1,80 @@
+import { useQuery } from "@/hooks/useQuery";
+import { fetchQuery } from "@/lib/query-cache";
+import {
+  getCandidates,
+  getUserDetailById,
+  type BackendUserDetail,
+} from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+// Entries move only when forms are submitted; one sweep per 10 minutes
+const ENTRIES_STALE_TIME = 10 * 60 * 1000;
+// Parallel detail requests while sweeping the candidate list
+const DETAIL_CONCURRENCY = 4;
+
+export type CandidateFormsEntries = {
+  id: number;
+  name: string;
+  formsEntries: NonNullable<BackendUserDetail["forms_entries"]>;
+  // Stored AI analysis, for when the list endpoint leaves it out
+  aiAnalysis: string | null;
+};
+
+export type CandidateFormsEntriesData = {
+  candidateCount: number;
+  candidates: CandidateFormsEntries[];
+  // Candidates whose detail failed to load are left out
+  failedCount: number;
+};
+
+// The list endpoint has no forms_entries, so this reads every candidate's
+// detail; a dedicated endpoint would make it one request
+async function fetchCandidateFormsEntries(): Promise<CandidateFormsEntriesData> {
+  const { results } = await getCandidates();
+  const candidates: CandidateFormsEntries[] = [];
+  let failedCount = 0;
+  let next = 0;
+
+  async function worker() {
+    while (next < results.length) {
+      const candidate = results[next++];
+      try {
+        const detail = await getUserDetailById(String(candidate.id));
+        candidates.push({
+          id: detail.id,
+          name: detail.name,
+          formsEntries: detail.forms_entries ?? [],
+          aiAnalysis: detail.ai_analysis ?? null,
+        });
+      } catch {
+        failedCount += 1;
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(DETAIL_CONCURRENCY, results.length) }, worker)
+  );
+  return { candidateCount: results.length, candidates, failedCount };
+}
+
+/** The same sweep outside render, reusing the cached one while fresh. */
+export function loadCandidateFormsEntries(): Promise<CandidateFormsEntriesData> {
+  return fetchQuery(queryKeys.candidateFormsEntries(), fetchCandidateFormsEntries, {
+    staleTime: ENTRIES_STALE_TIME,
+  });
+}
+
+/**
+ * Every candidate's submitted form entries and stored AI analysis, shared by
+ * the interviewer calibration, the forms agreement report and the AI filter
+ * on the candidates list.
+ */
+export function useCandidateFormsEntries({
+  enabled = true,
+}: { enabled?: boolean } = {}) {
+  return useQuery(queryKeys.candidateFormsEntries(), fetchCandidateFormsEntries, {
+    enabled,
+    staleTime: ENTRIES_STALE_TIME,
+  });
+}
@@ -0,0 +1,38 @@
+import { useMemo } from "react";
+import { useQuery } from "@/hooks/useQuery";
+import { getAttendanceRequests } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+type UseExcusedDatesOptions =
+  // The signed-in trainee's own excuses
+  | { mine: true; traineeId?: never }
+  // Someone else's, read from the reviewers' approved list
+  | { mine?: false; traineeId: number | string };
+
+/**
+ * Dates covered by an approved excuse. Users who can't read requests simply
+ * get an empty list.
+ */
+export function useExcusedDates(options: UseExcusedDatesOptions): string[] {
+  const filters = options.mine
+    ? { mine: true }
+    : { status: "approved" as const };
+  const requestsQuery = useQuery(queryKeys.attendanceRequests(filters), () =>
+    getAttendanceRequests(filters)
+  );
+  const requests = requestsQuery.data;
+  const traineeId = options.mine ? null : String(options.traineeId);
+
+  return useMemo(
+    () =>
+      (requests ?? [])
+        .filter(
+          (request) =>
+            request.type === "excuse" &&
+            request.status === "approved" &&
+            (traineeId === null || String(request.trainee.id) === traineeId)
+        )
+        .map((request) => request.attendance_date),
+    [requests, traineeId]
+  );
+}
@@ -0,0 +1,71 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  ValidationError,
+  getNonFieldErrors,
+  type FieldErrors,
+} from "@/lib/api-errors";
+
+/**
+ * Keeps backend validation errors keyed by form input name.
+ *
+ * `fieldMap` translates backend field paths to the names used by the form
+ * (e.g. { publish_at_pre: "publishAtPre" }); unmapped paths keep their name.
+ */
+export function useFieldErrors(fieldMap: Record<string, string> = {}) {
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  // Serialize so callers can pass an inline object literal
+  const fieldMapKey = JSON.stringify(fieldMap);
+
+  /**
+   * Map a caught error onto the form. Returns the message that still needs
+   * to be shown elsewhere (non-field errors), or null when every problem
+   * was attached to an input.
+   */
+  const applyError = useCallback(
+    (error: unknown): string | null => {
+      if (!(error instanceof ValidationError)) return null;
+
+      const map = JSON.parse(fieldMapKey) as Record<string, string>;
+      const next: FieldErrors = {};
+      for (const [path, messages] of Object.entries(error.fieldErrors)) {
+        const name = map[path] ?? path;
+        next[name] = [...(next[name] ?? []), ...messages];
+      }
+      setFieldErrors(next);
+
+      const nonField = getNonFieldErrors(error.data);
+      if (nonField.length > 0) return nonField[0];
+      return Object.keys(next).length > 0 ? null : error.message;
+    },
+    [fieldMapKey]
+  );
+
+  const clearFieldError = useCallback((name: string) => {
+    setFieldErrors((prev) => {
+      if (!(name in prev)) return prev;
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  const resetFieldErrors = useCallback(() => setFieldErrors({}), []);
+
+  return useMemo(
+    () => ({
+      fieldErrors,
+      hasFieldErrors: Object.keys(fieldErrors).length > 0,
+      applyError,
+      clearFieldError,
+      resetFieldErrors,
+      // First message for an input, convenient for aria-invalid / inline text
+      getFieldError: (name: string): string | undefined =>
+        fieldErrors[name]?.[0],
+      // Shape expected by <FieldError errors={...} />
+      getFieldErrorItems: (name: string) =>
+        (fieldErrors[name] ?? []).map((message) => ({ message })),
+    }),
+    [fieldErrors, applyError, clearFieldError, resetFieldErrors]
+  );
+}
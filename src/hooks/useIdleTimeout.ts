@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  IDLE_WARNING_MS,
+  getIdleTimeoutMs,
+  getLastActivityAt,
+  recordActivity,
+} from "@/lib/idle-timeout";
+
+const ACTIVITY_EVENTS = [
+  "mousedown",
+  "mousemove",
+  "keydown",
+  "touchstart",
+  "wheel",
+  "scroll",
+] as const;
+
+// Activity is written to localStorage at most this often
+const ACTIVITY_THROTTLE_MS = 5000;
+const TICK_MS = 1000;
+
+type UseIdleTimeoutOptions = {
+  enabled: boolean;
+  onTimeout: () => void;
+  // Checked every tick; while true the countdown is held, e.g. in kiosk mode
+  isPaused?: () => boolean;
+};
+
+/**
+ * Idle countdown for the configured timeout (see lib/idle-timeout.ts).
+ * remainingMs is set only during the warning window; input outside the
+ * warning resets the timer, inside it only stayActive() does.
+ */
+export function useIdleTimeout({
+  enabled,
+  onTimeout,
+  isPaused,
+}: UseIdleTimeoutOptions) {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+
+  const onTimeoutRef = useRef(onTimeout);
+  const isPausedRef = useRef(isPaused);
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+    isPausedRef.current = isPaused;
+  });
+  const isWarningRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setRemainingMs(null);
+      isWarningRef.current = false;
+      return;
+    }
+
+    // Opening the app or signing in counts as activity
+    recordActivity();
+    let lastWrite = Date.now();
+    let fired = false;
+
+    const handleActivity = () => {
+      if (isWarningRef.current) return;
+      const now = Date.now();
+      if (now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      recordActivity(now);
+    };
+
+    // While off or paused the clock restarts from now, so switching it back
+    // on doesn't sign out at once
+    let heldAt = 0;
+
+    const tick = () => {
+      if (fired) return;
+      const timeoutMs = getIdleTimeoutMs();
+      if (timeoutMs <= 0 || isPausedRef.current?.()) {
+        heldAt = Date.now();
+        isWarningRef.current = false;
+        setRemainingMs(null);
+        return;
+      }
+      const idleSince = Math.max(getLastActivityAt(), heldAt);
+      const left = timeoutMs - (Date.now() - idleSince);
+      if (left <= 0) {
+        fired = true;
+        isWarningRef.current = false;
+        setRemainingMs(null);
+        onTimeoutRef.current();
+      } else if (left <= IDLE_WARNING_MS) {
+        isWarningRef.current = true;
+        setRemainingMs(left);
+      } else {
+        isWarningRef.current = false;
+        setRemainingMs(null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((name) =>
+      window.addEventListener(name, handleActivity, { passive: true })
+    );
+    const interval = window.setInterval(tick, TICK_MS);
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((name) =>
+        window.removeEventListener(name, handleActivity)
+      );
+    };
+  }, [enabled]);
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    isWarningRef.current = false;
+    setRemainingMs(null);
+  }, []);
+
+  return { remainingMs, stayActive };
+}
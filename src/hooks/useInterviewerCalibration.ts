@@ -0,0 +1,44 @@
+import { useMemo } from "react";
+import {
+  loadCandidateFormsEntries,
+  useCandidateFormsEntries,
+} from "@/hooks/useCandidateFormsEntries";
+import {
+  buildInterviewerCalibration,
+  collectInterviewScores,
+} from "@/lib/interviewer-calibration";
+
+/** Load the calibration outside render, e.g. right before a prompt. */
+export async function loadInterviewerCalibration() {
+  const data = await loadCandidateFormsEntries();
+  return buildInterviewerCalibration(collectInterviewScores(data.candidates));
+}
+
+/**
+ * Interviewer calibration built from every candidate's HR and technical
+ * interview scores (lib/interviewer-calibration.ts).
+ */
+export function useInterviewerCalibration({
+  enabled = true,
+}: { enabled?: boolean } = {}) {
+  const entriesQuery = useCandidateFormsEntries({ enabled });
+  const data = entriesQuery.data;
+
+  const calibration = useMemo(
+    () =>
+      data
+        ? buildInterviewerCalibration(collectInterviewScores(data.candidates))
+        : null,
+    [data]
+  );
+
+  return {
+    calibration,
+    candidateCount: data?.candidateCount ?? 0,
+    failedCount: data?.failedCount ?? 0,
+    isLoading: entriesQuery.isLoading,
+    isFetching: entriesQuery.isFetching,
+    error: entriesQuery.error,
+    refetch: entriesQuery.refetch,
+  };
+}
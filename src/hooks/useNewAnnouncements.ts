@@ -1,75 +1,51 @@
-import { useEffect, useState } from "react";
+import { useMemo } from "react";
 import { getAnnouncements, type Announcement } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 
 /**
  * Checks if the most recent announcement was published in the last 24 hours
  * @returns boolean indicating if there are new announcements (< 24 hours old)
  */
 export function useNewAnnouncements(): boolean {
-  const [hasNewAnnouncements, setHasNewAnnouncements] = useState(false);
-
-  useEffect(() => {
-    async function checkForNewAnnouncements() {
-      try {
-        const response = await getAnnouncements();
-        const announcements = response.results || [];
-        
-        if (announcements.length === 0) {
-          setHasNewAnnouncements(false);
-          return;
-        }
-
-        // Filter out disabled and expired announcements
-        const activeAnnouncements = announcements.filter((announcement: Announcement) => {
-          if (announcement.is_disabled) return false;
-          
-          const now = new Date();
-          if (announcement.expire_at) {
-            const expireDate = new Date(announcement.expire_at);
-            if (expireDate < now) return false;
-          }
-          
-          return true;
-        });
-
-        if (activeAnnouncements.length === 0) {
-          setHasNewAnnouncements(false);
-          return;
-        }
-
-        // Get the most recent announcement (sort by publish_at descending)
-        const sortedAnnouncements = [...activeAnnouncements].sort((a, b) => {
-          const dateA = new Date(a.publish_at).getTime();
-          const dateB = new Date(b.publish_at).getTime();
-          return dateB - dateA;
-        });
-
-        const mostRecent = sortedAnnouncements[0];
-        const now = new Date();
-        const publishDate = new Date(mostRecent.publish_at);
-        const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-        // Check if most recent announcement is less than 24 hours old
-        const isNew = publishDate >= twentyFourHoursAgo && publishDate <= now;
-        
-        setHasNewAnnouncements(isNew);
-      } catch (error) {
-        console.error("Failed to check for new announcements:", error);
-        setHasNewAnnouncements(false);
+  // Shares the cached list with HomePage; re-check every 5 minutes
+  const { data } = useQuery(
+    queryKeys.announcements(),
+    () => getAnnouncements(),
+    { refetchInterval: 5 * 60 * 1000 }
+  );
+
+  return useMemo(() => {
+    const announcements = data?.results || [];
+    if (announcements.length === 0) return false;
+
+    // Filter out disabled and expired announcements
+    const now = new Date();
+    const activeAnnouncements = announcements.filter((announcement: Announcement) => {
+      if (announcement.is_disabled) return false;
+
+      if (announcement.expire_at) {
+        const expireDate = new Date(announcement.expire_at);
+        if (expireDate < now) return false;
       }
-    }
 
-    // Check immediately on page load/refresh
-    checkForNewAnnouncements();
+      return true;
+    });
 
-    // Check every 5 minutes to catch new announcements
-    const interval = setInterval(checkForNewAnnouncements, 5 * 60 * 1000);
+    if (activeAnnouncements.length === 0) return false;
 
-    return () => {
-      clearInterval(interval);
-    };
-  }, []);
+    // Get the most recent announcement (sort by publish_at descending)
+    const sortedAnnouncements = [...activeAnnouncements].sort((a, b) => {
+      const dateA = new Date(a.publish_at).getTime();
+      const dateB = new Date(b.publish_at).getTime();
+      return dateB - dateA;
+    });
 
-  return hasNewAnnouncements;
-}
+    const mostRecent = sortedAnnouncements[0];
+    const publishDate = new Date(mostRecent.publish_at);
+    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
+    // Check if most recent announcement is less than 24 hours old
+    return publishDate >= twentyFourHoursAgo && publishDate <= now;
+  }, [data]);
+}
@@ -0,0 +1,22 @@
+import { useMemo } from "react";
+import { useQuery } from "@/hooks/useQuery";
+import { getPortalTracks } from "@/lib/api";
+import { getProgramDates } from "@/lib/attendance-calendar";
+import { queryKeys } from "@/lib/query-keys";
+
+/**
+ * Days the track's sessions are scheduled on, shared by the trainee's own
+ * calendar and the staff breakdown so both mark the same absences. Empty
+ * until the tracks load or when the track has no dated sessions.
+ */
+export function useProgramDates(track: string | null | undefined): string[] {
+  const tracksQuery = useQuery(queryKeys.portalTracks(), () => getPortalTracks(), {
+    enabled: Boolean(track),
+  });
+  const tracks = tracksQuery.data?.results;
+
+  return useMemo(
+    () => getProgramDates(tracks?.find((item) => item.name === track)),
+    [tracks, track]
+  );
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  fetchQuery,
+  getQuerySnapshot,
+  hashQueryKey,
+  subscribeQuery,
+  type QueryKey,
+} from "@/lib/query-cache";
+
+type UseQueryOptions = {
+  // Skip fetching until this is true (e.g. waiting for a route param)
+  enabled?: boolean;
+  // Data younger than this (ms) is served without a request
+  staleTime?: number;
+  // Poll in the background every N ms while mounted
+  refetchInterval?: number;
+};
+
+/**
+ * Subscribe a component to a cached query. Cached data is returned on the
+ * first render, so `isLoading` is only true when nothing was cached yet.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+) {
+  const { enabled = true, staleTime, refetchInterval } = options;
+  const hash = hashQueryKey(key);
+
+  // Keep the latest fetcher without re-running effects on every render
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      subscribeQuery(JSON.parse(hash) as QueryKey, listener),
+    [hash]
+  );
+  const getSnapshot = useCallback(
+    () => getQuerySnapshot<T>(JSON.parse(hash) as QueryKey),
+    [hash]
+  );
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+
+  const refetch = useCallback(
+    () =>
+      fetchQuery<T>(
+        JSON.parse(hash) as QueryKey,
+        () => fetcherRef.current(),
+        { force: true }
+      ),
+    [hash]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchQuery<T>(JSON.parse(hash) as QueryKey, () => fetcherRef.current(), {
+      staleTime,
+    }).catch(() => {
+      // Error is exposed through the snapshot
+    });
+  }, [hash, enabled, staleTime]);
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+    const interval = setInterval(() => {
+      refetch().catch(() => {
+        // Error is exposed through the snapshot
+      });
+    }, refetchInterval);
+    return () => clearInterval(interval);
+  }, [enabled, refetchInterval, refetch]);
+
+  return {
+    data: snapshot.data,
+    error: snapshot.error,
+    isLoading:
+      enabled && snapshot.data === undefined && snapshot.error === undefined,
+    isFetching: snapshot.isFetching,
+    refetch,
+  };
+}
@@ -1,5 +1,6 @@
 import { AppSidebar } from "@/components/app-sidebar";
 import { SiteHeader } from "@/components/site-header";
+import { ViewAsBanner } from "@/components/ViewAsBanner";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { useTheme } from "@/components/theme-provider";
 import backgroundSvg from "@/assets/background.svg";
@@ -46,6 +47,7 @@ export function AppLayout({ children }: AppLayoutProps) {
           }
         />
         <div className="relative z-10">
+          <ViewAsBanner />
           <SiteHeader />
           <div className="flex flex-1 flex-col">
             <div className="@container/main flex flex-1 flex-col gap-2">
@@ -0,0 +1,189 @@
+/*
+ Typed errors thrown by the API client (lib/api.ts).
+ - ApiError is the base class and keeps `status` / `data` for existing callers
+ - Subclasses map to HTTP status so pages can branch with `instanceof`
+ - DRF validation bodies ({field: [msgs]}) are flattened into `fieldErrors`
+*/
+
+// Field path -> messages. Nested DRF errors are flattened with dots,
+// e.g. { questions: [{ title: ["Required"] }] } -> "questions.0.title"
+export type FieldErrors = Record<string, string[]>;
+
+// Keys DRF uses for errors that don't belong to a single input
+const NON_FIELD_KEYS = ["detail", "non_field_errors"];
+
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+    this.fieldErrors = parseFieldErrors(data);
+  }
+}
+
+// 400 - request body failed backend validation
+export class ValidationError extends ApiError {
+  constructor(message: string, status: number, data?: unknown) {
+    super(message, status, data);
+    this.name = "ValidationError";
+  }
+}
+
+// 403 - authenticated but not allowed to perform the action
+export class PermissionError extends ApiError {
+  constructor(message: string, status: number, data?: unknown) {
+    super(message, status, data);
+    this.name = "PermissionError";
+  }
+}
+
+// 404 - resource does not exist (or is hidden from this user)
+export class NotFoundError extends ApiError {
+  constructor(message: string, status: number, data?: unknown) {
+    super(message, status, data);
+    this.name = "NotFoundError";
+  }
+}
+
+// 409 - resource changed or already exists
+export class ConflictError extends ApiError {
+  constructor(message: string, status: number, data?: unknown) {
+    super(message, status, data);
+    this.name = "ConflictError";
+  }
+}
+
+// Request never reached the server (offline, DNS, CORS); status is 0
+export class NetworkError extends ApiError {
+  constructor(message = "Network request failed", cause?: unknown) {
+    super(message, 0, undefined);
+    this.name = "NetworkError";
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+// Write refused client-side because staff are in read-only "view as" mode
+export class ReadOnlyModeError extends PermissionError {
+  constructor(message = "Read-only while viewing as someone else") {
+    super(message, 403, undefined);
+    this.name = "ReadOnlyModeError";
+  }
+}
+
+/**
+ * Flatten a DRF-style error body into field path -> messages.
+ * `detail` and `non_field_errors` are left out; see getNonFieldErrors().
+ */
+export function parseFieldErrors(data: unknown): FieldErrors {
+  const result: FieldErrors = {};
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return result;
+  }
+
+  const visit = (value: unknown, path: string) => {
+    if (typeof value === "string") {
+      (result[path] ??= []).push(value);
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        // ["msg", "msg"] belongs to the field itself; [{...}, {...}] is a nested list
+        if (typeof item === "string") {
+          (result[path] ??= []).push(item);
+        } else if (item && typeof item === "object") {
+          visit(item, `${path}.${index}`);
+        }
+      });
+      return;
+    }
+    if (value && typeof value === "object") {
+      for (const [key, nested] of Object.entries(value)) {
+        visit(nested, path ? `${path}.${key}` : key);
+      }
+    }
+  };
+
+  for (const [key, value] of Object.entries(data)) {
+    if (NON_FIELD_KEYS.includes(key)) continue;
+    visit(value, key);
+  }
+
+  return result;
+}
+
+/**
+ * Messages from `detail` / `non_field_errors` in a DRF error body.
+ */
+export function getNonFieldErrors(data: unknown): string[] {
+  if (typeof data === "string") return data.trim() ? [data] : [];
+  if (typeof data !== "object" || data === null) return [];
+
+  const messages: string[] = [];
+  for (const key of NON_FIELD_KEYS) {
+    const value = (data as Record<string, unknown>)[key];
+    if (typeof value === "string") {
+      messages.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => {
+        if (typeof item === "string") messages.push(item);
+      });
+    }
+  }
+  return messages;
+}
+
+// Human-readable summary of an error body for toasts and Error.message
+function summarizeErrorBody(data: unknown, fallback: string): string {
+  const nonField = getNonFieldErrors(data);
+  if (nonField.length > 0) return nonField[0];
+
+  const [firstField] = Object.entries(parseFieldErrors(data));
+  if (firstField) {
+    const [field, messages] = firstField;
+    return `${field}: ${messages[0]}`;
+  }
+
+  return fallback;
+}
+
+/**
+ * Build the right ApiError subclass for a failed response.
+ */
+export function createApiError(
+  status: number,
+  statusText: string,
+  data?: unknown
+): ApiError {
+  const message = summarizeErrorBody(data, statusText || `HTTP ${status}`);
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, data);
+    case 403:
+      return new PermissionError(message, status, data);
+    case 404:
+      return new NotFoundError(message, status, data);
+    case 409:
+      return new ConflictError(message, status, data);
+    default:
+      return new ApiError(message, status, data);
+  }
+}
+
+/**
+ * User-facing message for anything caught from the API client.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof NetworkError) return fallback;
+  if (error instanceof ApiError) return error.message || fallback;
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
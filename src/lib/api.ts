@@ -4,6 +4,9 @@
  - Sends credentials for cookie-based auth
  - Handles CSRF token retrieval/attachment for unsafe HTTP methods
  - Attaches Authorization header when access token is available (fallback)
+ - Refreshes an expired access token once (single-flight) and replays the request
+ - Mutations invalidate the matching query cache keys (lib/query-cache.ts)
+ - Staff "view as" mode (lib/view-as.ts) blocks every mutating request
 */
 
 /* permissions
@@ -14,6 +17,15 @@ INSTRUCTOR,DATA -- 5 (UserDetailPage and UsersPage and FormsPage only, FormsPage
 TRAINEE -- 8 (FormsPage only, is home)
 SUPPORT -- 9 (AttendancePage only, is home)
 */
+import {
+  createApiError,
+  NetworkError,
+  ReadOnlyModeError,
+} from "@/lib/api-errors";
+import { invalidateQueries, type QueryKey } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
+import { getViewAsTarget } from "@/lib/view-as";
+
 const defaultBaseUrl = "https://tgp.tatweer.dev/api/v1";
 
 const metaEnv =
@@ -27,6 +39,9 @@ export const apiBaseUrl: string = metaEnv.VITE_API_BASE_URL ?? defaultBaseUrl;
 
 let cachedCsrfToken: string | null = null;
 
+// In-flight refresh shared by every request that hits a 401 at the same time
+let refreshPromise: Promise<string | null> | null = null;
+
 export function setAccessToken(token: string | null) {
   if (token) {
     localStorage.setItem("access_token", token);
@@ -39,6 +54,116 @@ export function getAccessToken(): string | null {
   return localStorage.getItem("access_token");
 }
 
+export function setRefreshToken(token: string | null) {
+  if (token) {
+    localStorage.setItem("refresh_token", token);
+  } else {
+    localStorage.removeItem("refresh_token");
+  }
+}
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem("refresh_token");
+}
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Concurrent callers share one request; resolves to null when refresh fails.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    const refresh = getRefreshToken();
+    if (!refresh) return null;
+
+    try {
+      const response = await fetch(joinUrl(apiBaseUrl, "/token/refresh/"), {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ refresh }),
+      });
+      if (!response.ok) return null;
+
+      const data = (await response.json()) as {
+        access?: string;
+        refresh?: string;
+      };
+      if (!data?.access) return null;
+
+      setAccessToken(data.access);
+      // Backends with token rotation hand out a new refresh token as well
+      if (data.refresh) setRefreshToken(data.refresh);
+      return data.access;
+    } catch {
+      return null;
+    }
+  })().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+}
+
+// Pages that work without a session (see the public routes in App.tsx)
+const SIGNED_OUT_PATHS = ["/login", "/forgot-password", "/reset-password"];
+
+// Session is unrecoverable: clear credentials and send the user to login
+function handleSessionExpired() {
+  setAccessToken(null);
+  setRefreshToken(null);
+  localStorage.removeItem("auth_user");
+
+  // Redirect to login unless already on a signed-out page
+  if (!SIGNED_OUT_PATHS.includes(window.location.pathname)) {
+    window.location.href = "/login";
+  }
+}
+
+/**
+ * fetch() with the bearer token attached. On 401 it waits for a token
+ * refresh and replays the request once; if the refresh fails the session
+ * is cleared and the original 401 response is returned to the caller.
+ * With keepSessionOn401 a replay that still gets a 401 is returned as-is.
+ */
+async function fetchWithAuth(
+  url: string,
+  init: Omit<RequestInit, "headers"> & { headers: Record<string, string> },
+  options: { skipAuthRefresh?: boolean; keepSessionOn401?: boolean } = {}
+): Promise<Response> {
+  const send = () => {
+    const headers = { ...init.headers };
+    const accessToken = getAccessToken();
+    if (accessToken && !headers["Authorization"]) {
+      headers["Authorization"] = `Bearer ${accessToken}`;
+    }
+    return fetch(url, { ...init, headers }).catch((cause: unknown) => {
+      throw new NetworkError(undefined, cause);
+    });
+  };
+
+  const response = await send();
+  if (response.status !== 401 || options.skipAuthRefresh) {
+    return response;
+  }
+
+  const newToken = await refreshAccessToken();
+  if (!newToken) {
+    handleSessionExpired();
+    return response;
+  }
+
+  const retried = await send();
+  if (retried.status === 401 && !options.keepSessionOn401) {
+    handleSessionExpired();
+  }
+  return retried;
+}
+
 export async function ensureCsrfToken(): Promise<string> {
   if (cachedCsrfToken) return cachedCsrfToken;
 
@@ -76,17 +201,24 @@ export async function ensureCsrfToken(): Promise<string> {
   return "";
 }
 
+// Refuse writes in view-as mode
+function assertWritable(method: string) {
+  if (method !== "GET" && getViewAsTarget()) throw new ReadOnlyModeError();
+}
+
 export type ApiRequestOptions = {
   method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
   headers?: Record<string, string>;
   body?: unknown;
   // If true, will force fetching CSRF token before the request, regardless of method
   requireCsrf?: boolean;
-};
-
-type ApiError = Error & {
-  status?: number;
-  data?: unknown;
+  // If true, a 401 is returned as-is instead of triggering a token refresh (e.g. /login/)
+  skipAuthRefresh?: boolean;
+  // If true, a 401 still refreshes and replays once, but a second 401 doesn't
+  // sign the user out: it comes from a check other than the backend's (e.g. a proxy)
+  keepSessionOn401?: boolean;
+  // Overrides VITE_API_BASE_URL, e.g. for an endpoint served by a dev stand-in
+  baseUrl?: string;
 };
 
 export async function apiFetch<T>(
@@ -94,13 +226,14 @@ export async function apiFetch<T>(
   options: ApiRequestOptions = {}
 ): Promise<T> {
   const method = options.method ?? "GET";
-  const url = joinUrl(apiBaseUrl, path);
+  const url = joinUrl(options.baseUrl ?? apiBaseUrl, path);
 
   const headers: Record<string, string> = {
     Accept: "application/json",
     ...(options.body ? { "Content-Type": "application/json" } : {}),
     ...(options.headers ?? {}),
   };
+  assertWritable(method);
 
   const needsCsrf =
     options.requireCsrf || ["POST", "PUT", "PATCH", "DELETE"].includes(method);
@@ -112,17 +245,19 @@ export async function apiFetch<T>(
     }
   }
 
-  const accessToken = getAccessToken();
-  if (accessToken && !headers["Authorization"]) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
-
-  const response = await fetch(url, {
-    method,
-    headers,
-    credentials: "include",
-    body: options.body ? JSON.stringify(options.body) : undefined,
-  });
+  const response = await fetchWithAuth(
+    url,
+    {
+      method,
+      headers,
+      credentials: "include",
+      body: options.body ? JSON.stringify(options.body) : undefined,
+    },
+    {
+      skipAuthRefresh: options.skipAuthRefresh,
+      keepSessionOn401: options.keepSessionOn401,
+    }
+  );
 
   if (!response.ok) {
     let detail: unknown = undefined;
@@ -132,27 +267,7 @@ export async function apiFetch<T>(
       // ignore
     }
 
-    // Handle authentication errors
-    if (response.status === 401) {
-      // Clear invalid tokens and user data
-      setAccessToken(null);
-      localStorage.removeItem("auth_user");
-
-      // Redirect to login if not already there
-      if (window.location.pathname !== "/login") {
-        window.location.href = "/login";
-      }
-    }
-
-    const error: ApiError = new Error(
-      typeof detail === "object" && detail !== null
-        ? JSON.stringify(detail)
-        : response.statusText
-    );
-    // Attach for consumer
-    error.status = response.status;
-    error.data = detail;
-    throw error;
+    throw createApiError(response.status, response.statusText, detail);
   }
 
   // Some responses (204) have no body
@@ -164,6 +279,16 @@ export async function apiFetch<T>(
   return data;
 }
 
+// Await a mutation, then mark the cached queries it affects as stale
+async function invalidateAfter<T>(
+  request: Promise<T>,
+  keys: QueryKey[]
+): Promise<T> {
+  const result = await request;
+  keys.forEach((key) => invalidateQueries(key));
+  return result;
+}
+
 function joinUrl(base: string, path: string): string {
   const b = base.endsWith("/") ? base.slice(0, -1) : base;
   const p = path.startsWith("/") ? path : `/${path}`;
@@ -194,18 +319,13 @@ export async function apiFetchFormData<T>(
     Accept: "application/json",
     ...(options.headers ?? {}),
   };
+  assertWritable(method);
 
   // CSRF for unsafe methods
   const token = await ensureCsrfToken();
   if (token) headers["X-CSRFToken"] = token;
 
-  // Auth
-  const accessToken = getAccessToken();
-  if (accessToken && !headers["Authorization"]) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
-
-  const response = await fetch(url, {
+  const response = await fetchWithAuth(url, {
     method,
     headers, // Deliberately omit Content-Type so browser sets proper boundary
     credentials: "include",
@@ -220,14 +340,7 @@ export async function apiFetchFormData<T>(
       // ignore
     }
 
-    const error: ApiError = new Error(
-      typeof detail === "object" && detail !== null
-        ? JSON.stringify(detail)
-        : response.statusText
-    );
-    error.status = response.status;
-    error.data = detail;
-    throw error;
+    throw createApiError(response.status, response.statusText, detail);
   }
 
   if (response.status === 204) {
@@ -245,6 +358,7 @@ export type CurrentUserResponse = {
   is_staff?: boolean;
   groups: string[];
   group_id?: number; // Add group_id field for permission system
+  capabilities?: string[]; // Extra capabilities beyond the user's roles
   avatar?: string | null;
   rank?: number | null; // Overall trainee rank (sum of all weeks)
 };
@@ -264,6 +378,9 @@ export type BackendCandidate = {
   track?: string | null;
   groups?: string[];
   forms?: Array<{ id: number; title: string; forms_by_me: boolean }>; // updated API
+  // Always on the detail (/users/{id}/); the list may omit it, which is
+  // "unknown" rather than "not analyzed". See lib/candidate-analysis.ts
+  ai_analysis?: string | null;
 };
 
 export type CandidatesResponse = {
@@ -292,6 +409,7 @@ export type BackendUserDetail = {
   name: string;
   avatar?: string | null;
   groups?: string[]; // User groups array
+  track?: string | null;
   ai_analysis?: string | null;
   forms?: Array<{ id: number; title: string; forms_by_me: boolean }>; // updated API
   forms_entries?: Array<{
@@ -309,6 +427,7 @@ export type BackendUserDetail = {
   additional_fields?: {
     cert?: string;
     lang?: string;
+    Track?: string | null;
     phone?: string | null;
     github?: string | null;
     phone2?: string | null;
@@ -678,12 +797,22 @@ export type AttendanceOverviewResponse = {
   count: number;
 };
 
+// How a change reached the log, recorded in its audit trail. The backend
+// assumes "manual" when omitted and sets "qr" itself for self check-ins.
+export type AttendanceChangeSource =
+  | "manual"
+  | "bulk"
+  | "qr"
+  | "correction"
+  | "kiosk";
+
 export type CheckInPayload = {
   candidate_id: number;
   event: number;
   attendance_date: string;
   check_in_time: string;
   notes?: string;
+  source?: AttendanceChangeSource;
 };
 
 export type CheckOutPayload = {
@@ -693,6 +822,7 @@ export type CheckOutPayload = {
   check_out_time: string;
   // Optional notes included in all attendance updates
   notes?: string;
+  source?: AttendanceChangeSource;
 };
 
 // General-purpose attendance update payload for PUT /attendance/submit/
@@ -706,6 +836,7 @@ export type AttendanceUpdatePayload = {
   break_start_time?: string;
   break_end_time?: string;
   notes?: string;
+  source?: AttendanceChangeSource;
 };
 
 export type AttendanceSubmitResponse = {
@@ -767,6 +898,17 @@ export async function submitAttendanceUpdate(
   });
 }
 
+// Remove a log entirely, e.g. to undo a mistaken kiosk check-in
+export async function deleteAttendanceLog(
+  ref: AttendanceLogRef & { source?: AttendanceChangeSource }
+): Promise<void> {
+  await apiFetch<void>("/attendance/submit/", {
+    method: "DELETE",
+    body: ref,
+    requireCsrf: true,
+  });
+}
+
 export async function getMyLogs(date?: string): Promise<AttendanceLog[]> {
   const url = date
     ? `/attendance/my-logs/?date=${date}`
@@ -793,76 +935,352 @@ export async function getUserAttendanceHistory(
   return response.results;
 }
 
-// Alternative: Get user attendance from overview data
-export async function getUserAttendanceFromOverview(
-  userId: string
-): Promise<AttendanceLog[]> {
-  try {
-    console.log("Getting attendance for user:", userId);
-
-    // Get attendance overview for the last 30 days to find user's attendance
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-    const logs: AttendanceLog[] = [];
-
-    // Check last 30 days for attendance data
-    for (let i = 0; i < 30; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateString = date.toISOString().split("T")[0];
-
-      try {
-        const overview = await getAttendanceOverview(dateString);
-        console.log(`Checking date ${dateString}:`, overview);
-
-        const user = overview.users.find(
-          (u) => u.user_id.toString() === userId
-        );
-        console.log(`Found user for date ${dateString}:`, user);
-
-        if (user) {
-          user.events.forEach((event) => {
-            if (event.check_in_time) {
-              console.log(
-                `Adding attendance log for date ${dateString}:`,
-                event
-              );
-              logs.push({
-                id: 0, // We don't have the actual log ID from overview
-                trainee: {
-                  id: user.user_id,
-                  name: user.user_name,
-                  email: user.user_email,
-                },
-                event: overview.events.find((e) => e.id === event.event_id) || {
-                  id: event.event_id,
-                  title: `Event ${event.event_id}`,
-                  start_time: "",
-                  end_time: "",
-                },
-                attendance_date: dateString,
-                check_in_time: event.check_in_time,
-                check_out_time: event.check_out_time,
-                notes: "",
-              });
-            }
-          });
-        }
-      } catch (error) {
-        // Skip dates that don't have data
-        console.log(`No data for date ${dateString}:`, error);
-        continue;
-      }
-    }
+// --- Attendance range overview ---
+// One request for a whole date range; the server aggregates logs into a
+// per-user, per-day matrix so callers don't page through days one by one.
+
+export type AttendanceOverviewEntry = AttendanceOverviewUser["events"][number];
+
+export type AttendanceRangeParams = {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  event?: number;
+  track?: string;
+  user?: number | string;
+};
+
+export type AttendanceRangeUser = {
+  user_id: number;
+  user_name: string;
+  user_email: string;
+  full_name?: string | null;
+  track?: string | null;
+  // Keyed by YYYY-MM-DD; days without any log are omitted
+  days: Record<string, AttendanceOverviewEntry[]>;
+};
+
+export type AttendanceRangeResponse = {
+  from: string;
+  to: string;
+  dates: string[];
+  events: AttendanceEvent[];
+  users: AttendanceRangeUser[];
+  count: number;
+};
 
-    console.log("Final logs:", logs);
-    return logs;
-  } catch (error) {
-    console.error("Failed to get user attendance from overview:", error);
-    return [];
+export async function getAttendanceRange(
+  params: AttendanceRangeParams
+): Promise<AttendanceRangeResponse> {
+  const search = new URLSearchParams({ from: params.from, to: params.to });
+  if (params.event != null) search.set("event", String(params.event));
+  if (params.track) search.set("track", params.track);
+  if (params.user != null) search.set("user", String(params.user));
+  return apiFetch<AttendanceRangeResponse>(
+    `/attendance/overview/range/?${search.toString()}`
+  );
+}
+
+// Flatten one user's row of the range matrix into attendance logs
+export function attendanceRangeToLogs(
+  range: AttendanceRangeResponse,
+  userId: number | string
+): AttendanceLog[] {
+  const user = range.users.find((u) => String(u.user_id) === String(userId));
+  if (!user) return [];
+
+  const eventsById = new Map(range.events.map((event) => [event.id, event]));
+  const logs: AttendanceLog[] = [];
+  Object.entries(user.days).forEach(([date, entries]) => {
+    entries.forEach((entry) => {
+      if (!entry.check_in_time || entry.log_id == null) return;
+      logs.push({
+        id: entry.log_id,
+        trainee: {
+          id: user.user_id,
+          name: user.user_name,
+          email: user.user_email,
+          full_name: user.full_name ?? null,
+        },
+        event: eventsById.get(entry.event_id) ?? entry.event_id,
+        event_title: entry.event_title,
+        attendance_date: date,
+        check_in_time: entry.check_in_time,
+        check_out_time: entry.check_out_time,
+        notes: entry.notes ?? "",
+        status: entry.status ?? null,
+        duration: entry.duration ?? null,
+        worked_duration: entry.worked_duration ?? null,
+        break_time: entry.break_time ?? null,
+        break_started_at: entry.break_started_at ?? null,
+        break_accumulated: entry.break_accumulated ?? null,
+        break_intervals: entry.break_intervals,
+      });
+    });
+  });
+  return logs.sort((a, b) =>
+    a.attendance_date.localeCompare(b.attendance_date)
+  );
+}
+
+// --- Attendance policy ---
+// Thresholds used to classify logs (see lib/attendance-policy.ts). A record
+// with `track: null` is the default applied to tracks without their own.
+
+export type AttendancePolicy = {
+  // Minutes after the event start that still count as on time
+  grace_minutes: number;
+  // Arriving later than this many minutes counts as an absence
+  late_threshold_minutes: number;
+  max_break_minutes_per_day: number;
+  max_break_minutes_per_week: number;
+  // Leaving more than this many minutes before the event end
+  early_leave_minutes: number;
+};
+
+export type AttendancePolicyRecord = AttendancePolicy & {
+  track: string | null;
+  updated_at?: string | null;
+};
+
+export async function getAttendancePolicies(): Promise<
+  AttendancePolicyRecord[]
+> {
+  const response = await apiFetch<{ results: AttendancePolicyRecord[] }>(
+    "/attendance/policies/"
+  );
+  return response.results;
+}
+
+export async function saveAttendancePolicy(
+  record: AttendancePolicyRecord
+): Promise<AttendancePolicyRecord> {
+  return invalidateAfter(
+    apiFetch<AttendancePolicyRecord>("/attendance/policies/", {
+      method: "PUT",
+      body: record,
+      requireCsrf: true,
+    }),
+    [queryKeys.attendancePolicies()]
+  );
+}
+
+// --- Attendance audit trail ---
+// Every write to a log is recorded server-side with its previous values. A
+// log is addressed by the same trainee/event/date triple used to submit it.
+
+export type AttendanceLogRef = {
+  candidate_id: number;
+  event: number;
+  attendance_date: string;
+};
+
+export type AttendanceLogHistoryEntry = {
+  id: number;
+  at: string;
+  actor: { id: number; name: string } | null;
+  action: "created" | "updated" | "deleted";
+  source: AttendanceChangeSource;
+  // Only the fields that changed, keyed by log field name
+  changes: Record<string, { from: string | null; to: string | null }>;
+};
+
+export async function getAttendanceLogHistory(
+  ref: AttendanceLogRef
+): Promise<AttendanceLogHistoryEntry[]> {
+  const search = new URLSearchParams({
+    candidate_id: String(ref.candidate_id),
+    event: String(ref.event),
+    attendance_date: ref.attendance_date,
+  });
+  const response = await apiFetch<{ results: AttendanceLogHistoryEntry[] }>(
+    `/attendance/history/?${search.toString()}`
+  );
+  return response.results;
+}
+
+// --- Attendance excuses & correction requests ---
+// Trainees dispute a log or excuse an absence; trackers/staff review them.
+// The server keeps an append-only history on every request.
+
+export type AttendanceRequestType = "excuse" | "correction";
+
+export type AttendanceRequestStatus = "pending" | "approved" | "rejected";
+
+export type AttendanceRequestHistoryEntry = {
+  at: string;
+  actor: { id: number; name: string } | null;
+  action: "created" | "approved" | "rejected" | "applied";
+  note?: string | null;
+  // Field-level changes made to the attendance log, e.g. check_out_time
+  changes?: Record<string, { from: string | null; to: string | null }>;
+};
+
+export type AttendanceRequest = {
+  id: number;
+  type: AttendanceRequestType;
+  status: AttendanceRequestStatus;
+  trainee: {
+    id: number;
+    name: string;
+    email: string;
+    full_name?: string | null;
+  };
+  event: number;
+  event_title?: string | null;
+  attendance_date: string;
+  reason: string;
+  attachment_url: string | null;
+  // Times on record when the request was filed
+  current_check_in_time: string | null;
+  current_check_out_time: string | null;
+  proposed_check_in_time: string | null;
+  proposed_check_out_time: string | null;
+  reviewer: { id: number; name: string } | null;
+  review_note: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+  history: AttendanceRequestHistoryEntry[];
+};
+
+export type CreateAttendanceRequestPayload = {
+  type: AttendanceRequestType;
+  event: number;
+  attendance_date: string;
+  reason: string;
+  attachment?: File | null;
+  proposed_check_in_time?: string | null;
+  proposed_check_out_time?: string | null;
+};
+
+export type AttendanceRequestFilters = {
+  status?: AttendanceRequestStatus;
+  // Only the signed-in trainee's own requests
+  mine?: boolean;
+};
+
+export async function getAttendanceRequests(
+  filters: AttendanceRequestFilters = {}
+): Promise<AttendanceRequest[]> {
+  const search = new URLSearchParams();
+  if (filters.status) search.set("status", filters.status);
+  if (filters.mine) search.set("mine", "true");
+  const query = search.toString();
+  const response = await apiFetch<{ results: AttendanceRequest[] }>(
+    `/attendance/requests/${query ? `?${query}` : ""}`
+  );
+  return response.results;
+}
+
+export async function createAttendanceRequest(
+  payload: CreateAttendanceRequestPayload
+): Promise<AttendanceRequest> {
+  const form = new FormData();
+  form.append("type", payload.type);
+  form.append("event", String(payload.event));
+  form.append("attendance_date", payload.attendance_date);
+  form.append("reason", payload.reason);
+  if (payload.attachment) {
+    form.append("attachment", payload.attachment);
+  }
+  if (payload.proposed_check_in_time) {
+    form.append("proposed_check_in_time", payload.proposed_check_in_time);
+  }
+  if (payload.proposed_check_out_time) {
+    form.append("proposed_check_out_time", payload.proposed_check_out_time);
+  }
+  return invalidateAfter(
+    apiFetchFormData<AttendanceRequest>("/attendance/requests/", form, {
+      method: "POST",
+    }),
+    [queryKeys.attendanceRequests()]
+  );
+}
+
+export async function reviewAttendanceRequest(
+  id: number,
+  payload: {
+    decision: "approved" | "rejected";
+    note?: string;
+    // Changes already written to the log, recorded in the request history
+    applied_changes?: AttendanceRequestHistoryEntry["changes"];
   }
+): Promise<AttendanceRequest> {
+  return invalidateAfter(
+    apiFetch<AttendanceRequest>(`/attendance/requests/${id}/review/`, {
+      method: "POST",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.attendanceRequests()]
+  );
 }
+
+// --- Attendance QR self check-in ---
+// Trackers display a short-lived token as a QR code; trainees scan it and
+// the backend checks them in. Expiry is enforced server-side.
+export type AttendanceQrToken = {
+  token: string;
+  event: number;
+  attendance_date: string;
+  expires_at: string;
+  ttl_seconds: number;
+};
+
+export type AttendanceQrScan = {
+  candidate: {
+    id: number;
+    name: string;
+    email: string;
+    full_name?: string | null;
+  };
+  check_in_time: string;
+  scanned_at: string;
+};
+
+export type AttendanceQrCheckInResponse = {
+  status: "checked_in" | "already_checked_in";
+  event: number;
+  event_title?: string | null;
+  attendance_date: string;
+  check_in_time: string;
+};
+
+export async function createAttendanceQrToken(payload: {
+  event: number;
+  attendance_date: string;
+  ttl_seconds: number;
+}): Promise<AttendanceQrToken> {
+  return apiFetch<AttendanceQrToken>("/attendance/qr/tokens/", {
+    method: "POST",
+    body: payload,
+    requireCsrf: true,
+  });
+}
+
+export async function getAttendanceQrScans(params: {
+  event: number;
+  date: string;
+}): Promise<AttendanceQrScan[]> {
+  const searchParams = new URLSearchParams({
+    event: String(params.event),
+    date: params.date,
+  });
+  const response = await apiFetch<{ results: AttendanceQrScan[] }>(
+    `/attendance/qr/scans/?${searchParams}`
+  );
+  return response.results ?? [];
+}
+
+export async function submitAttendanceQrCheckIn(
+  token: string
+): Promise<AttendanceQrCheckInResponse> {
+  return apiFetch<AttendanceQrCheckInResponse>("/attendance/qr/check-in/", {
+    method: "POST",
+    body: { token },
+    requireCsrf: true,
+  });
+}
+
 // --- AI analysis storage ---
 export type AiAnalysisResponse = {
   ai_analysis: string | null;
@@ -905,18 +1323,20 @@ export async function exportAttendanceCSV(params: {
     searchParams.append("event", params.event);
   }
 
-  const response = await fetch(
-    `${apiBaseUrl}/export-attendance-csv/?${searchParams}`,
+  const response = await fetchWithAuth(
+    joinUrl(apiBaseUrl, `/export-attendance-csv/?${searchParams}`),
     {
       method: "GET",
-      headers: {
-        Authorization: `Bearer ${localStorage.getItem("access_token")}`,
-      },
+      headers: {},
+      credentials: "include",
     }
   );
 
   if (!response.ok) {
-    throw new Error(`Failed to export CSV: ${response.statusText}`);
+    throw createApiError(
+      response.status,
+      `Failed to export CSV: ${response.statusText}`
+    );
   }
 
   return response.blob();
@@ -1008,11 +1428,14 @@ export async function updatePortalModule(
   id: number | string,
   payload: UpdatePortalModulePayload
 ): Promise<PortalModule> {
-  return apiFetch<PortalModule>(`/portal/modules/${id}/`, {
-    method: "PUT",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<PortalModule>(`/portal/modules/${id}/`, {
+      method: "PUT",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.portalModules(), queryKeys.portalTracks()]
+  );
 }
 
 // --- Portal Sessions ---
@@ -1030,11 +1453,18 @@ export async function updatePortalSession(
   id: number | string,
   payload: UpdatePortalSessionPayload
 ): Promise<PortalSession> {
-  return apiFetch<PortalSession>(`/portal/sessions/${id}/`, {
-    method: "PUT",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<PortalSession>(`/portal/sessions/${id}/`, {
+      method: "PUT",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.portalSession(id),
+      queryKeys.portalModules(),
+      queryKeys.portalTracks(),
+    ]
+  );
 }
 
 export async function uploadPortalSessionContentFile(
@@ -1047,12 +1477,15 @@ export async function uploadPortalSessionContentFile(
   if (params.link !== undefined && params.link !== null) {
     form.append("link", params.link);
   }
-  return apiFetchFormData<PortalContent>(
-    `/portal/sessions/${id}/content/`,
-    form,
-    {
-      method: "POST",
-    }
+  return invalidateAfter(
+    apiFetchFormData<PortalContent>(
+      `/portal/sessions/${id}/content/`,
+      form,
+      {
+        method: "POST",
+      }
+    ),
+    [queryKeys.portalSession(id), queryKeys.portalModules()]
   );
 }
 
@@ -1061,10 +1494,13 @@ export async function deletePortalSessionContent(
   sessionId: number | string,
   contentId: number | string
 ): Promise<void> {
-  return apiFetch<void>(`/portal/sessions/${sessionId}/content/${contentId}/`, {
-    method: "DELETE",
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<void>(`/portal/sessions/${sessionId}/content/${contentId}/`, {
+      method: "DELETE",
+      requireCsrf: true,
+    }),
+    [queryKeys.portalSession(sessionId), queryKeys.portalModules()]
+  );
 }
 
 // --- Portal Assignments ---
@@ -1087,11 +1523,18 @@ export async function createPortalAssignment(
     session: sessionId,
     ...payload,
   } as Record<string, unknown>;
-  return apiFetch<PortalAssignment>(`/portal/assignments/`, {
-    method: "POST",
-    body,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<PortalAssignment>(`/portal/assignments/`, {
+      method: "POST",
+      body,
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.portalSessions(),
+      queryKeys.portalModules(),
+      queryKeys.assignments(),
+    ]
+  );
 }
 
 export type UpdatePortalAssignmentPayload = Partial<{
@@ -1107,11 +1550,18 @@ export async function updatePortalAssignment(
   assignmentId: number | string,
   payload: UpdatePortalAssignmentPayload
 ): Promise<PortalAssignment> {
-  return apiFetch<PortalAssignment>(`/portal/assignments/${assignmentId}/`, {
-    method: "PUT",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<PortalAssignment>(`/portal/assignments/${assignmentId}/`, {
+      method: "PUT",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.portalSessions(),
+      queryKeys.portalModules(),
+      queryKeys.assignments(),
+    ]
+  );
 }
 
 // Create assignment with file support
@@ -1149,9 +1599,16 @@ export async function createPortalAssignmentWithFile(
   }
   form.append("session", String(sessionId));
 
-  return apiFetchFormData<PortalAssignment>(`/portal/assignments/`, form, {
-    method: "POST",
-  });
+  return invalidateAfter(
+    apiFetchFormData<PortalAssignment>(`/portal/assignments/`, form, {
+      method: "POST",
+    }),
+    [
+      queryKeys.portalSessions(),
+      queryKeys.portalModules(),
+      queryKeys.assignments(),
+    ]
+  );
 }
 
 // Update assignment with file support
@@ -1194,22 +1651,36 @@ export async function updatePortalAssignmentWithFile(
     form.append("session", String(params.session));
   }
 
-  return apiFetchFormData<PortalAssignment>(
-    `/portal/assignments/${assignmentId}/`,
-    form,
-    {
-      method: "PUT",
-    }
+  return invalidateAfter(
+    apiFetchFormData<PortalAssignment>(
+      `/portal/assignments/${assignmentId}/`,
+      form,
+      {
+        method: "PUT",
+      }
+    ),
+    [
+      queryKeys.portalSessions(),
+      queryKeys.portalModules(),
+      queryKeys.assignments(),
+    ]
   );
 }
 
 export async function deletePortalAssignment(
   assignmentId: number | string
 ): Promise<void> {
-  return apiFetch<void>(`/portal/assignments/${assignmentId}/`, {
-    method: "DELETE",
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<void>(`/portal/assignments/${assignmentId}/`, {
+      method: "DELETE",
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.portalSessions(),
+      queryKeys.portalModules(),
+      queryKeys.assignments(),
+    ]
+  );
 }
 
 // --- Assignment submission (trainee) ---
@@ -1232,13 +1703,20 @@ export async function submitAssignment(
   assignmentId: number | string,
   payload: SubmitAssignmentPayload
 ): Promise<SubmitAssignmentResponse> {
-  return apiFetch<SubmitAssignmentResponse>(
-    `/portal/assignments/${assignmentId}/submit/`,
-    {
-      method: "POST",
-      body: payload,
-      requireCsrf: true,
-    }
+  return invalidateAfter(
+    apiFetch<SubmitAssignmentResponse>(
+      `/portal/assignments/${assignmentId}/submit/`,
+      {
+        method: "POST",
+        body: payload,
+        requireCsrf: true,
+      }
+    ),
+    [
+      queryKeys.submissions(),
+      queryKeys.assignments(),
+      queryKeys.portalSessions(),
+    ]
   );
 }
 
@@ -1267,11 +1745,18 @@ export type UpdatePortalSubmissionPayload = Partial<{
 export async function createOrUpdatePortalSubmission(
   payload: CreatePortalSubmissionPayload
 ): Promise<PortalSubmission> {
-  return apiFetch<PortalSubmission>(`/portal/submissions/`, {
-    method: "POST",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<PortalSubmission>(`/portal/submissions/`, {
+      method: "POST",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.submissions(),
+      queryKeys.assignments(),
+      queryKeys.portalSessions(),
+    ]
+  );
 }
 
 export async function getPortalSubmission(
@@ -1284,20 +1769,34 @@ export async function updatePortalSubmission(
   submissionId: number | string,
   payload: UpdatePortalSubmissionPayload
 ): Promise<PortalSubmission> {
-  return apiFetch<PortalSubmission>(`/portal/submissions/${submissionId}/`, {
-    method: "PATCH",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<PortalSubmission>(`/portal/submissions/${submissionId}/`, {
+      method: "PATCH",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.submissions(),
+      queryKeys.assignments(),
+      queryKeys.portalSessions(),
+    ]
+  );
 }
 
 export async function deletePortalSubmission(
   submissionId: number | string
 ): Promise<void> {
-  return apiFetch<void>(`/portal/submissions/${submissionId}/`, {
-    method: "DELETE",
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<void>(`/portal/submissions/${submissionId}/`, {
+      method: "DELETE",
+      requireCsrf: true,
+    }),
+    [
+      queryKeys.submissions(),
+      queryKeys.assignments(),
+      queryKeys.portalSessions(),
+    ]
+  );
 }
 
 // --- Announcements API ---
@@ -1368,39 +1867,51 @@ export type CreateInstructorAnnouncementPayload = {
 export async function createAnnouncement(
   payload: CreateAnnouncementPayload
 ): Promise<Announcement> {
-  return apiFetch<Announcement>(`/portal/announcements/`, {
-    method: "POST",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<Announcement>(`/portal/announcements/`, {
+      method: "POST",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.announcements()]
+  );
 }
 
 export async function createInstructorAnnouncement(
   payload: CreateInstructorAnnouncementPayload
 ): Promise<Announcement> {
-  return apiFetch<Announcement>(`/portal/announcements/instructor/`, {
-    method: "POST",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<Announcement>(`/portal/announcements/instructor/`, {
+      method: "POST",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.announcements()]
+  );
 }
 
 export async function updateAnnouncement(
   id: number,
   payload: UpdateAnnouncementPayload
 ): Promise<Announcement> {
-  return apiFetch<Announcement>(`/portal/announcements/${id}/`, {
-    method: "PATCH",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<Announcement>(`/portal/announcements/${id}/`, {
+      method: "PATCH",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.announcements()]
+  );
 }
 
 export async function deleteAnnouncement(id: number): Promise<void> {
-  return apiFetch<void>(`/portal/announcements/${id}/`, {
-    method: "DELETE",
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<void>(`/portal/announcements/${id}/`, {
+      method: "DELETE",
+      requireCsrf: true,
+    }),
+    [queryKeys.announcements()]
+  );
 }
 
 // --- Announcement Reactions API ---
@@ -1532,11 +2043,14 @@ export async function voteOnPoll(
   pollId: number,
   payload: VotePayload
 ): Promise<Poll> {
-  return apiFetch<Poll>(`/portal/polls/${pollId}/vote/`, {
-    method: "POST",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<Poll>(`/portal/polls/${pollId}/vote/`, {
+      method: "POST",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.polls()]
+  );
 }
 
 // --- Portal Tests (Pre/Post) ---
@@ -1622,10 +2136,13 @@ export async function getModuleTestById(
 }
 
 export async function deleteModuleTest(id: number | string): Promise<void> {
-  return apiFetch<void>(`/portal/tests/${id}/`, {
-    method: "DELETE",
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch<void>(`/portal/tests/${id}/`, {
+      method: "DELETE",
+      requireCsrf: true,
+    }),
+    [queryKeys.moduleTests(), queryKeys.portalModules()]
+  );
 }
 
 export type CreateModuleTestPayload = {
@@ -1649,12 +2166,16 @@ export type CreateModuleTestPayload = {
 
 export async function createModuleTest(payload: CreateModuleTestPayload) {
   const hasFiles = payload.questions?.some((q) => q.image_file) ?? false;
+  const affectedKeys = [queryKeys.moduleTests(), queryKeys.portalModules()];
   if (!hasFiles) {
-    return apiFetch(`/portal/tests/`, {
-      method: "POST",
-      body: payload,
-      requireCsrf: true,
-    });
+    return invalidateAfter(
+      apiFetch(`/portal/tests/`, {
+        method: "POST",
+        body: payload,
+        requireCsrf: true,
+      }),
+      affectedKeys
+    );
   }
 
   const form = new FormData();
@@ -1690,7 +2211,10 @@ export async function createModuleTest(payload: CreateModuleTestPayload) {
     }
   });
 
-  return apiFetchFormData(`/portal/tests/`, form, { method: "POST" });
+  return invalidateAfter(
+    apiFetchFormData(`/portal/tests/`, form, { method: "POST" }),
+    affectedKeys
+  );
 }
 
 export type UpdateModuleTestPayload = {
@@ -1718,11 +2242,14 @@ export async function updateModuleTest(
   id: number | string,
   payload: UpdateModuleTestPayload
 ) {
-  return apiFetch(`/portal/tests/${id}/`, {
-    method: "PATCH",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch(`/portal/tests/${id}/`, {
+      method: "PATCH",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.moduleTests(), queryKeys.portalModules()]
+  );
 }
 
 // Submit a test attempt (trainee)
@@ -1735,11 +2262,14 @@ export async function submitModuleTest(
   id: number | string,
   payload: SubmitModuleTestPayload
 ) {
-  return apiFetch(`/portal/tests/${id}/submit/`, {
-    method: "POST",
-    body: payload,
-    requireCsrf: true,
-  });
+  return invalidateAfter(
+    apiFetch(`/portal/tests/${id}/submit/`, {
+      method: "POST",
+      body: payload,
+      requireCsrf: true,
+    }),
+    [queryKeys.moduleTests(), queryKeys.portalModules()]
+  );
 }
 
 // --- Module Test Results (Pre/Post) ---
@@ -1921,13 +2451,16 @@ export async function submitModuleTraineeOrders(
   moduleId: number | string,
   items: SubmitTraineeOrderItem[]
 ): Promise<TraineeOrdersResponse> {
-  return apiFetch<TraineeOrdersResponse>(
-    `/portal/modules/${moduleId}/trainee-orders/`,
-    {
-      method: "POST",
-      body: { items },
-      requireCsrf: true,
-    }
+  return invalidateAfter(
+    apiFetch<TraineeOrdersResponse>(
+      `/portal/modules/${moduleId}/trainee-orders/`,
+      {
+        method: "POST",
+        body: { items },
+        requireCsrf: true,
+      }
+    ),
+    [queryKeys.leaderboard()]
   );
 }
 
@@ -0,0 +1,265 @@
+import type {
+  AttendanceOverviewEntry,
+  AttendanceRangeResponse,
+  AttendanceRangeUser,
+  AttendanceRequest,
+} from "@/lib/api";
+import { getOpenBreakStart } from "@/lib/attendance-breaks";
+import { toMinutesOfDay } from "@/lib/attendance-policy";
+
+/*
+ Attendance anomaly detection.
+ - Scans a date-range matrix (getAttendanceRange) with a list of rules
+ - A rule is a plain object with a detect() function, so reports can pick,
+   reorder or add rules without touching the scanner
+ - Rule texts are i18next templates; findings carry the values to fill in
+*/
+
+export type AttendanceAnomalySeverity = "high" | "medium" | "low";
+
+export type AnomalyScanContext = {
+  range: AttendanceRangeResponse;
+  // Approved excuses: the trainee was on leave for that event and day
+  leaves: AttendanceRequest[];
+  today: string; // YYYY-MM-DD
+};
+
+export type AnomalyFinding = {
+  date: string;
+  event: { id: number; title: string };
+  trainees: Array<{ id: number; name: string; email: string }>;
+  values: Record<string, string | number>;
+};
+
+export type AttendanceAnomalyRule = {
+  id: string;
+  label: string;
+  description: string;
+  // Template filled with a finding's values
+  detail: string;
+  severity: AttendanceAnomalySeverity;
+  detect: (context: AnomalyScanContext) => AnomalyFinding[];
+};
+
+export type AttendanceAnomaly = AnomalyFinding & {
+  id: string;
+  rule: AttendanceAnomalyRule;
+};
+
+const SEVERITY_ORDER: AttendanceAnomalySeverity[] = ["high", "medium", "low"];
+
+function toTrainee(
+  user: AttendanceRangeUser
+): AnomalyFinding["trainees"][number] {
+  return {
+    id: user.user_id,
+    name: user.full_name || user.user_name || user.user_email,
+    email: user.user_email,
+  };
+}
+
+function forEachEntry(
+  range: AttendanceRangeResponse,
+  visit: (
+    user: AttendanceRangeUser,
+    date: string,
+    entry: AttendanceOverviewEntry
+  ) => void
+) {
+  range.users.forEach((user) => {
+    Object.entries(user.days).forEach(([date, entries]) => {
+      entries.forEach((entry) => visit(user, date, entry));
+    });
+  });
+}
+
+function finding(
+  user: AttendanceRangeUser,
+  date: string,
+  entry: AttendanceOverviewEntry,
+  values: AnomalyFinding["values"]
+): AnomalyFinding {
+  return {
+    date,
+    event: { id: entry.event_id, title: entry.event_title },
+    trainees: [toTrainee(user)],
+    values,
+  };
+}
+
+// "HH:MM[:SS]" of a time value, or the raw value if it can't be parsed
+function formatTime(value: string): string {
+  const minutes = toMinutesOfDay(value);
+  if (minutes == null) return value;
+  const totalSeconds = Math.round(minutes * 60);
+  const hh = String(Math.floor(totalSeconds / 3600)).padStart(2, "0");
+  const mm = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, "0");
+  const ss = totalSeconds % 60;
+  return ss ? `${hh}:${mm}:${String(ss).padStart(2, "0")}` : `${hh}:${mm}`;
+}
+
+/**
+ * Many trainees sharing the exact same check-in second usually means a bulk
+ * or copy-pasted entry rather than people actually arriving.
+ */
+export function identicalCheckInRule({
+  minTrainees = 5,
+}: { minTrainees?: number } = {}): AttendanceAnomalyRule {
+  return {
+    id: "identical_check_in",
+    label: "Identical check-in times",
+    description: "Several trainees checked in at exactly the same second",
+    detail: "{{count}} trainees checked in at exactly {{time}}",
+    severity: "medium",
+    detect: ({ range }) => {
+      const groups = new Map<
+        string,
+        {
+          date: string;
+          entry: AttendanceOverviewEntry;
+          users: AttendanceRangeUser[];
+        }
+      >();
+      forEachEntry(range, (user, date, entry) => {
+        if (!entry.check_in_time) return;
+        const time = formatTime(entry.check_in_time);
+        const key = `${date}|${entry.event_id}|${time}`;
+        const group = groups.get(key) ?? { date, entry, users: [] };
+        group.users.push(user);
+        groups.set(key, group);
+      });
+      return Array.from(groups.values())
+        .filter((group) => group.users.length >= minTrainees)
+        .map((group) => ({
+          date: group.date,
+          event: { id: group.entry.event_id, title: group.entry.event_title },
+          trainees: group.users.map(toTrainee),
+          values: {
+            count: group.users.length,
+            time: formatTime(group.entry.check_in_time!),
+          },
+        }));
+    },
+  };
+}
+
+export const checkOutBeforeCheckInRule: AttendanceAnomalyRule = {
+  id: "check_out_before_check_in",
+  label: "Check-out before check-in",
+  description: "The recorded check-out time is earlier than the check-in",
+  detail: "Checked out at {{checkOut}}, before checking in at {{checkIn}}",
+  severity: "high",
+  detect: ({ range }) => {
+    const findings: AnomalyFinding[] = [];
+    forEachEntry(range, (user, date, entry) => {
+      const checkIn = toMinutesOfDay(entry.check_in_time);
+      const checkOut = toMinutesOfDay(entry.check_out_time);
+      if (checkIn == null || checkOut == null || checkOut >= checkIn) return;
+      findings.push(
+        finding(user, date, entry, {
+          checkIn: formatTime(entry.check_in_time!),
+          checkOut: formatTime(entry.check_out_time!),
+        })
+      );
+    });
+    return findings;
+  },
+};
+
+export const openBreakRule: AttendanceAnomalyRule = {
+  id: "open_break",
+  label: "Break never ended",
+  description:
+    "A break is still open after the trainee checked out or the day ended",
+  detail: "Break started at {{start}} was never ended",
+  severity: "medium",
+  detect: ({ range, today }) => {
+    const findings: AnomalyFinding[] = [];
+    forEachEntry(range, (user, date, entry) => {
+      const openStart = getOpenBreakStart(entry);
+      if (!openStart) return;
+      // Today's open breaks without a check-out may still be running
+      if (date >= today && !entry.check_out_time) return;
+      findings.push(
+        finding(user, date, entry, { start: formatTime(openStart) })
+      );
+    });
+    return findings;
+  },
+};
+
+export const checkedInOnLeaveRule: AttendanceAnomalyRule = {
+  id: "checked_in_on_leave",
+  label: "Checked in while on leave",
+  description:
+    "The trainee has an approved excuse for the day but was checked in",
+  detail: "Checked in at {{checkIn}} on a day excused by an approved request",
+  severity: "low",
+  detect: ({ range, leaves }) => {
+    const onLeave = new Set(
+      leaves
+        .filter((request) => request.type === "excuse")
+        .map(
+          (request) =>
+            `${request.trainee.id}|${request.event}|${request.attendance_date}`
+        )
+    );
+    const findings: AnomalyFinding[] = [];
+    forEachEntry(range, (user, date, entry) => {
+      if (!entry.check_in_time) return;
+      if (!onLeave.has(`${user.user_id}|${entry.event_id}|${date}`)) return;
+      findings.push(
+        finding(user, date, entry, {
+          checkIn: formatTime(entry.check_in_time),
+        })
+      );
+    });
+    return findings;
+  },
+};
+
+export const DEFAULT_ANOMALY_RULES: AttendanceAnomalyRule[] = [
+  checkOutBeforeCheckInRule,
+  identicalCheckInRule(),
+  openBreakRule,
+  checkedInOnLeaveRule,
+];
+
+/** Run every rule over the range; most severe and most recent first. */
+export function detectAttendanceAnomalies(
+  context: AnomalyScanContext,
+  rules: AttendanceAnomalyRule[] = DEFAULT_ANOMALY_RULES
+): AttendanceAnomaly[] {
+  return rules
+    .flatMap((rule) =>
+      rule.detect(context).map((result) => ({
+        ...result,
+        id: [
+          rule.id,
+          result.date,
+          result.event.id,
+          ...result.trainees.map((trainee) => trainee.id),
+        ].join(":"),
+        rule,
+      }))
+    )
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.rule.severity) -
+          SEVERITY_ORDER.indexOf(b.rule.severity) ||
+        b.date.localeCompare(a.date)
+    );
+}
+
+/** AttendancePage deep link for fixing an anomaly. */
+export function getAnomalyFixPath(anomaly: AnomalyFinding): string {
+  const search = new URLSearchParams({
+    date: anomaly.date,
+    event: String(anomaly.event.id),
+  });
+  // AttendancePage searches by name or email; email is unambiguous
+  if (anomaly.trainees.length === 1) {
+    search.set("q", anomaly.trainees[0].email);
+  }
+  return `/attendance?${search.toString()}`;
+}
@@ -0,0 +1,135 @@
+/*
+ Break interval parsing shared by the attendance breakdown and reports.
+ - Times arrive either as ISO timestamps or bare HH:MM[:SS] clock values
+ - Totals prefer the server's break_time/break_accumulated, falling back to
+   summing closed intervals
+ - An interval without an end (or a break_started_at) is a break still open
+*/
+
+export type BreakIntervalEntry = {
+  start: string;
+  end: string | null;
+  durationLabel?: string | null;
+  durationMs?: number | null;
+};
+
+export type BreakSource = {
+  break_intervals?: Array<{ start: string; end: string | null }>;
+  break_time?: string | null;
+  break_accumulated?: string | null;
+  break_started_at?: string | null;
+};
+
+export function parseDateValue(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const direct = new Date(value);
+  if (!isNaN(direct.getTime())) return direct;
+  const fallback = new Date(`2000-01-01T${value}`);
+  return isNaN(fallback.getTime()) ? null : fallback;
+}
+
+export function calculateDurationMs(
+  startValue: string,
+  endValue: string | null
+): number | null {
+  if (!startValue || !endValue) return null;
+  const start = parseDateValue(startValue);
+  const end = parseDateValue(endValue);
+  if (!start || !end) return null;
+  const diff = end.getTime() - start.getTime();
+  return diff > 0 ? diff : null;
+}
+
+export function formatDurationFromMs(diffMs: number): string | null {
+  if (!Number.isFinite(diffMs) || diffMs <= 0) return null;
+  const hours = Math.floor(diffMs / (1000 * 60 * 60));
+  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+  if (hours === 0 && minutes === 0) return "Less than 1m";
+  if (hours === 0) return `${minutes}m`;
+  if (minutes === 0) return `${hours}h`;
+  return `${hours}h ${minutes}m`;
+}
+
+export function parseClockDurationToMs(value: string | null): number | null {
+  if (!value) return null;
+  const parts = value.split(":").map((part) => Number(part));
+  if (parts.some((part) => Number.isNaN(part))) {
+    return null;
+  }
+  const [hours, minutes, seconds] = [
+    parts[0] ?? 0,
+    parts[1] ?? 0,
+    parts[2] ?? 0,
+  ];
+  return hours * 60 * 60 * 1000 + minutes * 60 * 1000 + seconds * 1000;
+}
+
+export function formatClockDuration(value: string | null): string | null {
+  if (!value) return null;
+  const totalMs = parseClockDurationToMs(value);
+  if (totalMs == null) return value;
+  return formatDurationFromMs(totalMs) ?? value;
+}
+
+export function extractBreakInfo(source?: BreakSource): {
+  intervals: BreakIntervalEntry[];
+  totalLabel: string | null;
+  totalMs: number | null;
+} | null {
+  if (!source) return null;
+  const rawIntervals = source.break_intervals ?? [];
+  const intervals = rawIntervals.map((interval) => {
+    const durationMs =
+      interval.end != null
+        ? calculateDurationMs(interval.start, interval.end)
+        : null;
+    return {
+      start: interval.start,
+      end: interval.end,
+      durationLabel:
+        durationMs != null ? formatDurationFromMs(durationMs) : null,
+      durationMs,
+    };
+  });
+
+  const totalFromSource = formatClockDuration(
+    source.break_time ?? source.break_accumulated ?? null
+  );
+  if (intervals.length === 0 && !totalFromSource) {
+    return null;
+  }
+
+  const totalMsFromSource = parseClockDurationToMs(
+    source.break_time ?? source.break_accumulated ?? null
+  );
+  const summedMs = rawIntervals.reduce((sum, interval) => {
+    const diff = interval.end
+      ? calculateDurationMs(interval.start, interval.end)
+      : null;
+    return sum + (diff ?? 0);
+  }, 0);
+
+  const effectiveTotalMs =
+    totalMsFromSource != null && totalMsFromSource > 0
+      ? totalMsFromSource
+      : summedMs;
+
+  const totalLabel =
+    totalFromSource ??
+    (effectiveTotalMs > 0 ? formatDurationFromMs(effectiveTotalMs) : null);
+
+  return {
+    intervals,
+    totalLabel: totalLabel ?? null,
+    totalMs: effectiveTotalMs > 0 ? effectiveTotalMs : null,
+  };
+}
+
+/** Start of the break that was never closed, if any. */
+export function getOpenBreakStart(source?: BreakSource): string | null {
+  if (!source) return null;
+  const openInterval = (source.break_intervals ?? []).find(
+    (interval) => interval.start && interval.end == null
+  );
+  return openInterval?.start ?? source.break_started_at ?? null;
+}
@@ -0,0 +1,191 @@
+import type {
+  AttendanceEvent,
+  AttendanceLog,
+  PortalTrack,
+} from "@/lib/api";
+import {
+  extractBreakInfo,
+  type BreakIntervalEntry,
+} from "@/lib/attendance-breaks";
+import { addDays, startOfWeek, toIsoDate } from "@/lib/date-range";
+
+/*
+ Attendance calendar model behind the heatmap.
+ - Days arrive as present/partial/absent (the breakdown's own shape) and are
+   refined with approved excuses and flagged-break dates
+ - Program days come from the track's session schedule; scheduled days
+   without a log count as absent
+ - Streaks count consecutive attended program days; excused days neither
+   extend nor break a streak, and days off (no entry) are skipped
+ - Grid helpers lay dates out in Sunday-first week columns
+*/
+
+export type AttendanceCalendarStatus =
+  | "present"
+  | "partial"
+  | "absent"
+  | "excused"
+  | "flagged";
+
+export type AttendanceCalendarEvent = {
+  eventId: number;
+  eventTitle: string;
+  checkInTime?: string | null;
+  checkOutTime?: string | null;
+  breaks?: BreakIntervalEntry[];
+};
+
+export type AttendanceCalendarDay = {
+  date: string;
+  status: AttendanceCalendarStatus;
+  events: AttendanceCalendarEvent[];
+};
+
+export type AttendanceDayInput = {
+  date: string;
+  status: "present" | "partial" | "absent";
+  events: AttendanceCalendarEvent[];
+};
+
+export const ATTENDANCE_CALENDAR_STATUSES: AttendanceCalendarStatus[] = [
+  "present",
+  "partial",
+  "flagged",
+  "excused",
+  "absent",
+];
+
+const ATTENDED: AttendanceCalendarStatus[] = ["present", "partial", "flagged"];
+
+export function isAttendedStatus(status: AttendanceCalendarStatus): boolean {
+  return ATTENDED.includes(status);
+}
+
+/** Group logs per day the same way the attendance breakdown does. */
+export function attendanceLogsToDays(
+  logs: AttendanceLog[]
+): AttendanceDayInput[] {
+  const byDate = new Map<string, AttendanceLog[]>();
+  logs.forEach((log) => {
+    const dayLogs = byDate.get(log.attendance_date) ?? [];
+    dayLogs.push(log);
+    byDate.set(log.attendance_date, dayLogs);
+  });
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayLogs]) => {
+      const events = dayLogs.map((log) => {
+        const event: AttendanceEvent | null =
+          typeof log.event === "number" ? null : log.event;
+        const eventId = event ? event.id : (log.event as number);
+        return {
+          eventId,
+          eventTitle: log.event_title ?? event?.title ?? `Event ${eventId}`,
+          checkInTime: log.check_in_time,
+          checkOutTime: log.check_out_time,
+          breaks: extractBreakInfo(log)?.intervals,
+        };
+      });
+      const status: AttendanceDayInput["status"] = dayLogs.some(
+        (log) => log.check_in_time && log.check_out_time
+      )
+        ? "present"
+        : dayLogs.some((log) => log.check_in_time)
+          ? "partial"
+          : "absent";
+      return { date, status, events };
+    });
+}
+
+/**
+ * Dates the track's portal sessions are scheduled on: the program days a
+ * trainee is expected to attend.
+ */
+export function getProgramDates(track: PortalTrack | null | undefined): string[] {
+  const dates = (track?.modules ?? []).flatMap((module) =>
+    module.sessions
+      .map((session) => session.start_time)
+      .filter((start): start is string => Boolean(start))
+      .map((start) => toIsoDate(new Date(start)))
+  );
+  return [...new Set(dates)].sort();
+}
+
+export function buildCalendarDays(
+  days: AttendanceDayInput[],
+  {
+    excusedDates = [],
+    flaggedDates = [],
+    programDates = [],
+    today,
+  }: {
+    excusedDates?: Iterable<string>;
+    flaggedDates?: Iterable<string>;
+    // Scheduled days (getProgramDates); past ones without a log are absences
+    programDates?: Iterable<string>;
+    today: string;
+  }
+): AttendanceCalendarDay[] {
+  const excused = new Set(excusedDates);
+  const flagged = new Set(flaggedDates);
+  const byDate = new Map<string, AttendanceCalendarDay>();
+  days.forEach((day) => {
+    let status: AttendanceCalendarStatus = day.status;
+    if (status === "absent" && excused.has(day.date)) status = "excused";
+    if (status !== "absent" && flagged.has(day.date)) status = "flagged";
+    byDate.set(day.date, { date: day.date, status, events: day.events });
+  });
+  // Logs only cover days someone showed up
+  for (const date of programDates) {
+    if (date > today || byDate.has(date)) continue;
+    const status = excused.has(date) ? "excused" : "absent";
+    byDate.set(date, { date, status, events: [] });
+  }
+  // Excused days nobody logged still belong on the calendar
+  excused.forEach((date) => {
+    if (!byDate.has(date)) {
+      byDate.set(date, { date, status: "excused", events: [] });
+    }
+  });
+  return Array.from(byDate.values()).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+export function computeAttendanceStreaks(
+  days: AttendanceCalendarDay[],
+  today: string
+): { current: number; longest: number } {
+  let running = 0;
+  let longest = 0;
+  days.forEach((day) => {
+    if (day.status === "excused") return;
+    // Today isn't over; no check-in yet doesn't end the streak
+    if (day.date === today && day.status === "absent") return;
+    running = isAttendedStatus(day.status) ? running + 1 : 0;
+    longest = Math.max(longest, running);
+  });
+  return { current: running, longest };
+}
+
+/** Sunday-first week columns covering `from`..`to`; outside dates are null. */
+export function buildCalendarWeeks(
+  from: string,
+  to: string
+): Array<Array<string | null>> {
+  const weeks: Array<Array<string | null>> = [];
+  for (
+    let weekStart = startOfWeek(from);
+    weekStart <= to;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    weeks.push(
+      Array.from({ length: 7 }, (_, index) => {
+        const date = addDays(weekStart, index);
+        return date < from || date > to ? null : date;
+      })
+    );
+  }
+  return weeks;
+}
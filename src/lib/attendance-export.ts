@@ -0,0 +1,309 @@
+import type {
+  AttendanceOverviewEntry,
+  AttendancePolicy,
+  AttendanceRangeResponse,
+  AttendanceRangeUser,
+} from "@/lib/api";
+import {
+  ATTENDANCE_POLICY_STATUSES,
+  ATTENDANCE_POLICY_STATUS_LABELS,
+  applyWeeklyBreakLimit,
+  classifyAttendance,
+  getBreakMinutes,
+  toMinutesOfDay,
+  type AttendanceClassification,
+  type AttendancePolicyStatus,
+} from "@/lib/attendance-policy";
+import type { XlsxCell, XlsxSheet } from "@/lib/xlsx";
+
+/*
+ Attendance range -> XLSX workbook.
+ - Daily: trainees x days matrix with the worst policy status per day
+ - Trainees / Tracks: attendance rate, break hours and flag counts
+ - Flagged days: every non-on-time log plus absences, one row each
+ - Breaks are also held to the policy's weekly cap over the exported range
+ A "session day" is a date on which anyone in the export checked in; a
+ trainee without a check-in on a session day counts as absent.
+*/
+
+type AttendanceExportOptions = {
+  getPolicy: (track?: string | null) => AttendancePolicy;
+  // Mirror the UI direction so Arabic names read naturally
+  rightToLeft?: boolean;
+};
+
+type ClassifiedEntry = {
+  entry: AttendanceOverviewEntry;
+  classification: AttendanceClassification;
+};
+
+type TraineeDay = {
+  date: string;
+  entries: ClassifiedEntry[];
+  // Worst status across the day's entries
+  status: AttendancePolicyStatus;
+};
+
+const NO_TRACK = "—";
+
+function getDisplayName(user: AttendanceRangeUser): string {
+  return user.full_name || user.user_name || user.user_email;
+}
+
+function worstStatus(statuses: AttendancePolicyStatus[]): AttendancePolicyStatus {
+  return (
+    ATTENDANCE_POLICY_STATUSES.find((status) => statuses.includes(status)) ??
+    "absent"
+  );
+}
+
+function timeCell(value: string | null | undefined): XlsxCell {
+  const minutes = toMinutesOfDay(value);
+  return minutes == null ? null : { type: "time", value: minutes };
+}
+
+function hoursCell(minutes: number): XlsxCell {
+  return { type: "decimal", value: minutes / 60 };
+}
+
+function rateCell(present: number, total: number): XlsxCell {
+  return total > 0 ? { type: "percent", value: present / total } : null;
+}
+
+export function buildAttendanceWorkbook(
+  range: AttendanceRangeResponse,
+  { getPolicy, rightToLeft = false }: AttendanceExportOptions
+): XlsxSheet[] {
+  const eventsById = new Map(range.events.map((event) => [event.id, event]));
+
+  const sessionDays = [
+    ...new Set(
+      range.users.flatMap((user) =>
+        Object.entries(user.days)
+          .filter(([, entries]) => entries.some((entry) => entry.check_in_time))
+          .map(([date]) => date)
+      )
+    ),
+  ].sort();
+
+  const trainees = range.users
+    .map((user) => {
+      const policy = getPolicy(user.track);
+      // Classified together so the weekly break cap sees the whole range
+      const classified = applyWeeklyBreakLimit(
+        sessionDays.flatMap((date) =>
+          (user.days[date] ?? []).map((entry) => {
+            const event = eventsById.get(entry.event_id);
+            return {
+              date,
+              entry,
+              classification: classifyAttendance(
+                {
+                  checkIn: entry.check_in_time,
+                  checkOut: entry.check_out_time,
+                  eventStart: event?.start_time,
+                  eventEnd: event?.end_time,
+                  breakMinutes: getBreakMinutes(entry),
+                },
+                policy
+              ),
+            };
+          })
+        ),
+        policy
+      );
+      const days: TraineeDay[] = sessionDays.map((date) => {
+        const entries = classified
+          .filter((item) => item.date === date)
+          .map(({ entry, classification }) => ({ entry, classification }));
+        return {
+          date,
+          entries,
+          status: worstStatus(
+            entries.length > 0
+              ? entries.flatMap((item) => item.classification.statuses)
+              : ["absent"]
+          ),
+        };
+      });
+      return { user, days };
+    })
+    .sort((a, b) =>
+      getDisplayName(a.user).localeCompare(getDisplayName(b.user))
+    );
+
+  const summarize = (days: TraineeDay[]) => {
+    const classifications = days.flatMap((day) =>
+      day.entries.map((item) => item.classification)
+    );
+    const count = (status: AttendancePolicyStatus) =>
+      classifications.filter((item) => item.statuses.includes(status)).length;
+    return {
+      sessionDays: days.length,
+      presentDays: days.filter((day) => day.status !== "absent").length,
+      late: count("late"),
+      earlyLeave: count("early_leave"),
+      overBreak: count("over_break"),
+      breakMinutes: classifications.reduce(
+        (sum, item) => sum + item.breakMinutes,
+        0
+      ),
+    };
+  };
+
+  const daily: XlsxSheet = {
+    name: "Daily",
+    rightToLeft,
+    frozenColumns: 1,
+    rows: [
+      [
+        "Name",
+        "Email",
+        "Track",
+        ...sessionDays.map((date): XlsxCell => ({ type: "date", value: date })),
+      ],
+      ...trainees.map(({ user, days }) => [
+        getDisplayName(user),
+        user.user_email,
+        user.track ?? "",
+        ...days.map((day) => ATTENDANCE_POLICY_STATUS_LABELS[day.status]),
+      ]),
+    ],
+  };
+
+  const traineeSummary: XlsxSheet = {
+    name: "Trainees",
+    rightToLeft,
+    frozenColumns: 1,
+    rows: [
+      [
+        "Name",
+        "Email",
+        "Track",
+        "Session days",
+        "Days present",
+        "Days absent",
+        "Attendance rate",
+        "Late",
+        "Left early",
+        "Over break",
+        "Break hours",
+      ],
+      ...trainees.map(({ user, days }) => {
+        const summary = summarize(days);
+        return [
+          getDisplayName(user),
+          user.user_email,
+          user.track ?? "",
+          summary.sessionDays,
+          summary.presentDays,
+          summary.sessionDays - summary.presentDays,
+          rateCell(summary.presentDays, summary.sessionDays),
+          summary.late,
+          summary.earlyLeave,
+          summary.overBreak,
+          hoursCell(summary.breakMinutes),
+        ];
+      }),
+    ],
+  };
+
+  const byTrack = new Map<string, typeof trainees>();
+  trainees.forEach((trainee) => {
+    const track = trainee.user.track || NO_TRACK;
+    byTrack.set(track, [...(byTrack.get(track) ?? []), trainee]);
+  });
+  const trackSummary: XlsxSheet = {
+    name: "Tracks",
+    rightToLeft,
+    rows: [
+      [
+        "Track",
+        "Trainees",
+        "Attendance rate",
+        "Days absent",
+        "Late",
+        "Left early",
+        "Over break",
+        "Break hours",
+        "Break hours per trainee",
+      ],
+      ...[...byTrack.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([track, members]) => {
+          const summary = summarize(members.flatMap((member) => member.days));
+          return [
+            track,
+            members.length,
+            rateCell(summary.presentDays, summary.sessionDays),
+            summary.sessionDays - summary.presentDays,
+            summary.late,
+            summary.earlyLeave,
+            summary.overBreak,
+            hoursCell(summary.breakMinutes),
+            hoursCell(summary.breakMinutes / members.length),
+          ];
+        }),
+    ],
+  };
+
+  const flaggedRows: XlsxCell[][] = [];
+  trainees.forEach(({ user, days }) => {
+    days.forEach((day) => {
+      const base = (): XlsxCell[] => [
+        { type: "date", value: day.date },
+        getDisplayName(user),
+        user.user_email,
+        user.track ?? "",
+      ];
+      if (day.entries.length === 0) {
+        flaggedRows.push([...base(), "", null, null, null, "Absent", null, ""]);
+        return;
+      }
+      day.entries.forEach(({ entry, classification }) => {
+        if (classification.statuses.includes("on_time")) return;
+        flaggedRows.push([
+          ...base(),
+          entry.event_title,
+          timeCell(entry.check_in_time),
+          timeCell(entry.check_out_time),
+          hoursCell(classification.breakMinutes),
+          classification.statuses
+            .map((status) => ATTENDANCE_POLICY_STATUS_LABELS[status])
+            .join(", "),
+          classification.lateMinutes || null,
+          entry.notes ?? "",
+        ]);
+      });
+    });
+  });
+  flaggedRows.sort((a, b) => {
+    const [dateA, nameA] = a as [{ value: string }, string];
+    const [dateB, nameB] = b as [{ value: string }, string];
+    return (
+      dateA.value.localeCompare(dateB.value) || nameA.localeCompare(nameB)
+    );
+  });
+  const flagged: XlsxSheet = {
+    name: "Flagged days",
+    rightToLeft,
+    rows: [
+      [
+        "Date",
+        "Name",
+        "Email",
+        "Track",
+        "Event",
+        "Check-in",
+        "Check-out",
+        "Break hours",
+        "Status",
+        "Late minutes",
+        "Notes",
+      ],
+      ...flaggedRows,
+    ],
+  };
+
+  return [daily, traineeSummary, trackSummary, flagged];
+}
@@ -0,0 +1,407 @@
+/*
+ Live attendance channel shared by trackers working the same event and date.
+ - One channel per (event, date); messages are JSON in both directions
+ - Transports: WebSocket, Server-Sent Events or polling, tried in that order
+   (VITE_ATTENDANCE_LIVE_TRANSPORT overrides, e.g. "sse,polling")
+ - Clients announce their own writes and a presence heartbeat; the server
+   relays both to everyone else on the channel and may also broadcast writes
+   it saw itself, so receivers drop messages carrying their own client_id
+ - Nothing is replayed after a drop (polling restarts from now, SSE has no
+   replay), so onReconnect tells the page to reload the roster itself
+ - View-as mode only listens: no presence, no published writes
+ - In development the channel defaults to the stand-in server mounted by
+   Vite (dev/attendance-live-server.ts), which speaks SSE and polling
+
+ Wire format, relative to the channel base URL:
+   GET  ws/?event&date&client_id&token     WebSocket, both directions
+   GET  stream/?event&date&client_id&token  SSE, server -> client
+   GET  poll/?event&date&client_id&since    { cursor, messages }; no since
+                                            on the first call, i.e. from now
+   POST publish/?event&date                 client -> server (SSE, polling)
+*/
+import {
+  apiBaseUrl,
+  getAccessToken,
+  type AttendanceOverviewEntry,
+} from "@/lib/api";
+import { getViewAsTarget } from "@/lib/view-as";
+
+export type AttendanceLiveTransportKind = "websocket" | "sse" | "polling";
+
+export type AttendanceLiveStatus = "connecting" | "live" | "offline";
+
+export type AttendanceLiveChannel = {
+  event: number;
+  date: string; // YYYY-MM-DD
+};
+
+export type AttendanceLivePeer = {
+  client_id: string;
+  user_id: number;
+  name: string;
+  email: string;
+};
+
+export type AttendanceLiveChange = {
+  candidate_id: number;
+  // Row state after the write; null once the log was deleted
+  entry: AttendanceOverviewEntry | null;
+};
+
+export type AttendanceLiveOutgoing =
+  | { type: "presence"; peer: AttendanceLivePeer; state: "here" | "leave" }
+  | {
+      type: "changes";
+      from: AttendanceLivePeer;
+      changes: AttendanceLiveChange[];
+    };
+
+export type AttendanceLiveMessage = { seq?: number } & (
+  | { type: "presence"; peers: AttendanceLivePeer[] }
+  | {
+      type: "changes";
+      from: AttendanceLivePeer;
+      changes: AttendanceLiveChange[];
+      at: string;
+    }
+);
+
+type TransportHandlers = {
+  onOpen: () => void;
+  onMessage: (message: AttendanceLiveMessage) => void;
+  // Fired once; the transport is unusable afterwards
+  onClose: () => void;
+};
+
+export interface AttendanceLiveTransport {
+  readonly kind: AttendanceLiveTransportKind;
+  open(handlers: TransportHandlers): void;
+  send(message: AttendanceLiveOutgoing): Promise<void>;
+  close(): void;
+}
+
+type TransportContext = {
+  baseUrl: string;
+  channel: AttendanceLiveChannel;
+  clientId: string;
+};
+
+const DEV_STAND_IN_URL = "/__attendance-live";
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 20000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const configuredUrl: string | undefined = import.meta.env
+  .VITE_ATTENDANCE_LIVE_URL;
+const usesDevStandIn = !configuredUrl && import.meta.env.DEV;
+
+export const attendanceLiveBaseUrl: string =
+  configuredUrl ??
+  (usesDevStandIn ? DEV_STAND_IN_URL : `${apiBaseUrl}/attendance/live`);
+
+function getConfiguredTransports(): AttendanceLiveTransportKind[] {
+  const raw: string | undefined = import.meta.env
+    .VITE_ATTENDANCE_LIVE_TRANSPORT;
+  const kinds = (raw ?? "")
+    .split(",")
+    .map((kind) => kind.trim())
+    .filter((kind): kind is AttendanceLiveTransportKind =>
+      ["websocket", "sse", "polling"].includes(kind)
+    );
+  if (kinds.length) return kinds;
+  // The stand-in server has no WebSocket endpoint
+  return usesDevStandIn ? ["sse", "polling"] : ["websocket", "sse", "polling"];
+}
+
+function buildUrl(
+  context: TransportContext,
+  path: string,
+  extra: Record<string, string> = {}
+): URL {
+  const base = context.baseUrl.endsWith("/")
+    ? context.baseUrl
+    : `${context.baseUrl}/`;
+  const url = new URL(`${base}${path}`, window.location.href);
+  url.searchParams.set("event", String(context.channel.event));
+  url.searchParams.set("date", context.channel.date);
+  url.searchParams.set("client_id", context.clientId);
+  Object.entries(extra).forEach(([key, value]) =>
+    url.searchParams.set(key, value)
+  );
+  return url;
+}
+
+// EventSource and WebSocket can't send headers, so the token rides along
+function withToken(): Record<string, string> {
+  const token = getAccessToken();
+  return token ? { token } : {};
+}
+
+async function liveFetch(url: URL, init: RequestInit = {}): Promise<Response> {
+  const token = getAccessToken();
+  const response = await fetch(url, {
+    ...init,
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Live channel request failed: ${response.status}`);
+  }
+  return response;
+}
+
+function parseMessage(raw: string): AttendanceLiveMessage | null {
+  try {
+    const message = JSON.parse(raw) as AttendanceLiveMessage;
+    return message && typeof message.type === "string" ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+function publishOverHttp(context: TransportContext) {
+  return async (message: AttendanceLiveOutgoing) => {
+    const url = buildUrl(context, "publish/");
+    url.searchParams.delete("client_id");
+    await liveFetch(url, { method: "POST", body: JSON.stringify(message) });
+  };
+}
+
+function createWebSocketTransport(
+  context: TransportContext
+): AttendanceLiveTransport {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  return {
+    kind: "websocket",
+    open(handlers) {
+      const url = buildUrl(context, "ws/", withToken());
+      url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(url);
+      socket.onopen = () => handlers.onOpen();
+      socket.onmessage = (event) => {
+        const message = parseMessage(String(event.data));
+        if (message) handlers.onMessage(message);
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        closed = true;
+        handlers.onClose();
+      };
+    },
+    async send(message) {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    close() {
+      closed = true;
+      socket?.close();
+    },
+  };
+}
+
+function createSseTransport(
+  context: TransportContext
+): AttendanceLiveTransport {
+  let source: EventSource | null = null;
+  let closed = false;
+  return {
+    kind: "sse",
+    open(handlers) {
+      source = new EventSource(buildUrl(context, "stream/", withToken()), {
+        withCredentials: true,
+      });
+      source.onopen = () => handlers.onOpen();
+      source.onmessage = (event) => {
+        const message = parseMessage(String(event.data));
+        if (message) handlers.onMessage(message);
+      };
+      // EventSource retries on its own; we'd rather own the backoff
+      source.onerror = () => {
+        if (closed) return;
+        closed = true;
+        source?.close();
+        handlers.onClose();
+      };
+    },
+    send: publishOverHttp(context),
+    close() {
+      closed = true;
+      source?.close();
+    },
+  };
+}
+
+function createPollingTransport(
+  context: TransportContext
+): AttendanceLiveTransport {
+  let timer: number | undefined;
+  let closed = false;
+  let cursor: number | null = null;
+  return {
+    kind: "polling",
+    open(handlers) {
+      let opened = false;
+      const poll = async () => {
+        try {
+          const response = await liveFetch(
+            buildUrl(
+              context,
+              "poll/",
+              cursor === null ? {} : { since: String(cursor) }
+            )
+          );
+          const body = (await response.json()) as {
+            cursor: number;
+            messages: AttendanceLiveMessage[];
+          };
+          if (closed) return;
+          if (!opened) {
+            opened = true;
+            handlers.onOpen();
+          }
+          cursor = body.cursor;
+          body.messages.forEach(handlers.onMessage);
+          timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+        } catch {
+          if (closed) return;
+          closed = true;
+          handlers.onClose();
+        }
+      };
+      poll();
+    },
+    send: publishOverHttp(context),
+    close() {
+      closed = true;
+      window.clearTimeout(timer);
+    },
+  };
+}
+
+const TRANSPORT_FACTORIES: Record<
+  AttendanceLiveTransportKind,
+  (context: TransportContext) => AttendanceLiveTransport
+> = {
+  websocket: createWebSocketTransport,
+  sse: createSseTransport,
+  polling: createPollingTransport,
+};
+
+export type AttendanceLiveConnection = {
+  publish: (changes: AttendanceLiveChange[]) => void;
+  close: () => void;
+};
+
+type ConnectOptions = {
+  channel: AttendanceLiveChannel;
+  peer: AttendanceLivePeer;
+  onMessage: (message: AttendanceLiveMessage) => void;
+  onStatus: (status: AttendanceLiveStatus) => void;
+  // Back live after a drop; messages sent in between were missed
+  onReconnect?: () => void;
+  transports?: AttendanceLiveTransportKind[];
+  baseUrl?: string;
+};
+
+/**
+ * Join a live channel. A transport that never opens hands over to the next
+ * one in the list; once one has worked, drops reconnect it with backoff.
+ */
+export function connectAttendanceLive({
+  channel,
+  peer,
+  onMessage,
+  onStatus,
+  onReconnect,
+  transports = getConfiguredTransports(),
+  baseUrl = attendanceLiveBaseUrl,
+}: ConnectOptions): AttendanceLiveConnection {
+  const context: TransportContext = {
+    baseUrl,
+    channel,
+    clientId: peer.client_id,
+  };
+  let kindIndex = 0;
+  let current: AttendanceLiveTransport | null = null;
+  let isOpen = false;
+  let hasBeenLive = false;
+  let stopped = false;
+  let attempts = 0;
+  let reconnectTimer: number | undefined;
+  let heartbeatTimer: number | undefined;
+
+  const sendQuietly = (message: AttendanceLiveOutgoing) => {
+    // Read-only, and the peer would carry the viewed user's name
+    if (getViewAsTarget()) return;
+    current?.send(message).catch((error) => {
+      console.error("Failed to send live attendance message:", error);
+    });
+  };
+
+  const start = () => {
+    if (stopped) return;
+    onStatus("connecting");
+    let opened = false;
+    const transport = TRANSPORT_FACTORIES[transports[kindIndex]](context);
+    current = transport;
+    transport.open({
+      onOpen: () => {
+        if (opened) return;
+        opened = true;
+        isOpen = true;
+        attempts = 0;
+        onStatus("live");
+        if (hasBeenLive) onReconnect?.();
+        hasBeenLive = true;
+        sendQuietly({ type: "presence", peer, state: "here" });
+        heartbeatTimer = window.setInterval(
+          () => sendQuietly({ type: "presence", peer, state: "here" }),
+          HEARTBEAT_INTERVAL_MS
+        );
+      },
+      onMessage: (message) => {
+        const isEcho =
+          message.type === "changes" &&
+          message.from.client_id === peer.client_id;
+        if (!isEcho) onMessage(message);
+      },
+      onClose: () => {
+        isOpen = false;
+        window.clearInterval(heartbeatTimer);
+        if (stopped) return;
+        // Never came up: this transport isn't available, try the next one
+        if (!opened && kindIndex < transports.length - 1) {
+          kindIndex += 1;
+          start();
+          return;
+        }
+        onStatus("offline");
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        reconnectTimer = window.setTimeout(start, delay);
+      },
+    });
+  };
+
+  start();
+
+  return {
+    publish(changes) {
+      if (!isOpen || !changes.length) return;
+      sendQuietly({ type: "changes", from: peer, changes });
+    },
+    close() {
+      if (isOpen) sendQuietly({ type: "presence", peer, state: "leave" });
+      stopped = true;
+      isOpen = false;
+      window.clearTimeout(reconnectTimer);
+      window.clearInterval(heartbeatTimer);
+      current?.close();
+    },
+  };
+}
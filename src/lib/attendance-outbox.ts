@@ -0,0 +1,284 @@
+/*
+ Offline outbox for attendance writes.
+ - Check-in / check-out / break / note submissions are persisted in IndexedDB
+   when the network is unavailable (or while older operations are still queued)
+ - Payloads keep the times captured when the tracker clicked, not replay time
+ - Operations replay strictly in insertion order once connectivity returns
+ - A replay that stops on a network error or a 5xx is retried on a backoff
+   timer, so a tracker who never goes offline still gets the queue delivered
+ - Rejected rows from AttendanceSubmitResponse.results are kept as conflicts
+   until the tracker dismisses them
+*/
+
+import {
+  submitAttendanceUpdate,
+  submitCheckIn,
+  type AttendanceSubmitResponse,
+  type AttendanceUpdatePayload,
+  type CheckInPayload,
+} from "@/lib/api";
+import {
+  ApiError,
+  NetworkError,
+  ReadOnlyModeError,
+} from "@/lib/api-errors";
+
+export type OutboxOperation =
+  | {
+      id: number;
+      kind: "checkin";
+      method: "POST";
+      payload: CheckInPayload;
+      label: string;
+      createdAt: number;
+      status: "pending" | "conflict";
+      conflict?: string;
+    }
+  | {
+      id: number;
+      kind: "update";
+      method: "POST" | "PUT";
+      payload: AttendanceUpdatePayload;
+      label: string;
+      createdAt: number;
+      status: "pending" | "conflict";
+      conflict?: string;
+    };
+
+// What callers hand in; id/status/createdAt are assigned by the outbox
+export type OutboxRequest =
+  | { kind: "checkin"; payload: CheckInPayload; label: string }
+  | {
+      kind: "update";
+      method?: "POST" | "PUT";
+      payload: AttendanceUpdatePayload;
+      label: string;
+    };
+
+// null response means the operation was queued for later
+export type OutboxSubmitResult = {
+  response: AttendanceSubmitResponse | null;
+  queued: boolean;
+};
+
+const DB_NAME = "tgp_attendance_outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "operations";
+
+// Backoff between retries while operations stay pending: 5s, 10s, ... 5min
+const RETRY_BASE_DELAY = 5 * 1000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<void> | null = null;
+// Set when flushOutbox is called mid-flush, e.g. right after an enqueue
+let flushAgain = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+const listeners = new Set<() => void>();
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, {
+          keyPath: "id",
+          autoIncrement: true,
+        });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Run a single request inside a transaction and resolve with its result
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function listOutbox(): Promise<OutboxOperation[]> {
+  const all = await withStore<OutboxOperation[]>("readonly", (store) =>
+    store.getAll()
+  );
+  // Auto-increment ids preserve enqueue order
+  return all.sort((a, b) => a.id - b.id);
+}
+
+async function enqueue(request: OutboxRequest): Promise<void> {
+  const record =
+    request.kind === "checkin"
+      ? { ...request, method: "POST" as const }
+      : { ...request, method: request.method ?? "PUT" };
+  await withStore("readwrite", (store) =>
+    store.add({ ...record, createdAt: Date.now(), status: "pending" })
+  );
+  notify();
+}
+
+async function removeOperation(id: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify();
+}
+
+async function markConflict(
+  operation: OutboxOperation,
+  message: string
+): Promise<void> {
+  await withStore("readwrite", (store) =>
+    store.put({ ...operation, status: "conflict", conflict: message })
+  );
+  notify();
+}
+
+export async function dismissOutboxConflict(id: number): Promise<void> {
+  await removeOperation(id);
+}
+
+function send(
+  request: OutboxRequest | OutboxOperation
+): Promise<AttendanceSubmitResponse> {
+  if (request.kind === "checkin") return submitCheckIn(request.payload);
+  return submitAttendanceUpdate(request.payload, {
+    method: request.method ?? "PUT",
+  });
+}
+
+// First rejected row of a batch response, if any
+function getRejectedMessage(response: AttendanceSubmitResponse): string | null {
+  const rejected = response.results.find((result) => result.status === "error");
+  if (rejected) return rejected.message || "Rejected by server";
+  if (response.success === 0 && response.errors > 0) return "Rejected by server";
+  return null;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+function scheduleRetry() {
+  // The "online" event replays the queue once the browser is back
+  if (retryTimer !== null || isOffline()) return;
+  const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** retryAttempt);
+  retryAttempt += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox().catch((error) => {
+      console.error("Attendance outbox retry failed:", error);
+    });
+  }, delay);
+}
+
+function resetRetry() {
+  if (retryTimer !== null) clearTimeout(retryTimer);
+  retryTimer = null;
+  retryAttempt = 0;
+}
+
+/**
+ * Replay queued operations in order until none is pending. Stops at the
+ * first network failure so later operations never overtake earlier ones; a
+ * retry is then scheduled with backoff.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushPromise) {
+    flushAgain = true;
+    return flushPromise;
+  }
+  flushPromise = (async () => {
+    try {
+      // Re-read after every pass: operations queued during a flush join it
+      for (;;) {
+        flushAgain = false;
+        const pending = (await listOutbox()).filter(
+          (operation) => operation.status === "pending"
+        );
+        if (pending.length === 0 && !flushAgain) break;
+        for (const operation of pending) {
+          if (isOffline()) return;
+          try {
+            const response = await send(operation);
+            const rejected = getRejectedMessage(response);
+            if (rejected) {
+              await markConflict(operation, rejected);
+            } else {
+              await removeOperation(operation.id);
+            }
+          } catch (error) {
+            // Staff viewing as someone else: leave the queue for later
+            if (error instanceof ReadOnlyModeError) return;
+            if (
+              error instanceof NetworkError ||
+              (error instanceof ApiError && error.status >= 500)
+            ) {
+              scheduleRetry();
+              return;
+            }
+            await markConflict(
+              operation,
+              error instanceof Error ? error.message : "Sync failed"
+            );
+          }
+        }
+      }
+      resetRetry();
+    } finally {
+      flushPromise = null;
+    }
+  })();
+  return flushPromise;
+}
+
+/**
+ * Submit right away when possible, otherwise persist in the outbox.
+ * Anything already queued goes first, so new writes join the queue too.
+ */
+export async function submitOrQueueAttendance(
+  request: OutboxRequest
+): Promise<OutboxSubmitResult> {
+  const hasPending = (await listOutbox()).some(
+    (operation) => operation.status === "pending"
+  );
+  if (isOffline() || hasPending) {
+    await enqueue(request);
+    if (!isOffline()) void flushOutbox();
+    return { response: null, queued: true };
+  }
+
+  try {
+    return { response: await send(request), queued: false };
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+    await enqueue(request);
+    scheduleRetry();
+    return { response: null, queued: true };
+  }
+}
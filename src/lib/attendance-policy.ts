@@ -0,0 +1,259 @@
+import type { AttendancePolicy, AttendancePolicyRecord } from "@/lib/api";
+import { startOfWeek } from "@/lib/date-range";
+
+/*
+ Attendance policy engine.
+ - Classifies one attendance log against the event schedule and a policy
+ - The weekly break cap needs a trainee's whole week, so it is applied on top
+   of per-log classifications by applyWeeklyBreakLimit
+ - Policies are per track; tracks without their own record use the default
+ - Pure functions only, so pages, exports and stats all agree on a status
+*/
+
+export type AttendancePolicyStatus =
+  | "on_time"
+  | "late"
+  | "early_leave"
+  | "over_break"
+  | "absent";
+
+export type AttendanceClassification = {
+  // Most significant status first; "on_time" only when nothing was flagged
+  statuses: AttendancePolicyStatus[];
+  lateMinutes: number;
+  earlyLeaveMinutes: number;
+  breakMinutes: number;
+};
+
+export type AttendancePolicyInput = {
+  checkIn: string | null | undefined;
+  checkOut: string | null | undefined;
+  eventStart?: string | null;
+  eventEnd?: string | null;
+  breakMinutes?: number | null;
+};
+
+type BreakSource = {
+  break_time?: string | null;
+  break_accumulated?: string | null;
+  break_intervals?: Array<{ start: string; end: string | null }>;
+};
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  grace_minutes: 10,
+  late_threshold_minutes: 60,
+  max_break_minutes_per_day: 60,
+  max_break_minutes_per_week: 4 * 60,
+  early_leave_minutes: 15,
+};
+
+// Worst first: an absence outranks lateness, which outranks the rest
+export const ATTENDANCE_POLICY_STATUSES: AttendancePolicyStatus[] = [
+  "absent",
+  "late",
+  "early_leave",
+  "over_break",
+  "on_time",
+];
+
+// English labels; UI code translates pages.attendance.policy.status.<status>
+export const ATTENDANCE_POLICY_STATUS_LABELS: Record<
+  AttendancePolicyStatus,
+  string
+> = {
+  on_time: "On time",
+  late: "Late",
+  early_leave: "Left early",
+  over_break: "Over break",
+  absent: "Absent",
+};
+
+// Accepts "HH:MM", "HH:MM:SS" or a full ISO timestamp (local time of day)
+export function toMinutesOfDay(
+  value: string | null | undefined
+): number | null {
+  if (!value) return null;
+  if (value.includes("T")) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+  }
+  const [hours, minutes = 0, seconds = 0] = value
+    .split(":")
+    .map((part) => Number(part));
+  if ([hours, minutes, seconds].some((part) => Number.isNaN(part))) {
+    return null;
+  }
+  return hours * 60 + minutes + seconds / 60;
+}
+
+// "HH:MM:SS" duration to minutes
+function parseClockDuration(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const minutes = toMinutesOfDay(value);
+  return minutes != null && minutes > 0 ? minutes : null;
+}
+
+/** Total break minutes of a log, preferring the server's running total. */
+export function getBreakMinutes(
+  source: BreakSource | null | undefined
+): number {
+  if (!source) return 0;
+  const reported = parseClockDuration(
+    source.break_time ?? source.break_accumulated
+  );
+  if (reported != null) return reported;
+  return (source.break_intervals ?? []).reduce((sum, interval) => {
+    if (!interval.end) return sum;
+    const start = toMinutesOfDay(interval.start);
+    const end = toMinutesOfDay(interval.end);
+    if (start == null || end == null || end <= start) return sum;
+    return sum + (end - start);
+  }, 0);
+}
+
+/**
+ * Pick the policy for a track: its own record, else the default record,
+ * else the built-in defaults. Missing fields fall through the same chain.
+ */
+export function resolveAttendancePolicy(
+  records: AttendancePolicyRecord[] | null | undefined,
+  track: string | null | undefined
+): AttendancePolicy {
+  const fallback = records?.find((record) => record.track == null);
+  const own = track
+    ? records?.find((record) => record.track === track)
+    : undefined;
+  return {
+    ...DEFAULT_ATTENDANCE_POLICY,
+    ...stripTrack(fallback),
+    ...stripTrack(own),
+  };
+}
+
+function stripTrack(
+  record: AttendancePolicyRecord | undefined
+): Partial<AttendancePolicy> {
+  if (!record) return {};
+  return {
+    grace_minutes: record.grace_minutes,
+    late_threshold_minutes: record.late_threshold_minutes,
+    max_break_minutes_per_day: record.max_break_minutes_per_day,
+    max_break_minutes_per_week: record.max_break_minutes_per_week,
+    early_leave_minutes: record.early_leave_minutes,
+  };
+}
+
+/** Classify one log. Without an event schedule only breaks are checked. */
+export function classifyAttendance(
+  input: AttendancePolicyInput,
+  policy: AttendancePolicy = DEFAULT_ATTENDANCE_POLICY
+): AttendanceClassification {
+  const breakMinutes = Math.round(input.breakMinutes ?? 0);
+  const checkIn = toMinutesOfDay(input.checkIn);
+  if (checkIn == null) {
+    return {
+      statuses: ["absent"],
+      lateMinutes: 0,
+      earlyLeaveMinutes: 0,
+      breakMinutes,
+    };
+  }
+
+  const statuses: AttendancePolicyStatus[] = [];
+  const start = toMinutesOfDay(input.eventStart);
+  const end = toMinutesOfDay(input.eventEnd);
+  const checkOut = toMinutesOfDay(input.checkOut);
+
+  const lateMinutes =
+    start != null ? Math.max(0, Math.round(checkIn - start)) : 0;
+  if (lateMinutes > policy.late_threshold_minutes) {
+    statuses.push("absent");
+  } else if (lateMinutes > policy.grace_minutes) {
+    statuses.push("late");
+  }
+
+  const earlyLeaveMinutes =
+    end != null && checkOut != null
+      ? Math.max(0, Math.round(end - checkOut))
+      : 0;
+  if (earlyLeaveMinutes > policy.early_leave_minutes) {
+    statuses.push("early_leave");
+  }
+
+  if (breakMinutes > policy.max_break_minutes_per_day) {
+    statuses.push("over_break");
+  }
+
+  return {
+    statuses: statuses.length > 0 ? statuses : ["on_time"],
+    lateMinutes,
+    earlyLeaveMinutes,
+    breakMinutes,
+  };
+}
+
+export function exceedsWeeklyBreak(
+  weekBreakMinutes: number,
+  policy: AttendancePolicy = DEFAULT_ATTENDANCE_POLICY
+): boolean {
+  return weekBreakMinutes > policy.max_break_minutes_per_week;
+}
+
+/**
+ * Enforce max_break_minutes_per_week over one trainee's logs. Per week
+ * (Sunday start, like lib/date-range), the log whose breaks push the running
+ * total past the cap, and every later log that week with a break, is flagged
+ * "over_break". Items keep their order; flagged ones get a new classification.
+ */
+export function applyWeeklyBreakLimit<
+  T extends { date: string; classification: AttendanceClassification }
+>(items: T[], policy: AttendancePolicy = DEFAULT_ATTENDANCE_POLICY): T[] {
+  const chronological = items
+    .map((item, index) => ({ item, index }))
+    .sort(
+      (a, b) => a.item.date.localeCompare(b.item.date) || a.index - b.index
+    );
+
+  const weekTotals = new Map<string, number>();
+  const overLimit = new Set<number>();
+  for (const { item, index } of chronological) {
+    const minutes = item.classification.breakMinutes;
+    if (minutes <= 0) continue;
+    const week = startOfWeek(item.date.slice(0, 10));
+    const total = (weekTotals.get(week) ?? 0) + minutes;
+    weekTotals.set(week, total);
+    if (exceedsWeeklyBreak(total, policy)) overLimit.add(index);
+  }
+
+  return items.map((item, index) => {
+    const { statuses } = item.classification;
+    if (!overLimit.has(index) || statuses.includes("over_break")) return item;
+    return {
+      ...item,
+      classification: {
+        ...item.classification,
+        // over_break always comes last, matching classifyAttendance
+        statuses: [
+          ...statuses.filter((status) => status !== "on_time"),
+          "over_break",
+        ],
+      },
+    };
+  });
+}
+
+// Tally classifications, e.g. for stats cards
+export function countAttendanceStatuses(
+  classifications: AttendanceClassification[]
+): Record<AttendancePolicyStatus, number> {
+  const counts = Object.fromEntries(
+    ATTENDANCE_POLICY_STATUSES.map((status) => [status, 0])
+  ) as Record<AttendancePolicyStatus, number>;
+  classifications.forEach((classification) => {
+    classification.statuses.forEach((status) => {
+      counts[status] += 1;
+    });
+  });
+  return counts;
+}
@@ -0,0 +1,73 @@
+import type { AuthUser } from "@/context/AuthContext";
+
+// Keeps every open tab on the same identity. Login, logout and /me refreshes
+// in one tab are announced to the others over a BroadcastChannel, or through
+// a localStorage "storage" event where BroadcastChannel isn't available.
+// Tokens already live in shared localStorage; this only tells the other
+// tabs to update their in-memory user and drop caches fetched as someone else.
+
+const CHANNEL_NAME = "rems-auth";
+const STORAGE_KEY = "auth_sync_event";
+
+export type AuthSyncEvent =
+  | { type: "login"; user: AuthUser }
+  | { type: "user"; user: AuthUser }
+  | { type: "logout" };
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel =
+      typeof BroadcastChannel === "function"
+        ? new BroadcastChannel(CHANNEL_NAME)
+        : null;
+  }
+  return channel;
+}
+
+export function broadcastAuthEvent(event: AuthSyncEvent) {
+  const current = getChannel();
+  if (current) {
+    current.postMessage(event);
+    return;
+  }
+  try {
+    // "storage" only fires in other tabs, and only when the value changes
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ event, nonce: Date.now() })
+    );
+  } catch {
+    // Storage full or disabled: other tabs catch up on their next 401
+  }
+}
+
+/**
+ * Calls listener for auth events from other tabs. Returns an unsubscribe.
+ */
+export function subscribeAuthEvents(
+  listener: (event: AuthSyncEvent) => void
+): () => void {
+  const current = getChannel();
+  if (current) {
+    const handleMessage = (message: MessageEvent<AuthSyncEvent>) =>
+      listener(message.data);
+    current.addEventListener("message", handleMessage);
+    return () => current.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = (storageEvent: StorageEvent) => {
+    if (storageEvent.key !== STORAGE_KEY || !storageEvent.newValue) return;
+    try {
+      const { event } = JSON.parse(storageEvent.newValue) as {
+        event: AuthSyncEvent;
+      };
+      listener(event);
+    } catch {
+      // ignore malformed entries
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
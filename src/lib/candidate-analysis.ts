@@ -0,0 +1,268 @@
+/*
+ Structured AI analysis of a candidate (UserDetailPage "Analyze").
+ - CANDIDATE_ANALYSIS_SCHEMA is what the provider is asked for; the zod
+   schema below checks what actually comes back
+ - Stored as JSON in the user's ai_analysis text field, wrapped with a format
+   tag and version so it can be told apart from older Markdown analyses
+ - parseStoredAnalysis reads both; for Markdown it pulls out the overall
+   score so the candidates list can still sort by it
+*/
+import { z } from "zod";
+import type { LlmSchema, LlmValidation } from "@/services/llm";
+
+export const RECOMMENDATIONS = ["strong_yes", "yes", "maybe", "no"] as const;
+export type CandidateRecommendation = (typeof RECOMMENDATIONS)[number];
+
+export const CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+export type AnalysisConfidence = (typeof CONFIDENCE_LEVELS)[number];
+
+export const ANALYSIS_DIMENSIONS = [
+  "cv",
+  "technical_interview",
+  "hr_interview",
+  "english",
+] as const;
+export type AnalysisDimension = (typeof ANALYSIS_DIMENSIONS)[number];
+
+export const EVIDENCE_SOURCES = [
+  "cv",
+  "technical_interview",
+  "hr_interview",
+  "english_test",
+  "iq_test",
+] as const;
+export type EvidenceSource = (typeof EVIDENCE_SOURCES)[number];
+
+// English fallbacks for candidateAnalysis.* translation keys
+export const RECOMMENDATION_LABELS: Record<CandidateRecommendation, string> = {
+  strong_yes: "Strong yes",
+  yes: "Yes",
+  maybe: "Maybe",
+  no: "No",
+};
+
+export const CONFIDENCE_LABELS: Record<AnalysisConfidence, string> = {
+  high: "High confidence",
+  medium: "Medium confidence",
+  low: "Low confidence",
+};
+
+export const DIMENSION_LABELS: Record<AnalysisDimension, string> = {
+  cv: "CV",
+  technical_interview: "Technical interview",
+  hr_interview: "HR interview",
+  english: "English",
+};
+
+export const EVIDENCE_SOURCE_LABELS: Record<EvidenceSource, string> = {
+  cv: "CV",
+  technical_interview: "Technical interview",
+  hr_interview: "HR interview",
+  english_test: "English test",
+  iq_test: "IQ test",
+};
+
+const STORED_FORMAT = "candidate-analysis";
+const STORED_VERSION = 1;
+
+const pointSchema = z.object({
+  point: z.string().min(1),
+  source: z.enum(EVIDENCE_SOURCES),
+  evidence: z.string().min(1),
+});
+
+const dimensionSchema = z.object({
+  // Normalized 0-100; null when there's no data for the dimension
+  score: z.number().min(0).max(100).nullable(),
+  tier: z.string(),
+  note: z.string(),
+});
+
+const analysisSchema = z.object({
+  overall_score: z.number().int().min(0).max(100),
+  recommendation: z.enum(RECOMMENDATIONS),
+  confidence: z.enum(CONFIDENCE_LEVELS),
+  justification: z.string().min(1),
+  strengths: z.array(pointSchema).min(1),
+  weaknesses: z.array(pointSchema).min(1),
+  dimension_scores: z.object({
+    cv: dimensionSchema,
+    technical_interview: dimensionSchema,
+    hr_interview: dimensionSchema,
+    english: dimensionSchema,
+  }),
+  cv_accessible: z.boolean(),
+  cv_insights: z.array(z.string()),
+});
+
+export type AnalysisPoint = z.infer<typeof pointSchema>;
+export type DimensionScore = z.infer<typeof dimensionSchema>;
+export type CandidateAnalysis = z.infer<typeof analysisSchema>;
+
+const POINT_SCHEMA: LlmSchema = {
+  type: "object",
+  properties: {
+    point: { type: "string", description: "One direct observation" },
+    source: { type: "string", enum: [...EVIDENCE_SOURCES] },
+    evidence: {
+      type: "string",
+      description:
+        "The data the point rests on: a score, a quote from notes or a CV detail",
+    },
+  },
+  required: ["point", "source", "evidence"],
+};
+
+const DIMENSION_SCHEMA: LlmSchema = {
+  type: "object",
+  properties: {
+    score: {
+      type: "number",
+      nullable: true,
+      description: "Normalized 0-100 after calibration; null without data",
+    },
+    tier: { type: "string", description: "Tier name from the instructions" },
+    note: { type: "string", description: "One short sentence" },
+  },
+  required: ["score", "tier", "note"],
+};
+
+export const CANDIDATE_ANALYSIS_SCHEMA: LlmSchema = {
+  type: "object",
+  properties: {
+    overall_score: { type: "integer", description: "0-100" },
+    recommendation: { type: "string", enum: [...RECOMMENDATIONS] },
+    confidence: { type: "string", enum: [...CONFIDENCE_LEVELS] },
+    justification: {
+      type: "string",
+      description: "1-2 sentences on the core reason for the score",
+    },
+    strengths: { type: "array", items: POINT_SCHEMA },
+    weaknesses: { type: "array", items: POINT_SCHEMA },
+    dimension_scores: {
+      type: "object",
+      properties: Object.fromEntries(
+        ANALYSIS_DIMENSIONS.map((dimension) => [dimension, DIMENSION_SCHEMA])
+      ),
+      required: [...ANALYSIS_DIMENSIONS],
+    },
+    cv_accessible: {
+      type: "boolean",
+      description: "Whether CV text or the CV link could be read",
+    },
+    cv_insights: {
+      type: "array",
+      items: { type: "string" },
+      description: "1-3 concrete signals from the CV; empty if none",
+    },
+  },
+  required: [
+    "overall_score",
+    "recommendation",
+    "confidence",
+    "justification",
+    "strengths",
+    "weaknesses",
+    "dimension_scores",
+    "cv_accessible",
+    "cv_insights",
+  ],
+};
+
+// Problems are phrased for the model, which gets them back on a retry
+export function validateCandidateAnalysis(
+  value: unknown
+): LlmValidation<CandidateAnalysis> {
+  const result = analysisSchema.safeParse(value);
+  if (result.success) return { ok: true, value: result.data };
+  return {
+    ok: false,
+    errors: result.error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    ),
+  };
+}
+
+export type StoredAnalysis =
+  | {
+      kind: "structured";
+      analysis: CandidateAnalysis;
+      provider: string | null;
+      model: string | null;
+      generatedAt: string | null;
+    }
+  | { kind: "markdown"; text: string; overallScore: number | null };
+
+export function serializeCandidateAnalysis(
+  analysis: CandidateAnalysis,
+  meta: { provider: string; model: string }
+): string {
+  return JSON.stringify({
+    format: STORED_FORMAT,
+    version: STORED_VERSION,
+    provider: meta.provider,
+    model: meta.model,
+    generated_at: new Date().toISOString(),
+    analysis,
+  });
+}
+
+// Older analyses: "**Overall Score:** 72" somewhere in the Markdown
+function readMarkdownScore(text: string): number | null {
+  const match = text.match(/overall score:?\**\s*:?\s*(\d{1,3})/i);
+  if (!match) return null;
+  const score = Number(match[1]);
+  return score <= 100 ? score : null;
+}
+
+export function parseStoredAnalysis(
+  raw: string | null | undefined
+): StoredAnalysis | null {
+  const text = (raw ?? "").trim();
+  if (!text) return null;
+  if (text.startsWith("{")) {
+    try {
+      const stored = JSON.parse(text) as {
+        format?: unknown;
+        provider?: unknown;
+        model?: unknown;
+        generated_at?: unknown;
+        analysis?: unknown;
+      };
+      const checked =
+        stored.format === STORED_FORMAT
+          ? validateCandidateAnalysis(stored.analysis)
+          : null;
+      if (checked?.ok) {
+        return {
+          kind: "structured",
+          analysis: checked.value,
+          provider: typeof stored.provider === "string" ? stored.provider : null,
+          model: typeof stored.model === "string" ? stored.model : null,
+          generatedAt:
+            typeof stored.generated_at === "string" ? stored.generated_at : null,
+        };
+      }
+    } catch {
+      // Not ours; show it as text
+    }
+  }
+  return { kind: "markdown", text, overallScore: readMarkdownScore(text) };
+}
+
+export function getStoredAnalysisScore(
+  stored: StoredAnalysis | null | undefined
+): number | null {
+  if (!stored) return null;
+  return stored.kind === "structured"
+    ? stored.analysis.overall_score
+    : stored.overallScore;
+}
+
+export function getStoredRecommendation(
+  stored: StoredAnalysis | null | undefined
+): CandidateRecommendation | null {
+  return stored?.kind === "structured" ? stored.analysis.recommendation : null;
+}
@@ -1,4 +1,5 @@
 import type { BackendCandidate } from "./api";
+import { parseStoredAnalysis, type StoredAnalysis } from "./candidate-analysis";
 
 export type CandidateStatus = "not_interviewed" | "in_progress" | "interviewed";
 
@@ -15,6 +16,8 @@ export type Candidate = {
   totalForms?: number;
   submittedByMeForms?: number;
   forms?: Array<{ id: number; title: string; forms_by_me: boolean }>;
+  // null: not analyzed; undefined: unknown, the list didn't carry ai_analysis
+  aiAnalysis?: StoredAnalysis | null;
 };
 
 // Transform backend candidate data to frontend format
@@ -37,6 +40,10 @@ export function transformBackendCandidate(
     totalForms,
     submittedByMeForms,
     forms: backendCandidate.forms ?? [],
+    aiAnalysis:
+      backendCandidate.ai_analysis === undefined
+        ? undefined
+        : parseStoredAnalysis(backendCandidate.ai_analysis),
   };
 }
 
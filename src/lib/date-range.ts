@@ -0,0 +1,37 @@
+// Helpers for YYYY-MM-DD date strings as used by the attendance API.
+// Arithmetic runs in UTC so day boundaries don't shift with the local zone.
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function todayIsoDate(): string {
+  return toIsoDate(new Date());
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+}
+
+// Weeks start on Sunday, matching the attendance breakdown
+export function startOfWeek(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  return addDays(isoDate, -date.getUTCDay());
+}
+
+// Every date from `from` to `to`, both inclusive
+export function eachDay(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// The `days` most recent dates, ending today
+export function lastNDays(days: number): { from: string; to: string } {
+  const to = todayIsoDate();
+  return { from: addDays(to, -(days - 1)), to };
+}
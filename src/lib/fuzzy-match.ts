@@ -0,0 +1,111 @@
+/*
+ Small fuzzy matcher for people lookups (kiosk, search boxes).
+ - Case, diacritics and common Arabic letter variants are ignored
+ - Exact > prefix > substring > typo-tolerant (edit distance) matches
+ - Scores are 0..1; callers decide what counts as a confident match
+*/
+
+export type FuzzyMatch<T> = {
+  item: T;
+  score: number;
+};
+
+// Alef/yeh/teh marbuta variants are often typed interchangeably
+const ARABIC_VARIANTS: Array<[RegExp, string]> = [
+  [/[أإآٱ]/g, "ا"],
+  [/ى/g, "ي"],
+  [/ة/g, "ه"],
+  [/ؤ/g, "و"],
+  [/ئ/g, "ي"],
+  [/ـ/g, ""], // tatweel
+];
+
+export function normalizeForMatch(value: string): string {
+  let normalized = value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+  ARABIC_VARIANTS.forEach(([pattern, replacement]) => {
+    normalized = normalized.replace(pattern, replacement);
+  });
+  return normalized.replace(/\s+/g, " ").trim();
+}
+
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Score one normalized query against one normalized field
+function scoreField(query: string, field: string): number {
+  if (!field) return 0;
+  if (field === query) return 1;
+  if (field.startsWith(query)) return 0.9;
+
+  const words = field.split(/[\s@._-]+/).filter(Boolean);
+  if (words.some((word) => word.startsWith(query))) return 0.85;
+  if (field.includes(query)) return 0.75;
+
+  // Every query word starts some field word: "moh ahm" ~ "mohamed ahmed"
+  const queryWords = query.split(" ");
+  if (
+    queryWords.length > 1 &&
+    queryWords.every((part) => words.some((word) => word.startsWith(part)))
+  ) {
+    return 0.8;
+  }
+
+  // Typos: compare against the whole field and each word
+  const candidates = [field, ...words];
+  const best = Math.max(
+    ...candidates.map((candidate) => {
+      const distance = editDistance(query, candidate);
+      return 1 - distance / Math.max(query.length, candidate.length);
+    })
+  );
+  return best >= 0.6 ? best * 0.7 : 0;
+}
+
+/**
+ * Rank items by how well any of their fields matches the query, best first.
+ * Items scoring below `minScore` are dropped.
+ */
+export function rankFuzzyMatches<T>(
+  query: string,
+  items: T[],
+  getFields: (item: T) => Array<string | number | null | undefined>,
+  { minScore = 0.4, limit = 10 }: { minScore?: number; limit?: number } = {}
+): FuzzyMatch<T>[] {
+  const normalizedQuery = normalizeForMatch(query);
+  if (!normalizedQuery) return [];
+
+  return items
+    .map((item) => ({
+      item,
+      score: Math.max(
+        0,
+        ...getFields(item)
+          .filter((field) => field != null && field !== "")
+          .map((field) =>
+            scoreField(normalizedQuery, normalizeForMatch(String(field)))
+          )
+      ),
+    }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,72 @@
+// Signs the user out after a period with no keyboard, mouse or touch input,
+// for shared machines such as attendance laptops. The default comes from
+// VITE_IDLE_TIMEOUT_MINUTES (unset or 0 means off) and each device can
+// override it from the account page. Activity is recorded in localStorage so
+// using any tab keeps every tab signed in.
+
+const SETTING_KEY = "idle_timeout_minutes";
+const ACTIVITY_KEY = "last_activity_at";
+
+// How long the warning dialog counts down before signing out
+export const IDLE_WARNING_MS = 60_000;
+
+export const IDLE_TIMEOUT_OPTIONS = [5, 15, 30, 60, 120];
+
+function parseMinutes(raw: string | null | undefined): number | null {
+  if (raw === null || raw === undefined || raw.trim() === "") return null;
+  const minutes = Number(raw);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+}
+
+export function getDefaultIdleTimeoutMinutes(): number {
+  return parseMinutes(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) ?? 0;
+}
+
+/**
+ * This device's override, or null to follow the default
+ */
+export function getDeviceIdleTimeoutMinutes(): number | null {
+  try {
+    return parseMinutes(localStorage.getItem(SETTING_KEY));
+  } catch {
+    return null;
+  }
+}
+
+export function setDeviceIdleTimeoutMinutes(minutes: number | null) {
+  if (minutes === null) {
+    localStorage.removeItem(SETTING_KEY);
+  } else {
+    localStorage.setItem(SETTING_KEY, String(minutes));
+  }
+}
+
+/**
+ * Effective timeout in milliseconds; 0 when idle sign-out is off
+ */
+export function getIdleTimeoutMs(): number {
+  const minutes =
+    getDeviceIdleTimeoutMinutes() ?? getDefaultIdleTimeoutMinutes();
+  return Math.round(minutes * 60_000);
+}
+
+// Fallback for when localStorage is unavailable
+let tabActivityAt = Date.now();
+
+export function getLastActivityAt(): number {
+  try {
+    const stored = Number(localStorage.getItem(ACTIVITY_KEY)) || 0;
+    return Math.max(stored, tabActivityAt);
+  } catch {
+    return tabActivityAt;
+  }
+}
+
+export function recordActivity(at = Date.now()) {
+  tabActivityAt = at;
+  try {
+    localStorage.setItem(ACTIVITY_KEY, String(at));
+  } catch {
+    // Without storage each tab just tracks its own activity
+  }
+}
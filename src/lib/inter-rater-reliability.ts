@@ -0,0 +1,395 @@
+/*
+ Inter-rater agreement for one form, from candidates scored by several
+ interviewers (forms_entries on the user detail response).
+ - Per question field: Cohen's kappa when every co-rated candidate was scored
+   by the same two interviewers, otherwise Fleiss' kappa (the variant that
+   allows a different number of raters per candidate), both on the chosen
+   option
+ - Scaled questions (three or more options) also get ICC(1), the one-way
+   random-effects intraclass correlation on option scores, since interviewers
+   rotate between candidates
+ - A candidate diverges when the gap between their highest and lowest final
+   score is at least the threshold share of the form's maximum score; their
+   most split fields are listed so a tie-breaker knows where to dig
+ - Entry fields carry only a label, so fields are matched to the form
+   definition by label
+ - An interviewer who submitted a candidate's form more than once counts
+   once, with their latest entry (highest id); the rest are reported as
+   duplicates
+*/
+import type { BackendForm } from "@/lib/api";
+
+// Share of the max score between the highest and lowest final score
+export const DEFAULT_DIVERGENCE_THRESHOLD = 0.2;
+export const DIVERGENCE_THRESHOLDS = [0.1, 0.2, 0.3, 0.4];
+// Options on a scale before a question counts as scaled rather than categorical
+const MIN_SCALED_OPTIONS = 3;
+// Fields listed per divergent candidate
+const MAX_LISTED_DISAGREEMENTS = 3;
+
+// Structural subset of forms_entries on the user detail response
+export type ReliabilityFormEntries = Array<{
+  form: { id: number; title: string };
+  entries: Array<{
+    id?: number;
+    submitted_by?: { id: number; name: string } | null;
+    final_score?: number | null;
+    fields: Array<
+      { label: string; option: string; score: number } | { label: string; text: string }
+    >;
+  }>;
+}>;
+
+export type KappaLevel =
+  | "poor"
+  | "slight"
+  | "fair"
+  | "moderate"
+  | "substantial"
+  | "almost_perfect";
+
+// Landis & Koch
+export const KAPPA_LEVEL_LABELS: Record<KappaLevel, string> = {
+  poor: "Poor",
+  slight: "Slight",
+  fair: "Fair",
+  moderate: "Moderate",
+  substantial: "Substantial",
+  almost_perfect: "Almost perfect",
+};
+
+export type IccLevel = "poor" | "moderate" | "good" | "excellent";
+
+// Koo & Li
+export const ICC_LEVEL_LABELS: Record<IccLevel, string> = {
+  poor: "Poor",
+  moderate: "Moderate",
+  good: "Good",
+  excellent: "Excellent",
+};
+
+export type FieldRating = {
+  interviewerId: number;
+  interviewer: string;
+  option: string;
+  score: number;
+};
+
+export type FieldAgreement = {
+  label: string;
+  // Candidates with at least two ratings on this field
+  subjectCount: number;
+  ratingCount: number;
+  // Share of rater pairs that picked the same option
+  percentAgreement: number | null;
+  kappaMethod: "cohen" | "fleiss";
+  // null when undefined, e.g. every rating used the same option
+  kappa: number | null;
+  kappaLevel: KappaLevel | null;
+  scaled: boolean;
+  icc: number | null;
+  iccLevel: IccLevel | null;
+};
+
+export type FieldDisagreement = {
+  label: string;
+  ratings: FieldRating[];
+  // Score range as a share of the field's score range
+  spread: number;
+};
+
+export type DivergentCandidate = {
+  candidateId: number;
+  name: string;
+  raters: Array<{ interviewerId: number; interviewer: string; finalScore: number }>;
+  // Highest minus lowest final score, and that gap over the max score
+  gap: number;
+  gapRatio: number;
+  disagreements: FieldDisagreement[];
+};
+
+export type ReliabilityReport = {
+  // Candidates scored on the form by two or more interviewers
+  coRatedCount: number;
+  // Older entries dropped because their interviewer submitted again
+  duplicateCount: number;
+  maxScore: number;
+  fields: FieldAgreement[];
+  // Widest gap first
+  divergent: DivergentCandidate[];
+};
+
+export function getKappaLevel(kappa: number): KappaLevel {
+  if (kappa < 0) return "poor";
+  if (kappa <= 0.2) return "slight";
+  if (kappa <= 0.4) return "fair";
+  if (kappa <= 0.6) return "moderate";
+  if (kappa <= 0.8) return "substantial";
+  return "almost_perfect";
+}
+
+export function getIccLevel(icc: number): IccLevel {
+  if (icc < 0.5) return "poor";
+  if (icc < 0.75) return "moderate";
+  if (icc < 0.9) return "good";
+  return "excellent";
+}
+
+function countBy<T>(values: T[]): Map<T, number> {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return counts;
+}
+
+// Mean pairwise agreement per subject (Fleiss' P̄), fine with uneven raters
+function percentAgreement(subjects: FieldRating[][]): number | null {
+  if (subjects.length === 0) return null;
+  let total = 0;
+  for (const ratings of subjects) {
+    const n = ratings.length;
+    let agreeing = 0;
+    for (const count of countBy(ratings.map((r) => r.option)).values()) {
+      agreeing += count * (count - 1);
+    }
+    total += agreeing / (n * (n - 1));
+  }
+  return total / subjects.length;
+}
+
+function fleissKappa(subjects: FieldRating[][]): number | null {
+  const observed = percentAgreement(subjects);
+  if (observed === null) return null;
+  const all = subjects.flat();
+  let expected = 0;
+  for (const count of countBy(all.map((r) => r.option)).values()) {
+    expected += (count / all.length) ** 2;
+  }
+  if (expected >= 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+// Subjects must each hold one rating by raterA and one by raterB
+function cohenKappa(
+  subjects: FieldRating[][],
+  raterA: number,
+  raterB: number
+): number | null {
+  if (subjects.length === 0) return null;
+  const optionsA: string[] = [];
+  const optionsB: string[] = [];
+  let agreeing = 0;
+  for (const ratings of subjects) {
+    const a = ratings.find((r) => r.interviewerId === raterA)!.option;
+    const b = ratings.find((r) => r.interviewerId === raterB)!.option;
+    optionsA.push(a);
+    optionsB.push(b);
+    if (a === b) agreeing += 1;
+  }
+  const n = subjects.length;
+  const countsA = countBy(optionsA);
+  const countsB = countBy(optionsB);
+  let expected = 0;
+  for (const [option, count] of countsA) {
+    expected += (count / n) * ((countsB.get(option) ?? 0) / n);
+  }
+  if (expected >= 1) return null;
+  return (agreeing / n - expected) / (1 - expected);
+}
+
+// The two interviewers behind every subject, if it's always the same pair
+function commonPair(subjects: FieldRating[][]): [number, number] | null {
+  let pair: [number, number] | null = null;
+  for (const ratings of subjects) {
+    if (ratings.length !== 2) return null;
+    const ids = ratings.map((r) => r.interviewerId).sort((a, b) => a - b);
+    if (ids[0] === ids[1]) return null;
+    if (!pair) pair = [ids[0], ids[1]];
+    else if (pair[0] !== ids[0] || pair[1] !== ids[1]) return null;
+  }
+  return pair;
+}
+
+// ICC(1): one-way random effects, single rater, unequal raters per subject
+function intraclassCorrelation(subjects: FieldRating[][]): number | null {
+  const k = subjects.length;
+  const N = subjects.reduce((sum, ratings) => sum + ratings.length, 0);
+  if (k < 2 || N <= k) return null;
+  const grandMean =
+    subjects.flat().reduce((sum, rating) => sum + rating.score, 0) / N;
+  let between = 0;
+  let within = 0;
+  let sumSquaredSizes = 0;
+  for (const ratings of subjects) {
+    const mean = ratings.reduce((sum, r) => sum + r.score, 0) / ratings.length;
+    between += ratings.length * (mean - grandMean) ** 2;
+    for (const rating of ratings) within += (rating.score - mean) ** 2;
+    sumSquaredSizes += ratings.length ** 2;
+  }
+  const msBetween = between / (k - 1);
+  const msWithin = within / (N - k);
+  // Average raters per subject, adjusted for uneven group sizes
+  const n0 = (N - sumSquaredSizes / N) / (k - 1);
+  const denominator = msBetween + (n0 - 1) * msWithin;
+  if (denominator <= 0) return null;
+  return (msBetween - msWithin) / denominator;
+}
+
+function scoreSpread(ratings: FieldRating[], range: number): number {
+  const scores = ratings.map((r) => r.score);
+  const gap = Math.max(...scores) - Math.min(...scores);
+  return range > 0 ? gap / range : 0;
+}
+
+// One entry per interviewer: the latest by id, or the later one without ids
+function latestPerInterviewer<
+  T extends { id?: number; submitted_by?: { id: number } | null },
+>(entries: T[]): T[] {
+  const byInterviewer = new Map<number, T>();
+  for (const entry of entries) {
+    const interviewerId = entry.submitted_by!.id;
+    const kept = byInterviewer.get(interviewerId);
+    if (!kept || (entry.id ?? Infinity) >= (kept.id ?? -Infinity)) {
+      byInterviewer.set(interviewerId, entry);
+    }
+  }
+  return [...byInterviewer.values()];
+}
+
+export function buildReliabilityReport(
+  form: Pick<BackendForm, "id" | "fields">,
+  candidates: Array<{
+    id: number;
+    name: string;
+    formsEntries: ReliabilityFormEntries;
+  }>,
+  {
+    maxScore,
+    threshold = DEFAULT_DIVERGENCE_THRESHOLD,
+  }: { maxScore?: number; threshold?: number } = {}
+): ReliabilityReport {
+  // candidate -> field label -> ratings, only for co-rated candidates
+  const coRated: Array<{
+    candidate: { id: number; name: string };
+    entries: ReliabilityFormEntries[number]["entries"];
+    byField: Map<string, FieldRating[]>;
+  }> = [];
+  let duplicateCount = 0;
+
+  for (const candidate of candidates) {
+    const submitted = candidate.formsEntries
+      .filter((group) => group.form.id === form.id)
+      .flatMap((group) => group.entries)
+      .filter((entry) => entry.submitted_by);
+    const entries = latestPerInterviewer(submitted);
+    duplicateCount += submitted.length - entries.length;
+    if (entries.length < 2) continue;
+    const byField = new Map<string, FieldRating[]>();
+    for (const entry of entries) {
+      for (const field of entry.fields) {
+        if (!("option" in field)) continue;
+        const list = byField.get(field.label) ?? [];
+        list.push({
+          interviewerId: entry.submitted_by!.id,
+          interviewer: entry.submitted_by!.name || "Unknown",
+          option: field.option,
+          score: Number(field.score) || 0,
+        });
+        byField.set(field.label, list);
+      }
+    }
+    coRated.push({ candidate, entries, byField });
+  }
+
+  const questionFields = [...form.fields]
+    .filter((field) => field.type === "question")
+    .sort((a, b) => a.order - b.order);
+
+  // Score range per field label, from the scale or else what was observed
+  const fieldRanges = new Map<string, number>();
+  const fields: FieldAgreement[] = [];
+  for (const field of questionFields) {
+    const subjects = coRated
+      .map(({ byField }) => byField.get(field.label) ?? [])
+      .filter((ratings) => ratings.length >= 2);
+    const scaleScores = (field.scale?.options ?? []).map((option) =>
+      Number(option.score)
+    );
+    const allScores = [...scaleScores, ...subjects.flat().map((r) => r.score)];
+    fieldRanges.set(
+      field.label,
+      allScores.length > 0 ? Math.max(...allScores) - Math.min(...allScores) : 0
+    );
+
+    const pair = commonPair(subjects);
+    const kappa = pair
+      ? cohenKappa(subjects, pair[0], pair[1])
+      : fleissKappa(subjects);
+    const optionCount = field.scale
+      ? field.scale.options.length
+      : new Set(subjects.flat().map((r) => r.option)).size;
+    const scaled = optionCount >= MIN_SCALED_OPTIONS;
+    const icc = scaled ? intraclassCorrelation(subjects) : null;
+
+    fields.push({
+      label: field.label,
+      subjectCount: subjects.length,
+      ratingCount: subjects.reduce((sum, ratings) => sum + ratings.length, 0),
+      percentAgreement: percentAgreement(subjects),
+      kappaMethod: pair ? "cohen" : "fleiss",
+      kappa,
+      kappaLevel: kappa === null ? null : getKappaLevel(kappa),
+      scaled,
+      icc,
+      iccLevel: icc === null ? null : getIccLevel(icc),
+    });
+  }
+
+  const finalScores = coRated.flatMap(({ entries }) =>
+    entries.map((entry) => Number(entry.final_score) || 0)
+  );
+  const effectiveMax =
+    maxScore && maxScore > 0 ? maxScore : Math.max(0, ...finalScores);
+
+  const divergent: DivergentCandidate[] = [];
+  for (const { candidate, entries, byField } of coRated) {
+    const raters = entries.map((entry) => ({
+      interviewerId: entry.submitted_by!.id,
+      interviewer: entry.submitted_by!.name || "Unknown",
+      finalScore: Number(entry.final_score) || 0,
+    }));
+    const scores = raters.map((rater) => rater.finalScore);
+    const gap = Math.max(...scores) - Math.min(...scores);
+    const gapRatio = effectiveMax > 0 ? gap / effectiveMax : 0;
+    if (gap === 0 || gapRatio < threshold) continue;
+
+    const disagreements: FieldDisagreement[] = [];
+    for (const [label, ratings] of byField) {
+      if (ratings.length < 2) continue;
+      if (new Set(ratings.map((r) => r.option)).size < 2) continue;
+      disagreements.push({
+        label,
+        ratings,
+        spread: scoreSpread(ratings, fieldRanges.get(label) ?? 0),
+      });
+    }
+    disagreements.sort((a, b) => b.spread - a.spread);
+
+    divergent.push({
+      candidateId: candidate.id,
+      name: candidate.name,
+      raters,
+      gap,
+      gapRatio,
+      disagreements: disagreements.slice(0, MAX_LISTED_DISAGREEMENTS),
+    });
+  }
+  divergent.sort((a, b) => b.gapRatio - a.gapRatio);
+
+  return {
+    coRatedCount: coRated.length,
+    duplicateCount,
+    maxScore: effectiveMax,
+    fields,
+    divergent,
+  };
+}
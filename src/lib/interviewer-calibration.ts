@@ -0,0 +1,304 @@
+/*
+ Interviewer calibration from the interview scores actually given.
+ - Pools every HR and technical interview entry across candidates, then per
+   interviewer computes mean, spread and leniency (how far their mean sits
+   from the pool mean, in pool standard deviations)
+ - Interviewers with few entries are shrunk towards the pool: their stats
+   are blended with PRIOR_WEIGHT pseudo-entries at the pool mean and spread,
+   so one generous score doesn't brand someone lenient
+ - A raw score is calibrated by taking its z-score within the interviewer's
+   (shrunk) distribution and mapping it back onto the pool's scale, so
+   calibrated scores stay in interview points (e.g. out of 50)
+*/
+
+export type InterviewKind = "hr" | "technical";
+
+export const INTERVIEW_KINDS: InterviewKind[] = ["hr", "technical"];
+
+export const INTERVIEW_MAX_SCORES: Record<InterviewKind, number> = {
+  hr: 26,
+  technical: 50,
+};
+
+export const INTERVIEW_KIND_LABELS: Record<InterviewKind, string> = {
+  hr: "HR interview",
+  technical: "Technical interview",
+};
+
+// Pseudo-entries at the pool distribution mixed into each interviewer's stats
+const PRIOR_WEIGHT = 5;
+// |leniency| at or beyond this counts as lenient / harsh
+const LENIENCY_THRESHOLD = 0.5;
+export const DISTRIBUTION_BINS = 10;
+
+// Structural subset of forms_entries on the user detail response
+export type CalibrationFormEntries = Array<{
+  form: { id: number; title: string };
+  entries: Array<{
+    submitted_by?: { id: number; name: string } | null;
+    final_score?: number | null;
+  }>;
+}>;
+
+export type InterviewScore = {
+  kind: InterviewKind;
+  candidateId: number;
+  interviewerId: number;
+  interviewer: string;
+  score: number;
+};
+
+export type ScoreSummary = {
+  count: number;
+  mean: number;
+  sd: number;
+  median: number;
+  min: number;
+  max: number;
+  // Entry counts per equal-width bin from 0 to the interview's max score
+  distribution: number[];
+};
+
+export type LeniencyLabel = "lenient" | "typical" | "harsh";
+
+export const LENIENCY_LABELS: Record<LeniencyLabel, string> = {
+  lenient: "Lenient",
+  typical: "Typical",
+  harsh: "Harsh",
+};
+
+export type InterviewerStats = ScoreSummary & {
+  interviewerId: number;
+  name: string;
+  // After shrinking towards the pool; these drive calibration
+  adjustedMean: number;
+  adjustedSd: number;
+  // (adjustedMean - pool mean) / pool sd
+  leniency: number;
+  leniencyLabel: LeniencyLabel;
+};
+
+export type KindCalibration = {
+  kind: InterviewKind;
+  maxScore: number;
+  pool: ScoreSummary;
+  // Most lenient first
+  interviewers: InterviewerStats[];
+};
+
+export type InterviewerCalibration = Record<InterviewKind, KindCalibration>;
+
+export type CalibratedScore = {
+  interviewerId: number | null;
+  interviewer: string;
+  raw: number;
+  calibrated: number;
+  // Position within the interviewer's own distribution
+  z: number;
+  leniency: number | null;
+};
+
+// Same title matching as the candidate breakdown on UserDetailPage
+export function getInterviewKind(formTitle: string): InterviewKind | null {
+  const title = formTitle.toLowerCase();
+  if (title.includes("hr")) return "hr";
+  if (title.includes("technical")) return "technical";
+  return null;
+}
+
+export function collectInterviewScores(
+  candidates: Array<{ id: number; formsEntries: CalibrationFormEntries }>
+): InterviewScore[] {
+  const scores: InterviewScore[] = [];
+  for (const candidate of candidates) {
+    for (const group of candidate.formsEntries) {
+      const kind = getInterviewKind(group.form.title || "");
+      if (!kind) continue;
+      for (const entry of group.entries) {
+        const score = Number(entry.final_score);
+        if (!entry.submitted_by || entry.final_score == null || isNaN(score)) {
+          continue;
+        }
+        scores.push({
+          kind,
+          candidateId: candidate.id,
+          interviewerId: entry.submitted_by.id,
+          interviewer: entry.submitted_by.name || "Unknown",
+          score,
+        });
+      }
+    }
+  }
+  return scores;
+}
+
+function summarize(values: number[], maxScore: number): ScoreSummary {
+  const distribution = new Array<number>(DISTRIBUTION_BINS).fill(0);
+  if (values.length === 0) {
+    return { count: 0, mean: 0, sd: 0, median: 0, min: 0, max: 0, distribution };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / count;
+  const variance =
+    sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count;
+  const middle = Math.floor(count / 2);
+  const median =
+    count % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  for (const value of sorted) {
+    const bin = Math.floor((value / maxScore) * DISTRIBUTION_BINS);
+    distribution[Math.min(DISTRIBUTION_BINS - 1, Math.max(0, bin))] += 1;
+  }
+  return {
+    count,
+    mean,
+    sd: Math.sqrt(variance),
+    median,
+    min: sorted[0],
+    max: sorted[count - 1],
+    distribution,
+  };
+}
+
+export function getLeniencyLabel(leniency: number): LeniencyLabel {
+  if (leniency >= LENIENCY_THRESHOLD) return "lenient";
+  if (leniency <= -LENIENCY_THRESHOLD) return "harsh";
+  return "typical";
+}
+
+function calibrateKind(
+  kind: InterviewKind,
+  scores: InterviewScore[]
+): KindCalibration {
+  const maxScore = INTERVIEW_MAX_SCORES[kind];
+  const pool = summarize(
+    scores.map((entry) => entry.score),
+    maxScore
+  );
+
+  const byInterviewer = new Map<number, InterviewScore[]>();
+  for (const entry of scores) {
+    const list = byInterviewer.get(entry.interviewerId) ?? [];
+    list.push(entry);
+    byInterviewer.set(entry.interviewerId, list);
+  }
+
+  const interviewers = Array.from(byInterviewer.entries()).map(
+    ([interviewerId, entries]): InterviewerStats => {
+      const summary = summarize(
+        entries.map((entry) => entry.score),
+        maxScore
+      );
+      const weight = summary.count + PRIOR_WEIGHT;
+      const adjustedMean =
+        (summary.count * summary.mean + PRIOR_WEIGHT * pool.mean) / weight;
+      const adjustedSd = Math.sqrt(
+        (summary.count * summary.sd ** 2 + PRIOR_WEIGHT * pool.sd ** 2) / weight
+      );
+      const leniency = pool.sd > 0 ? (adjustedMean - pool.mean) / pool.sd : 0;
+      return {
+        ...summary,
+        interviewerId,
+        // Latest name wins if an account was renamed
+        name: entries[entries.length - 1].interviewer,
+        adjustedMean,
+        adjustedSd,
+        leniency,
+        leniencyLabel: getLeniencyLabel(leniency),
+      };
+    }
+  );
+  interviewers.sort((a, b) => b.leniency - a.leniency);
+
+  return { kind, maxScore, pool, interviewers };
+}
+
+export function buildInterviewerCalibration(
+  scores: InterviewScore[]
+): InterviewerCalibration {
+  return {
+    hr: calibrateKind(
+      "hr",
+      scores.filter((entry) => entry.kind === "hr")
+    ),
+    technical: calibrateKind(
+      "technical",
+      scores.filter((entry) => entry.kind === "technical")
+    ),
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function calibrateScore(
+  calibration: KindCalibration,
+  interviewerId: number | null,
+  raw: number
+): Omit<CalibratedScore, "interviewer"> {
+  const stats =
+    interviewerId === null
+      ? undefined
+      : calibration.interviewers.find(
+          (entry) => entry.interviewerId === interviewerId
+        );
+  const { pool, maxScore } = calibration;
+  // Unknown interviewer: judge the score against the pool itself
+  const mean = stats?.adjustedMean ?? pool.mean;
+  const sd = stats?.adjustedSd ?? pool.sd;
+  const z = sd > 0 ? (raw - mean) / sd : 0;
+  const calibrated = Math.min(maxScore, Math.max(0, pool.mean + z * pool.sd));
+  return {
+    interviewerId,
+    raw,
+    calibrated: round2(pool.count > 0 ? calibrated : raw),
+    z: round2(z),
+    leniency: stats ? round2(stats.leniency) : null,
+  };
+}
+
+export type CandidateCalibration = Record<
+  InterviewKind,
+  {
+    scores: CalibratedScore[];
+    // Averages over this candidate's entries; null without entries
+    averageRaw: number | null;
+    averageCalibrated: number | null;
+  }
+>;
+
+export function calibrateCandidate(
+  calibration: InterviewerCalibration,
+  formsEntries: CalibrationFormEntries
+): CandidateCalibration {
+  const result = {} as CandidateCalibration;
+  for (const kind of INTERVIEW_KINDS) {
+    const scores: CalibratedScore[] = [];
+    for (const group of formsEntries) {
+      if (getInterviewKind(group.form.title || "") !== kind) continue;
+      for (const entry of group.entries) {
+        const raw = Number(entry.final_score);
+        if (entry.final_score == null || isNaN(raw)) continue;
+        scores.push({
+          ...calibrateScore(
+            calibration[kind],
+            entry.submitted_by?.id ?? null,
+            raw
+          ),
+          interviewer: entry.submitted_by?.name || "Unknown",
+        });
+      }
+    }
+    const average = (values: number[]) =>
+      values.length > 0
+        ? round2(values.reduce((sum, value) => sum + value, 0) / values.length)
+        : null;
+    result[kind] = {
+      scores,
+      averageRaw: average(scores.map((score) => score.raw)),
+      averageCalibrated: average(scores.map((score) => score.calibrated)),
+    };
+  }
+  return result;
+}
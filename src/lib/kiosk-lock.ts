@@ -0,0 +1,66 @@
+// Attendance kiosk lock. While set, every route except the kiosk for the
+// locked event redirects back to it until the tracker's PIN is entered.
+// Kept in localStorage so a reload or a new tab can't escape the kiosk.
+
+const STORAGE_KEY = "attendance_kiosk_lock";
+
+export type KioskLock = {
+  eventId: number;
+  date: string;
+  salt: string;
+  pinHash: string;
+  lockedAt: number;
+};
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${salt}:${pin}`)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function getKioskLock(): KioskLock | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const lock = JSON.parse(raw) as KioskLock;
+    return typeof lock.eventId === "number" && lock.pinHash ? lock : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function startKioskLock(
+  eventId: number,
+  date: string,
+  pin: string
+): Promise<KioskLock> {
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(8)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  const lock: KioskLock = {
+    eventId,
+    date,
+    salt,
+    pinHash: await hashPin(pin, salt),
+    lockedAt: Date.now(),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(lock));
+  return lock;
+}
+
+/** Clear the lock if the PIN matches; returns whether it did. */
+export async function releaseKioskLock(pin: string): Promise<boolean> {
+  const lock = getKioskLock();
+  if (!lock) return true;
+  if ((await hashPin(pin, lock.salt)) !== lock.pinHash) return false;
+  localStorage.removeItem(STORAGE_KEY);
+  return true;
+}
+
+export function getKioskPath(lock: Pick<KioskLock, "eventId" | "date">) {
+  return `/attendance/kiosk/${lock.eventId}?date=${lock.date}`;
+}
@@ -0,0 +1,107 @@
+// Client-side password checks shown while choosing a new password. They
+// mirror the backend's rules closely enough to catch problems before submit;
+// the backend stays the authority and its 400s are still shown per field.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type PasswordCheckId =
+  | "length"
+  | "letter_and_number"
+  | "mixed_case"
+  | "symbol"
+  | "not_common"
+  | "not_personal";
+
+export type PasswordCheck = {
+  id: PasswordCheckId;
+  passed: boolean;
+  // Required checks must pass before the form can be submitted
+  required: boolean;
+};
+
+export type PasswordStrength = {
+  // 0 (empty or failing a required check) to 4
+  score: 0 | 1 | 2 | 3 | 4;
+  checks: PasswordCheck[];
+  isAcceptable: boolean;
+};
+
+const COMMON_PASSWORDS = new Set([
+  "password",
+  "password1",
+  "password123",
+  "passw0rd",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "11111111",
+  "00000000",
+  "qwerty123",
+  "qwertyuiop",
+  "iloveyou",
+  "welcome1",
+  "admin123",
+  "abc12345",
+  "letmein1",
+]);
+
+/**
+ * Run every check against a candidate password. `personal` holds values the
+ * password must not contain, such as the user's email name or full name.
+ */
+export function checkPasswordStrength(
+  password: string,
+  personal: Array<string | null | undefined> = []
+): PasswordStrength {
+  const lower = password.toLowerCase();
+  const personalParts = personal
+    // Only the name part of an email; domains like "com" are too common
+    .flatMap((value) =>
+      (value ?? "").toLowerCase().split("@")[0].split(/[\s._-]+/)
+    )
+    .filter((part) => part.length >= 3);
+
+  const checks: PasswordCheck[] = [
+    {
+      id: "length",
+      passed: password.length >= MIN_PASSWORD_LENGTH,
+      required: true,
+    },
+    {
+      id: "letter_and_number",
+      passed: /\p{L}/u.test(password) && /\d/.test(password),
+      required: true,
+    },
+    {
+      id: "not_common",
+      passed: password.length > 0 && !COMMON_PASSWORDS.has(lower),
+      required: true,
+    },
+    {
+      id: "not_personal",
+      passed:
+        password.length > 0 &&
+        !personalParts.some((part) => lower.includes(part)),
+      required: true,
+    },
+    {
+      id: "mixed_case",
+      passed: /\p{Lu}/u.test(password) && /\p{Ll}/u.test(password),
+      required: false,
+    },
+    {
+      id: "symbol",
+      passed: /[^\p{L}\d]/u.test(password),
+      required: false,
+    },
+  ];
+
+  const isAcceptable = checks.every((check) => check.passed || !check.required);
+  if (!isAcceptable) return { score: password ? 1 : 0, checks, isAcceptable };
+
+  const extras =
+    checks.filter((check) => !check.required && check.passed).length +
+    (password.length >= 12 ? 1 : 0);
+  const score = Math.min(4, 2 + extras) as 2 | 3 | 4;
+  return { score, checks, isAcceptable };
+}
@@ -0,0 +1,159 @@
+import {
+  CAPABILITIES,
+  KNOWN_GROUPS,
+  ROLE_DEFINITIONS,
+  explainRoles,
+  getHomePage,
+  getRoleFromGroup,
+  inferGroupIdFromGroups,
+  isCapability,
+  type Capability,
+  type PermissionSubject,
+  type Role,
+  type RoleMatch,
+} from "@/lib/permissions";
+import { ROUTES, type RouteDefinition } from "@/routes";
+
+/*
+ Permission diagnostics for the staff debugger page.
+ - buildPermissionReport() resolves a subject the same way useUserGroups does
+   and keeps the reasoning: which rule gave each role, which roles (or the
+   profile) granted each capability, and why each route is open or closed
+ - buildPermissionMatrix() runs every known group, plus is_staff, through the
+   same resolution and checks it against every registered route
+*/
+
+const ROUTE_LIST: readonly RouteDefinition[] = ROUTES;
+
+// What granted a capability: a role, or the /me profile's own list
+export type CapabilitySource = Role | "profile";
+
+export type RouteAccess = {
+  route: RouteDefinition;
+  allowed: boolean;
+  // Empty for "authenticated" routes and for routes the user can't open
+  grantedBy: CapabilitySource[];
+};
+
+export type PermissionReport = {
+  groups: string[];
+  // group_id from the profile, else inferred from the group names
+  groupId: number | null;
+  groupIdInferred: boolean;
+  matches: RoleMatch[];
+  // Groups that don't name a known role
+  unmatchedGroups: string[];
+  roles: Role[];
+  capabilities: Map<Capability, CapabilitySource[]>;
+  // Profile capabilities this build doesn't know about
+  unknownCapabilities: string[];
+  homePage: string;
+  routes: RouteAccess[];
+};
+
+export function buildPermissionReport(
+  subject: PermissionSubject
+): PermissionReport {
+  const groups = subject.groups ?? [];
+  const inferredGroupId = inferGroupIdFromGroups(groups);
+  const groupId = subject.group_id || inferredGroupId;
+  const matches = explainRoles({ ...subject, groups, group_id: groupId });
+  const roleSet = new Set(matches.map((match) => match.role));
+  const roles = (Object.keys(ROLE_DEFINITIONS) as Role[]).filter((role) =>
+    roleSet.has(role)
+  );
+
+  const capabilities = new Map<Capability, CapabilitySource[]>();
+  const grant = (capability: Capability, source: CapabilitySource) => {
+    const sources = capabilities.get(capability) ?? [];
+    if (!sources.includes(source)) sources.push(source);
+    capabilities.set(capability, sources);
+  };
+  roles.forEach((role) =>
+    ROLE_DEFINITIONS[role].capabilities.forEach((capability) =>
+      grant(capability, role)
+    )
+  );
+  const profileCapabilities = subject.capabilities ?? [];
+  profileCapabilities
+    .filter(isCapability)
+    .forEach((capability) => grant(capability, "profile"));
+
+  return {
+    groups,
+    groupId: groupId || null,
+    groupIdInferred: !subject.group_id && inferredGroupId !== null,
+    matches,
+    unmatchedGroups: groups.filter((group) => !getRoleFromGroup(group)),
+    roles,
+    capabilities: new Map(
+      CAPABILITIES.filter((capability) => capabilities.has(capability)).map(
+        (capability) => [capability, capabilities.get(capability)!]
+      )
+    ),
+    unknownCapabilities: profileCapabilities.filter(
+      (capability) => !isCapability(capability)
+    ),
+    homePage: getHomePage(roles),
+    routes: ROUTE_LIST.map((route) => {
+      if (route.guard === "authenticated") {
+        return { route, allowed: true, grantedBy: [] };
+      }
+      const grantedBy = capabilities.get(route.guard) ?? [];
+      return { route, allowed: grantedBy.length > 0, grantedBy };
+    }),
+  };
+}
+
+export type PermissionMatrixColumn = {
+  id: string;
+  // Group name as typed on /me, or "is_staff"
+  label: string;
+  role: Role | null;
+  subject: PermissionSubject;
+};
+
+export type PermissionMatrix = {
+  columns: PermissionMatrixColumn[];
+  rows: Array<{ route: RouteDefinition; allowed: boolean[] }>;
+};
+
+export function buildPermissionMatrix(): PermissionMatrix {
+  const columns: PermissionMatrixColumn[] = [
+    ...KNOWN_GROUPS.map((group) => ({
+      id: `group:${group}`,
+      label: group,
+      role: getRoleFromGroup(group),
+      subject: { groups: [group] },
+    })),
+    {
+      id: "is_staff",
+      label: "is_staff",
+      role: "staff" as const,
+      subject: { is_staff: true },
+    },
+  ];
+  const reports = columns.map((column) => buildPermissionReport(column.subject));
+
+  return {
+    columns,
+    rows: ROUTE_LIST.map((route, index) => ({
+      route,
+      allowed: reports.map((report) => report.routes[index].allowed),
+    })),
+  };
+}
+
+/**
+ * Group strings from free text: one per line or comma-separated
+ */
+export function parseGroupList(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(/[\n,]/)
+        .map((group) => group.trim())
+        .filter(Boolean)
+    )
+  );
+}
@@ -1,448 +1,262 @@
-// Permission system based on group_id
-// Based on the user's requirements:
-// HR, TECH, PRESENTATION -- 3  (see UserDetailPage and UsersPage only, UserDetailPage home)
-// PRESENTATION -- 4 (UserDetailPage and UsersPage only, UserDetailPage home)
-// INSTRUCTOR,DATA -- 5 (UserDetailPage and UsersPage and FormsPage only, FormsPage home)
-// TRAINEE -- 8 (FormsPage only, is home)
-// SUPPORT -- 9 (AttendancePage only, is home)
-
-export type PageRoute =
-  | "/home" // HomePage (trainee)
-  | "/candidates" // UsersPage
-  | "/candidates/:id" // UserDetailPage
-  | "/trainee-monitoring" // TraineeMonitoringPage
-  | "/forms" // FormsPage
-  | "/forms-results" // FormsResultsPage
-  | "/attendance" // AttendancePage
-  | "/overview" // DashboardPage
-  | "/modules" // My Track (modules list)
-  | "/assignments" // AssignmentsPage
-  | "/my-stats" // Trainee stats page
-  | "/modules/session/:id" // SessionViewPage (read-only)
-  | "/modules/session/:id/edit" // SessionEditPage
-  | "/modules/:id/exam/create"
-  | "/modules/:id/exam/edit"
-  | "/modules/:id/exam/results"
-  | "/modules/:id/exam/take"
-  | "/modules/:moduleId/pre-post-exams/view" // Pre/Post Exam view (module-scoped)
-  | "/modules/:moduleId/pre-post-exams/results"; // Pre/Post Exam results (module-scoped)
-  ; // Pre/Post Exams routes are module-scoped
-
-export type GroupPermissions = {
-  allowedPages: PageRoute[];
+import type { PageRoute } from "@/routes";
+
+/*
+ Capability-based permission model.
+ - A user's roles come from their /me group names: the part before "->" is the
+   role ("instructor -> Data" is an instructor on the Data track), so new track
+   groups work without code changes. group_id is only a fallback for profiles
+   whose group names don't name a known role
+ - Each role grants a set of named capabilities; users with several roles get
+   the union, and is_staff adds the staff role on top
+ - Capabilities listed on the /me profile are added as-is, which lets the
+   backend grant access no role covers
+ - Which capability each page needs lives in the route registry (src/routes.ts)
+*/
+
+export type Capability =
+  | "overview.read"
+  | "candidates.read"
+  | "trainee_monitoring.read"
+  | "forms.read"
+  | "forms.results"
+  | "attendance.write"
+  | "attendance.review"
+  | "attendance.self_check_in"
+  | "modules.read"
+  | "modules.edit"
+  | "assignments.manage"
+  | "exam.author"
+  | "exam.take"
+  | "ranking.submit"
+  | "stats.self"
+  | "interviews.calibration"
+  | "permissions.debug";
+
+export const CAPABILITIES: Capability[] = [
+  "overview.read",
+  "candidates.read",
+  "trainee_monitoring.read",
+  "forms.read",
+  "forms.results",
+  "attendance.write",
+  "attendance.review",
+  "attendance.self_check_in",
+  "modules.read",
+  "modules.edit",
+  "assignments.manage",
+  "exam.author",
+  "exam.take",
+  "ranking.submit",
+  "stats.self",
+  "interviews.calibration",
+  "permissions.debug",
+];
+
+export type Role =
+  | "instructor"
+  | "attendance_tracker"
+  | "hr"
+  | "presentation"
+  | "trainee"
+  | "staff";
+
+export type RoleDefinition = {
+  label: string;
   homePage: PageRoute;
-  groupName: string;
+  capabilities: Capability[];
 };
 
-// Map group_id to permissions
-export const GROUP_PERMISSIONS: Record<number, GroupPermissions> = {
-  3: {
-    allowedPages: [
-      "/home",
-      "/candidates",
-      "/candidates/:id",
+// Declaration order is also home page priority for users with several roles
+export const ROLE_DEFINITIONS: Record<Role, RoleDefinition> = {
+  instructor: {
+    label: "Instructor",
+    homePage: "/forms",
+    capabilities: [
+      "candidates.read",
+      "forms.read",
+      "modules.read",
+      "modules.edit",
+      "stats.self",
+      "assignments.manage",
+      "exam.author",
+      "ranking.submit",
     ],
-    homePage: "/candidates/:id", // Will redirect to first candidate or candidates page
-    groupName: "HR/TECH/PRESENTATION",
   },
-  4: {
-    allowedPages: ["/home", "/candidates", "/candidates/:id"],
-    homePage: "/candidates/:id", // Will redirect to first candidate or candidates page
-    groupName: "PRESENTATION",
+  attendance_tracker: {
+    label: "Attendance tracker",
+    homePage: "/attendance",
+    capabilities: ["attendance.write", "attendance.review"],
   },
-  5: {
-    allowedPages: [
-      "/home",
-      "/candidates",
-      "/candidates/:id",
-      "/forms",
-      "/modules",
-      "/assignments",
-      "/my-stats",
-      "/modules/session/:id",
-      "/modules/session/:id/edit",
-      "/modules/:id/exam/create",
-      "/modules/:id/exam/edit",
-      "/modules/:id/exam/results",
-      "/modules/:moduleId/pre-post-exams/view",
-      "/modules/:moduleId/pre-post-exams/results",
+  hr: {
+    label: "HR / Tech",
+    homePage: "/candidates",
+    // Reviewers also grade exams and rank trainees
+    capabilities: [
+      "candidates.read",
+      "assignments.manage",
+      "exam.author",
+      "ranking.submit",
     ],
-    homePage: "/forms",
-    groupName: "INSTRUCTOR/DATA",
   },
-  8: {
-    allowedPages: [
-      "/home",
-      "/forms",
-      "/modules",
-      "/my-stats",
-      "/modules/session/:id",
-      "/modules/:id/exam/take",
-    ],
-    homePage: "/home",
-    groupName: "TRAINEE",
+  presentation: {
+    label: "Presentation",
+    homePage: "/candidates",
+    capabilities: ["candidates.read"],
   },
-  12: {
-    allowedPages: [
-      "/home",
-      "/forms",
-      "/modules",
-      "/my-stats",
-      "/modules/session/:id",
-      "/modules/:id/exam/take",
-    ],
+  trainee: {
+    label: "Trainee",
     homePage: "/home",
-    groupName: "TRAINEE",
-  },
-  13: {
-    allowedPages: [
-      "/home",
-      "/forms",
-      "/modules",
-      "/my-stats",
-      "/modules/session/:id",
-      "/modules/:id/exam/take",
+    capabilities: [
+      "forms.read",
+      "modules.read",
+      "stats.self",
+      "attendance.self_check_in",
+      "exam.take",
     ],
-    homePage: "/home",
-    groupName: "TRAINEE",
   },
-  14: {
-    allowedPages: [
-      "/home",
-      "/forms",
-      "/modules",
-      "/my-stats",
-      "/modules/session/:id",
-      "/modules/:id/exam/take",
-    ],
+  // Granted by is_staff rather than a group
+  staff: {
+    label: "Staff",
     homePage: "/home",
-    groupName: "TRAINEE",
-  },
-  9: {
-    allowedPages: ["/home", "/attendance"],
-    homePage: "/attendance",
-    groupName: "SUPPORT",
+    capabilities: [
+      "trainee_monitoring.read",
+      "forms.results",
+      "attendance.review",
+      "assignments.manage",
+      "exam.author",
+      "ranking.submit",
+      "interviews.calibration",
+      "permissions.debug",
+    ],
   },
 };
 
-/**
- * Get user permissions based on group_id
- */
-export function getUserPermissions(
-  groupId: number | undefined
-): GroupPermissions | null {
-  if (!groupId || !GROUP_PERMISSIONS[groupId]) {
-    return null;
-  }
-  return GROUP_PERMISSIONS[groupId];
-}
-
-/**
- * Get user permissions based on groups array (for multiple roles)
- */
-export function getUserPermissionsFromGroups(
-  groups: string[]
-): GroupPermissions | null {
-  if (!groups || !Array.isArray(groups)) return null;
-
-  const groupMappings: Record<string, number> = {
-    hr: 3,
-    tech: 3,
-    staff: 3,
-    presentation: 4,
-    instructor: 5,
-    data: 5,
-    trainee: 8,
-    support: 9,
-    attendance_tracker: 9,
-  };
-
-  // Check if user has both instructor and attendance_tracker roles
-  const hasInstructor = groups.some(
-    (group) =>
-      group.toLowerCase().includes("instructor") ||
-      group.toLowerCase().includes("data")
-  );
-  const hasAttendanceTracker = groups.some(
-    (group) =>
-      group.toLowerCase().includes("attendance_tracker") ||
-      group.toLowerCase().includes("support")
-  );
+const ROLE_ORDER = Object.keys(ROLE_DEFINITIONS) as Role[];
+
+// Group name (before "->", lowercased) to role
+const GROUP_ROLES: Record<string, Role> = {
+  instructor: "instructor",
+  data: "instructor",
+  attendance_tracker: "attendance_tracker",
+  support: "attendance_tracker",
+  hr: "hr",
+  tech: "hr",
+  staff: "hr",
+  presentation: "presentation",
+  trainee: "trainee",
+};
 
-  // If user has both instructor and attendance_tracker roles, combine permissions
-  if (hasInstructor && hasAttendanceTracker) {
-    return {
-      allowedPages: [
-        "/candidates",
-        "/candidates/:id",
-        "/forms",
-        "/attendance",
-        "/modules",
-        "/assignments",
-        "/modules/session/:id",
-        "/modules/session/:id/edit",
-        "/modules/:id/exam/create",
-        "/modules/:id/exam/results",
-        "/modules/:moduleId/pre-post-exams/view",
-        "/modules/:moduleId/pre-post-exams/results",
-      ],
-      homePage: "/forms", // Default to forms as home for instructor
-      groupName: "INSTRUCTOR + ATTENDANCE_TRACKER",
-    };
-  }
+// Legacy numeric ids, used when no group name resolves to a role
+const GROUP_ID_ROLES: Record<number, Role> = {
+  3: "hr",
+  4: "presentation",
+  5: "instructor",
+  8: "trainee",
+  9: "attendance_tracker",
+  12: "trainee",
+  13: "trainee",
+  14: "trainee",
+};
 
-  // If user has instructor roles (even if multiple), prioritize instructor permissions
-  if (hasInstructor) {
-    return GROUP_PERMISSIONS[5]; // Return instructor permissions which include edit route
-  }
+const ROLE_GROUP_IDS: Partial<Record<Role, number>> = {
+  hr: 3,
+  presentation: 4,
+  instructor: 5,
+  trainee: 8,
+  attendance_tracker: 9,
+};
 
-  // Otherwise, use the first matching group (existing behavior)
-  for (const group of groups) {
-    const lowerGroup = group.toLowerCase();
-    for (const [key, id] of Object.entries(groupMappings)) {
-      if (lowerGroup.includes(key)) {
-        return GROUP_PERMISSIONS[id];
-      }
-    }
-  }
+export type PermissionSubject = {
+  groups?: string[];
+  group_id?: number | null;
+  is_staff?: boolean;
+  capabilities?: string[];
+};
 
-  return null;
-}
+// Group names with a role of their own, e.g. for listing every known group
+export const KNOWN_GROUPS = Object.keys(GROUP_ROLES);
 
 /**
- * Check if user can access a specific page
- * @param groupId - User's group ID
- * @param page - Page route to check
- * @param isStaff - Optional: user's is_staff status (required for /trainee-monitoring)
+ * Role named by a group, e.g. "instructor -> Data" or "Trainee".
  */
-export function canAccessPage(
-  groupId: number | undefined,
-  page: string,
-  isStaff?: boolean
-): boolean {
-  // Trainee Monitoring page requires is_staff = true
-  if (page === "/trainee-monitoring") {
-    return isStaff === true;
-  }
-
-  const permissions = getUserPermissions(groupId);
-  if (!permissions) return false;
-
-  // Handle dynamic routes like /candidates/:id or /modules/:moduleId/pre-post-exams/view
-  return permissions.allowedPages.some((allowedPage) => {
-    if (allowedPage === page) return true;
-
-    // Handle dynamic routes with any parameter name (:id, :moduleId, etc.)
-    if (allowedPage.includes(":")) {
-      const pattern = allowedPage.replace(/:[^/]+/g, "[^/]+");
-      const regex = new RegExp(`^${pattern}$`);
-      return regex.test(page);
-    }
-
-    return false;
-  });
+export function getRoleFromGroup(group: string): Role | null {
+  const name = group
+    .split("->")[0]
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  return GROUP_ROLES[name] ?? null;
 }
 
+// Why a user holds a role: a group name, the legacy group_id, or is_staff
+export type RoleMatch =
+  | { role: Role; rule: "group"; group: string }
+  | { role: Role; rule: "group_id"; groupId: number }
+  | { role: Role; rule: "is_staff" };
+
 /**
- * Check if user can access a specific page based on groups array
- * @param groups - User's groups array
- * @param page - Page route to check
- * @param isStaff - Optional: user's is_staff status (required for /trainee-monitoring)
+ * Every rule that granted the user a role, in the order they're checked.
+ * A role can appear more than once when several groups name it.
  */
-export function canAccessPageFromGroups(
-  groups: string[],
-  page: string,
-  isStaff?: boolean
-): boolean {
-  // Trainee Monitoring page requires is_staff = true
-  if (page === "/trainee-monitoring") {
-    return isStaff === true;
-  }
-
-  const permissions = getUserPermissionsFromGroups(groups);
-  if (!permissions) return false;
-
-  // Handle dynamic routes like /candidates/:id or /modules/:moduleId/pre-post-exams/view
-  return permissions.allowedPages.some((allowedPage) => {
-    if (allowedPage === page) return true;
-
-    // Handle dynamic routes with any parameter name (:id, :moduleId, etc.)
-    if (allowedPage.includes(":")) {
-      const pattern = allowedPage.replace(/:[^/]+/g, "[^/]+");
-      const regex = new RegExp(`^${pattern}$`);
-      return regex.test(page);
-    }
-
-    return false;
+export function explainRoles(subject: PermissionSubject): RoleMatch[] {
+  const matches: RoleMatch[] = [];
+  (subject.groups ?? []).forEach((group) => {
+    const role = getRoleFromGroup(group);
+    if (role) matches.push({ role, rule: "group", group });
   });
+  if (matches.length === 0 && subject.group_id) {
+    const role = GROUP_ID_ROLES[subject.group_id];
+    if (role) matches.push({ role, rule: "group_id", groupId: subject.group_id });
+  }
+  if (subject.is_staff === true) matches.push({ role: "staff", rule: "is_staff" });
+  return matches;
 }
 
 /**
- * Get the home page for a user based on group_id
+ * All roles a user holds, in home page priority order
  */
-export function getHomePage(groupId: number | undefined): string {
-  const permissions = getUserPermissions(groupId);
-  if (!permissions) return "/candidates"; // fallback
-
-  // For groups 3 and 4, we need to redirect to candidates list initially
-  // since we can't know the specific candidate ID
-  if (groupId === 3 || groupId === 4) {
-    return "/candidates";
-  }
+export function resolveRoles(subject: PermissionSubject): Role[] {
+  const roles = new Set(explainRoles(subject).map((match) => match.role));
+  return ROLE_ORDER.filter((role) => roles.has(role));
+}
 
-  return permissions.homePage;
+export function isCapability(value: string): value is Capability {
+  return (CAPABILITIES as string[]).includes(value);
 }
 
 /**
- * Get navigation items based on user permissions
- * @param groupId - User's group ID
- * @param isStaff - Optional: user's is_staff status (required for /trainee-monitoring)
+ * Union of the capabilities granted by every role, plus any listed on the
+ * profile itself
  */
-export function getNavigationItems(
-  groupId: number | undefined,
-  isStaff?: boolean
-): Array<{
-  title: string;
-  url: string;
-  icon?: any;
-}> {
-  const permissions = getUserPermissions(groupId);
-  if (!permissions) return [];
-
-  const navigationMap: Record<PageRoute, { title: string; icon?: any }> = {
-    "/home": { title: "navigation.home" },
-    "/candidates": { title: "navigation.candidates" },
-    "/candidates/:id": { title: "navigation.candidate_detail" }, // Not shown in nav
-    "/trainee-monitoring": { title: "navigation.trainee_monitoring" },
-    "/forms": { title: "navigation.forms" },
-    "/forms-results": { title: "navigation.forms_summary" },
-    "/attendance": { title: "navigation.attendance" },
-    "/overview": { title: "navigation.overview" },
-    "/modules": { title: "navigation.my_track" },
-    "/assignments": { title: "navigation.assignments" },
-    "/my-stats": { title: "navigation.my_stats" },
-    "/modules/session/:id": { title: "navigation.track_session_view" }, // Not shown in nav
-    "/modules/session/:id/edit": { title: "navigation.track_session_edit" }, // Not shown in nav
-    "/modules/:id/exam/create": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:id/exam/edit": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:id/exam/results": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:id/exam/take": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:moduleId/pre-post-exams/view": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:moduleId/pre-post-exams/results": { title: "navigation.exam" }, // Not shown in nav
-  };
-
-  // Build allowed pages: include group permissions + trainee-monitoring if staff
-  const allowedPages = [...permissions.allowedPages];
-  if (isStaff === true) {
-    allowedPages.push("/trainee-monitoring");
-  }
-
-  return allowedPages
-    .filter(
-      (page) =>
-        // Don't show dynamic routes in nav
-        page !== "/candidates/:id" &&
-        page !== "/modules/session/:id" &&
-        page !== "/modules/session/:id/edit" &&
-        !page.startsWith("/modules/") // hide nested exam routes
-    )
-    .map((page) => ({
-      title: navigationMap[page as PageRoute]?.title || page,
-      url: page,
-      icon: navigationMap[page as PageRoute]?.icon,
-    }));
+export function resolveCapabilities(
+  subject: PermissionSubject,
+  roles: Role[] = resolveRoles(subject)
+): Set<Capability> {
+  const capabilities = new Set<Capability>();
+  roles.forEach((role) => {
+    ROLE_DEFINITIONS[role].capabilities.forEach((capability) =>
+      capabilities.add(capability)
+    );
+  });
+  (subject.capabilities ?? []).filter(isCapability).forEach((capability) => {
+    capabilities.add(capability);
+  });
+  return capabilities;
 }
 
 /**
- * Get navigation items based on user groups (for multiple roles)
- * @param groups - User's groups array
- * @param isStaff - Optional: user's is_staff status (required for /trainee-monitoring)
+ * Home page of the highest-priority role
  */
-export function getNavigationItemsFromGroups(
-  groups: string[],
-  isStaff?: boolean
-): Array<{
-  title: string;
-  url: string;
-  icon?: any;
-}> {
-  const permissions = getUserPermissionsFromGroups(groups);
-  if (!permissions) return [];
-
-  const navigationMap: Record<PageRoute, { title: string; icon?: any }> = {
-    "/home": { title: "navigation.home" },
-    "/candidates": { title: "navigation.candidates" },
-    "/candidates/:id": { title: "navigation.candidate_detail" }, // Not shown in nav
-    "/trainee-monitoring": { title: "navigation.trainee_monitoring" },
-    "/forms": { title: "navigation.forms" },
-    "/forms-results": { title: "navigation.forms_summary" },
-    "/attendance": { title: "navigation.attendance" },
-    "/overview": { title: "navigation.overview" },
-    "/modules": { title: "navigation.my_track" },
-    "/assignments": { title: "navigation.assignments" },
-    "/my-stats": { title: "navigation.my_stats" },
-    "/modules/session/:id": { title: "navigation.track_session_view" }, // Not shown in nav
-    "/modules/session/:id/edit": { title: "navigation.track_session_edit" }, // Not shown in nav
-    "/modules/:id/exam/create": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:id/exam/edit": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:id/exam/results": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:id/exam/take": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:moduleId/pre-post-exams/view": { title: "navigation.exam" }, // Not shown in nav
-    "/modules/:moduleId/pre-post-exams/results": { title: "navigation.exam" }, // Not shown in nav
-  };
-
-  // Build allowed pages: include group permissions + trainee-monitoring if staff
-  const allowedPages = [...permissions.allowedPages];
-  if (isStaff === true) {
-    allowedPages.push("/trainee-monitoring");
-  }
-
-  return allowedPages
-    .filter(
-      (page) =>
-        // Don't show dynamic routes in nav
-        page !== "/candidates/:id" &&
-        page !== "/modules/session/:id" &&
-        page !== "/modules/session/:id/edit" &&
-        !page.startsWith("/modules/") // hide nested exam routes
-    )
-    .map((page) => ({
-      title: navigationMap[page as PageRoute]?.title || page,
-      url: page,
-      icon: navigationMap[page as PageRoute]?.icon,
-    }));
+export function getHomePage(roles: Role[]): string {
+  return roles.length > 0 ? ROLE_DEFINITIONS[roles[0]].homePage : "/home";
 }
 
 /**
- * Fallback: Try to determine group_id from groups string array
- * This is a temporary solution until we confirm the API returns group_id
+ * Legacy numeric group id for the user's highest-priority role, for APIs that
+ * still filter by group
  */
 export function inferGroupIdFromGroups(groups: string[]): number | null {
   if (!groups || !Array.isArray(groups)) return null;
-
-  // Map common group names to group IDs
-  const groupMappings: Record<string, number> = {
-    hr: 3,
-    tech: 3,
-    presentation: 4,
-    instructor: 5,
-    data: 5,
-    trainee: 8,
-    support: 9,
-    attendance_tracker: 9,
-  };
-
-  // Check each group string for known patterns
-  for (const group of groups) {
-    const lowerGroup = group.toLowerCase();
-
-    // Direct matches
-    for (const [key, id] of Object.entries(groupMappings)) {
-      if (lowerGroup.includes(key)) {
-        return id;
-      }
-    }
-  }
-
-  return null;
+  const role = resolveRoles({ groups }).find((r) => ROLE_GROUP_IDS[r]);
+  return role ? ROLE_GROUP_IDS[role]! : null;
 }
@@ -0,0 +1,438 @@
+/*
+ Minimal QR Code encoder (ISO/IEC 18004) used by the attendance kiosk.
+ - Byte mode only, versions 1-10; enough for a check-in URL with a token
+ - Error correction level and mask are chosen automatically
+ - Returns a square boolean matrix (true = dark module); rendering is up to
+   the caller (see components/QrCode.tsx)
+*/
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+const MAX_VERSION = 10;
+
+// Indexed by version - 1
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+};
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, ecl: QrErrorCorrection): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecl][version - 1] *
+      NUM_ERROR_CORRECTION_BLOCKS[ecl][version - 1]
+  );
+}
+
+// --- Reed-Solomon over GF(2^8) with polynomial 0x11D ---
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+// --- Matrix construction ---
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function getAlignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+function drawFinder(matrix: QrMatrix, x: number, y: number) {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const dist = Math.max(Math.abs(dx), Math.abs(dy));
+      const xx = x + dx;
+      const yy = y + dy;
+      if (xx >= 0 && xx < matrix.size && yy >= 0 && yy < matrix.size) {
+        matrix.setFunction(xx, yy, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+}
+
+function drawAlignment(matrix: QrMatrix, x: number, y: number) {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      const dist = Math.max(Math.abs(dx), Math.abs(dy));
+      matrix.setFunction(x + dx, y + dy, dist !== 1);
+    }
+  }
+}
+
+function drawFormatBits(
+  matrix: QrMatrix,
+  ecl: QrErrorCorrection,
+  mask: number
+) {
+  const data = (FORMAT_BITS[ecl] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const size = matrix.size;
+
+  for (let i = 0; i <= 5; i++) matrix.setFunction(8, i, getBit(bits, i));
+  matrix.setFunction(8, 7, getBit(bits, 6));
+  matrix.setFunction(8, 8, getBit(bits, 7));
+  matrix.setFunction(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) matrix.setFunction(14 - i, 8, getBit(bits, i));
+
+  for (let i = 0; i < 8; i++) {
+    matrix.setFunction(size - 1 - i, 8, getBit(bits, i));
+  }
+  for (let i = 8; i < 15; i++) {
+    matrix.setFunction(8, size - 15 + i, getBit(bits, i));
+  }
+  matrix.setFunction(8, size - 8, true);
+}
+
+function drawVersion(matrix: QrMatrix, version: number) {
+  if (version < 7) return;
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  const bits = (version << 12) | rem;
+  for (let i = 0; i < 18; i++) {
+    const dark = getBit(bits, i);
+    const a = matrix.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    matrix.setFunction(a, b, dark);
+    matrix.setFunction(b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(
+  matrix: QrMatrix,
+  version: number,
+  ecl: QrErrorCorrection
+) {
+  const size = matrix.size;
+  for (let i = 0; i < size; i++) {
+    matrix.setFunction(6, i, i % 2 === 0);
+    matrix.setFunction(i, 6, i % 2 === 0);
+  }
+
+  drawFinder(matrix, 3, 3);
+  drawFinder(matrix, size - 4, 3);
+  drawFinder(matrix, 3, size - 4);
+
+  const positions = getAlignmentPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((x, i) => {
+    positions.forEach((y, j) => {
+      // Skip the three corners occupied by finder patterns
+      const isCorner =
+        (i === 0 && j === 0) ||
+        (i === 0 && j === last) ||
+        (i === last && j === 0);
+      if (isCorner) return;
+      drawAlignment(matrix, x, y);
+    });
+  });
+
+  // Reserve format area; real bits are written once the mask is known
+  drawFormatBits(matrix, ecl, 0);
+  drawVersion(matrix, version);
+}
+
+function drawCodewords(matrix: QrMatrix, codewords: number[]) {
+  const size = matrix.size;
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!matrix.isFunction[y][x] && bitIndex < codewords.length * 8) {
+          matrix.modules[y][x] = getBit(
+            codewords[bitIndex >>> 3],
+            7 - (bitIndex & 7)
+          );
+          bitIndex++;
+        }
+      }
+    }
+  }
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// XOR-ing twice restores the original, so this also undoes a mask
+function applyMask(matrix: QrMatrix, mask: number) {
+  for (let y = 0; y < matrix.size; y++) {
+    for (let x = 0; x < matrix.size; x++) {
+      if (!matrix.isFunction[y][x] && maskApplies(mask, x, y)) {
+        matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+// Penalty rules from the spec; lower scores scan more reliably
+function getPenaltyScore(matrix: QrMatrix): number {
+  const { size, modules } = matrix;
+  const at = (x: number, y: number, vertical: boolean) =>
+    vertical ? modules[x][y] : modules[y][x];
+  let score = 0;
+  let dark = 0;
+
+  for (const vertical of [false, true]) {
+    for (let y = 0; y < size; y++) {
+      let runColor = false;
+      let runLength = 0;
+      for (let x = 0; x < size; x++) {
+        const color = at(x, y, vertical);
+        if (x > 0 && color === runColor) {
+          runLength++;
+          if (runLength === 5) score += 3;
+          else if (runLength > 5) score += 1;
+        } else {
+          runColor = color;
+          runLength = 1;
+        }
+        if (x + 11 <= size) {
+          for (const pattern of FINDER_LIKE) {
+            if (pattern.every((value, k) => at(x + k, y, vertical) === value)) {
+              score += 40;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x < size - 1 &&
+        y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  score += Math.max(k, 0) * 10;
+  return score;
+}
+
+function buildCodewords(
+  bytes: number[],
+  version: number,
+  ecl: QrErrorCorrection
+): number[] {
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+
+  // Split into blocks, add error correction, then interleave
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version - 1];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version - 1];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const length =
+      shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder byte that is not transmitted
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Encode text as a QR code matrix. Throws when the text does not fit in
+ * version 10 at the requested error correction level.
+ */
+export function encodeQrCode(
+  text: string,
+  ecl: QrErrorCorrection = "M"
+): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    const neededBits = 4 + countBits + bytes.length * 8;
+    if (
+      bytes.length < 1 << countBits &&
+      neededBits <= getNumDataCodewords(version, ecl) * 8
+    ) {
+      break;
+    }
+  }
+  if (version > MAX_VERSION) {
+    throw new Error("Text is too long to encode as a QR code");
+  }
+
+  const matrix = new QrMatrix(version);
+  drawFunctionPatterns(matrix, version, ecl);
+  drawCodewords(matrix, buildCodewords(bytes, version, ecl));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, ecl, mask);
+    const score = getPenaltyScore(matrix);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    applyMask(matrix, mask);
+  }
+
+  applyMask(matrix, bestMask);
+  drawFormatBits(matrix, ecl, bestMask);
+  return matrix.modules;
+}
@@ -0,0 +1,238 @@
+/*
+ Shared query cache for lib/api fetchers.
+ - Entries are keyed by a JSON-serializable array (see lib/query-keys.ts)
+ - Concurrent requests for the same key share one in-flight promise, unless
+   it started before an invalidation or a forced fetch: each entry counts
+   fetch generations, and a response from an older one is dropped and
+   fetched again
+ - Stale entries are served immediately and revalidated in the background;
+   invalidated ones are refetched before fetchQuery resolves
+ - Mutations call invalidateQueries() with a key prefix to refetch affected data
+*/
+
+export type QueryKey = ReadonlyArray<unknown>;
+
+export type QuerySnapshot<T = unknown> = {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  // Epoch ms of the last successful fetch; 0 when never loaded
+  updatedAt: number;
+};
+
+export type FetchQueryOptions = {
+  // How long (ms) data is considered fresh; fresh data is returned without a request
+  staleTime?: number;
+  // Ignore cached data and always hit the network
+  force?: boolean;
+};
+
+type QueryEntry = {
+  key: QueryKey;
+  snapshot: QuerySnapshot;
+  invalidated: boolean;
+  // Bumped by invalidation and forced fetches; older responses aren't stored
+  generation: number;
+  promise: Promise<unknown> | null;
+  promiseGeneration: number;
+  // Last fetcher used for this key; lets invalidation refetch without the caller
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+};
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const EMPTY_SNAPSHOT: QuerySnapshot = {
+  data: undefined,
+  error: undefined,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function getEntry(key: QueryKey): QueryEntry {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      snapshot: EMPTY_SNAPSHOT,
+      invalidated: false,
+      generation: 0,
+      promise: null,
+      promiseGeneration: 0,
+      fetcher: null,
+      listeners: new Set(),
+    };
+    entries.set(hash, entry);
+  }
+  return entry;
+}
+
+// Snapshots are replaced (never mutated) so useSyncExternalStore sees changes
+function updateSnapshot(entry: QueryEntry, patch: Partial<QuerySnapshot>) {
+  entry.snapshot = { ...entry.snapshot, ...patch };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function isEntryStale(entry: QueryEntry, staleTime: number): boolean {
+  if (entry.invalidated || entry.snapshot.updatedAt === 0) return true;
+  return Date.now() - entry.snapshot.updatedAt > staleTime;
+}
+
+function runFetch<T>(entry: QueryEntry): Promise<T> {
+  if (entry.promise) {
+    if (entry.promiseGeneration === entry.generation) {
+      return entry.promise as Promise<T>;
+    }
+    // Started before the data changed: fetch again once it settles
+    const retry = () => runFetch<T>(entry);
+    return entry.promise.then(retry, retry);
+  }
+  if (!entry.fetcher) {
+    return Promise.reject(new Error("No fetcher registered for query"));
+  }
+
+  const generation = entry.generation;
+  updateSnapshot(entry, { isFetching: true });
+  const promise: Promise<unknown> = entry
+    .fetcher()
+    .then((data) => {
+      // Invalidated, forced or cleared while in flight; don't store it
+      if (entry.generation !== generation) {
+        if (entry.promise === promise) {
+          updateSnapshot(entry, { isFetching: false });
+        }
+        return data as T;
+      }
+      entry.invalidated = false;
+      updateSnapshot(entry, {
+        data,
+        error: undefined,
+        isFetching: false,
+        updatedAt: Date.now(),
+      });
+      return data as T;
+    })
+    .catch((error: unknown) => {
+      // Keep the last good data; consumers decide how to surface the error
+      if (entry.promise === promise) {
+        updateSnapshot(
+          entry,
+          entry.generation === generation
+            ? { error, isFetching: false }
+            : { isFetching: false }
+        );
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (entry.promise === promise) entry.promise = null;
+    });
+
+  entry.promise = promise;
+  entry.promiseGeneration = generation;
+  return promise as Promise<T>;
+}
+
+/**
+ * Read-through fetch. Fresh data resolves immediately; stale data also
+ * resolves immediately while a background request refreshes the entry.
+ * Invalidated data (a mutation touched it) is never returned: the call waits
+ * for the refetch, so one-shot readers don't see pre-mutation state.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  if (options.force) entry.generation += 1;
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+  const hasData = entry.snapshot.updatedAt > 0;
+
+  if (!options.force && hasData && !entry.invalidated) {
+    if (isEntryStale(entry, staleTime)) {
+      runFetch<T>(entry).catch(() => {
+        // Background revalidation errors live on the snapshot
+      });
+    }
+    return Promise.resolve(entry.snapshot.data as T);
+  }
+
+  return runFetch<T>(entry);
+}
+
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return entries.get(hashQueryKey(key))?.snapshot.data as T | undefined;
+}
+
+export function setQueryData<T>(
+  key: QueryKey,
+  updater: T | ((previous: T | undefined) => T)
+) {
+  const entry = getEntry(key);
+  const next =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T)(
+          entry.snapshot.data as T | undefined
+        )
+      : updater;
+  updateSnapshot(entry, { data: next, error: undefined, updatedAt: Date.now() });
+}
+
+export function getQuerySnapshot<T>(key: QueryKey): QuerySnapshot<T> {
+  return (entries.get(hashQueryKey(key))?.snapshot ??
+    EMPTY_SNAPSHOT) as QuerySnapshot<T>;
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  if (prefix.length > key.length) return false;
+  return prefix.every(
+    (part, index) => hashQueryKey([part]) === hashQueryKey([key[index]])
+  );
+}
+
+/**
+ * Mark every entry whose key starts with `prefix` as stale. Entries that are
+ * currently rendered (have listeners) are refetched right away.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    entry.invalidated = true;
+    entry.generation += 1;
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      runFetch(entry).catch(() => {
+        // Error is stored on the snapshot
+      });
+    }
+  });
+}
+
+// Drop everything, e.g. when the signed-in user changes
+export function clearQueryCache() {
+  entries.forEach((entry) => {
+    entry.promise = null;
+    entry.invalidated = true;
+    entry.generation += 1;
+    updateSnapshot(entry, EMPTY_SNAPSHOT);
+  });
+  entries.forEach((entry, hash) => {
+    if (entry.listeners.size === 0) entries.delete(hash);
+  });
+}
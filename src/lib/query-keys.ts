@@ -0,0 +1,43 @@
+// Query keys for the shared cache (lib/query-cache.ts).
+// Keys are hierarchical so a prefix like ["portal", "sessions"] invalidates
+// every cached session at once.
+
+export const queryKeys = {
+  portalTracks: () => ["portal", "tracks"] as const,
+  portalModules: () => ["portal", "modules"] as const,
+  // Module + its exam detail as loaded by the exam pages
+  moduleExam: (moduleId: number | string) =>
+    ["portal", "modules", String(moduleId), "exam"] as const,
+  portalSessions: () => ["portal", "sessions"] as const,
+  portalSession: (id: number | string) =>
+    ["portal", "sessions", String(id)] as const,
+  moduleTests: () => ["portal", "tests"] as const,
+  moduleTest: (id: number | string) => ["portal", "tests", String(id)] as const,
+  assignments: () => ["portal", "assignments"] as const,
+  submissions: () => ["portal", "submissions"] as const,
+  announcements: (params?: Record<string, unknown>) =>
+    params
+      ? (["portal", "announcements", params] as const)
+      : (["portal", "announcements"] as const),
+  polls: (group?: string) =>
+    group
+      ? (["portal", "polls", group] as const)
+      : (["portal", "polls"] as const),
+  candidates: () => ["users", "candidates"] as const,
+  // Every candidate's form entries, gathered for calibration and agreement
+  candidateFormsEntries: () => ["users", "forms-entries"] as const,
+  leaderboard: () => ["trainee-orders", "leaderboard"] as const,
+  attendanceEvents: () => ["attendance", "events"] as const,
+  attendancePolicies: () => ["attendance", "policies"] as const,
+  myAttendanceLogs: () => ["attendance", "my-logs"] as const,
+  attendanceRequests: (filters?: Record<string, unknown>) =>
+    filters
+      ? (["attendance", "requests", filters] as const)
+      : (["attendance", "requests"] as const),
+  attendanceLogHistory: (ref: Record<string, unknown>) =>
+    ["attendance", "history", ref] as const,
+  attendanceRange: (params?: Record<string, unknown>) =>
+    params
+      ? (["attendance", "range", params] as const)
+      : (["attendance", "range"] as const),
+};
@@ -0,0 +1,48 @@
+import type { Role } from "@/lib/permissions";
+
+// Staff "view as" mode. While a target is set the app renders as that role
+// (optionally on a track) or as a specific user, and the API client refuses
+// every mutating request. Kept in sessionStorage so a reload stays in the
+// mode but other tabs keep working as the staff member.
+//
+// User mode takes on the target's name, role and groups only. /me-scoped
+// endpoints (my logs, my stats, my requests) still answer for the staff
+// member, so personal data isn't impersonated.
+
+const STORAGE_KEY = "view_as_target";
+
+export type ViewAsTarget =
+  | { kind: "role"; role: Exclude<Role, "staff">; track: string | null }
+  | {
+      kind: "user";
+      userId: number;
+      name: string;
+      email: string;
+      groups: string[];
+      avatar?: string | null;
+    };
+
+export function getViewAsTarget(): ViewAsTarget | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const target = JSON.parse(raw) as ViewAsTarget;
+    return target.kind === "role" || target.kind === "user" ? target : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setViewAsTarget(target: ViewAsTarget | null) {
+  if (target) {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(target));
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/** Group names the target would have on /me, e.g. "trainee -> Data". */
+export function getViewAsGroups(target: ViewAsTarget): string[] {
+  if (target.kind === "user") return target.groups;
+  return [target.track ? `${target.role} -> ${target.track}` : target.role];
+}
@@ -0,0 +1,383 @@
+/*
+ Minimal XLSX (SpreadsheetML) writer used by the attendance exports.
+ - Multiple sheets, inline strings, typed date/time/percent/decimal cells
+ - Optional right-to-left sheets, frozen header row/columns and autofilter
+ - Files are zipped uncompressed (STORE); Excel, LibreOffice and Sheets
+   all accept that, and it keeps this module dependency-free
+*/
+
+export type XlsxCell =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | { type: "date"; value: string } // YYYY-MM-DD
+  | { type: "time"; value: number } // minutes since midnight
+  | { type: "percent"; value: number } // 0..1
+  | { type: "decimal"; value: number }; // shown with two decimals
+
+export type XlsxSheet = {
+  name: string;
+  // First row is the header: bold, frozen and filterable
+  rows: XlsxCell[][];
+  // Character widths per column; computed from the content when omitted
+  columnWidths?: number[];
+  // Keep this many leading columns visible while scrolling sideways
+  frozenColumns?: number;
+  rightToLeft?: boolean;
+};
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// Indexes into cellXfs in STYLES_XML
+const STYLE = {
+  default: 0,
+  header: 1,
+  date: 2,
+  time: 3,
+  percent: 4,
+  decimal: 5,
+  headerDate: 6,
+} as const;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${MAIN_NS}">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// Characters XML 1.0 cannot carry at all, even escaped
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 -> "A", 25 -> "Z", 26 -> "AA"
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Excel's serial day number (1900 date system) for a YYYY-MM-DD string
+function toExcelDate(isoDate: string): number | null {
+  const time = Date.parse(`${isoDate}T00:00:00Z`);
+  if (Number.isNaN(time)) return null;
+  return (time - Date.UTC(1899, 11, 30)) / 86_400_000;
+}
+
+function cellText(cell: XlsxCell): string {
+  if (cell == null) return "";
+  if (typeof cell !== "object") return String(cell);
+  if (cell.type === "date") return cell.value;
+  if (cell.type === "percent") return `${Math.round(cell.value * 100)}%`;
+  return String(cell.value);
+}
+
+function cellXml(cell: XlsxCell, ref: string, isHeader: boolean): string {
+  if (cell == null || cell === "") return "";
+  const textStyle = isHeader ? STYLE.header : STYLE.default;
+  if (typeof cell === "string") {
+    return `<c r="${ref}" t="inlineStr" s="${textStyle}"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  }
+  if (typeof cell === "boolean") {
+    return `<c r="${ref}" t="b" s="${textStyle}"><v>${cell ? 1 : 0}</v></c>`;
+  }
+  if (typeof cell === "number") {
+    if (!Number.isFinite(cell)) return "";
+    return `<c r="${ref}" s="${textStyle}"><v>${cell}</v></c>`;
+  }
+
+  let value: number | null = cell.value as number;
+  let style: number = STYLE.default;
+  switch (cell.type) {
+    case "date":
+      value = toExcelDate(cell.value);
+      style = isHeader ? STYLE.headerDate : STYLE.date;
+      break;
+    case "time":
+      value = cell.value / (24 * 60);
+      style = STYLE.time;
+      break;
+    case "percent":
+      style = STYLE.percent;
+      break;
+    case "decimal":
+      style = STYLE.decimal;
+      break;
+  }
+  if (value == null || !Number.isFinite(value)) return "";
+  return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+}
+
+function getColumnWidths(sheet: XlsxSheet): number[] {
+  const columnCount = Math.max(0, ...sheet.rows.map((row) => row.length));
+  return Array.from({ length: columnCount }, (_, column) => {
+    const given = sheet.columnWidths?.[column];
+    if (given != null) return given;
+    const longest = Math.max(
+      0,
+      ...sheet.rows.map((row) => cellText(row[column]).length)
+    );
+    return Math.min(Math.max(longest + 2, 8), 50);
+  });
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const widths = getColumnWidths(sheet);
+  const frozenColumns = sheet.frozenColumns ?? 0;
+  const hasHeader = sheet.rows.length > 0;
+
+  const pane = hasHeader
+    ? `<pane${frozenColumns > 0 ? ` xSplit="${frozenColumns}"` : ""} ySplit="1" topLeftCell="${columnName(frozenColumns)}2" activePane="${frozenColumns > 0 ? "bottomRight" : "bottomLeft"}" state="frozen"/>`
+    : "";
+  const view = `<sheetViews><sheetView workbookViewId="0"${sheet.rightToLeft ? ' rightToLeft="1"' : ""}>${pane}</sheetView></sheetViews>`;
+
+  const cols =
+    widths.length > 0
+      ? `<cols>${widths
+          .map(
+            (width, index) =>
+              `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+          )
+          .join("")}</cols>`
+      : "";
+
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, column) =>
+          cellXml(cell, `${columnName(column)}${rowIndex + 1}`, rowIndex === 0)
+        )
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  const filter =
+    hasHeader && widths.length > 0
+      ? `<autoFilter ref="A1:${columnName(widths.length - 1)}${sheet.rows.length}"/>`
+      : "";
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">${view}<sheetFormatPr defaultRowHeight="15"/>${cols}<sheetData>${rows}</sheetData>${filter}</worksheet>`;
+}
+
+// Excel rejects names over 31 characters, duplicates and []:*?/\
+function getSheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) ||
+      `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n += 1) {
+      name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/** Build an .xlsx file from the given sheets. */
+export function buildXlsx(sheets: XlsxSheet[]): Blob {
+  const names = getSheetNames(sheets);
+
+  const files: Array<[string, string]> = [
+    [
+      "[Content_Types].xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+        .map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join("")}</Types>`,
+    ],
+    [
+      "_rels/.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PKG_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    ],
+    [
+      "xl/workbook.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>${names
+        .map(
+          (name, index) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+        )
+        .join("")}</sheets></workbook>`,
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PKG_REL_NS}">${sheets
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        )
+        .join("")}<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`,
+    ],
+    ["xl/styles.xml", STYLES_XML],
+    ...sheets.map(
+      (sheet, index): [string, string] => [
+        `xl/worksheets/sheet${index + 1}.xml`,
+        sheetXml(sheet),
+      ]
+    ),
+  ];
+
+  const encoder = new TextEncoder();
+  return new Blob(
+    [
+      zipStore(
+        files.map(([name, content]) => ({
+          name,
+          data: encoder.encode(content),
+        }))
+      ),
+    ],
+    {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    }
+  );
+}
+
+// --- ZIP (STORE only) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipStore(
+  files: Array<{ name: string; data: Uint8Array }>
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime =
+    (now.getHours() << 11) |
+    (now.getMinutes() << 5) |
+    Math.floor(now.getSeconds() / 2);
+  const dosDate =
+    ((now.getFullYear() - 1980) << 9) |
+    ((now.getMonth() + 1) << 5) |
+    now.getDate();
+
+  const entries = files.map((file) => ({
+    name: encoder.encode(file.name),
+    data: file.data,
+    crc: crc32(file.data),
+  }));
+  const localSize = entries.reduce(
+    (sum, entry) => sum + 30 + entry.name.length + entry.data.length,
+    0
+  );
+  const centralSize = entries.reduce(
+    (sum, entry) => sum + 46 + entry.name.length,
+    0
+  );
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  const writeHeader = (
+    signature: number,
+    entry: (typeof entries)[number],
+    central: boolean
+  ) => {
+    view.setUint32(offset, signature, true);
+    offset += 4;
+    if (central) {
+      view.setUint16(offset, 20, true); // version made by
+      offset += 2;
+    }
+    view.setUint16(offset, 20, true); // version needed
+    view.setUint16(offset + 2, 0x0800, true); // UTF-8 names
+    view.setUint16(offset + 4, 0, true); // STORE
+    view.setUint16(offset + 6, dosTime, true);
+    view.setUint16(offset + 8, dosDate, true);
+    view.setUint32(offset + 10, entry.crc, true);
+    view.setUint32(offset + 14, entry.data.length, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint16(offset + 22, entry.name.length, true);
+    view.setUint16(offset + 24, 0, true); // extra length
+    offset += 26;
+  };
+
+  const localOffsets: number[] = [];
+  entries.forEach((entry) => {
+    localOffsets.push(offset);
+    writeHeader(0x04034b50, entry, false);
+    output.set(entry.name, offset);
+    offset += entry.name.length;
+    output.set(entry.data, offset);
+    offset += entry.data.length;
+  });
+
+  const centralStart = offset;
+  entries.forEach((entry, index) => {
+    writeHeader(0x02014b50, entry, true);
+    view.setUint16(offset, 0, true); // comment length
+    view.setUint16(offset + 2, 0, true); // disk number
+    view.setUint16(offset + 4, 0, true); // internal attributes
+    view.setUint32(offset + 6, 0, true); // external attributes
+    view.setUint32(offset + 10, localOffsets[index], true);
+    offset += 14;
+    output.set(entry.name, offset);
+    offset += entry.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 4, 0, true);
+  view.setUint16(offset + 6, 0, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+  view.setUint16(offset + 20, 0, true);
+
+  return output;
+}
@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { PasswordInput } from "@/components/ui/password-input";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
 import {
   Field,
   FieldContent,
@@ -14,8 +16,25 @@ import {
   FieldSeparator,
   FieldSet,
 } from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useAuth } from "@/context/AuthContext";
 import { apiFetch } from "@/lib/api";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
+import { checkPasswordStrength } from "@/lib/password-strength";
+import { changePassword } from "@/services/auth";
+import {
+  IDLE_TIMEOUT_OPTIONS,
+  getDefaultIdleTimeoutMinutes,
+  getDeviceIdleTimeoutMinutes,
+  setDeviceIdleTimeoutMinutes,
+} from "@/lib/idle-timeout";
 import { useTranslation } from "react-i18next";
 import { toast } from "sonner";
 
@@ -42,6 +61,18 @@ export function AccountPage() {
   const [touched, setTouched] = useState<boolean>(false);
   const [saving, setSaving] = useState<boolean>(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [changingPassword, setChangingPassword] = useState(false);
+  const passwordErrors = useFieldErrors({
+    current_password: "currentPassword",
+    new_password: "newPassword",
+  });
+  const [idleTimeout, setIdleTimeout] = useState<string>(() => {
+    const minutes = getDeviceIdleTimeoutMinutes();
+    return minutes === null ? "default" : String(minutes);
+  });
 
   useEffect(() => {
     let ignore = false;
@@ -97,6 +128,67 @@ export function AccountPage() {
     );
   }, [me?.groups, user?.groups]);
 
+  const passwordStrength = useMemo(
+    () => checkPasswordStrength(newPassword, [user?.email, user?.name]),
+    [newPassword, user?.email, user?.name]
+  );
+  const passwordMismatch =
+    confirmPassword.length > 0 && confirmPassword !== newPassword;
+  const canChangePassword =
+    currentPassword.length > 0 &&
+    passwordStrength.isAcceptable &&
+    confirmPassword === newPassword &&
+    !changingPassword;
+
+  async function handleChangePassword(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!canChangePassword) return;
+    setChangingPassword(true);
+    passwordErrors.resetFieldErrors();
+    try {
+      await changePassword({
+        current_password: currentPassword,
+        new_password: newPassword,
+      });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast.success(
+        t("pages.account.passwordChanged", {
+          defaultValue: "Password changed",
+        })
+      );
+    } catch (e: unknown) {
+      const unmapped = passwordErrors.applyError(e);
+      if (unmapped !== null || !(e instanceof ValidationError)) {
+        toast.error(
+          unmapped ??
+            getErrorMessage(
+              e,
+              t("pages.account.passwordChangeError", {
+                defaultValue: "Unable to change password. Please try again.",
+              })
+            )
+        );
+      }
+    } finally {
+      setChangingPassword(false);
+    }
+  }
+
+  const formatIdleMinutes = (minutes: number) =>
+    minutes > 0
+      ? t("pages.account.idleTimeoutMinutes", {
+          count: minutes,
+          defaultValue: "After {{count}} minutes",
+        })
+      : t("pages.account.idleTimeoutOff", { defaultValue: "Never" });
+
+  const handleIdleTimeoutChange = (value: string) => {
+    setIdleTimeout(value);
+    setDeviceIdleTimeoutMinutes(value === "default" ? null : Number(value));
+  };
+
   const capitalize = (s: string) =>
     s ? s.charAt(0).toUpperCase() + s.slice(1) : s;
 
@@ -144,11 +236,12 @@ export function AccountPage() {
             })
       );
     } catch (e: unknown) {
-      const errorMessage =
-        (e as any)?.data?.detail ||
+      const errorMessage = getErrorMessage(
+        e,
         t("pages.account.bankAccountSaveError", {
           defaultValue: "Unable to save bank account. Please try again.",
-        });
+        })
+      );
       setSaveError(errorMessage);
       toast.error(errorMessage);
     } finally {
@@ -248,6 +341,141 @@ export function AccountPage() {
               </FieldSet>
             </>
           )}
+
+          <FieldSeparator>
+            {t("pages.account.passwordSectionTitle", {
+              defaultValue: "Change password",
+            })}
+          </FieldSeparator>
+          <form onSubmit={handleChangePassword}>
+            <FieldSet>
+              <FieldGroup>
+                <Field>
+                  <FieldContent>
+                    <Label htmlFor="currentPassword">
+                      {t("password.current", {
+                        defaultValue: "Current password",
+                      })}
+                    </Label>
+                    <PasswordInput
+                      id="currentPassword"
+                      autoComplete="current-password"
+                      value={currentPassword}
+                      onChange={(e) => {
+                        setCurrentPassword(e.target.value);
+                        passwordErrors.clearFieldError("currentPassword");
+                      }}
+                      aria-invalid={Boolean(
+                        passwordErrors.getFieldError("currentPassword")
+                      )}
+                    />
+                    <FieldError
+                      errors={passwordErrors.getFieldErrorItems(
+                        "currentPassword"
+                      )}
+                    />
+                  </FieldContent>
+                </Field>
+                <Field>
+                  <FieldContent>
+                    <Label htmlFor="newPassword">
+                      {t("password.new", { defaultValue: "New password" })}
+                    </Label>
+                    <PasswordInput
+                      id="newPassword"
+                      autoComplete="new-password"
+                      value={newPassword}
+                      onChange={(e) => {
+                        setNewPassword(e.target.value);
+                        passwordErrors.clearFieldError("newPassword");
+                      }}
+                      aria-invalid={Boolean(
+                        passwordErrors.getFieldError("newPassword")
+                      )}
+                    />
+                    <FieldError
+                      errors={passwordErrors.getFieldErrorItems("newPassword")}
+                    />
+                    {newPassword && (
+                      <PasswordStrengthMeter strength={passwordStrength} />
+                    )}
+                  </FieldContent>
+                </Field>
+                <Field>
+                  <FieldContent>
+                    <Label htmlFor="confirmPassword">
+                      {t("password.confirm", {
+                        defaultValue: "Confirm new password",
+                      })}
+                    </Label>
+                    <PasswordInput
+                      id="confirmPassword"
+                      autoComplete="new-password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      aria-invalid={passwordMismatch}
+                    />
+                    {passwordMismatch && (
+                      <FieldError>
+                        {t("password.mismatch", {
+                          defaultValue: "Passwords don't match",
+                        })}
+                      </FieldError>
+                    )}
+                  </FieldContent>
+                </Field>
+                <div>
+                  <Button type="submit" disabled={!canChangePassword}>
+                    {changingPassword
+                      ? t("pages.account.saving")
+                      : t("pages.account.changePassword", {
+                          defaultValue: "Change password",
+                        })}
+                  </Button>
+                </div>
+              </FieldGroup>
+            </FieldSet>
+          </form>
+
+          <FieldSeparator>
+            {t("pages.account.deviceSectionTitle", {
+              defaultValue: "This device",
+            })}
+          </FieldSeparator>
+          <Field>
+            <FieldContent>
+              <Label htmlFor="idleTimeout">
+                {t("pages.account.idleTimeout", {
+                  defaultValue: "Sign out when inactive",
+                })}
+              </Label>
+              <Select value={idleTimeout} onValueChange={handleIdleTimeoutChange}>
+                <SelectTrigger id="idleTimeout" className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">
+                    {t("pages.account.idleTimeoutDefault", {
+                      value: formatIdleMinutes(getDefaultIdleTimeoutMinutes()),
+                      defaultValue: "Default ({{value}})",
+                    })}
+                  </SelectItem>
+                  <SelectItem value="0">{formatIdleMinutes(0)}</SelectItem>
+                  {IDLE_TIMEOUT_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatIdleMinutes(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldDescription>
+                {t("pages.account.idleTimeoutHelp", {
+                  defaultValue:
+                    "Applies to every account on this browser. Use it on shared computers such as attendance laptops.",
+                })}
+              </FieldDescription>
+            </FieldContent>
+          </Field>
         </CardContent>
       </Card>
     </div>
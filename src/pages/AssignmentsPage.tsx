@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import {
   IconCode,
   IconNetwork,
@@ -27,6 +27,9 @@ import {
   type Assignment,
   type AssignmentSubmission,
 } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { queryKeys } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 
 // Map track names to a visual theme (gradient + background icon)
 function getTrackTheme(trackName?: string) {
@@ -217,10 +220,22 @@ export default function AssignmentsPage() {
   const { groups } = useUserGroups();
   const { t, i18n } = useTranslation();
   const isRTL = (i18n.language || "en").startsWith("ar");
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
-  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const assignmentsQuery = useQuery(queryKeys.assignments(), getAssignments);
+  const submissionsQuery = useQuery(queryKeys.submissions(), getSubmissions);
+  const assignments = useMemo<Assignment[]>(
+    () => assignmentsQuery.data?.results ?? [],
+    [assignmentsQuery.data]
+  );
+  const submissions = useMemo<AssignmentSubmission[]>(
+    () => submissionsQuery.data?.results ?? [],
+    [submissionsQuery.data]
+  );
+  const isLoading = assignmentsQuery.isLoading || submissionsQuery.isLoading;
+  const loadError = assignmentsQuery.error ?? submissionsQuery.error;
+  const error =
+    loadError && !(assignmentsQuery.data && submissionsQuery.data)
+      ? getErrorMessage(loadError, "Failed to load assignments")
+      : null;
   const [openWeeks, setOpenWeeks] = useState<Record<number, boolean>>({});
   const [selectedAssignment, setSelectedAssignment] =
     useState<Assignment | null>(null);
@@ -248,32 +263,6 @@ export default function AssignmentsPage() {
 
   const theme = getTrackTheme(trackTitle);
 
-  useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      try {
-        setIsLoading(true);
-        const [assignmentsData, submissionsData] = await Promise.all([
-          getAssignments(),
-          getSubmissions(),
-        ]);
-        if (!cancelled) {
-          setAssignments(assignmentsData.results ?? []);
-          setSubmissions(submissionsData.results ?? []);
-        }
-      } catch (e: any) {
-        if (!cancelled)
-          setError(e?.message || "Failed to load assignments");
-      } finally {
-        if (!cancelled) setIsLoading(false);
-      }
-    }
-    load();
-    return () => {
-      cancelled = true;
-    };
-  }, []);
-
   // Organize submissions by week -> session -> assignment
   const organizedWeeks = useMemo(() => {
     return organizeSubmissions(submissions, assignments);
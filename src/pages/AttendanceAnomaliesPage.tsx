@@ -0,0 +1,388 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  IconAlertTriangle,
+  IconArrowBackUp,
+  IconChecks,
+  IconTool,
+} from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useQuery } from "@/hooks/useQuery";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import {
+  getAttendanceRange,
+  getAttendanceRequests,
+  getEvents,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import {
+  DEFAULT_ANOMALY_RULES,
+  detectAttendanceAnomalies,
+  getAnomalyFixPath,
+  type AttendanceAnomalySeverity,
+} from "@/lib/attendance-anomalies";
+import { lastNDays, todayIsoDate } from "@/lib/date-range";
+import { queryKeys } from "@/lib/query-keys";
+
+const SEVERITY_STYLES: Record<AttendanceAnomalySeverity, string> = {
+  high: "bg-red-100 text-red-700 border-red-200 dark:bg-red-500/15 dark:text-red-300 dark:border-red-500/30",
+  medium:
+    "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-500/15 dark:text-amber-300 dark:border-amber-500/30",
+  low: "bg-sky-100 text-sky-700 border-sky-200 dark:bg-sky-500/15 dark:text-sky-300 dark:border-sky-500/30",
+};
+
+// Long ranges make the matrix request heavy; a month covers a review cycle
+const MAX_RANGE_DAYS = 31;
+
+export default function AttendanceAnomaliesPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { can } = useUserGroups();
+  const canView = can("attendance.review");
+  const [range, setRange] = useState(() => lastNDays(7));
+  const [eventFilter, setEventFilter] = useState<string>("all");
+  const [enabledRules, setEnabledRules] = useState<Set<string>>(
+    () => new Set(DEFAULT_ANOMALY_RULES.map((rule) => rule.id))
+  );
+
+  const rangeDays =
+    (new Date(range.to).getTime() - new Date(range.from).getTime()) /
+      86400000 +
+    1;
+  const isRangeValid =
+    Boolean(range.from && range.to) &&
+    rangeDays >= 1 &&
+    rangeDays <= MAX_RANGE_DAYS;
+
+  const params = {
+    from: range.from,
+    to: range.to,
+    ...(eventFilter !== "all" ? { event: Number(eventFilter) } : {}),
+  };
+  const eventsQuery = useQuery(queryKeys.attendanceEvents(), getEvents, {
+    enabled: canView,
+  });
+  const rangeQuery = useQuery(
+    queryKeys.attendanceRange(params),
+    () => getAttendanceRange(params),
+    { enabled: canView && isRangeValid }
+  );
+  const leavesQuery = useQuery(
+    queryKeys.attendanceRequests({ status: "approved" }),
+    () => getAttendanceRequests({ status: "approved" }),
+    { enabled: canView }
+  );
+
+  const anomalies = useMemo(() => {
+    if (!rangeQuery.data) return [];
+    return detectAttendanceAnomalies(
+      {
+        range: rangeQuery.data,
+        leaves: leavesQuery.data ?? [],
+        today: todayIsoDate(),
+      },
+      DEFAULT_ANOMALY_RULES.filter((rule) => enabledRules.has(rule.id))
+    );
+  }, [rangeQuery.data, leavesQuery.data, enabledRules]);
+
+  const countsByRule = useMemo(() => {
+    const counts = new Map<string, number>();
+    anomalies.forEach((anomaly) =>
+      counts.set(anomaly.rule.id, (counts.get(anomaly.rule.id) ?? 0) + 1)
+    );
+    return counts;
+  }, [anomalies]);
+
+  const toggleRule = (ruleId: string, checked: boolean) => {
+    setEnabledRules((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(ruleId);
+      else next.delete(ruleId);
+      return next;
+    });
+  };
+
+  if (!canView) {
+    return (
+      <div className="container mx-auto px-6 py-8">
+        <Card>
+          <CardContent className="pt-6 text-center py-8 text-muted-foreground">
+            You don't have permission to access attendance features.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            {t("pages.attendanceAnomalies.title", {
+              defaultValue: "Attendance anomalies",
+            })}
+          </h1>
+          <p className="text-muted-foreground">
+            {t("pages.attendanceAnomalies.subtitle", {
+              defaultValue:
+                "Scan attendance logs for entries that look wrong and fix them.",
+            })}
+          </p>
+        </div>
+        <Button variant="ghost" onClick={() => navigate(-1)}>
+          <IconArrowBackUp className="size-4 mr-2" />
+          {t("common.buttons.back", { defaultValue: "Back" })}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="anomalies-from">
+                {t("pages.attendanceAnomalies.from", { defaultValue: "From" })}
+              </Label>
+              <Input
+                id="anomalies-from"
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) =>
+                  setRange((prev) => ({ ...prev, from: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="anomalies-to">
+                {t("pages.attendanceAnomalies.to", { defaultValue: "To" })}
+              </Label>
+              <Input
+                id="anomalies-to"
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) =>
+                  setRange((prev) => ({ ...prev, to: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>
+                {t("pages.attendanceAnomalies.event", {
+                  defaultValue: "Event",
+                })}
+              </Label>
+              <Select value={eventFilter} onValueChange={setEventFilter}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t("common.labels.all", { defaultValue: "All" })}
+                  </SelectItem>
+                  {(eventsQuery.data ?? []).map((event) => (
+                    <SelectItem key={event.id} value={String(event.id)}>
+                      {event.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {!isRangeValid && (
+            <p className="text-sm text-destructive">
+              {t("pages.attendanceAnomalies.rangeInvalid", {
+                max: MAX_RANGE_DAYS,
+                defaultValue:
+                  "Pick a range of at most {{max}} days, ending on or after the start.",
+              })}
+            </p>
+          )}
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {DEFAULT_ANOMALY_RULES.map((rule) => (
+              <label
+                key={rule.id}
+                className="flex items-start gap-3 rounded-md border p-3 cursor-pointer"
+              >
+                <Checkbox
+                  checked={enabledRules.has(rule.id)}
+                  onCheckedChange={(checked) =>
+                    toggleRule(rule.id, checked === true)
+                  }
+                  className="mt-0.5"
+                />
+                <div className="flex-1 space-y-0.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">
+                      {t(`pages.attendanceAnomalies.rules.${rule.id}.label`, {
+                        defaultValue: rule.label,
+                      })}
+                    </span>
+                    {rangeQuery.data && enabledRules.has(rule.id) && (
+                      <Badge variant="outline">
+                        {countsByRule.get(rule.id) ?? 0}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t(
+                      `pages.attendanceAnomalies.rules.${rule.id}.description`,
+                      { defaultValue: rule.description }
+                    )}
+                  </p>
+                </div>
+              </label>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {rangeQuery.isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader />
+        </div>
+      ) : rangeQuery.error ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-8 text-destructive">
+            {getErrorMessage(rangeQuery.error, "Failed to load attendance")}
+          </CardContent>
+        </Card>
+      ) : rangeQuery.data && anomalies.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-center gap-2 text-base text-muted-foreground font-normal">
+              <IconChecks className="size-5" />
+              {t("pages.attendanceAnomalies.empty", {
+                defaultValue: "No anomalies in this range",
+              })}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      ) : anomalies.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <IconAlertTriangle className="size-5" />
+              {t("pages.attendanceAnomalies.found", {
+                count: anomalies.length,
+                defaultValue: "{{count}} anomalies",
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    {t("pages.attendanceAnomalies.columns.issue", {
+                      defaultValue: "Issue",
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t("common.labels.date", { defaultValue: "Date" })}
+                  </TableHead>
+                  <TableHead>
+                    {t("pages.attendanceAnomalies.event", {
+                      defaultValue: "Event",
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t("pages.attendanceAnomalies.columns.trainees", {
+                      defaultValue: "Trainees",
+                    })}
+                  </TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {anomalies.map((anomaly) => (
+                  <TableRow key={anomaly.id}>
+                    <TableCell className="max-w-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="outline"
+                          className={SEVERITY_STYLES[anomaly.rule.severity]}
+                        >
+                          {t(
+                            `pages.attendanceAnomalies.severity.${anomaly.rule.severity}`,
+                            {
+                              defaultValue:
+                                anomaly.rule.severity.charAt(0).toUpperCase() +
+                                anomaly.rule.severity.slice(1),
+                            }
+                          )}
+                        </Badge>
+                        <span className="font-medium">
+                          {t(
+                            `pages.attendanceAnomalies.rules.${anomaly.rule.id}.label`,
+                            { defaultValue: anomaly.rule.label }
+                          )}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 whitespace-normal">
+                        {t(
+                          `pages.attendanceAnomalies.rules.${anomaly.rule.id}.detail`,
+                          { ...anomaly.values, defaultValue: anomaly.rule.detail }
+                        )}
+                      </p>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {anomaly.date}
+                    </TableCell>
+                    <TableCell>{anomaly.event.title}</TableCell>
+                    <TableCell className="max-w-xs whitespace-normal">
+                      {anomaly.trainees.length > 3
+                        ? `${anomaly.trainees
+                            .slice(0, 3)
+                            .map((trainee) => trainee.name)
+                            .join(", ")} +${anomaly.trainees.length - 3}`
+                        : anomaly.trainees
+                            .map((trainee) => trainee.name)
+                            .join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(getAnomalyFixPath(anomaly))}
+                      >
+                        <IconTool className="size-4 mr-1" />
+                        {t("pages.attendanceAnomalies.fix", {
+                          defaultValue: "Fix",
+                        })}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
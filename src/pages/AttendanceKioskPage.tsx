@@ -0,0 +1,503 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Navigate,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  IconAlertTriangle,
+  IconArrowBackUp,
+  IconCircleCheck,
+  IconCircleX,
+  IconLock,
+  IconScan,
+} from "@tabler/icons-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader } from "@/components/ui/loader";
+import { useQuery } from "@/hooks/useQuery";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import {
+  deleteAttendanceLog,
+  getAttendanceRange,
+  getEvents,
+  submitAttendanceUpdate,
+  submitCheckIn,
+  type AttendanceLogRef,
+  type AttendanceRangeUser,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { rankFuzzyMatches } from "@/lib/fuzzy-match";
+import { getKioskLock, getKioskPath, releaseKioskLock } from "@/lib/kiosk-lock";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+
+const ROSTER_POLL_MS = 15000;
+const FEEDBACK_MS = 4000;
+// Enter picks the top match only when it's this confident
+const CONFIDENT_SCORE = 0.75;
+
+type Feedback = {
+  kind: "success" | "warning" | "error";
+  title: string;
+  detail?: string;
+};
+
+type LastAction = {
+  ref: AttendanceLogRef;
+  name: string;
+};
+
+const FEEDBACK_STYLES: Record<Feedback["kind"], string> = {
+  success:
+    "bg-green-50 text-green-800 border-green-300 dark:bg-green-500/15 dark:text-green-100 dark:border-green-500/40",
+  warning:
+    "bg-amber-50 text-amber-800 border-amber-300 dark:bg-amber-500/15 dark:text-amber-100 dark:border-amber-500/40",
+  error:
+    "bg-red-50 text-red-800 border-red-300 dark:bg-red-500/15 dark:text-red-100 dark:border-red-500/40",
+};
+
+const FEEDBACK_ICONS = {
+  success: IconCircleCheck,
+  warning: IconAlertTriangle,
+  error: IconCircleX,
+};
+
+function getDisplayName(user: AttendanceRangeUser): string {
+  return user.full_name || user.user_name || user.user_email;
+}
+
+function getCurrentTime(): string {
+  return new Date().toTimeString().slice(0, 8); // HH:MM:SS
+}
+
+export default function AttendanceKioskPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { eventId: eventIdParam } = useParams();
+  const [searchParams] = useSearchParams();
+  const { isAttendanceTracker } = useUserGroups();
+  const lock = getKioskLock();
+
+  const eventId = Number(eventIdParam);
+  const date =
+    searchParams.get("date") || new Date().toISOString().split("T")[0];
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [lastAction, setLastAction] = useState<LastAction | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showExitDialog, setShowExitDialog] = useState(false);
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState<string | null>(null);
+
+  const eventsQuery = useQuery(queryKeys.attendanceEvents(), getEvents);
+  const eventTitle =
+    eventsQuery.data?.find((event) => event.id === eventId)?.title ?? null;
+
+  const rangeParams = { from: date, to: date, event: eventId };
+  const rosterQuery = useQuery(
+    queryKeys.attendanceRange(rangeParams),
+    () => getAttendanceRange(rangeParams),
+    { enabled: Number.isFinite(eventId), refetchInterval: ROSTER_POLL_MS }
+  );
+  const users = useMemo(
+    () => rosterQuery.data?.users ?? [],
+    [rosterQuery.data]
+  );
+
+  const getEntry = (user: AttendanceRangeUser) =>
+    user.days[date]?.find((entry) => entry.event_id === eventId);
+
+  const checkedInCount = users.filter(
+    (user) => getEntry(user)?.check_in_time
+  ).length;
+
+  const matches = useMemo(
+    () =>
+      rankFuzzyMatches(
+        query,
+        users,
+        (user) => [
+          user.user_id,
+          user.user_email,
+          user.full_name,
+          user.user_name,
+        ],
+        { limit: 5 }
+      ),
+    [query, users]
+  );
+
+  // Keep the input focused so a badge scan always lands in it
+  useEffect(() => {
+    if (showExitDialog) return;
+    const refocus = () => inputRef.current?.focus();
+    refocus();
+    window.addEventListener("click", refocus);
+    return () => window.removeEventListener("click", refocus);
+  }, [showExitDialog]);
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timer = window.setTimeout(() => setFeedback(null), FEEDBACK_MS);
+    return () => window.clearTimeout(timer);
+  }, [feedback]);
+
+  const checkIn = async (user: AttendanceRangeUser) => {
+    const entry = getEntry(user);
+    const name = getDisplayName(user);
+    if (entry?.check_in_time) {
+      setFeedback({
+        kind: "warning",
+        title: t("pages.attendanceKiosk.alreadyCheckedIn", {
+          name,
+          defaultValue: "{{name}} is already checked in",
+        }),
+        detail: entry.check_in_time.slice(0, 5),
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const ref: AttendanceLogRef = {
+      candidate_id: user.user_id,
+      event: eventId,
+      attendance_date: date,
+    };
+    const checkInTime = getCurrentTime();
+    try {
+      // A log may already exist without a check-in (e.g. notes only)
+      const response = entry?.has_log
+        ? await submitAttendanceUpdate(
+            { ...ref, check_in_time: checkInTime, source: "kiosk" },
+            { method: "PUT" }
+          )
+        : await submitCheckIn({
+            ...ref,
+            check_in_time: checkInTime,
+            source: "kiosk",
+          });
+      if (response.success > 0) {
+        setFeedback({
+          kind: "success",
+          title: t("pages.attendanceKiosk.welcome", {
+            name,
+            defaultValue: "Welcome, {{name}}",
+          }),
+          detail: checkInTime.slice(0, 5),
+        });
+        // Only a log this kiosk created can be undone by deleting it
+        setLastAction(entry?.has_log ? null : { ref, name });
+        rosterQuery.refetch();
+      } else {
+        setFeedback({
+          kind: "error",
+          title: name,
+          detail: response.results[0]?.message || "Failed to check in",
+        });
+      }
+    } catch (error) {
+      console.error("Kiosk check-in error:", error);
+      setFeedback({
+        kind: "error",
+        title: name,
+        detail: getErrorMessage(error, "Failed to check in"),
+      });
+    } finally {
+      setIsSubmitting(false);
+      setQuery("");
+      setHighlighted(0);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (isSubmitting || !query.trim()) return;
+    const match = matches[highlighted];
+    // A scan or typed ID should match outright; fuzzy hits need a pick
+    if (!match || (highlighted === 0 && match.score < CONFIDENT_SCORE)) {
+      setFeedback({
+        kind: "error",
+        title: t("pages.attendanceKiosk.noMatch", {
+          defaultValue: "No trainee found",
+        }),
+        detail: query,
+      });
+      setQuery("");
+      return;
+    }
+    checkIn(match.item);
+  };
+
+  const handleUndo = async () => {
+    if (!lastAction || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await deleteAttendanceLog({ ...lastAction.ref, source: "kiosk" });
+      setFeedback({
+        kind: "warning",
+        title: t("pages.attendanceKiosk.undone", {
+          name: lastAction.name,
+          defaultValue: "Check-in for {{name}} undone",
+        }),
+      });
+      setLastAction(null);
+      rosterQuery.refetch();
+    } catch (error) {
+      console.error("Kiosk undo error:", error);
+      setFeedback({
+        kind: "error",
+        title: t("pages.attendanceKiosk.undoFailed", {
+          defaultValue: "Could not undo",
+        }),
+        detail: getErrorMessage(error, "Failed to undo check-in"),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Escape") {
+      setQuery("");
+      setHighlighted(0);
+    } else if (e.key === "z" && (e.ctrlKey || e.metaKey) && !query) {
+      e.preventDefault();
+      handleUndo();
+    }
+  };
+
+  const handleExit = async () => {
+    if (await releaseKioskLock(pin)) {
+      setShowExitDialog(false);
+      navigate("/attendance");
+    } else {
+      setPinError(
+        t("pages.attendanceKiosk.wrongPin", { defaultValue: "Wrong PIN" })
+      );
+      setPin("");
+    }
+  };
+
+  // A locked device stays on the event it was locked to
+  if (lock && (lock.eventId !== eventId || lock.date !== date)) {
+    return <Navigate to={getKioskPath(lock)} replace />;
+  }
+
+  if (!isAttendanceTracker) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        You don't have permission to access attendance features.
+      </div>
+    );
+  }
+
+  const FeedbackIcon = feedback ? FEEDBACK_ICONS[feedback.kind] : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="flex items-center justify-between gap-4 px-6 py-4 border-b">
+        <div>
+          <h1 className="text-2xl font-bold">
+            {eventTitle ?? `Event ${eventId}`}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {date} •{" "}
+            {t("pages.attendanceKiosk.checkedIn", {
+              count: checkedInCount,
+              total: users.length,
+              defaultValue: "{{count}} of {{total}} checked in",
+            })}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            if (!lock) {
+              navigate("/attendance");
+              return;
+            }
+            setPin("");
+            setPinError(null);
+            setShowExitDialog(true);
+          }}
+        >
+          <IconLock className="size-4 mr-2" />
+          {t("pages.attendanceKiosk.exit", { defaultValue: "Exit kiosk" })}
+        </Button>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-8 px-6 py-10">
+        <div className="w-full max-w-2xl space-y-3">
+          <label
+            htmlFor="kiosk-input"
+            className="flex items-center gap-2 text-lg font-medium text-muted-foreground"
+          >
+            <IconScan className="size-6" />
+            {t("pages.attendanceKiosk.prompt", {
+              defaultValue: "Scan your badge or type your email",
+            })}
+          </label>
+          <Input
+            id="kiosk-input"
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            disabled={rosterQuery.isLoading}
+            className="h-16 text-2xl px-5"
+          />
+
+          {query.trim() && matches.length > 0 && (
+            <ul className="rounded-lg border divide-y">
+              {matches.map((match, index) => {
+                const entry = getEntry(match.item);
+                return (
+                  <li
+                    key={match.item.user_id}
+                    onMouseEnter={() => setHighlighted(index)}
+                    onClick={() => checkIn(match.item)}
+                    className={cn(
+                      "flex items-center justify-between gap-4 px-4 py-3 cursor-pointer",
+                      index === highlighted && "bg-muted"
+                    )}
+                  >
+                    <div>
+                      <div className="text-lg font-medium">
+                        {getDisplayName(match.item)}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {match.item.user_email}
+                        {match.item.track && ` • ${match.item.track}`}
+                      </div>
+                    </div>
+                    {entry?.check_in_time && (
+                      <span className="text-sm text-muted-foreground tabular-nums">
+                        {entry.check_in_time.slice(0, 5)}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {t("pages.attendanceKiosk.keys", {
+              defaultValue:
+                "Enter: check in • ↑/↓: choose • Esc: clear • Ctrl+Z: undo last",
+            })}
+          </p>
+        </div>
+
+        <div className="w-full max-w-2xl min-h-40">
+          {isSubmitting ? (
+            <div className="flex justify-center py-10">
+              <Loader size="lg" />
+            </div>
+          ) : (
+            feedback &&
+            FeedbackIcon && (
+              <div
+                role="status"
+                className={cn(
+                  "rounded-2xl border-2 p-8 flex items-center gap-6",
+                  FEEDBACK_STYLES[feedback.kind]
+                )}
+              >
+                <FeedbackIcon className="size-20 shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-3xl font-bold break-words">
+                    {feedback.title}
+                  </div>
+                  {feedback.detail && (
+                    <div className="text-xl mt-1 tabular-nums break-words">
+                      {feedback.detail}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {lastAction && (
+          <Button variant="outline" onClick={handleUndo} disabled={isSubmitting}>
+            <IconArrowBackUp className="size-4 mr-2" />
+            {t("pages.attendanceKiosk.undo", {
+              name: lastAction.name,
+              defaultValue: "Undo check-in for {{name}}",
+            })}
+          </Button>
+        )}
+      </main>
+
+      <Dialog open={showExitDialog} onOpenChange={setShowExitDialog}>
+        <DialogContent className="sm:max-w-sm space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {t("pages.attendanceKiosk.exitTitle", {
+                defaultValue: "Unlock kiosk",
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t("pages.attendanceKiosk.exitDescription", {
+                defaultValue: "Enter the PIN set when the kiosk was started.",
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pin}
+            onChange={(e) => {
+              setPin(e.target.value);
+              setPinError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleExit();
+            }}
+            aria-invalid={Boolean(pinError)}
+          />
+          {pinError && <p className="text-sm text-destructive">{pinError}</p>}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setShowExitDialog(false)}>
+              {t("common.buttons.cancel", { defaultValue: "Cancel" })}
+            </Button>
+            <Button onClick={handleExit} disabled={!pin}>
+              {t("pages.attendanceKiosk.unlock", { defaultValue: "Unlock" })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
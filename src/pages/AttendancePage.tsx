@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -27,8 +27,18 @@ import {
   IconUsers,
   IconSearch,
   IconDownload,
+  IconFileSpreadsheet,
   IconDotsVertical,
   IconArrowBackUp,
+  IconCloudOff,
+  IconQrcode,
+  IconAdjustments,
+  IconHistory,
+  IconInbox,
+  IconDeviceDesktop,
+  IconRefresh,
+  IconBroadcast,
+  IconX,
 } from "@tabler/icons-react";
 import {
   DropdownMenu,
@@ -48,15 +58,38 @@ import {
 } from "@/components/ui/dialog";
 import { TimePickerDialog } from "@/components/TimePickerDialog";
 import { AttendanceStatusBadge } from "@/components/AttendanceStatusBadge";
+import { AttendanceWeekGrid } from "@/components/AttendanceWeekGrid";
+import { AttendancePolicyDialog } from "@/components/AttendancePolicyDialog";
+import { AttendanceLogHistoryDialog } from "@/components/AttendanceLogHistoryDialog";
+import { KioskStartDialog } from "@/components/KioskStartDialog";
+import { AttendanceLivePresence } from "@/components/AttendanceLivePresence";
+import { buildAttendanceWorkbook } from "@/lib/attendance-export";
+import { buildXlsx } from "@/lib/xlsx";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useUserGroups } from "@/hooks/useUserGroups";
+import { fetchQuery, invalidateQueries } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
+import { useAttendanceOutbox } from "@/hooks/useAttendanceOutbox";
+import { useAttendanceLive } from "@/hooks/useAttendanceLive";
+import { type AttendanceLiveChange } from "@/lib/attendance-live";
+import { useAttendancePolicies } from "@/hooks/useAttendancePolicies";
+import {
+  ATTENDANCE_POLICY_STATUS_LABELS,
+  classifyAttendance,
+  getBreakMinutes,
+} from "@/lib/attendance-policy";
+import {
+  submitOrQueueAttendance,
+  type OutboxOperation,
+} from "@/lib/attendance-outbox";
 import {
   getMyLogs,
   getEvents,
   getCandidates,
-  submitCheckIn,
-  submitCheckOut,
   submitAttendanceUpdate,
   exportAttendanceCSV,
+  getAttendanceRange,
+  type AttendanceOverviewEntry,
   type AttendanceOverviewResponse,
   type AttendanceOverviewUser,
   type AttendanceLog,
@@ -65,6 +98,8 @@ import {
   type CheckInPayload,
   type CheckOutPayload,
   type AttendanceUpdatePayload,
+  type AttendanceChangeSource,
+  type AttendanceLogRef,
 } from "@/lib/api";
 
 type OverviewUserWithMeta = AttendanceOverviewUser & {
@@ -314,15 +349,127 @@ function buildOverviewFromLogs({
   };
 }
 
+// Merge rows written by other trackers into the loaded roster
+function applyLiveChanges(
+  data: AttendanceData,
+  eventId: number,
+  changes: AttendanceLiveChange[]
+): AttendanceData {
+  const byCandidate = new Map(
+    changes.map((change) => [change.candidate_id, change.entry])
+  );
+  return {
+    ...data,
+    users: data.users.map((user) => {
+      if (!byCandidate.has(user.user_id)) return user;
+      const entry = byCandidate.get(user.user_id);
+      return {
+        ...user,
+        events: user.events.map((eventEntry) => {
+          if (eventEntry.event_id !== eventId) return eventEntry;
+          if (entry) return { ...entry, event_title: eventEntry.event_title };
+          // Log deleted: back to an empty row
+          return {
+            ...eventEntry,
+            has_log: false,
+            check_in_time: null,
+            check_out_time: null,
+            notes: null,
+            break_started_at: null,
+            break_time: null,
+            break_accumulated: null,
+            break_intervals: [],
+            status: null,
+            duration: null,
+            worked_duration: null,
+            log_id: null,
+          };
+        }),
+      };
+    }),
+  };
+}
+
+// Overlay queued (not yet synced) operations so the table reflects what the
+// tracker already recorded while offline
+function applyOutboxOperations(
+  data: AttendanceData,
+  operations: OutboxOperation[]
+): AttendanceData {
+  const pending = operations.filter(
+    (operation) =>
+      operation.status === "pending" &&
+      operation.payload.attendance_date === data.date
+  );
+  if (pending.length === 0) return data;
+
+  return {
+    ...data,
+    users: data.users.map((user) => {
+      const userOperations = pending.filter(
+        (operation) => operation.payload.candidate_id === user.user_id
+      );
+      if (userOperations.length === 0) return user;
+
+      return {
+        ...user,
+        events: user.events.map((eventEntry) => {
+          let next = eventEntry;
+          userOperations.forEach((operation) => {
+            if (operation.payload.event !== eventEntry.event_id) return;
+            const payload: AttendanceUpdatePayload = operation.payload;
+            next = {
+              ...next,
+              has_log: true,
+              check_in_time: payload.check_in_time ?? next.check_in_time,
+              check_out_time: payload.check_out_time ?? next.check_out_time,
+              notes: payload.notes ?? next.notes,
+            };
+            if (payload.break_start_time) {
+              next = {
+                ...next,
+                break_started_at: payload.break_start_time,
+                break_intervals: [
+                  ...(next.break_intervals ?? []),
+                  { start: payload.break_start_time, end: null },
+                ],
+              };
+            }
+            if (payload.break_end_time) {
+              const breakEnd = payload.break_end_time;
+              const intervals = next.break_intervals ?? [];
+              next = {
+                ...next,
+                break_started_at: null,
+                break_intervals: intervals.map((interval, index) =>
+                  index === intervals.length - 1 && !interval.end
+                    ? { ...interval, end: breakEnd }
+                    : interval
+                ),
+              };
+            }
+          });
+          return next;
+        }),
+      };
+    }),
+  };
+}
+
 export function AttendancePage() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const navigate = useNavigate();
-  const { isAttendanceTracker, isInGroup } = useUserGroups();
-  const [data, setData] = useState<AttendanceData | null>(null);
+  const { isAttendanceTracker, can } = useUserGroups();
+  const { getPolicy } = useAttendancePolicies();
+  // Deep links (e.g. from the anomaly report) open a given day, event and trainee
+  const [searchParams] = useSearchParams();
+  const [serverData, setServerData] = useState<AttendanceData | null>(null);
   const [selectedDate, setSelectedDate] = useState(
-    new Date().toISOString().split("T")[0]
+    () => searchParams.get("date") || new Date().toISOString().split("T")[0]
+  );
+  const [selectedEvent, setSelectedEvent] = useState<number | null>(
+    () => Number(searchParams.get("event")) || null
   );
-  const [selectedEvent, setSelectedEvent] = useState<number | null>(null);
   const [selectedUsers, setSelectedUsers] = useState<Set<number>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -331,8 +478,17 @@ export function AttendancePage() {
     "checkin"
   );
   const [pendingUserId, setPendingUserId] = useState<number | null>(null);
-  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [searchQuery, setSearchQuery] = useState<string>(
+    () => searchParams.get("q") ?? ""
+  );
   const [selectedTrack, setSelectedTrack] = useState<string>("all");
+  const [viewMode, setViewMode] = useState<"day" | "week">("day");
+  const [showPolicyDialog, setShowPolicyDialog] = useState(false);
+  const [showKioskDialog, setShowKioskDialog] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<{
+    ref: AttendanceLogRef;
+    subtitle: string;
+  } | null>(null);
   const [statusFilter, setStatusFilter] = useState<
     "all" | "present" | "absent" | "break"
   >("all");
@@ -348,6 +504,7 @@ export function AttendancePage() {
   const [exportFromDate, setExportFromDate] = useState<string>("");
   const [exportToDate, setExportToDate] = useState<string>("");
   const [isExporting, setIsExporting] = useState(false);
+  const [isExportingXlsx, setIsExportingXlsx] = useState(false);
   const [noteDialogOpen, setNoteDialogOpen] = useState(false);
   const [noteDialogUser, setNoteDialogUser] = useState<{
     userId: number;
@@ -357,7 +514,7 @@ export function AttendancePage() {
   const [noteDialogValue, setNoteDialogValue] = useState("");
   const [isSavingNote, setIsSavingNote] = useState(false);
 
-  const fetchData = useCallback(async () => {
+  const fetchData = useCallback(async (): Promise<AttendanceData | null> => {
     setIsLoading(true);
     try {
       const [logs, eventsList, candidatesResponse] = await Promise.all([
@@ -371,7 +528,9 @@ export function AttendancePage() {
         candidates: candidatesResponse.results ?? [],
         date: selectedDate,
       });
-      setData(transformed);
+      setServerData(transformed);
+      // Keep the week grid in step with edits made in the day view
+      invalidateQueries(queryKeys.attendanceRange());
       setSelectedEvent((current) => {
         if (
           current &&
@@ -381,9 +540,11 @@ export function AttendancePage() {
         }
         return transformed.events[0]?.id ?? null;
       });
+      return transformed;
     } catch (error) {
       console.error("Failed to fetch attendance data:", error);
       toast.error("Failed to load attendance data");
+      return null;
     } finally {
       setIsLoading(false);
     }
@@ -395,6 +556,76 @@ export function AttendancePage() {
     setSelectedUsers(new Set());
   }, [fetchData]);
 
+  const outbox = useAttendanceOutbox({ onSynced: fetchData });
+  const data = useMemo(
+    () =>
+      serverData ? applyOutboxOperations(serverData, outbox.pending) : null,
+    [serverData, outbox.pending]
+  );
+  const pendingSyncUserIds = useMemo(
+    () =>
+      new Set(
+        outbox.pending
+          .filter(
+            (operation) =>
+              operation.payload.attendance_date === selectedDate &&
+              operation.payload.event === selectedEvent
+          )
+          .map((operation) => operation.payload.candidate_id)
+      ),
+    [outbox.pending, selectedDate, selectedEvent]
+  );
+
+  const live = useAttendanceLive({
+    event: selectedEvent,
+    date: selectedDate,
+    enabled: viewMode === "day",
+    onChanges: (changes) => {
+      if (!selectedEvent) return;
+      setServerData((current) =>
+        current ? applyLiveChanges(current, selectedEvent, changes) : current
+      );
+      // Drop optimistic break markers the other tracker may have resolved
+      setOnBreakUsers((prev) => {
+        const next = { ...prev };
+        changes.forEach((change) => delete next[change.candidate_id]);
+        return next;
+      });
+      invalidateQueries(queryKeys.attendanceRange());
+    },
+    // Other trackers' writes during the drop never arrive; reload the roster
+    onReconnect: () => {
+      fetchData();
+    },
+  });
+
+  // Reload, then push the fresh rows to other trackers on this event
+  const refreshAndAnnounce = async (userIds: number[]) => {
+    const eventId = selectedEvent;
+    const next = await fetchData();
+    if (!next || !eventId) return;
+    live.publish(
+      userIds.map((userId) => ({
+        candidate_id: userId,
+        entry:
+          next.users
+            .find((user) => user.user_id === userId)
+            ?.events.find((eventEntry) => eventEntry.event_id === eventId) ??
+          null,
+      }))
+    );
+  };
+
+  const notifyQueued = (count = 1) => {
+    toast.info(
+      t("pages.attendance.outbox.queued", {
+        count,
+        defaultValue:
+          "Offline: {{count}} change(s) saved and will sync when the connection returns",
+      })
+    );
+  };
+
   const getCurrentTime = () => {
     const now = new Date();
     return now.toTimeString().slice(0, 8); // HH:MM:SS format
@@ -405,10 +636,15 @@ export function AttendancePage() {
     setIsSubmitting(true);
     const checkInTimeValue = time || getCurrentTime();
     try {
-      const response = await submitCheckInForUser(userId, checkInTimeValue);
-      if (response.success > 0) {
+      const { response } = await submitCheckInForUser(
+        userId,
+        checkInTimeValue
+      );
+      if (!response) {
+        notifyQueued();
+      } else if (response.success > 0) {
         toast.success("Checked in successfully");
-        await fetchData();
+        await refreshAndAnnounce([userId]);
       } else {
         toast.error(response.results[0]?.message || "Failed to check in");
       }
@@ -434,10 +670,17 @@ export function AttendancePage() {
       if (preservedNote) {
         (payload as CheckOutPayload & { notes: string }).notes = preservedNote;
       }
-      const response = await submitCheckOut(payload);
-      if (response.success > 0) {
+      const { response } = await submitOrQueueAttendance({
+        kind: "update",
+        method: "PUT",
+        payload,
+        label: getOutboxLabel(userId, "Check out"),
+      });
+      if (!response) {
+        notifyQueued();
+      } else if (response.success > 0) {
         toast.success("Checked out successfully");
-        await fetchData();
+        await refreshAndAnnounce([userId]);
       } else {
         toast.error(response.results[0]?.message || "Failed to check out");
       }
@@ -468,10 +711,17 @@ export function AttendancePage() {
       }
 
       const checkInTimeValue = time || getCurrentTime();
-      const promises = eligibleUsers.map((userId) =>
-        submitCheckInForUser(userId, checkInTimeValue)
+      // Sequential so queued operations keep the selection order
+      const results = [];
+      for (const userId of eligibleUsers) {
+        results.push(
+          await submitCheckInForUser(userId, checkInTimeValue, "bulk")
+        );
+      }
+      const responses = results.flatMap((result) =>
+        result.response ? [result.response] : []
       );
-      const responses = await Promise.all(promises);
+      const queuedCount = results.length - responses.length;
       const totalSuccess = responses.reduce((sum, res) => sum + res.success, 0);
       const totalErrors = responses.reduce((sum, res) => sum + res.errors, 0);
 
@@ -479,6 +729,7 @@ export function AttendancePage() {
         toast.success(`Successfully checked in ${totalSuccess} user(s)`);
       if (totalErrors > 0)
         toast.error(`Failed to check in ${totalErrors} user(s)`);
+      if (queuedCount > 0) notifyQueued(queuedCount);
 
       const skippedCount = selectedUsers.size - eligibleUsers.length;
       if (skippedCount > 0) {
@@ -487,7 +738,7 @@ export function AttendancePage() {
         );
       }
 
-      await fetchData();
+      if (responses.length > 0) await refreshAndAnnounce(eligibleUsers);
     } catch (error) {
       console.error("Bulk check-in error:", error);
       toast.error("Failed to perform bulk check-in");
@@ -517,17 +768,31 @@ export function AttendancePage() {
         return;
       }
 
-      const promises = eligibleUsers.map((userId) => {
+      const checkOutTimeValue = time || getCurrentTime();
+      // Sequential so queued operations keep the selection order
+      const results = [];
+      for (const userId of eligibleUsers) {
         const payload: CheckOutPayload = {
           candidate_id: userId,
           event: selectedEvent,
           attendance_date: selectedDate,
-          check_out_time: time || getCurrentTime(),
+          check_out_time: checkOutTimeValue,
           notes: "",
+          source: "bulk",
         };
-        return submitCheckOut(payload);
-      });
-      const responses = await Promise.all(promises);
+        results.push(
+          await submitOrQueueAttendance({
+            kind: "update",
+            method: "PUT",
+            payload,
+            label: getOutboxLabel(userId, "Check out"),
+          })
+        );
+      }
+      const responses = results.flatMap((result) =>
+        result.response ? [result.response] : []
+      );
+      const queuedCount = results.length - responses.length;
       const totalSuccess = responses.reduce((sum, res) => sum + res.success, 0);
       const totalErrors = responses.reduce((sum, res) => sum + res.errors, 0);
 
@@ -535,6 +800,7 @@ export function AttendancePage() {
         toast.success(`Successfully checked out ${totalSuccess} user(s)`);
       if (totalErrors > 0)
         toast.error(`Failed to check out ${totalErrors} user(s)`);
+      if (queuedCount > 0) notifyQueued(queuedCount);
 
       const skippedCount = selectedUsers.size - eligibleUsers.length;
       if (skippedCount > 0) {
@@ -543,7 +809,7 @@ export function AttendancePage() {
         );
       }
 
-      await fetchData();
+      if (responses.length > 0) await refreshAndAnnounce(eligibleUsers);
     } catch (error) {
       console.error("Bulk check-out error:", error);
       toast.error("Failed to perform bulk check-out");
@@ -572,14 +838,20 @@ export function AttendancePage() {
       if (preservedNote) {
         payload.notes = preservedNote;
       }
-      const response = await submitAttendanceUpdate(payload);
-      if (response.success > 0) {
+      const { response } = await submitOrQueueAttendance({
+        kind: "update",
+        payload,
+        label: getOutboxLabel(userId, "Start break"),
+      });
+      if (!response) {
+        notifyQueued();
+      } else if (response.success > 0) {
         toast.success("Break started successfully");
         setOnBreakUsers((prev) => ({
           ...prev,
           [userId]: payload.break_start_time!,
         }));
-        await fetchData();
+        await refreshAndAnnounce([userId]);
       } else {
         toast.error(response.results[0]?.message || "Failed to start break");
       }
@@ -611,15 +883,21 @@ export function AttendancePage() {
       if (preservedNote) {
         payload.notes = preservedNote;
       }
-      const response = await submitAttendanceUpdate(payload);
-      if (response.success > 0) {
+      const { response } = await submitOrQueueAttendance({
+        kind: "update",
+        payload,
+        label: getOutboxLabel(userId, "End break"),
+      });
+      if (!response) {
+        notifyQueued();
+      } else if (response.success > 0) {
         toast.success("Break ended successfully");
         setOnBreakUsers((prev) => {
           const next = { ...prev };
           delete next[userId];
           return next;
         });
-        await fetchData();
+        await refreshAndAnnounce([userId]);
       } else {
         toast.error(response.results[0]?.message || "Failed to end break");
       }
@@ -688,7 +966,7 @@ export function AttendancePage() {
         setNoteDialogOpen(false);
         setNoteDialogUser(null);
         setNoteDialogValue("");
-        await fetchData();
+        await refreshAndAnnounce([noteDialogUser.userId]);
       } else {
         toast.error(response.results[0]?.message || "Failed to update notes");
       }
@@ -711,16 +989,8 @@ export function AttendancePage() {
     navigate(`/candidates/${userId}`);
   };
 
-  // Check if user has both instructor and attendance_tracker permissions
-  const canNavigateToUserDetails = () => {
-    const hasInstructor =
-      isInGroup("instructor -> Software") ||
-      isInGroup("instructor -> Network") ||
-      isInGroup("instructor -> Data") ||
-      isInGroup("instructor");
-    const hasAttendanceTracker = isInGroup("attendance_tracker");
-    return hasInstructor && hasAttendanceTracker;
-  };
+  // Trackers who can also read candidates (e.g. instructors) get the links
+  const canNavigateToUserDetails = () => can("candidates.read");
 
   const handleSelectAll = (checked: boolean) => {
     if (checked && data) {
@@ -852,6 +1122,21 @@ export function AttendancePage() {
       ? data.events.find((event) => event.id === selectedEvent) ?? null
       : null;
 
+  const classifyUserEvent = (
+    user: OverviewUserWithMeta,
+    eventData: AttendanceOverviewEntry | undefined
+  ) =>
+    classifyAttendance(
+      {
+        checkIn: eventData?.check_in_time,
+        checkOut: eventData?.check_out_time,
+        eventStart: currentEvent?.start_time,
+        eventEnd: currentEvent?.end_time,
+        breakMinutes: getBreakMinutes(eventData),
+      },
+      getPolicy(user.track)
+    );
+
   const getUserEventData = (userId: number) => {
     if (!data || !selectedEvent) return null;
     const user = data.users.find((u) => u.user_id === userId);
@@ -861,6 +1146,14 @@ export function AttendancePage() {
     );
   };
 
+  // Human-readable description of a queued operation for the sync panel
+  const getOutboxLabel = (userId: number, action: string) => {
+    const user = data?.users.find((u) => u.user_id === userId);
+    const name =
+      user?.full_name || user?.user_name || user?.user_email || `User ${userId}`;
+    return `${name} • ${action} • ${selectedDate}`;
+  };
+
   const getExistingNoteForUser = (userId: number) => {
     const eventData = getUserEventData(userId);
     const note = eventData?.notes;
@@ -881,23 +1174,28 @@ export function AttendancePage() {
 
   const submitCheckInForUser = async (
     userId: number,
-    checkInTimeValue: string
+    checkInTimeValue: string,
+    source?: AttendanceChangeSource
   ) => {
     if (!selectedEvent) {
       throw new Error("Cannot check in without a selected event");
     }
     const preservedNote = getExistingNoteForUser(userId);
+    const label = getOutboxLabel(userId, "Check in");
     if (hasAttendanceLog(userId)) {
-      return submitAttendanceUpdateWithOptions(
-        {
+      return submitOrQueueAttendance({
+        kind: "update",
+        method: "PUT",
+        payload: {
           candidate_id: userId,
           event: selectedEvent,
           attendance_date: selectedDate,
           check_in_time: checkInTimeValue,
           ...(preservedNote ? { notes: preservedNote } : {}),
-        } as AttendanceUpdatePayload,
-        { method: "PUT" }
-      );
+          ...(source ? { source } : {}),
+        },
+        label,
+      });
     }
     const payload: CheckInPayload = {
       candidate_id: userId,
@@ -905,8 +1203,9 @@ export function AttendancePage() {
       attendance_date: selectedDate,
       check_in_time: checkInTimeValue,
       notes: preservedNote ?? "",
+      ...(source ? { source } : {}),
     };
-    return submitCheckIn(payload);
+    return submitOrQueueAttendance({ kind: "checkin", payload, label });
   };
 
   const handleStatusButtonClick = (
@@ -971,12 +1270,9 @@ export function AttendancePage() {
       const checkInTime = eventData?.check_in_time || "";
       const checkOutTime = eventData?.check_out_time || "";
 
-      let status = "Absent";
-      if (checkInTime && checkOutTime) {
-        status = "Present";
-      } else if (checkInTime && !checkOutTime) {
-        status = "Partial";
-      }
+      const status = classifyUserEvent(user, eventData)
+        .statuses.map((value) => ATTENDANCE_POLICY_STATUS_LABELS[value])
+        .join(", ");
 
       // Ensure proper text encoding for Arabic and other Unicode characters
       const sanitizeText = (text: string) => {
@@ -1098,6 +1394,64 @@ export function AttendancePage() {
     }
   };
 
+  const handleXlsxExport = async () => {
+    if (!exportFromDate || !exportToDate) {
+      toast.error("Please select both from and to dates");
+      return;
+    }
+
+    if (exportFromDate > exportToDate) {
+      toast.error("From date cannot be later than to date");
+      return;
+    }
+
+    setIsExportingXlsx(true);
+    try {
+      const params = {
+        from: exportFromDate,
+        to: exportToDate,
+        track: selectedTrack !== "all" ? selectedTrack : undefined,
+      };
+      // An export must reflect the latest edits, never a cached range
+      const range = await fetchQuery(
+        queryKeys.attendanceRange(params),
+        () => getAttendanceRange(params),
+        { force: true }
+      );
+      if (range.users.length === 0) {
+        toast.info("No attendance found in this date range");
+        return;
+      }
+
+      const blob = buildXlsx(
+        buildAttendanceWorkbook(range, {
+          getPolicy,
+          rightToLeft: (i18n.language || "en").startsWith("ar"),
+        })
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      const fromDateStr = exportFromDate.replace(/-/g, "");
+      const toDateStr = exportToDate.replace(/-/g, "");
+      const trackStr = params.track
+        ? `_${params.track.replace(/[^a-zA-Z0-9]/g, "_")}`
+        : "";
+      link.download = `attendance_${fromDateStr}_to_${toDateStr}${trackStr}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${range.users.length} trainee(s) to Excel`);
+    } catch (error) {
+      console.error("XLSX export error:", error);
+      toast.error("Failed to export attendance data");
+    } finally {
+      setIsExportingXlsx(false);
+    }
+  };
+
   if (!isAttendanceTracker) {
     return (
       <div className="container mx-auto px-6 py-8">
@@ -1139,14 +1493,133 @@ export function AttendancePage() {
             <p className="text-muted-foreground">
               {t("pages.attendance.subtitle")}
             </p>
+            {viewMode === "day" && selectedEvent && (
+              <div className="mt-2">
+                <AttendanceLivePresence
+                  status={live.status}
+                  peers={live.peers}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {outbox.pendingCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => outbox.sync()}
+                disabled={outbox.isSyncing}
+                className="flex items-center gap-2 border-amber-300 text-amber-700 dark:border-amber-500/40 dark:text-amber-300"
+                title={t("pages.attendance.outbox.syncNow", {
+                  defaultValue: "Sync now",
+                })}
+              >
+                {outbox.isSyncing ? (
+                  <IconRefresh className="size-4 animate-spin" />
+                ) : (
+                  <IconCloudOff className="size-4" />
+                )}
+                {t("pages.attendance.outbox.pendingCount", {
+                  count: outbox.pendingCount,
+                  defaultValue: "{{count}} pending sync",
+                })}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowPolicyDialog(true)}
+              className="flex items-center gap-2"
+            >
+              <IconAdjustments className="size-4" />
+              {t("pages.attendance.policy.button", { defaultValue: "Policy" })}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate("/attendance/requests")}
+              className="flex items-center gap-2"
+            >
+              <IconInbox className="size-4" />
+              {t("pages.attendance.requestsButton", {
+                defaultValue: "Requests",
+              })}
+            </Button>
+            {selectedEvent && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  navigate(
+                    `/attendance/qr/${selectedEvent}?date=${selectedDate}`
+                  )
+                }
+                className="flex items-center gap-2"
+              >
+                <IconQrcode className="size-4" />
+                {t("pages.attendance.qrCheckIn", {
+                  defaultValue: "QR check-in",
+                })}
+              </Button>
+            )}
+            {selectedEvent && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowKioskDialog(true)}
+                className="flex items-center gap-2"
+              >
+                <IconDeviceDesktop className="size-4" />
+                {t("pages.attendance.kiosk", { defaultValue: "Kiosk" })}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => navigate(-1)}>
+              <IconArrowBackUp className="size-4 mr-2" />
+              {t("common.buttons.back", { defaultValue: "Back" })}
+            </Button>
           </div>
-          <Button variant="ghost" onClick={() => navigate(-1)}>
-            <IconArrowBackUp className="size-4 mr-2" />
-            {t("common.actions.back", { defaultValue: "Back" })}
-          </Button>
         </div>
       </div>
 
+      {/* Sync conflicts: queued operations the server rejected on replay */}
+      {outbox.conflicts.length > 0 && (
+        <Card className="border-destructive/40">
+          <CardHeader>
+            <CardTitle className="text-base text-destructive">
+              {t("pages.attendance.outbox.conflictsTitle", {
+                count: outbox.conflicts.length,
+                defaultValue: "{{count}} offline change(s) could not be synced",
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {outbox.conflicts.map((operation) => (
+              <div
+                key={operation.id}
+                className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm"
+              >
+                <div>
+                  <div className="font-medium">{operation.label}</div>
+                  <div className="text-muted-foreground">
+                    {operation.conflict}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => outbox.dismissConflict(operation.id)}
+                  title={t("pages.attendance.outbox.dismiss", {
+                    defaultValue: "Dismiss",
+                  })}
+                >
+                  <IconX className="size-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Attendance Statistics */}
       {selectedEvent && data && (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1239,8 +1712,23 @@ export function AttendancePage() {
             </div>
           </div>
 
-          {/* Export Button */}
-          <div className="flex justify-end">
+          {/* Export Buttons */}
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={handleXlsxExport}
+              disabled={isExportingXlsx || !exportFromDate || !exportToDate}
+              className="flex items-center gap-2"
+            >
+              {isExportingXlsx ? (
+                <Loader className="size-4" />
+              ) : (
+                <IconFileSpreadsheet className="size-4" />
+              )}
+              {t("pages.attendance.exportXlsx", {
+                defaultValue: "Export Excel",
+              })}
+            </Button>
             <Button
               onClick={handleBackendExport}
               disabled={isExporting || !exportFromDate || !exportToDate}
@@ -1267,6 +1755,7 @@ export function AttendancePage() {
               <div>
                 Date Range: {exportFromDate} to {exportToDate}
               </div>
+              {selectedTrack !== "all" && <div>Track: {selectedTrack}</div>}
             </div>
           )}
         </CardContent>
@@ -1294,11 +1783,30 @@ export function AttendancePage() {
               />
             </div>
 
-            <div />
+            <div className="space-y-2">
+              <label className="text-sm font-medium">
+                {t("pages.attendance.view", { defaultValue: "View" })}
+              </label>
+              <ToggleGroup
+                type="single"
+                value={viewMode}
+                onValueChange={(value) => {
+                  if (value) setViewMode(value as "day" | "week");
+                }}
+                variant="outline"
+              >
+                <ToggleGroupItem value="day">
+                  {t("pages.attendance.dayView", { defaultValue: "Day" })}
+                </ToggleGroupItem>
+                <ToggleGroupItem value="week">
+                  {t("pages.attendance.weekView", { defaultValue: "Week" })}
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
           </div>
 
           {/* Bulk Actions */}
-          {selectedEvent && selectedUsers.size > 0 && (
+          {viewMode === "day" && selectedEvent && selectedUsers.size > 0 && (
             <div className="flex gap-3 pt-4 border-t">
               <Button
                 onClick={() => handleBulkCheckIn()}
@@ -1344,8 +1852,50 @@ export function AttendancePage() {
         </CardContent>
       </Card>
 
+      {/* Week grid: one range request for the whole week */}
+      {viewMode === "week" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <IconCalendar className="size-5" />
+                {t("pages.attendance.week.title", {
+                  defaultValue: "Weekly overview",
+                })}
+              </div>
+              {getAvailableTracks().length > 0 && (
+                <Select
+                  value={selectedTrack}
+                  onValueChange={(value) => setSelectedTrack(value)}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Filter by track" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getAvailableTracks().map((track) => (
+                      <SelectItem key={track} value={track}>
+                        {track}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="all">Clear filter</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AttendanceWeekGrid
+              date={selectedDate}
+              onDateChange={setSelectedDate}
+              event={selectedEvent}
+              track={selectedTrack !== "all" ? selectedTrack : null}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Users Table */}
-      {selectedEvent && (
+      {viewMode === "day" && selectedEvent && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
@@ -1565,8 +2115,16 @@ export function AttendancePage() {
                       user.user_email ||
                       user.phone ||
                       "—";
+                    const remoteChange = live.remoteChanges[user.user_id];
                     return (
-                      <TableRow key={user.user_id}>
+                      <TableRow
+                        key={user.user_id}
+                        className={
+                          remoteChange
+                            ? "bg-sky-50 dark:bg-sky-500/10 transition-colors"
+                            : "transition-colors"
+                        }
+                      >
                         <TableCell>
                           <Checkbox
                             checked={selectedUsers.has(user.user_id)}
@@ -1601,6 +2159,23 @@ export function AttendancePage() {
                                 {user.track}
                               </div>
                             )}
+                            {remoteChange && (
+                              <div className="text-xs text-sky-700 dark:text-sky-300 mt-1 flex items-center gap-1">
+                                <IconBroadcast className="size-3" />
+                                {t("pages.attendance.live.changedBy", {
+                                  name: remoteChange.by,
+                                  defaultValue: "Updated by {{name}}",
+                                })}
+                              </div>
+                            )}
+                            {pendingSyncUserIds.has(user.user_id) && (
+                              <div className="text-xs text-amber-600 dark:text-amber-400 mt-1 flex items-center gap-1">
+                                <IconCloudOff className="size-3" />
+                                {t("pages.attendance.outbox.rowPending", {
+                                  defaultValue: "Pending sync",
+                                })}
+                              </div>
+                            )}
                             {(breakInfo || totalBreakTime) && (
                               <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
                                 {breakInfo && <div>{breakInfo}</div>}
@@ -1622,6 +2197,9 @@ export function AttendancePage() {
                                 eventData?.break_started_at ||
                                 null
                               }
+                              policyStatuses={
+                                classifyUserEvent(user, eventData).statuses
+                              }
                             />
                             {breakIntervals.length > 0 && (
                               <DropdownMenu>
@@ -1716,7 +2294,10 @@ export function AttendancePage() {
                                 variant="ghost"
                                 className="px-2"
                                 disabled={
-                                  isSubmitting || (!canCheckIn && !canCheckOut)
+                                  isSubmitting ||
+                                  (!canCheckIn &&
+                                    !canCheckOut &&
+                                    !eventData?.log_id)
                                 }
                                 title="More actions"
                               >
@@ -1748,6 +2329,25 @@ export function AttendancePage() {
                                   {t("common.labels.time")})
                                 </DropdownMenuItem>
                               )}
+                              {eventData?.log_id && selectedEvent && (
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    setHistoryTarget({
+                                      ref: {
+                                        candidate_id: user.user_id,
+                                        event: selectedEvent,
+                                        attendance_date: selectedDate,
+                                      },
+                                      subtitle: `${displayName} • ${selectedDate}`,
+                                    })
+                                  }
+                                >
+                                  <IconHistory className="size-4" />
+                                  {t("pages.attendance.history.menu", {
+                                    defaultValue: "Change history",
+                                  })}
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
@@ -1804,6 +2404,30 @@ export function AttendancePage() {
         </DialogContent>
       </Dialog>
 
+      <AttendancePolicyDialog
+        open={showPolicyDialog}
+        onOpenChange={setShowPolicyDialog}
+        tracks={getAvailableTracks()}
+      />
+
+      {selectedEvent && (
+        <KioskStartDialog
+          open={showKioskDialog}
+          onOpenChange={setShowKioskDialog}
+          eventId={selectedEvent}
+          date={selectedDate}
+        />
+      )}
+
+      <AttendanceLogHistoryDialog
+        open={historyTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setHistoryTarget(null);
+        }}
+        logRef={historyTarget?.ref ?? null}
+        subtitle={historyTarget?.subtitle}
+      />
+
       {/* Time Picker Dialog */}
       <TimePickerDialog
         open={showTimePicker}
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { IconArrowBackUp, IconQrcode, IconUsers } from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QrCode } from "@/components/QrCode";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import {
+  createAttendanceQrToken,
+  getAttendanceQrScans,
+  getEvents,
+  type AttendanceQrScan,
+  type AttendanceQrToken,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { fetchQuery } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
+
+const TTL_STORAGE_KEY = "attendance_qr_ttl";
+const TTL_OPTIONS = [15, 30, 60, 120];
+const DEFAULT_TTL = 30;
+const ROSTER_POLL_MS = 5000;
+
+function readStoredTtl(): number {
+  const stored = Number(localStorage.getItem(TTL_STORAGE_KEY));
+  return TTL_OPTIONS.includes(stored) ? stored : DEFAULT_TTL;
+}
+
+export default function AttendanceQrPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { eventId: eventIdParam } = useParams();
+  const [searchParams] = useSearchParams();
+  const { isAttendanceTracker } = useUserGroups();
+
+  const eventId = Number(eventIdParam);
+  const date =
+    searchParams.get("date") || new Date().toISOString().split("T")[0];
+
+  const [ttlSeconds, setTtlSeconds] = useState(readStoredTtl);
+  const [qrToken, setQrToken] = useState<AttendanceQrToken | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [scans, setScans] = useState<AttendanceQrScan[]>([]);
+  const [eventTitle, setEventTitle] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQuery(queryKeys.attendanceEvents(), getEvents)
+      .then((events) => {
+        const event = events.find((item) => item.id === eventId);
+        setEventTitle(event?.title ?? null);
+      })
+      .catch(() => {
+        // Title is cosmetic; the QR still works without it
+      });
+  }, [eventId]);
+
+  const issueToken = useCallback(async () => {
+    try {
+      const next = await createAttendanceQrToken({
+        event: eventId,
+        attendance_date: date,
+        ttl_seconds: ttlSeconds,
+      });
+      setQrToken(next);
+      setTokenError(null);
+    } catch (error) {
+      console.error("Failed to issue attendance QR token:", error);
+      setTokenError(getErrorMessage(error, "Failed to generate QR code"));
+    }
+  }, [eventId, date, ttlSeconds]);
+
+  // Rotate before expiry so the displayed code is always still valid
+  useEffect(() => {
+    if (!eventId) return;
+    issueToken();
+    const rotateMs = Math.max(ttlSeconds * 1000 * 0.8, 5000);
+    const interval = window.setInterval(issueToken, rotateMs);
+    return () => window.clearInterval(interval);
+  }, [eventId, ttlSeconds, issueToken]);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!eventId) return;
+    let cancelled = false;
+    const loadScans = () => {
+      getAttendanceQrScans({ event: eventId, date })
+        .then((results) => {
+          if (!cancelled) setScans(results);
+        })
+        .catch((error) => {
+          console.error("Failed to load QR check-ins:", error);
+        });
+    };
+    loadScans();
+    const interval = window.setInterval(loadScans, ROSTER_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [eventId, date]);
+
+  const handleTtlChange = (value: string) => {
+    const next = Number(value);
+    localStorage.setItem(TTL_STORAGE_KEY, String(next));
+    setTtlSeconds(next);
+  };
+
+  const secondsLeft = qrToken
+    ? Math.max(
+        0,
+        Math.ceil((new Date(qrToken.expires_at).getTime() - now) / 1000)
+      )
+    : 0;
+
+  const scanUrl = useMemo(() => {
+    if (!qrToken) return null;
+    const params = new URLSearchParams({ token: qrToken.token });
+    return `${window.location.origin}/attendance/scan?${params}`;
+  }, [qrToken]);
+
+  const sortedScans = useMemo(
+    () =>
+      [...scans].sort(
+        (a, b) =>
+          new Date(b.scanned_at).getTime() - new Date(a.scanned_at).getTime()
+      ),
+    [scans]
+  );
+
+  if (!isAttendanceTracker) {
+    return (
+      <div className="container mx-auto px-6 py-8">
+        <Card>
+          <CardContent className="pt-6 text-center py-8 text-muted-foreground">
+            You don't have permission to access attendance features.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <IconQrcode className="size-7" />
+            {t("pages.attendanceQr.title", {
+              defaultValue: "QR self check-in",
+            })}
+          </h1>
+          <p className="text-muted-foreground">
+            {eventTitle ?? `Event ${eventId}`} • {date}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(ttlSeconds)} onValueChange={handleTtlChange}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TTL_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {t("pages.attendanceQr.validFor", {
+                    count: option,
+                    defaultValue: "Valid for {{count}}s",
+                  })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" onClick={() => navigate("/attendance")}>
+            <IconArrowBackUp className="size-4 mr-2" />
+            {t("common.buttons.back", { defaultValue: "Back" })}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6">
+        <Card>
+          <CardContent className="pt-6 flex flex-col items-center gap-4">
+            {tokenError ? (
+              <div className="w-80 h-80 flex items-center justify-center text-center text-destructive">
+                {tokenError}
+              </div>
+            ) : scanUrl ? (
+              <QrCode value={scanUrl} size={320} />
+            ) : (
+              <div className="w-80 h-80 flex items-center justify-center">
+                <Loader />
+              </div>
+            )}
+            <div className="text-sm text-muted-foreground">
+              {t("pages.attendanceQr.expiresIn", {
+                count: secondsLeft,
+                defaultValue: "Code refreshes automatically • expires in {{count}}s",
+              })}
+            </div>
+            <p className="max-w-xs text-center text-sm text-muted-foreground">
+              {t("pages.attendanceQr.instructions", {
+                defaultValue:
+                  "Trainees scan this code with their phone camera or from the Self check-in page.",
+              })}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <IconUsers className="size-5" />
+              {t("pages.attendanceQr.roster", {
+                count: sortedScans.length,
+                defaultValue: "Checked in ({{count}})",
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sortedScans.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {t("pages.attendanceQr.empty", {
+                  defaultValue: "No one has scanned yet",
+                })}
+              </div>
+            ) : (
+              <ul className="divide-y">
+                {sortedScans.map((scan) => (
+                  <li
+                    key={scan.candidate.id}
+                    className="flex items-center justify-between py-2"
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {scan.candidate.full_name ||
+                          scan.candidate.name ||
+                          scan.candidate.email}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {scan.candidate.email}
+                      </div>
+                    </div>
+                    <div className="text-sm tabular-nums">
+                      {scan.check_in_time}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,491 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  IconArrowBackUp,
+  IconCheck,
+  IconHistory,
+  IconInbox,
+  IconPaperclip,
+  IconX,
+} from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AttendanceRequestHistory,
+  AttendanceRequestStatusBadge,
+} from "@/components/AttendanceRequestHistory";
+import { useQuery } from "@/hooks/useQuery";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import {
+  deleteAttendanceLog,
+  getAttendanceRange,
+  getAttendanceRequests,
+  reviewAttendanceRequest,
+  submitAttendanceUpdate,
+  type AttendanceRequest,
+  type AttendanceRequestHistoryEntry,
+  type AttendanceRequestStatus,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { invalidateQueries } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
+
+type StatusFilter = AttendanceRequestStatus | "all";
+
+type LogTimes = {
+  check_in_time: string | null;
+  check_out_time: string | null;
+};
+
+// Proposed times that differ from the record, as history changes
+function getProposedChanges(
+  request: AttendanceRequest,
+  // Defaults to the record as it was when the request was filed
+  current: LogTimes = {
+    check_in_time: request.current_check_in_time,
+    check_out_time: request.current_check_out_time,
+  }
+): NonNullable<AttendanceRequestHistoryEntry["changes"]> {
+  const changes: NonNullable<AttendanceRequestHistoryEntry["changes"]> = {};
+  if (
+    request.proposed_check_in_time &&
+    request.proposed_check_in_time !== current.check_in_time
+  ) {
+    changes.check_in_time = {
+      from: current.check_in_time,
+      to: request.proposed_check_in_time,
+    };
+  }
+  if (
+    request.proposed_check_out_time &&
+    request.proposed_check_out_time !== current.check_out_time
+  ) {
+    changes.check_out_time = {
+      from: current.check_out_time,
+      to: request.proposed_check_out_time,
+    };
+  }
+  return changes;
+}
+
+// The log as it is now (it may have changed since the request was filed);
+// null when there is no log for the event and day
+async function getCurrentLog(
+  request: AttendanceRequest
+): Promise<LogTimes | null> {
+  const range = await getAttendanceRange({
+    from: request.attendance_date,
+    to: request.attendance_date,
+    event: request.event,
+    user: request.trainee.id,
+  });
+  const entry = range.users
+    .find((user) => user.user_id === request.trainee.id)
+    ?.days[request.attendance_date]?.find(
+      (item) => item.event_id === request.event
+    );
+  return entry
+    ? {
+        check_in_time: entry.check_in_time ?? null,
+        check_out_time: entry.check_out_time ?? null,
+      }
+    : null;
+}
+
+async function writeLog(
+  payload: Parameters<typeof submitAttendanceUpdate>[0],
+  method: "POST" | "PUT"
+) {
+  const response = await submitAttendanceUpdate(payload, { method });
+  if (response.errors > 0) {
+    throw new Error(
+      response.results[0]?.message || "Failed to update attendance record"
+    );
+  }
+}
+
+type AppliedCorrection = {
+  changes: NonNullable<AttendanceRequestHistoryEntry["changes"]>;
+  // Restores the log exactly; null when that isn't possible (a time that
+  // was empty can't be cleared again through the submit endpoint)
+  undo: (() => Promise<void>) | null;
+};
+
+// Write an approved correction to the attendance log itself
+async function applyCorrection(
+  request: AttendanceRequest
+): Promise<AppliedCorrection> {
+  const current = await getCurrentLog(request);
+  const changes = getProposedChanges(request, {
+    check_in_time: current?.check_in_time ?? null,
+    check_out_time: current?.check_out_time ?? null,
+  });
+  if (Object.keys(changes).length === 0) {
+    // Already on the log, e.g. an earlier approval wrote it but failed to
+    // mark the request; record what the request asked for
+    return { changes: getProposedChanges(request), undo: null };
+  }
+
+  const ref = {
+    candidate_id: request.trainee.id,
+    event: request.event,
+    attendance_date: request.attendance_date,
+  };
+  await writeLog(
+    {
+      ...ref,
+      check_in_time: changes.check_in_time?.to ?? undefined,
+      check_out_time: changes.check_out_time?.to ?? undefined,
+      source: "correction",
+    },
+    // No log right now means the correction creates one
+    current ? "PUT" : "POST"
+  );
+
+  if (!current) {
+    return {
+      changes,
+      undo: () => deleteAttendanceLog({ ...ref, source: "correction" }),
+    };
+  }
+  const restorable = Object.values(changes).every(
+    (change) => change.from !== null
+  );
+  return {
+    changes,
+    undo: restorable
+      ? () =>
+          writeLog(
+            {
+              ...ref,
+              check_in_time: changes.check_in_time?.from ?? undefined,
+              check_out_time: changes.check_out_time?.from ?? undefined,
+              source: "correction",
+            },
+            "PUT"
+          )
+      : null,
+  };
+}
+
+function RequestCard({ request }: { request: AttendanceRequest }) {
+  const { t } = useTranslation();
+  const [note, setNote] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const changes = getProposedChanges(request);
+  const traineeName =
+    request.trainee.full_name || request.trainee.name || request.trainee.email;
+
+  const handleReview = async (decision: "approved" | "rejected") => {
+    setIsReviewing(true);
+    let applied: AppliedCorrection | null = null;
+    try {
+      if (decision === "approved" && request.type === "correction") {
+        applied = await applyCorrection(request);
+      }
+      await reviewAttendanceRequest(request.id, {
+        decision,
+        note: note.trim() || undefined,
+        applied_changes: applied?.changes,
+      });
+      if (applied) {
+        invalidateQueries(queryKeys.attendanceRange());
+      }
+      toast.success(
+        decision === "approved"
+          ? t("pages.attendanceRequests.approvedToast", {
+              defaultValue: "Request approved",
+            })
+          : t("pages.attendanceRequests.rejectedToast", {
+              defaultValue: "Request rejected",
+            })
+      );
+    } catch (error) {
+      console.error("Failed to review attendance request:", error);
+      const message = getErrorMessage(error, "Failed to review request");
+      // The log was written but the request wasn't marked; undo the write
+      // so the two don't disagree, or say so when it can't be undone
+      if (applied && Object.keys(applied.changes).length > 0) {
+        let rolledBack = false;
+        if (applied.undo) {
+          try {
+            await applied.undo();
+            rolledBack = true;
+          } catch (undoError) {
+            console.error("Failed to roll back attendance correction:", undoError);
+          }
+        }
+        invalidateQueries(queryKeys.attendanceRange());
+        toast.error(
+          rolledBack
+            ? t("pages.attendanceRequests.rolledBack", {
+                message,
+                defaultValue:
+                  "{{message}}. The attendance record was left unchanged.",
+              })
+            : t("pages.attendanceRequests.partiallyApplied", {
+                message,
+                defaultValue:
+                  "{{message}}. The attendance record was already corrected but the request is still pending; approve it again to finish.",
+              })
+        );
+      } else {
+        toast.error(message);
+      }
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <div className="font-medium">{traineeName}</div>
+            <div className="text-xs text-muted-foreground">
+              {request.trainee.email}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">
+              {t(`pages.attendanceRequests.types.${request.type}`, {
+                defaultValue:
+                  request.type === "excuse" ? "Excuse" : "Correction",
+              })}
+            </Badge>
+            <AttendanceRequestStatusBadge status={request.status} />
+          </div>
+        </div>
+
+        <div className="text-sm text-muted-foreground">
+          {request.event_title ?? `Event ${request.event}`} •{" "}
+          {request.attendance_date}
+        </div>
+
+        <p className="text-sm whitespace-pre-wrap">{request.reason}</p>
+
+        {request.type === "correction" && (
+          <div className="grid grid-cols-2 gap-2 text-sm tabular-nums">
+            <div className="rounded-md border px-3 py-2">
+              <div className="text-xs text-muted-foreground">
+                {t("pages.attendanceRequests.onRecord", {
+                  defaultValue: "On record",
+                })}
+              </div>
+              {request.current_check_in_time ?? "—"} –{" "}
+              {request.current_check_out_time ?? "—"}
+            </div>
+            <div className="rounded-md border px-3 py-2">
+              <div className="text-xs text-muted-foreground">
+                {t("pages.attendanceRequests.proposed", {
+                  defaultValue: "Proposed",
+                })}
+              </div>
+              {request.proposed_check_in_time ??
+                request.current_check_in_time ??
+                "—"}{" "}
+              –{" "}
+              {request.proposed_check_out_time ??
+                request.current_check_out_time ??
+                "—"}
+            </div>
+          </div>
+        )}
+
+        {request.attachment_url && (
+          <a
+            href={request.attachment_url}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <IconPaperclip className="size-4" />
+            {t("pages.attendanceRequests.viewAttachment", {
+              defaultValue: "View attachment",
+            })}
+          </a>
+        )}
+
+        {request.status === "pending" ? (
+          <div className="space-y-2">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t("pages.attendanceRequests.notePlaceholder", {
+                defaultValue: "Optional note for the trainee",
+              })}
+              className="min-h-[60px] resize-none"
+            />
+            <div className="flex gap-2 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => handleReview("rejected")}
+                disabled={isReviewing}
+              >
+                <IconX className="size-4 mr-2" />
+                {t("pages.attendanceRequests.reject", {
+                  defaultValue: "Reject",
+                })}
+              </Button>
+              <Button
+                onClick={() => handleReview("approved")}
+                disabled={isReviewing}
+              >
+                {isReviewing ? (
+                  <Loader className="size-4 mr-2" />
+                ) : (
+                  <IconCheck className="size-4 mr-2" />
+                )}
+                {request.type === "correction" &&
+                Object.keys(changes).length > 0
+                  ? t("pages.attendanceRequests.approveAndApply", {
+                      defaultValue: "Approve & apply",
+                    })
+                  : t("pages.attendanceRequests.approve", {
+                      defaultValue: "Approve",
+                    })}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          request.review_note && (
+            <div className="text-sm">
+              <span className="text-muted-foreground">
+                {request.reviewer?.name ?? "—"}:
+              </span>{" "}
+              {request.review_note}
+            </div>
+          )
+        )}
+
+        {request.history.length > 0 && (
+          <div className="space-y-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory((value) => !value)}
+              className="px-2"
+            >
+              <IconHistory className="size-4 mr-2" />
+              {t("pages.attendanceRequests.history", {
+                count: request.history.length,
+                defaultValue: "History ({{count}})",
+              })}
+            </Button>
+            {showHistory && (
+              <AttendanceRequestHistory entries={request.history} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AttendanceRequestsPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { can } = useUserGroups();
+  const canReview = can("attendance.review");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+
+  const filters = statusFilter === "all" ? {} : { status: statusFilter };
+  const requestsQuery = useQuery(
+    queryKeys.attendanceRequests(filters),
+    () => getAttendanceRequests(filters),
+    { enabled: canReview }
+  );
+  const requests = requestsQuery.data ?? [];
+
+  if (!canReview) {
+    return (
+      <div className="container mx-auto px-6 py-8">
+        <Card>
+          <CardContent className="pt-6 text-center py-8 text-muted-foreground">
+            You don't have permission to access attendance features.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            {t("pages.attendanceRequests.title", {
+              defaultValue: "Attendance requests",
+            })}
+          </h1>
+          <p className="text-muted-foreground">
+            {t("pages.attendanceRequests.subtitle", {
+              defaultValue:
+                "Review excuses and correction requests filed by trainees.",
+            })}
+          </p>
+        </div>
+        <Button variant="ghost" onClick={() => navigate(-1)}>
+          <IconArrowBackUp className="size-4 mr-2" />
+          {t("common.buttons.back", { defaultValue: "Back" })}
+        </Button>
+      </div>
+
+      <ToggleGroup
+        type="single"
+        value={statusFilter}
+        onValueChange={(value) => {
+          if (value) setStatusFilter(value as StatusFilter);
+        }}
+        variant="outline"
+      >
+        {(["pending", "approved", "rejected", "all"] as const).map((value) => (
+          <ToggleGroupItem key={value} value={value} className="px-4">
+            {value === "all"
+              ? t("common.labels.all", { defaultValue: "All" })
+              : t(`pages.attendanceRequests.status.${value}`, {
+                  defaultValue: value.charAt(0).toUpperCase() + value.slice(1),
+                })}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {requestsQuery.isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader />
+        </div>
+      ) : requestsQuery.error ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-8 text-destructive">
+            {getErrorMessage(requestsQuery.error, "Failed to load requests")}
+          </CardContent>
+        </Card>
+      ) : requests.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-center gap-2 text-base text-muted-foreground font-normal">
+              <IconInbox className="size-5" />
+              {t("pages.attendanceRequests.empty", {
+                defaultValue: "No requests here",
+              })}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {requests.map((request) => (
+            <RequestCard key={request.id} request={request} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
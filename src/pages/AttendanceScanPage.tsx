@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  IconCircleCheck,
+  IconAlertTriangle,
+  IconQrcode,
+} from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader } from "@/components/ui/loader";
+import {
+  submitAttendanceQrCheckIn,
+  type AttendanceQrCheckInResponse,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+
+// Subset of the Shape Detection API; not yet part of TypeScript's DOM lib
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+type BarcodeDetectorConstructor = new (options?: {
+  formats?: string[];
+}) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  const detector = (window as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+  return detector ?? null;
+}
+
+// QR codes carry the full scan URL; accept a bare token as well
+function extractToken(raw: string): string | null {
+  const value = raw.trim();
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.searchParams.get("token");
+  } catch {
+    return value;
+  }
+}
+
+type ScanState =
+  | { status: "idle" }
+  | { status: "submitting" }
+  | { status: "success"; result: AttendanceQrCheckInResponse }
+  | { status: "error"; message: string };
+
+export default function AttendanceScanPage() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [state, setState] = useState<ScanState>({ status: "idle" });
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const submittingRef = useRef(false);
+
+  const isDetectorSupported = getBarcodeDetector() !== null;
+
+  const submitToken = useCallback(
+    async (token: string) => {
+      if (submittingRef.current) return;
+      submittingRef.current = true;
+      setIsCameraOn(false);
+      setState({ status: "submitting" });
+      try {
+        const result = await submitAttendanceQrCheckIn(token);
+        setState({ status: "success", result });
+      } catch (error) {
+        setState({
+          status: "error",
+          message: getErrorMessage(
+            error,
+            t("pages.attendanceScan.failed", {
+              defaultValue: "Check-in failed. Ask for a fresh code.",
+            })
+          ),
+        });
+      } finally {
+        submittingRef.current = false;
+      }
+    },
+    [t]
+  );
+
+  // Opened from the phone camera app: the token is in the URL
+  useEffect(() => {
+    const token = searchParams.get("token");
+    if (!token) return;
+    // Drop it from the address bar so a refresh doesn't resubmit
+    setSearchParams({}, { replace: true });
+    submitToken(token);
+  }, [searchParams, setSearchParams, submitToken]);
+
+  useEffect(() => {
+    if (!isCameraOn) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    const detector = new Detector({ formats: ["qr_code"] });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const codes = await detector.detect(video);
+        const token = codes
+          .map((code) => extractToken(code.rawValue))
+          .find((value): value is string => Boolean(value));
+        if (token) {
+          submitToken(token);
+          return;
+        }
+      } catch {
+        // Frame not ready yet; try again on the next tick
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+        scan();
+      })
+      .catch((error) => {
+        console.error("Camera access failed:", error);
+        setCameraError(
+          t("pages.attendanceScan.cameraDenied", {
+            defaultValue:
+              "Camera access was denied. Allow it in the browser or enter the code manually.",
+          })
+        );
+        setIsCameraOn(false);
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [isCameraOn, submitToken, t]);
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const token = extractToken(manualCode);
+    if (token) submitToken(token);
+  };
+
+  const startScanning = () => {
+    setCameraError(null);
+    setState({ status: "idle" });
+    setIsCameraOn(true);
+  };
+
+  return (
+    <div className="container mx-auto max-w-lg px-6 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+          <IconQrcode className="size-7" />
+          {t("pages.attendanceScan.title", {
+            defaultValue: "Self check-in",
+          })}
+        </h1>
+        <p className="text-muted-foreground">
+          {t("pages.attendanceScan.subtitle", {
+            defaultValue: "Scan the QR code shown by the attendance tracker.",
+          })}
+        </p>
+      </div>
+
+      {state.status === "submitting" && (
+        <Card>
+          <CardContent className="pt-6 flex justify-center py-10">
+            <Loader />
+          </CardContent>
+        </Card>
+      )}
+
+      {state.status === "success" && (
+        <Card className="border-green-300 dark:border-green-500/40">
+          <CardContent className="pt-6 flex flex-col items-center gap-2 text-center py-8">
+            <IconCircleCheck className="size-14 text-green-600 dark:text-green-400" />
+            <div className="text-xl font-semibold">
+              {state.result.status === "already_checked_in"
+                ? t("pages.attendanceScan.already", {
+                    defaultValue: "You were already checked in",
+                  })
+                : t("pages.attendanceScan.success", {
+                    defaultValue: "You're checked in",
+                  })}
+            </div>
+            <div className="text-muted-foreground">
+              {state.result.event_title ?? `Event ${state.result.event}`} •{" "}
+              {state.result.attendance_date} • {state.result.check_in_time}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {state.status === "error" && (
+        <Card className="border-destructive/40">
+          <CardContent className="pt-6 flex flex-col items-center gap-2 text-center py-8">
+            <IconAlertTriangle className="size-14 text-destructive" />
+            <div className="text-destructive">{state.message}</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {state.status !== "submitting" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {t("pages.attendanceScan.scanTitle", {
+                defaultValue: "Scan code",
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isDetectorSupported ? (
+              isCameraOn ? (
+                <div className="space-y-3">
+                  <video
+                    ref={videoRef}
+                    className="w-full rounded-lg bg-black aspect-square object-cover"
+                    muted
+                    playsInline
+                  />
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setIsCameraOn(false)}
+                  >
+                    {t("common.buttons.cancel", { defaultValue: "Cancel" })}
+                  </Button>
+                </div>
+              ) : (
+                <Button className="w-full" onClick={startScanning}>
+                  <IconQrcode className="size-4 mr-2" />
+                  {t("pages.attendanceScan.openCamera", {
+                    defaultValue: "Open camera",
+                  })}
+                </Button>
+              )
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {t("pages.attendanceScan.unsupported", {
+                  defaultValue:
+                    "This browser can't scan codes. Use your phone's camera app, or paste the code below.",
+                })}
+              </p>
+            )}
+            {cameraError && (
+              <p className="text-sm text-destructive">{cameraError}</p>
+            )}
+            <form onSubmit={handleManualSubmit} className="flex gap-2">
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder={t("pages.attendanceScan.manualPlaceholder", {
+                  defaultValue: "Paste code or link",
+                })}
+              />
+              <Button type="submit" disabled={!manualCode.trim()}>
+                {t("pages.attendanceScan.submit", {
+                  defaultValue: "Check in",
+                })}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
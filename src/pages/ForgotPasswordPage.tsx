@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { IconMailCheck } from "@tabler/icons-react";
+import { AuthScreen } from "@/components/auth-screen";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FieldError } from "@/components/ui/field";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+import { requestPasswordReset } from "@/services/auth";
+
+export function ForgotPasswordPage() {
+  const { t } = useTranslation();
+  const location = useLocation();
+  // The login form passes along whatever was typed there
+  const [email, setEmail] = useState(
+    () => (location.state as { email?: string } | null)?.email ?? ""
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { applyError, clearFieldError, getFieldErrorItems, getFieldError } =
+    useFieldErrors();
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(email.trim());
+      setSentTo(email.trim());
+    } catch (error) {
+      const unmapped = applyError(error);
+      // Field problems (e.g. a malformed email) show under the input
+      if (unmapped !== null || !(error instanceof ValidationError)) {
+        toast.error(
+          unmapped ??
+            getErrorMessage(
+              error,
+              t("pages.forgotPassword.failed", {
+                defaultValue: "Couldn't send the reset link. Please try again.",
+              })
+            )
+        );
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <AuthScreen>
+        <div className="flex flex-col items-center gap-4 text-center">
+          <IconMailCheck className="size-10 text-emerald-600" />
+          <h1 className="text-2xl font-bold">
+            {t("pages.forgotPassword.sentTitle", {
+              defaultValue: "Check your email",
+            })}
+          </h1>
+          <p className="text-muted-foreground text-balance">
+            {t("pages.forgotPassword.sentBody", {
+              email: sentTo,
+              defaultValue:
+                "If an account exists for {{email}}, we've sent a link to reset its password. The link expires soon, so use it right away.",
+            })}
+          </p>
+          <Button asChild variant="outline" className="w-full">
+            <Link to="/login">
+              {t("pages.forgotPassword.backToLogin", {
+                defaultValue: "Back to sign in",
+              })}
+            </Link>
+          </Button>
+        </div>
+      </AuthScreen>
+    );
+  }
+
+  return (
+    <AuthScreen>
+      <form onSubmit={handleSubmit}>
+        <div className="flex flex-col gap-6">
+          <div className="flex flex-col items-center text-center">
+            <h1 className="text-2xl font-bold">
+              {t("pages.forgotPassword.title", {
+                defaultValue: "Forgot your password?",
+              })}
+            </h1>
+            <p className="text-muted-foreground text-balance">
+              {t("pages.forgotPassword.subtitle", {
+                defaultValue:
+                  "Enter your email and we'll send you a link to choose a new one.",
+              })}
+            </p>
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="email">{t("forms.email.label")}</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder={t("forms.email.placeholder")}
+              required
+              autoFocus
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                clearFieldError("email");
+              }}
+              aria-invalid={Boolean(getFieldError("email"))}
+              className="bg-background/50 backdrop-blur-sm border-border/50"
+            />
+            <FieldError errors={getFieldErrorItems("email")} />
+          </div>
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {t("pages.forgotPassword.submit", {
+              defaultValue: "Send reset link",
+            })}
+          </Button>
+          <Link
+            to="/login"
+            className="text-center text-sm underline-offset-2 hover:underline"
+          >
+            {t("pages.forgotPassword.backToLogin", {
+              defaultValue: "Back to sign in",
+            })}
+          </Link>
+        </div>
+      </form>
+    </AuthScreen>
+  );
+}
@@ -11,7 +11,10 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } f
 import { ConsistentAvatar } from "@/components/ui/consistent-avatar";
 import { IconChevronDown, IconChevronUp, IconGauge } from "@tabler/icons-react";
 import { AIAnalysisBanner } from "@/components/ai-analysis-banner";
-import { generateWithGemini } from "@/services/gemini";
+import { getLlmProvider } from "@/services/llm";
+import { getErrorMessage } from "@/lib/api-errors";
+import { FormReliabilityReport } from "@/components/FormReliabilityReport";
+import { useUserGroups } from "@/hooks/useUserGroups";
 
 export default function FormsResultsPage() {
   const { t, i18n } = useTranslation();
@@ -26,6 +29,9 @@ export default function FormsResultsPage() {
   const [aiResponse, setAiResponse] = useState<string | null>(null);
   const [aiLang, setAiLang] = useState<"en" | "ar">(i18n?.language?.startsWith("ar") ? "ar" : "en");
   const [selectedTrackId, setSelectedTrackId] = useState<number | null>(null); // null = all tracks
+  const { can } = useUserGroups();
+  // The agreement report reads every candidate's entries, like calibration
+  const canViewReliability = can("interviews.calibration");
 
   function getAiCacheKey(formId: number | null, lang: "en" | "ar", trackId: number | null): string | null {
     if (formId == null) return null;
@@ -307,14 +313,14 @@ Constraints:
 - Output language: ${aiLang === "ar" ? "Arabic (Modern Standard)" : "English"}.
 `
       const user = `FORMS_SUMMARY_JSON:\n${JSON.stringify(payload)}\n\nIf helpful, compute percentages from counts. Use both numeric results and notes for insights.`
-      const text = await generateWithGemini({ system, user })
+      const { data: text } = await getLlmProvider().generateText({ task: "forms-analysis", system, prompt: user })
       const finalText = text || "No analysis produced.";
       setAiResponse(finalText)
       if (cacheKey) {
         try { localStorage.setItem(cacheKey, finalText); } catch { /* ignore */ }
       }
     } catch (e) {
-      setAiResponse("Failed to generate analysis.")
+      setAiResponse(getErrorMessage(e, "Failed to generate analysis."))
     } finally {
       setAiLoading(false)
     }
@@ -537,6 +543,14 @@ Constraints:
         </CardContent>
       </Card>
 
+      {/* Inter-rater agreement: reads per-candidate entries, so all tracks */}
+      {canViewReliability && formMeta && summary && formMeta.id === selectedFormId && (
+        <FormReliabilityReport
+          form={formMeta}
+          maxScore={Number(summary.totals.max_total_per_entry)}
+        />
+      )}
+
       {/* Charts grid: only question-type fields */}
       {filteredData && groupedQuestions.length > 0 && (
         <div className="grid grid-cols-1 gap-4">
@@ -20,6 +20,9 @@ import {
   type PortalTrack,
   type TraineeOrdersLeaderboardItem,
 } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { queryKeys } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 import { Loader } from "@/components/ui/loader";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -619,16 +622,31 @@ export function HomePage() {
   // Ensure we have valid boolean values
   const isStaffUser = Boolean(isStaff);
   const isInstructorUser = Boolean(hasInstructor);
-  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
-  const [polls, setPolls] = useState<Poll[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const announcementsQuery = useQuery(queryKeys.announcements(), () =>
+    getAnnouncements()
+  );
+  const pollsQuery = useQuery(queryKeys.polls(groupId?.toString()), () =>
+    getPolls({ group: groupId?.toString() })
+  );
+  const leaderboardQuery = useQuery(
+    queryKeys.leaderboard(),
+    getTraineeOrdersLeaderboard
+  );
+  // Cached data renders right away; the spinner is only for a cold cache
+  const isLoading =
+    announcementsQuery.isLoading ||
+    pollsQuery.isLoading ||
+    leaderboardQuery.isLoading;
+  const [announcements, setAnnouncements] = useState<Announcement[]>(
+    announcementsQuery.data?.results || []
+  );
+  const [polls, setPolls] = useState<Poll[]>(pollsQuery.data || []);
   const [showAnnouncementDialog, setShowAnnouncementDialog] = useState(false);
   const [editingAnnouncement, setEditingAnnouncement] =
     useState<Announcement | null>(null);
-  const [tracks, setTracks] = useState<PortalTrack[]>([]);
-  const [isLoadingTracks, setIsLoadingTracks] = useState(false);
-  const [leaderboard, setLeaderboard] = useState<TraineeOrdersLeaderboardItem[]>(
-    []
+  const leaderboard = useMemo<TraineeOrdersLeaderboardItem[]>(
+    () => leaderboardQuery.data?.results || [],
+    [leaderboardQuery.data]
   );
 
   // Form state
@@ -645,7 +663,15 @@ export function HomePage() {
       announcement.scope === "TRACK" && announcement.track !== null
   );
   const needsTrackData = canEditAnnouncements || hasTrackScopedAnnouncements;
-  const hasTrackOptions = tracks.length > 0;
+  // Load tracks only when we need to show track-specific information
+  const tracksQuery = useQuery(queryKeys.portalTracks(), getPortalTracks, {
+    enabled: needsTrackData,
+  });
+  const tracks = useMemo<PortalTrack[]>(
+    () => tracksQuery.data?.results || [],
+    [tracksQuery.data]
+  );
+  const isLoadingTracks = tracksQuery.isLoading;
   const trackNameMap = useMemo(
     () =>
       tracks.reduce<Record<number, string>>((acc, track) => {
@@ -661,62 +687,27 @@ export function HomePage() {
     return TRACK_ID_TO_NAME[trackId] || trackNameMap[trackId];
   };
 
-  // Load tracks when we need to show track-specific information
+  // Keep the local lists in sync with the shared cache; edits below are
+  // applied locally and reconciled when the mutation invalidates the key
   useEffect(() => {
-    if (!needsTrackData || isLoadingTracks || hasTrackOptions) {
-      return;
+    if (announcementsQuery.data) {
+      setAnnouncements(announcementsQuery.data.results || []);
     }
+  }, [announcementsQuery.data]);
 
-    let isMounted = true;
-    setIsLoadingTracks(true);
-    getPortalTracks()
-      .then((data) => {
-        if (!isMounted) return;
-        setTracks(data.results || []);
-      })
-      .catch((err) => {
-        if (!isMounted) return;
-        console.error("Failed to load tracks:", err);
-      })
-      .finally(() => {
-        if (!isMounted) return;
-        setIsLoadingTracks(false);
-      });
-
-    return () => {
-      isMounted = false;
-    };
-  }, [hasTrackOptions, isLoadingTracks, needsTrackData]);
+  useEffect(() => {
+    if (pollsQuery.data) setPolls(pollsQuery.data);
+  }, [pollsQuery.data]);
 
+  const loadError =
+    announcementsQuery.error ?? pollsQuery.error ?? leaderboardQuery.error;
   useEffect(() => {
-    async function loadData() {
-      setIsLoading(true);
-      try {
-        console.log("Loading announcements and polls...");
-        console.log("User group ID:", groupId);
-        const [announcementsData, pollsData, leaderboardData] = await Promise.all(
-          [
-            getAnnouncements(),
-            getPolls({ group: groupId?.toString() }),
-            getTraineeOrdersLeaderboard(),
-          ]
-        );
-        console.log("Announcements data:", announcementsData);
-        console.log("Polls data:", pollsData);
-        setAnnouncements(announcementsData.results || []);
-        setPolls(pollsData || []);
-        setLeaderboard(leaderboardData.results || []);
-      } catch (err) {
-        console.error("Failed to load home data:", err);
-        toast.error(
-          t("pages.home.loadError", { defaultValue: "Failed to load content" })
-        );
-      } finally {
-        setIsLoading(false);
-      }
-    }
-    loadData();
-  }, [t, groupId]);
+    if (!loadError) return;
+    console.error("Failed to load home data:", loadError);
+    toast.error(
+      t("pages.home.loadError", { defaultValue: "Failed to load content" })
+    );
+  }, [loadError, t]);
 
   const handleCreateAnnouncement = () => {
     setEditingAnnouncement(null);
@@ -860,13 +851,15 @@ export function HomePage() {
         }
       }
       setShowAnnouncementDialog(false);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Failed to save announcement:", err);
       toast.error(
-        err?.data?.detail ||
+        getErrorMessage(
+          err,
           t("pages.home.announcementSaveError", {
             defaultValue: "Failed to save announcement",
           })
+        )
       );
     } finally {
       setIsSubmitting(false);
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IconRefresh } from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInterviewerCalibration } from "@/hooks/useInterviewerCalibration";
+import { getErrorMessage } from "@/lib/api-errors";
+import {
+  INTERVIEW_KINDS,
+  INTERVIEW_KIND_LABELS,
+  LENIENCY_LABELS,
+  type InterviewKind,
+  type LeniencyLabel,
+} from "@/lib/interviewer-calibration";
+import { cn } from "@/lib/utils";
+
+const LENIENCY_STYLES: Record<LeniencyLabel, string> = {
+  lenient:
+    "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/20 dark:text-emerald-200 dark:border-emerald-500/30",
+  typical:
+    "bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600",
+  harsh:
+    "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-200 dark:border-red-500/30",
+};
+
+function formatScore(value: number): string {
+  return value.toFixed(1);
+}
+
+// Bar per score bin, from 0 on the left to the interview's max on the right
+function Distribution({
+  bins,
+  maxScore,
+  className,
+}: {
+  bins: number[];
+  maxScore: number;
+  className?: string;
+}) {
+  const tallest = Math.max(1, ...bins);
+  const binWidth = maxScore / bins.length;
+  return (
+    <div className={cn("flex items-end gap-0.5", className)}>
+      {bins.map((count, index) => (
+        <div
+          key={index}
+          className={cn(
+            "flex-1 rounded-sm",
+            count > 0 ? "bg-primary/70" : "bg-muted"
+          )}
+          style={{ height: `${Math.max(8, (count / tallest) * 100)}%` }}
+          title={`${formatScore(index * binWidth)}–${formatScore(
+            (index + 1) * binWidth
+          )}: ${count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function InterviewerCalibrationPage() {
+  const { t } = useTranslation();
+  const [kind, setKind] = useState<InterviewKind>("technical");
+  const {
+    calibration,
+    candidateCount,
+    failedCount,
+    isLoading,
+    isFetching,
+    error,
+    refetch,
+  } = useInterviewerCalibration();
+
+  const report = calibration?.[kind];
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            {t("pages.calibration.title", {
+              defaultValue: "Interviewer calibration",
+            })}
+          </h1>
+          <p className="text-muted-foreground">
+            {t("pages.calibration.subtitle", {
+              defaultValue:
+                "How each interviewer scores compared with everyone else, from all submitted interviews.",
+            })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tabs
+            value={kind}
+            onValueChange={(value) => setKind(value as InterviewKind)}
+          >
+            <TabsList>
+              {INTERVIEW_KINDS.map((value) => (
+                <TabsTrigger key={value} value={value}>
+                  {t(`pages.calibration.kinds.${value}`, {
+                    defaultValue: INTERVIEW_KIND_LABELS[value],
+                  })}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              refetch().catch(() => {
+                // Error is exposed through the query
+              });
+            }}
+            disabled={isFetching}
+          >
+            <IconRefresh className={cn("size-4", isFetching && "animate-spin")} />
+            {t("common.buttons.refresh")}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center gap-3 py-16 text-sm text-muted-foreground">
+            <Loader />
+            {t("pages.calibration.loading", {
+              defaultValue: "Collecting interview scores from every candidate…",
+            })}
+          </CardContent>
+        </Card>
+      ) : error && !calibration ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {getErrorMessage(
+              error,
+              t("pages.calibration.loadFailed", {
+                defaultValue: "Couldn't load interview scores.",
+              })
+            )}
+          </CardContent>
+        </Card>
+      ) : report ? (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {t("pages.calibration.entries", { defaultValue: "Interviews" })}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="text-3xl font-bold">{report.pool.count}</div>
+                <div className="text-xs text-muted-foreground">
+                  {t("pages.calibration.candidatesScanned", {
+                    count: candidateCount,
+                    defaultValue: "across {{count}} candidates",
+                  })}
+                  {failedCount > 0 &&
+                    ` · ${t("pages.calibration.failedCandidates", {
+                      count: failedCount,
+                      defaultValue: "{{count}} couldn't be loaded",
+                    })}`}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {t("pages.calibration.poolMean", { defaultValue: "Pool mean" })}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="flex items-baseline gap-1">
+                  <span className="text-3xl font-bold">
+                    {formatScore(report.pool.mean)}
+                  </span>
+                  <span className="text-muted-foreground">/{report.maxScore}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {t("pages.calibration.spread", {
+                    sd: formatScore(report.pool.sd),
+                    median: formatScore(report.pool.median),
+                    defaultValue: "SD {{sd}} · median {{median}}",
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="md:col-span-2">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {t("pages.calibration.poolDistribution", {
+                    defaultValue: "Distribution of all scores",
+                  })}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <Distribution
+                  bins={report.pool.distribution}
+                  maxScore={report.maxScore}
+                  className="h-16"
+                />
+                <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+                  <span>0</span>
+                  <span>{report.maxScore}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {t("pages.calibration.interviewers", {
+                  defaultValue: "Interviewers",
+                })}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>
+                      {t("pages.calibration.interviewer", {
+                        defaultValue: "Interviewer",
+                      })}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t("pages.calibration.entries", { defaultValue: "Interviews" })}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t("pages.calibration.mean", { defaultValue: "Mean" })}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t("pages.calibration.sd", { defaultValue: "SD" })}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t("pages.calibration.range", { defaultValue: "Range" })}
+                    </TableHead>
+                    <TableHead>
+                      {t("pages.calibration.leniency", { defaultValue: "Leniency" })}
+                    </TableHead>
+                    <TableHead className="w-[180px]">
+                      {t("pages.calibration.distribution", {
+                        defaultValue: "Distribution",
+                      })}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.interviewers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                        {t("pages.calibration.empty", {
+                          defaultValue: "No scored interviews yet.",
+                        })}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    report.interviewers.map((stats) => (
+                      <TableRow key={stats.interviewerId}>
+                        <TableCell className="font-medium">{stats.name}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {stats.count}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatScore(stats.mean)}
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            ({Math.round((stats.mean / report.maxScore) * 100)}%)
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatScore(stats.sd)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatScore(stats.min)}–{formatScore(stats.max)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge className={LENIENCY_STYLES[stats.leniencyLabel]}>
+                              {t(`pages.calibration.leniencyLabels.${stats.leniencyLabel}`, {
+                                defaultValue: LENIENCY_LABELS[stats.leniencyLabel],
+                              })}
+                            </Badge>
+                            <span className="text-xs tabular-nums text-muted-foreground">
+                              {stats.leniency > 0 ? "+" : ""}
+                              {stats.leniency.toFixed(2)}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Distribution
+                            bins={stats.distribution}
+                            maxScore={report.maxScore}
+                            className="h-8"
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+              <p className="mt-4 text-xs text-muted-foreground">
+                {t("pages.calibration.method", {
+                  defaultValue:
+                    "Leniency is an interviewer's mean minus the pool mean, in pool standard deviations; interviewers with few interviews are pulled towards the pool. Calibrated candidate scores map each raw score's position within its interviewer's distribution onto the pool's.",
+                })}
+              </p>
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
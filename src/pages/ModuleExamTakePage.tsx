@@ -13,10 +13,41 @@ import {
   type ModuleTestDetail,
   type PortalModule,
 } from "@/lib/api";
+import { fetchQuery, getQueryData } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
 import { useUserGroups } from "@/hooks/useUserGroups";
 
 type ExamKind = "PRE" | "POST";
 
+type ModuleExam = {
+  module: PortalModule | null;
+  detail: ModuleTestDetail;
+};
+
+async function loadModuleExam(moduleId: number): Promise<ModuleExam> {
+  // Try to get module (for week/order and embedded test id); the module list
+  // is shared with the track page through the query cache
+  let mod: PortalModule | null = null;
+  try {
+    const modulesResp = await fetchQuery(
+      queryKeys.portalModules(),
+      getPortalModules
+    );
+    mod = (modulesResp.results || []).find((m) => m.id === moduleId) ?? null;
+  } catch (_) {}
+
+  let testId: number | null = mod?.test?.id ?? null;
+  if (!testId) {
+    // fallback: list tests by module and pick first
+    const list = await getModuleTests({ module: moduleId });
+    if (list && list.length > 0) testId = list[0].id;
+  }
+  if (!testId) throw new Error("No exam found for this module.");
+
+  const detail = await getModuleTestById(testId);
+  return { module: mod, detail };
+}
+
 export default function ModuleExamTakePage() {
   const navigate = useNavigate();
   const location = useLocation() as any;
@@ -41,7 +72,11 @@ export default function ModuleExamTakePage() {
     return domain || "My Track";
   }, [groups]);
 
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(
+    () =>
+      !moduleIdParam ||
+      getQueryData(queryKeys.moduleExam(moduleIdParam)) === undefined
+  );
   const [error, setError] = useState<string | null>(null);
   const [moduleObj, setModuleObj] = useState<PortalModule | null>(null);
   const [testDetail, setTestDetail] = useState<ModuleTestDetail | null>(null);
@@ -66,31 +101,16 @@ export default function ModuleExamTakePage() {
     async function load() {
       if (!moduleIdNum) return;
       try {
-        setIsLoading(true);
+        const examKey = queryKeys.moduleExam(moduleIdNum);
+        // Revisiting a module renders the cached exam without the loader
+        if (getQueryData(examKey) === undefined) setIsLoading(true);
         setError(null);
 
-        // Try to get module (for week/order and embedded test id)
-        let mod: PortalModule | null = null;
-        try {
-          const modulesResp = await getPortalModules();
-          mod =
-            (modulesResp.results || []).find((m) => m.id === moduleIdNum) ??
-            null;
-        } catch (_) {}
-        if (mod) setModuleObj(mod);
-
-        let testId: number | null = mod?.test?.id ?? null;
-        if (!testId) {
-          // fallback: list tests by module and pick first
-          const list = await getModuleTests({ module: moduleIdNum });
-          if (list && list.length > 0) testId = list[0].id;
-        }
-        if (!testId) {
-          if (!cancelled) setError("No exam found for this module.");
-          return;
-        }
-        const detail = await getModuleTestById(testId);
+        const { module: mod, detail } = await fetchQuery(examKey, () =>
+          loadModuleExam(moduleIdNum)
+        );
         if (cancelled) return;
+        if (mod) setModuleObj(mod);
         setTestDetail(detail);
 
         // Determine selected kind: prefer navigation state, else infer from flags
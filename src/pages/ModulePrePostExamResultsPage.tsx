@@ -13,6 +13,8 @@ import {
   type ModuleTestResultsResponse,
   type PortalModule,
 } from "@/lib/api";
+import { fetchQuery } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
 
 export default function ModulePrePostExamResultsPage() {
   const { moduleId } = useParams();
@@ -47,7 +49,10 @@ export default function ModulePrePostExamResultsPage() {
 
         // Fetch module meta for title context (best-effort)
         try {
-          const modulesResp = await getPortalModules();
+          const modulesResp = await fetchQuery(
+            queryKeys.portalModules(),
+            getPortalModules
+          );
           const mod = (modulesResp.results || []).find(
             (m) => m.id === moduleIdNum
           );
@@ -26,6 +26,8 @@ import {
   type ModuleTestQuestion,
   type PortalModule,
 } from "@/lib/api";
+import { fetchQuery } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
 import { toast } from "sonner";
 
 type EditableChoice = {
@@ -78,7 +80,10 @@ export default function ModulePrePostExamViewPage() {
         } else {
           // 2) Try to get module test id from modules listing
           try {
-            const modulesResp = await getPortalModules();
+            const modulesResp = await fetchQuery(
+              queryKeys.portalModules(),
+              getPortalModules
+            );
             const mod = (modulesResp.results || []).find(
               (m: PortalModule) => m.id === moduleIdNum
             );
@@ -0,0 +1,502 @@
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { IconCheck, IconUser, IconX } from "@tabler/icons-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/context/AuthContext";
+import { useQuery } from "@/hooks/useQuery";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import { getCandidates, getUserDetailById, type BackendCandidate } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { rankFuzzyMatches } from "@/lib/fuzzy-match";
+import {
+  buildPermissionMatrix,
+  buildPermissionReport,
+  parseGroupList,
+  type CapabilitySource,
+} from "@/lib/permission-debug";
+import { ROLE_DEFINITIONS, type RoleMatch } from "@/lib/permissions";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+
+// Matrix columns never change at runtime
+const MATRIX = buildPermissionMatrix();
+
+export default function PermissionDebuggerPage() {
+  const { t } = useTranslation();
+  const { realUser } = useAuth();
+  const { can } = useUserGroups();
+  const canView = can("permissions.debug");
+
+  const [groupsText, setGroupsText] = useState("");
+  const [groupIdText, setGroupIdText] = useState("");
+  const [isStaff, setIsStaff] = useState(false);
+  const [profileCapabilities, setProfileCapabilities] = useState<string[]>([]);
+  const [subjectLabel, setSubjectLabel] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [loadingUserId, setLoadingUserId] = useState<number | null>(null);
+
+  const candidatesQuery = useQuery(queryKeys.candidates(), () => getCandidates(), {
+    enabled: canView,
+  });
+  const matches = useMemo(
+    () =>
+      rankFuzzyMatches(
+        search,
+        candidatesQuery.data?.results ?? [],
+        (candidate) => [candidate.name, candidate.full_name, candidate.email],
+        { limit: 6 }
+      ),
+    [search, candidatesQuery.data]
+  );
+
+  const report = useMemo(
+    () =>
+      buildPermissionReport({
+        groups: parseGroupList(groupsText),
+        group_id: Number(groupIdText) || null,
+        is_staff: isStaff,
+        capabilities: profileCapabilities,
+      }),
+    [groupsText, groupIdText, isStaff, profileCapabilities]
+  );
+
+  const roleLabel = (role: CapabilitySource) =>
+    role === "profile"
+      ? t("pages.permissionDebugger.profile", { defaultValue: "Profile" })
+      : t(`viewAs.roles.${role}`, { defaultValue: ROLE_DEFINITIONS[role].label });
+
+  const describeMatch = (match: RoleMatch) => {
+    if (match.rule === "group") {
+      return t("pages.permissionDebugger.rules.group", {
+        group: match.group,
+        defaultValue: 'Group "{{group}}"',
+      });
+    }
+    if (match.rule === "group_id") {
+      return t("pages.permissionDebugger.rules.groupId", {
+        id: match.groupId,
+        defaultValue: "Legacy group_id {{id}} (no group name matched)",
+      });
+    }
+    return t("pages.permissionDebugger.rules.isStaff", {
+      defaultValue: "is_staff on the profile",
+    });
+  };
+
+  const loadSubject = (
+    label: string,
+    subject: {
+      groups?: string[];
+      group_id?: number | null;
+      is_staff?: boolean;
+      capabilities?: string[];
+    }
+  ) => {
+    setSubjectLabel(label);
+    setGroupsText((subject.groups ?? []).join("\n"));
+    setGroupIdText(subject.group_id ? String(subject.group_id) : "");
+    setIsStaff(subject.is_staff === true);
+    setProfileCapabilities(subject.capabilities ?? []);
+  };
+
+  const handlePickUser = async (candidate: BackendCandidate) => {
+    setLoadingUserId(candidate.id);
+    try {
+      // The candidates list doesn't always carry groups
+      const groups =
+        candidate.groups ??
+        (await getUserDetailById(String(candidate.id))).groups ??
+        [];
+      loadSubject(`${candidate.name} (${candidate.email})`, { groups });
+      setSearch("");
+    } catch (error) {
+      toast.error(
+        getErrorMessage(
+          error,
+          t("pages.permissionDebugger.loadUserFailed", {
+            defaultValue: "Couldn't load that user's groups",
+          })
+        )
+      );
+    } finally {
+      setLoadingUserId(null);
+    }
+  };
+
+  if (!canView) {
+    return (
+      <div className="container mx-auto px-6 py-8">
+        <Card>
+          <CardContent className="pt-6 text-center py-8 text-muted-foreground">
+            {t("pages.permissionDebugger.noAccess", {
+              defaultValue: "Only staff can open the permission debugger.",
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">
+          {t("pages.permissionDebugger.title", {
+            defaultValue: "Permission debugger",
+          })}
+        </h1>
+        <p className="text-muted-foreground">
+          {t("pages.permissionDebugger.subtitle", {
+            defaultValue:
+              "See how a set of groups resolves to roles, capabilities and pages.",
+          })}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="permission-user-search">
+              {t("pages.permissionDebugger.pickUser", {
+                defaultValue: "Load a real user",
+              })}
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="permission-user-search"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder={t("viewAs.searchUser", {
+                  defaultValue: "Search by name or email",
+                })}
+              />
+              {realUser && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    loadSubject(`${realUser.name} (${realUser.email})`, {
+                      groups: realUser.groups,
+                      group_id: realUser.group_id,
+                      is_staff: realUser.is_staff,
+                      capabilities: realUser.capabilities,
+                    })
+                  }
+                >
+                  <IconUser className="size-4 mr-1" />
+                  {t("pages.permissionDebugger.loadMe", { defaultValue: "Me" })}
+                </Button>
+              )}
+            </div>
+            {matches.length > 0 && (
+              <div className="rounded-md border divide-y">
+                {matches.map(({ item }) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    disabled={loadingUserId !== null}
+                    onClick={() => handlePickUser(item)}
+                    className="flex w-full items-center justify-between gap-2 px-3 py-2 text-start text-sm hover:bg-muted/50 disabled:opacity-60"
+                  >
+                    <span className="truncate font-medium">{item.name}</span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {item.email}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {search && matches.length === 0 && !candidatesQuery.isLoading && (
+              <p className="text-sm text-muted-foreground">
+                {t("viewAs.noUsers", { defaultValue: "No matching users" })}
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="permission-groups">
+                {t("pages.permissionDebugger.groups", {
+                  defaultValue: "Groups (one per line)",
+                })}
+              </Label>
+              <Textarea
+                id="permission-groups"
+                rows={4}
+                value={groupsText}
+                onChange={(event) => {
+                  setGroupsText(event.target.value);
+                  setSubjectLabel(null);
+                }}
+                placeholder={"instructor -> Data\ntrainee"}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="permission-group-id">group_id</Label>
+                <Input
+                  id="permission-group-id"
+                  inputMode="numeric"
+                  value={groupIdText}
+                  onChange={(event) => {
+                    setGroupIdText(event.target.value.replace(/\D/g, ""));
+                    setSubjectLabel(null);
+                  }}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={isStaff}
+                  onCheckedChange={(checked) => {
+                    setIsStaff(checked === true);
+                    setSubjectLabel(null);
+                  }}
+                />
+                is_staff
+              </label>
+            </div>
+          </div>
+          {subjectLabel && (
+            <p className="text-sm text-muted-foreground">
+              {t("pages.permissionDebugger.loaded", {
+                name: subjectLabel,
+                defaultValue: "Showing {{name}}",
+              })}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {t("pages.permissionDebugger.resolution", {
+                defaultValue: "Resolution",
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2">
+              <dt className="text-muted-foreground">group_id</dt>
+              <dd>
+                {report.groupId ?? "—"}
+                {report.groupIdInferred && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    {t("pages.permissionDebugger.inferred", {
+                      defaultValue: "(inferred from groups)",
+                    })}
+                  </span>
+                )}
+              </dd>
+              <dt className="text-muted-foreground">
+                {t("pages.permissionDebugger.homePage", {
+                  defaultValue: "Home page",
+                })}
+              </dt>
+              <dd className="font-mono">{report.homePage}</dd>
+              <dt className="text-muted-foreground">
+                {t("pages.permissionDebugger.roles", { defaultValue: "Roles" })}
+              </dt>
+              <dd className="flex flex-wrap gap-1">
+                {report.roles.length === 0
+                  ? "—"
+                  : report.roles.map((role) => (
+                      <Badge key={role} variant="secondary">
+                        {roleLabel(role)}
+                      </Badge>
+                    ))}
+              </dd>
+            </dl>
+
+            <div className="space-y-1">
+              <h3 className="font-medium">
+                {t("pages.permissionDebugger.matchedRules", {
+                  defaultValue: "Matched rules",
+                })}
+              </h3>
+              {report.matches.length === 0 ? (
+                <p className="text-muted-foreground">
+                  {t("pages.permissionDebugger.noRules", {
+                    defaultValue:
+                      "No rule matched, so only pages open to every signed-in user are available.",
+                  })}
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {report.matches.map((match, index) => (
+                    <li key={index} className="flex items-center gap-2">
+                      <Badge variant="outline">{roleLabel(match.role)}</Badge>
+                      <span>{describeMatch(match)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {report.unmatchedGroups.length > 0 && (
+                <p className="text-amber-700 dark:text-amber-300">
+                  {t("pages.permissionDebugger.unmatched", {
+                    groups: report.unmatchedGroups.join(", "),
+                    defaultValue: "No role for: {{groups}}",
+                  })}
+                </p>
+              )}
+              {report.unknownCapabilities.length > 0 && (
+                <p className="text-amber-700 dark:text-amber-300">
+                  {t("pages.permissionDebugger.unknownCapabilities", {
+                    capabilities: report.unknownCapabilities.join(", "),
+                    defaultValue: "Unknown profile capabilities: {{capabilities}}",
+                  })}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <h3 className="font-medium">
+                {t("pages.permissionDebugger.capabilities", {
+                  defaultValue: "Capabilities",
+                })}
+              </h3>
+              {report.capabilities.size === 0 ? (
+                <p className="text-muted-foreground">—</p>
+              ) : (
+                <ul className="space-y-1">
+                  {Array.from(report.capabilities).map(([capability, sources]) => (
+                    <li key={capability} className="flex items-center justify-between gap-2">
+                      <span className="font-mono">{capability}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {sources.map(roleLabel).join(", ")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {t("pages.permissionDebugger.routes", {
+                count: report.routes.filter((item) => item.allowed).length,
+                total: report.routes.length,
+                defaultValue: "Pages ({{count}} of {{total}})",
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    {t("pages.permissionDebugger.columns.route", {
+                      defaultValue: "Route",
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t("pages.permissionDebugger.columns.guard", {
+                      defaultValue: "Requires",
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t("pages.permissionDebugger.columns.grantedBy", {
+                      defaultValue: "Granted by",
+                    })}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.routes.map(({ route, allowed, grantedBy }) => (
+                  <TableRow
+                    key={route.path}
+                    className={cn(!allowed && "text-muted-foreground")}
+                  >
+                    <TableCell className="font-mono text-xs">
+                      <span className="inline-flex items-center gap-1">
+                        {allowed ? (
+                          <IconCheck className="size-4 text-emerald-600" />
+                        ) : (
+                          <IconX className="size-4 text-red-500" />
+                        )}
+                        {route.path}
+                      </span>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{route.guard}</TableCell>
+                    <TableCell className="text-xs">
+                      {grantedBy.map(roleLabel).join(", ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {t("pages.permissionDebugger.matrix", {
+              defaultValue: "Every group against every page",
+            })}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  {t("pages.permissionDebugger.columns.route", {
+                    defaultValue: "Route",
+                  })}
+                </TableHead>
+                {MATRIX.columns.map((column) => (
+                  <TableHead key={column.id} className="text-center">
+                    <div className="font-mono text-xs">{column.label}</div>
+                    {column.role && (
+                      <div className="text-[10px] font-normal text-muted-foreground">
+                        {roleLabel(column.role)}
+                      </div>
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {MATRIX.rows.map((row) => (
+                <TableRow key={row.route.path}>
+                  <TableCell className="font-mono text-xs">{row.route.path}</TableCell>
+                  {row.allowed.map((allowed, index) => (
+                    <TableCell key={MATRIX.columns[index].id} className="text-center">
+                      {allowed ? (
+                        <IconCheck className="size-4 text-emerald-600 inline" />
+                      ) : (
+                        <span className="text-muted-foreground">·</span>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   type CreateModuleTestPayload,
 } from "@/lib/api";
 import { toast } from "sonner";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
 import {
   CalendarDays,
   CheckCircle2,
@@ -31,7 +32,9 @@ import {
   Settings,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { FieldError } from "@/components/ui/field";
 import { useTranslation } from "react-i18next";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
 
 type ModuleOption = {
   id: number;
@@ -66,6 +69,18 @@ export default function PrePostExamCreatePage() {
 
   const [questions, setQuestions] = useState<DraftQuestion[]>([]);
   const [submitting, setSubmitting] = useState(false);
+  // Backend validation errors keyed by payload path (e.g. "questions.0.title").
+  // With an image the payload goes out as FormData, where the file is sent as
+  // questions[i][image]; report both shapes under the JSON name image_file.
+  const { applyError, getFieldError, getFieldErrorItems, resetFieldErrors } =
+    useFieldErrors(
+      Object.fromEntries(
+        questions.flatMap((_, qi) => [
+          [`questions[${qi}][image]`, `questions.${qi}.image_file`],
+          [`questions.${qi}.image`, `questions.${qi}.image_file`],
+        ])
+      )
+    );
   const addButtonRef = useRef<HTMLButtonElement | null>(null);
   const [showFloatingAdd, setShowFloatingAdd] = useState(false);
 
@@ -349,16 +364,20 @@ export default function PrePostExamCreatePage() {
         : undefined,
     };
     setSubmitting(true);
+    resetFieldErrors();
     try {
       await createModuleTest(payload);
       toast.success(t("exam.test_created_success"));
       navigate(`/modules/${moduleId}/pre-post-exams/view`);
-    } catch (error: any) {
-      const message =
-        error?.data && typeof error.data === "object"
-          ? error.data.detail || JSON.stringify(error.data)
-          : error?.message || t("exam.failed_to_create");
-      toast.error(String(message));
+    } catch (error) {
+      const unmapped = applyError(error);
+      toast.error(
+        unmapped === null && error instanceof ValidationError
+          ? t("exam.fix_highlighted_fields", {
+              defaultValue: "Please fix the highlighted fields.",
+            })
+          : unmapped ?? getErrorMessage(error, t("exam.failed_to_create"))
+      );
     } finally {
       setSubmitting(false);
     }
@@ -424,7 +443,9 @@ export default function PrePostExamCreatePage() {
                   value={title}
                   onChange={(e) => setTitle(e.target.value)}
                   placeholder={t("exam.title_placeholder")}
+                  aria-invalid={getFieldError("title") ? true : undefined}
                 />
+                <FieldError errors={getFieldErrorItems("title")} />
               </div>
             </div>
 
@@ -436,7 +457,9 @@ export default function PrePostExamCreatePage() {
                 onChange={(e) => setDescription(e.target.value)}
                 placeholder={t("exam.description_placeholder")}
                 rows={3}
+                aria-invalid={getFieldError("description") ? true : undefined}
               />
+              <FieldError errors={getFieldErrorItems("description")} />
             </div>
 
             <div className="flex items-center gap-2">
@@ -482,6 +505,7 @@ export default function PrePostExamCreatePage() {
                   label={t("exam.publish_at")}
                   value={publishAtPre}
                   onChange={setPublishAtPre}
+                  error={getFieldError("publish_at_pre")}
                   placeholder={t("exam.publish_at_pre_placeholder")}
                   description={t("exam.publish_at_pre_description")}
                 />
@@ -489,6 +513,7 @@ export default function PrePostExamCreatePage() {
                   label={t("exam.expire_at")}
                   value={expireAtPre}
                   onChange={setExpireAtPre}
+                  error={getFieldError("expire_at_pre")}
                   placeholder={t("exam.expire_at_pre_placeholder")}
                   description={t("exam.expire_description")}
                 />
@@ -513,6 +538,7 @@ export default function PrePostExamCreatePage() {
                   label={t("exam.publish_at")}
                   value={publishAtPost}
                   onChange={setPublishAtPost}
+                  error={getFieldError("publish_at_post")}
                   placeholder={t("exam.publish_at_post_placeholder")}
                   description={t("exam.publish_at_post_description")}
                 />
@@ -520,6 +546,7 @@ export default function PrePostExamCreatePage() {
                   label={t("exam.expire_at")}
                   value={expireAtPost}
                   onChange={setExpireAtPost}
+                  error={getFieldError("expire_at_post")}
                   placeholder={t("exam.expire_at_post_placeholder")}
                   description={t("exam.expire_description")}
                 />
@@ -619,6 +646,12 @@ export default function PrePostExamCreatePage() {
                         }))
                       }
                       placeholder={t("exam.question_title_placeholder")}
+                      aria-invalid={
+                        getFieldError(`questions.${qi}.title`) ? true : undefined
+                      }
+                    />
+                    <FieldError
+                      errors={getFieldErrorItems(`questions.${qi}.title`)}
                     />
                   </div>
 
@@ -638,6 +671,9 @@ export default function PrePostExamCreatePage() {
                       placeholder={t("exam.additional_text_placeholder")}
                       rows={2}
                     />
+                    <FieldError
+                      errors={getFieldErrorItems(`questions.${qi}.text`)}
+                    />
                   </div>
 
                   <div className="space-y-2">
@@ -669,6 +705,9 @@ export default function PrePostExamCreatePage() {
                         </Badge>
                       </div>
                     )}
+                    <FieldError
+                      errors={getFieldErrorItems(`questions.${qi}.image_file`)}
+                    />
                   </div>
 
                   <div className="space-y-3">
@@ -677,65 +716,78 @@ export default function PrePostExamCreatePage() {
                       {q.choices.map((c, ci) => {
                         const optionLabel = String.fromCharCode(65 + ci);
                         return (
-                          <div
-                            key={ci}
-                            className={`flex flex-col gap-3 rounded-lg border p-3 transition-colors md:flex-row md:items-center ${
-                              c.is_correct
-                                ? "bg-green-50 border-green-200 ring-1 ring-green-200 dark:bg-emerald-500/10 dark:border-emerald-500/40 dark:ring-emerald-500/30"
-                                : "bg-muted/30 border-border hover:bg-muted/50 dark:bg-muted/20 dark:border-border dark:hover:bg-muted/30"
-                            }`}
-                          >
-                            <div className="flex w-full items-center gap-3">
-                              <Badge
-                                variant="secondary"
-                                className="rounded-full px-3 py-1 text-xs font-bold tracking-wide"
-                              >
-                                {optionLabel}
-                              </Badge>
-                              <Input
-                                value={c.text}
-                                onChange={(e) =>
-                                  setChoiceText(qi, ci, e.target.value)
-                                }
-                                placeholder={`${t("exam.choice_placeholder")} ${ci + 1}`}
-                                className={`flex-1 border-0 bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0 ${
-                                  c.is_correct ? "font-medium" : ""
-                                }`}
-                              />
-                            </div>
-                            <div className="flex flex-wrap items-center gap-2">
-                              <Button
-                                type="button"
-                                onClick={() => setChoiceCorrect(qi, ci)}
-                                size="sm"
-                                aria-pressed={c.is_correct}
-                                className={`gap-2 rounded-full border px-4 text-xs font-semibold uppercase tracking-wide ${
-                                  c.is_correct
-                                    ? "border-green-500 bg-green-500 text-white hover:bg-green-500/90 hover:text-white dark:border-emerald-400 dark:bg-emerald-500 dark:hover:bg-emerald-400"
-                                    : "border-border bg-background text-muted-foreground hover:text-foreground dark:bg-muted"
-                                }`}
-                              >
-                                {c.is_correct ? (
-                                  <CheckCircle2 className="h-4 w-4" />
-                                ) : (
-                                  <Circle className="h-4 w-4" />
-                                )}
-                                {c.is_correct
-                                  ? t("exam.correct_answer")
-                                  : markCorrectLabel}
-                              </Button>
-                              {q.choices.length > 2 && (
+                          <div key={ci} className="space-y-1">
+                            <div
+                              className={`flex flex-col gap-3 rounded-lg border p-3 transition-colors md:flex-row md:items-center ${
+                                c.is_correct
+                                  ? "bg-green-50 border-green-200 ring-1 ring-green-200 dark:bg-emerald-500/10 dark:border-emerald-500/40 dark:ring-emerald-500/30"
+                                  : "bg-muted/30 border-border hover:bg-muted/50 dark:bg-muted/20 dark:border-border dark:hover:bg-muted/30"
+                              }`}
+                            >
+                              <div className="flex w-full items-center gap-3">
+                                <Badge
+                                  variant="secondary"
+                                  className="rounded-full px-3 py-1 text-xs font-bold tracking-wide"
+                                >
+                                  {optionLabel}
+                                </Badge>
+                                <Input
+                                  value={c.text}
+                                  onChange={(e) =>
+                                    setChoiceText(qi, ci, e.target.value)
+                                  }
+                                  placeholder={`${t("exam.choice_placeholder")} ${ci + 1}`}
+                                  aria-invalid={
+                                    getFieldError(
+                                      `questions.${qi}.choices.${ci}.text`
+                                    )
+                                      ? true
+                                      : undefined
+                                  }
+                                  className={`flex-1 border-0 bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0 ${
+                                    c.is_correct ? "font-medium" : ""
+                                  }`}
+                                />
+                              </div>
+                              <div className="flex flex-wrap items-center gap-2">
                                 <Button
                                   type="button"
-                                  variant="ghost"
+                                  onClick={() => setChoiceCorrect(qi, ci)}
                                   size="sm"
-                                  onClick={() => removeChoice(qi, ci)}
-                                  className="text-muted-foreground hover:text-destructive"
+                                  aria-pressed={c.is_correct}
+                                  className={`gap-2 rounded-full border px-4 text-xs font-semibold uppercase tracking-wide ${
+                                    c.is_correct
+                                      ? "border-green-500 bg-green-500 text-white hover:bg-green-500/90 hover:text-white dark:border-emerald-400 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+                                      : "border-border bg-background text-muted-foreground hover:text-foreground dark:bg-muted"
+                                  }`}
                                 >
-                                  {t("exam.remove")}
+                                  {c.is_correct ? (
+                                    <CheckCircle2 className="h-4 w-4" />
+                                  ) : (
+                                    <Circle className="h-4 w-4" />
+                                  )}
+                                  {c.is_correct
+                                    ? t("exam.correct_answer")
+                                    : markCorrectLabel}
                                 </Button>
-                              )}
+                                {q.choices.length > 2 && (
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeChoice(qi, ci)}
+                                    className="text-muted-foreground hover:text-destructive"
+                                  >
+                                    {t("exam.remove")}
+                                  </Button>
+                                )}
+                              </div>
                             </div>
+                            <FieldError
+                              errors={getFieldErrorItems(
+                                `questions.${qi}.choices.${ci}.text`
+                              )}
+                            />
                           </div>
                         );
                       })}
@@ -749,6 +801,9 @@ export default function PrePostExamCreatePage() {
                         {t("exam.add_choice")}
                       </Button>
                     </div>
+                    <FieldError
+                      errors={getFieldErrorItems(`questions.${qi}.choices`)}
+                    />
                     <p className="text-xs text-muted-foreground">
                       {t("exam.correct_answer_hint_updated", {
                         defaultValue:
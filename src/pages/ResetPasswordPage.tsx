@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { IconCircleCheck, IconLinkOff } from "@tabler/icons-react";
+import { AuthScreen } from "@/components/auth-screen";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { PasswordInput } from "@/components/ui/password-input";
+import { FieldError } from "@/components/ui/field";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+import { checkPasswordStrength } from "@/lib/password-strength";
+import {
+  confirmPasswordReset,
+  isInvalidResetTokenError,
+  validatePasswordResetToken,
+  type PasswordResetToken,
+} from "@/services/auth";
+
+type LinkStatus = "checking" | "valid" | "invalid" | "done";
+
+export function ResetPasswordPage() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Read once: the token is then dropped from the address bar so it doesn't
+  // linger in history or leak through the Referer header
+  const [resetToken] = useState<PasswordResetToken | null>(() => {
+    const uid = searchParams.get("uid");
+    const token = searchParams.get("token");
+    return uid && token ? { uid, token } : null;
+  });
+  const [status, setStatus] = useState<LinkStatus>(() =>
+    resetToken ? "checking" : "invalid"
+  );
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { applyError, clearFieldError, getFieldErrorItems, getFieldError } =
+    useFieldErrors({ new_password: "password" });
+
+  useEffect(() => {
+    if (searchParams.has("token") || searchParams.has("uid")) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    if (!resetToken) return;
+    let ignore = false;
+    validatePasswordResetToken(resetToken)
+      .then(() => {
+        if (!ignore) setStatus("valid");
+      })
+      .catch((error) => {
+        if (ignore) return;
+        // Anything else (offline, 5xx) is rechecked when the form is sent
+        setStatus(isInvalidResetTokenError(error) ? "invalid" : "valid");
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [resetToken]);
+
+  const strength = useMemo(() => checkPasswordStrength(password), [password]);
+  const mismatch = confirmation.length > 0 && confirmation !== password;
+  const canSubmit =
+    strength.isAcceptable && confirmation === password && !isSubmitting;
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!resetToken || !canSubmit) return;
+    setIsSubmitting(true);
+    try {
+      await confirmPasswordReset({ ...resetToken, new_password: password });
+      setStatus("done");
+    } catch (error) {
+      if (isInvalidResetTokenError(error)) {
+        setStatus("invalid");
+        return;
+      }
+      const unmapped = applyError(error);
+      if (unmapped !== null || !(error instanceof ValidationError)) {
+        toast.error(
+          unmapped ??
+            getErrorMessage(
+              error,
+              t("pages.resetPassword.failed", {
+                defaultValue: "Couldn't reset your password. Please try again.",
+              })
+            )
+        );
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (status === "checking") {
+    return (
+      <AuthScreen>
+        <div className="flex justify-center py-8">
+          <Loader />
+        </div>
+      </AuthScreen>
+    );
+  }
+
+  if (status === "invalid") {
+    return (
+      <AuthScreen>
+        <div className="flex flex-col items-center gap-4 text-center">
+          <IconLinkOff className="size-10 text-destructive" />
+          <h1 className="text-2xl font-bold">
+            {t("pages.resetPassword.invalidTitle", {
+              defaultValue: "This link has expired",
+            })}
+          </h1>
+          <p className="text-muted-foreground text-balance">
+            {t("pages.resetPassword.invalidBody", {
+              defaultValue:
+                "Reset links work once and only for a short time. Request a new one to continue.",
+            })}
+          </p>
+          <Button asChild className="w-full">
+            <Link to="/forgot-password">
+              {t("pages.resetPassword.requestNew", {
+                defaultValue: "Request a new link",
+              })}
+            </Link>
+          </Button>
+        </div>
+      </AuthScreen>
+    );
+  }
+
+  if (status === "done") {
+    return (
+      <AuthScreen>
+        <div className="flex flex-col items-center gap-4 text-center">
+          <IconCircleCheck className="size-10 text-emerald-600" />
+          <h1 className="text-2xl font-bold">
+            {t("pages.resetPassword.doneTitle", {
+              defaultValue: "Password updated",
+            })}
+          </h1>
+          <p className="text-muted-foreground text-balance">
+            {t("pages.resetPassword.doneBody", {
+              defaultValue: "Sign in with your new password.",
+            })}
+          </p>
+          <Button asChild className="w-full">
+            <Link to="/login" replace>
+              {t("auth.login")}
+            </Link>
+          </Button>
+        </div>
+      </AuthScreen>
+    );
+  }
+
+  return (
+    <AuthScreen>
+      <form onSubmit={handleSubmit}>
+        <div className="flex flex-col gap-6">
+          <div className="flex flex-col items-center text-center">
+            <h1 className="text-2xl font-bold">
+              {t("pages.resetPassword.title", {
+                defaultValue: "Choose a new password",
+              })}
+            </h1>
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="new-password">
+              {t("password.new", { defaultValue: "New password" })}
+            </Label>
+            <PasswordInput
+              id="new-password"
+              autoComplete="new-password"
+              autoFocus
+              required
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                clearFieldError("password");
+              }}
+              aria-invalid={Boolean(getFieldError("password"))}
+              className="bg-background/50 backdrop-blur-sm border-border/50"
+            />
+            <FieldError errors={getFieldErrorItems("password")} />
+            {password && <PasswordStrengthMeter strength={strength} />}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="confirm-password">
+              {t("password.confirm", { defaultValue: "Confirm new password" })}
+            </Label>
+            <PasswordInput
+              id="confirm-password"
+              autoComplete="new-password"
+              required
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              aria-invalid={mismatch}
+              className="bg-background/50 backdrop-blur-sm border-border/50"
+            />
+            {mismatch && (
+              <FieldError>
+                {t("password.mismatch", {
+                  defaultValue: "Passwords don't match",
+                })}
+              </FieldError>
+            )}
+          </div>
+          <Button type="submit" className="w-full" disabled={!canSubmit}>
+            {t("pages.resetPassword.submit", {
+              defaultValue: "Reset password",
+            })}
+          </Button>
+        </div>
+      </form>
+    </AuthScreen>
+  );
+}
@@ -70,7 +70,10 @@ import {
   FieldSet,
   FieldTitle,
   FieldSeparator,
+  FieldError,
 } from "@/components/ui/field";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
 
 export default function SessionEditPage() {
   const { id } = useParams();
@@ -123,6 +126,10 @@ export default function SessionEditPage() {
   const [deletingContent, setDeletingContent] = useState(false);
   const [deletingAssignment, setDeletingAssignment] = useState(false);
 
+  // Backend validation errors shown next to the offending inputs
+  const sessionFieldErrors = useFieldErrors();
+  const assignmentFieldErrors = useFieldErrors();
+
   const sessionId = useMemo(() => (id ? Number(id) : null), [id]);
 
   useEffect(() => {
@@ -176,6 +183,7 @@ export default function SessionEditPage() {
     e.preventDefault();
     if (!sessionId) return;
     if (!hasUnsaved) return;
+    sessionFieldErrors.resetFieldErrors();
     try {
       setIsSaving(true);
       // Backend allows PUT; send full minimal shape to be safe
@@ -193,8 +201,16 @@ export default function SessionEditPage() {
         setTitle("");
       }
       setIsEditingTitle(false);
-    } catch (e: any) {
-      toast.error(e?.message || "Failed to save session");
+    } catch (e) {
+      const unmapped = sessionFieldErrors.applyError(e);
+      if (unmapped === null && e instanceof ValidationError) {
+        // Reopen the editors so the inline messages are visible
+        if (e.fieldErrors.title) setIsEditingTitle(true);
+        setShowDescriptionEditor(true);
+        toast.error("Please fix the highlighted fields");
+      } else {
+        toast.error(unmapped ?? getErrorMessage(e, "Failed to save session"));
+      }
     } finally {
       setIsSaving(false);
     }
@@ -294,6 +310,7 @@ export default function SessionEditPage() {
   async function onCreateAssignment(e?: React.FormEvent) {
     if (e) e.preventDefault();
     if (!sessionId || !assignmentTitle.trim()) return;
+    assignmentFieldErrors.resetFieldErrors();
     try {
       setCreatingAssignment(true);
       // Build ISO from date + time if provided
@@ -393,12 +410,18 @@ export default function SessionEditPage() {
       toast.success(
         editingAssignment ? "Assignment updated" : "Assignment added"
       );
-    } catch (e: any) {
+    } catch (e) {
+      const unmapped = assignmentFieldErrors.applyError(e);
       toast.error(
-        e?.message ||
-          (editingAssignment
-            ? "Failed to update assignment"
-            : "Failed to add assignment")
+        unmapped === null && e instanceof ValidationError
+          ? "Please fix the highlighted fields"
+          : unmapped ??
+              getErrorMessage(
+                e,
+                editingAssignment
+                  ? "Failed to update assignment"
+                  : "Failed to add assignment"
+              )
       );
     } finally {
       setCreatingAssignment(false);
@@ -407,6 +430,7 @@ export default function SessionEditPage() {
 
   function onCancelAssignment() {
     // Hide and reset without submitting anything
+    assignmentFieldErrors.resetFieldErrors();
     setShowAssignmentForm(false);
     setAssignmentTitle("");
     setAssignmentDescription("");
@@ -420,6 +444,7 @@ export default function SessionEditPage() {
   }
 
   function onEditAssignment(a: PortalAssignment) {
+    assignmentFieldErrors.resetFieldErrors();
     setEditingAssignment(a);
     setShowAssignmentForm(true);
     setAssignmentTitle(a.title || "");
@@ -579,6 +604,9 @@ export default function SessionEditPage() {
                 </Button>
               </div>
             )}
+            <FieldError
+              errors={sessionFieldErrors.getFieldErrorItems("title")}
+            />
             {dateRange && (
               <div className="text-sm text-muted-foreground mt-1">
                 {dateRange}
@@ -703,6 +731,11 @@ export default function SessionEditPage() {
                                 </div>
                               )}
                             </div>
+                            <FieldError
+                              errors={sessionFieldErrors.getFieldErrorItems(
+                                "description"
+                              )}
+                            />
                           </FieldContent>
                         </Field>
 
@@ -962,6 +995,16 @@ export default function SessionEditPage() {
                                     }}
                                     placeholder="Assignment title"
                                     className="w-auto"
+                                    aria-invalid={
+                                      assignmentFieldErrors.getFieldError("title")
+                                        ? true
+                                        : undefined
+                                    }
+                                  />
+                                  <FieldError
+                                    errors={assignmentFieldErrors.getFieldErrorItems(
+                                      "title"
+                                    )}
                                   />
                                 </FieldContent>
                               </Field>
@@ -979,6 +1022,11 @@ export default function SessionEditPage() {
                                     placeholder="Optional description"
                                     rows={3}
                                   />
+                                  <FieldError
+                                    errors={assignmentFieldErrors.getFieldErrorItems(
+                                      "description"
+                                    )}
+                                  />
                                 </FieldContent>
                               </Field>
                               {sessionId === 5 && (
@@ -1001,6 +1049,11 @@ export default function SessionEditPage() {
                                         </SelectItem>
                                       </SelectContent>
                                     </Select>
+                                    <FieldError
+                                      errors={assignmentFieldErrors.getFieldErrorItems(
+                                        "type"
+                                      )}
+                                    />
                                   </FieldContent>
                                 </Field>
                               )}
@@ -1093,6 +1146,11 @@ export default function SessionEditPage() {
                                       Tomorrow
                                     </Button>
                                   </div>
+                                  <FieldError
+                                    errors={assignmentFieldErrors.getFieldErrorItems(
+                                      "due_date"
+                                    )}
+                                  />
                                 </FieldContent>
                               </Field>
                               <Field>
@@ -1225,6 +1283,16 @@ export default function SessionEditPage() {
                                       50MB).
                                     </div>
                                   </div>
+                                  <FieldError
+                                    errors={[
+                                      ...assignmentFieldErrors.getFieldErrorItems(
+                                        "link"
+                                      ),
+                                      ...assignmentFieldErrors.getFieldErrorItems(
+                                        "file"
+                                      ),
+                                    ]}
+                                  />
                                 </FieldContent>
                               </Field>
                             </FieldGroup>
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -37,18 +37,18 @@ import {
 import ReactMarkdown from "react-markdown";
 import { useUserGroups } from "@/hooks/useUserGroups";
 import { toast } from "sonner";
+import { getErrorMessage } from "@/lib/api-errors";
+import { queryKeys } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 import { useTranslation } from "react-i18next";
 
 export default function SessionViewPage() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { groupId, groups } = useUserGroups();
+  const { can } = useUserGroups();
   const { t, i18n } = useTranslation();
   const isRTL = (i18n.language || "en").startsWith("ar");
 
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [session, setSession] = useState<PortalSession | null>(null);
   const [submissionAssignment, setSubmissionAssignment] =
     useState<PortalAssignment | null>(null);
   const [submissionLink, setSubmissionLink] = useState("");
@@ -60,31 +60,19 @@ export default function SessionViewPage() {
   >({});
 
   const sessionId = useMemo(() => (id ? Number(id) : null), [id]);
+  const sessionQuery = useQuery(
+    queryKeys.portalSession(String(sessionId)),
+    () => getPortalSession(String(sessionId)),
+    { enabled: Boolean(sessionId) }
+  );
+  const session: PortalSession | null = sessionQuery.data ?? null;
+  const isLoading = !sessionId || sessionQuery.isLoading;
+  const error =
+    sessionQuery.error && !session
+      ? getErrorMessage(sessionQuery.error, "Failed to load session")
+      : null;
 
-  const isInstructor = useMemo(() => {
-    const g = groups || [];
-    const hasInstructor = g.some((x) => x.toLowerCase().includes("instructor"));
-    return groupId === 5 || hasInstructor;
-  }, [groupId, groups]);
-
-  useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      try {
-        setIsLoading(true);
-        const data = await getPortalSession(String(sessionId));
-        if (!cancelled) setSession(data);
-      } catch (e: any) {
-        if (!cancelled) setError(e?.message || "Failed to load session");
-      } finally {
-        if (!cancelled) setIsLoading(false);
-      }
-    }
-    if (sessionId) load();
-    return () => {
-      cancelled = true;
-    };
-  }, [sessionId]);
+  const isInstructor = can("modules.edit");
 
   function closeSubmissionDialog() {
     setSubmissionAssignment(null);
@@ -134,11 +122,7 @@ export default function SessionViewPage() {
       toast.success("Submission saved");
       closeSubmissionDialog();
     } catch (error) {
-      const detail = (error as any)?.data?.detail || (error as any)?.message;
-      const message =
-        typeof detail === "string" && detail.trim().length > 0
-          ? detail
-          : "Failed to submit assignment";
+      const message = getErrorMessage(error, "Failed to submit assignment");
       setSubmissionError(message);
       toast.error(message);
     } finally {
@@ -26,18 +26,28 @@ import {
   updatePortalModule,
   type PortalModule,
 } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api-errors";
+import { queryKeys } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 import { useNavigate } from "react-router-dom";
 import { useUserGroups } from "@/hooks/useUserGroups";
 import { useTranslation } from "react-i18next";
 
 export function TrackPage() {
   const navigate = useNavigate();
-  const { groupId, groups } = useUserGroups();
+  const { groups, can } = useUserGroups();
   const { t, i18n } = useTranslation();
   const isRTL = (i18n.language || "en").startsWith("ar");
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [modules, setModules] = useState<PortalModule[] | null>(null);
+  const modulesQuery = useQuery(queryKeys.portalModules(), getPortalModules);
+  const isLoading = modulesQuery.isLoading;
+  // Only surface the error when there is nothing cached to show
+  const error =
+    modulesQuery.error && !modulesQuery.data
+      ? getErrorMessage(modulesQuery.error, "Failed to load tracks")
+      : null;
+  const [modules, setModules] = useState<PortalModule[] | null>(
+    modulesQuery.data?.results ?? null
+  );
   const [openWeeks, setOpenWeeks] = useState<Record<number, boolean>>({});
   const [editingModuleId, setEditingModuleId] = useState<number | null>(null);
   const [moduleTitleDraft, setModuleTitleDraft] = useState("");
@@ -88,33 +98,10 @@ export function TrackPage() {
     };
   }
 
+  // Local copy so title edits show up immediately; refreshed from the cache
   useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      try {
-        setIsLoading(true);
-        const data = await getPortalModules();
-        if (!cancelled) setModules(data.results ?? []);
-      } catch (e: unknown) {
-        let message = "Failed to load tracks";
-        if (
-          typeof e === "object" &&
-          e !== null &&
-          "message" in e &&
-          typeof (e as { message?: unknown }).message === "string"
-        ) {
-          message = (e as { message: string }).message;
-        }
-        if (!cancelled) setError(message);
-      } finally {
-        if (!cancelled) setIsLoading(false);
-      }
-    }
-    load();
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+    if (modulesQuery.data) setModules(modulesQuery.data.results ?? []);
+  }, [modulesQuery.data]);
 
   useEffect(() => {
     if (editingModuleId !== null) {
@@ -245,11 +232,7 @@ export function TrackPage() {
     return domain || "My Track";
   }, [groups]);
 
-  const isInstructor = useMemo(() => {
-    const g = groups || [];
-    const hasInstructor = g.some((x) => x.toLowerCase().includes("instructor"));
-    return groupId === 5 || hasInstructor;
-  }, [groupId, groups]);
+  const isInstructor = can("modules.edit");
 
   const trackTheme = getTrackTheme(trackTitle);
 
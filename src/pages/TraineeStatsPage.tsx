@@ -2,6 +2,8 @@ import { useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { toast } from "sonner";
 import {
+  getAttendanceRequests,
+  getMyLogs,
   getTraineeStats,
   getCurrentUser,
   type TraineeStatsAdditionalInformation,
@@ -17,6 +19,7 @@ import {
 } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Loader } from "@/components/ui/loader";
 import {
   Table,
@@ -27,11 +30,39 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { cn } from "@/lib/utils";
+import { AttendancePolicyBadge } from "@/components/AttendanceStatusBadge";
+import {
+  AttendanceRequestDialog,
+  type AttendanceRequestTarget,
+} from "@/components/AttendanceRequestDialog";
+import {
+  AttendanceRequestHistory,
+  AttendanceRequestStatusBadge,
+} from "@/components/AttendanceRequestHistory";
+import { AttendanceCalendarHeatmap } from "@/components/AttendanceCalendarHeatmap";
+import { useAttendancePolicies } from "@/hooks/useAttendancePolicies";
+import { useExcusedDates } from "@/hooks/useExcusedDates";
+import { useProgramDates } from "@/hooks/useProgramDates";
+import { useQuery } from "@/hooks/useQuery";
+import {
+  ATTENDANCE_POLICY_STATUSES,
+  applyWeeklyBreakLimit,
+  classifyAttendance,
+  countAttendanceStatuses,
+  getBreakMinutes,
+} from "@/lib/attendance-policy";
+import {
+  attendanceLogsToDays,
+  buildCalendarDays,
+} from "@/lib/attendance-calendar";
+import { todayIsoDate } from "@/lib/date-range";
+import { queryKeys } from "@/lib/query-keys";
 import {
   IconArrowDownRight,
   IconArrowUpRight,
   IconChartBar,
   IconGauge,
+  IconMessageReport,
   IconPhone,
   IconMail,
   IconBrandGithub,
@@ -453,6 +484,12 @@ export function TraineeStatsPage() {
         </CardContent>
       </Card>
 
+      <AttendancePolicyCard track={trackName} />
+
+      <AttendanceCalendarCard track={trackName} />
+
+      <MyAttendanceRequestsCard />
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader className="pb-2">
@@ -502,6 +539,250 @@ function InfoItem({
   );
 }
 
+function AttendancePolicyCard({ track }: { track: string }) {
+  const { t } = useTranslation();
+  const { getPolicy } = useAttendancePolicies();
+  const [requestTarget, setRequestTarget] =
+    useState<AttendanceRequestTarget | null>(null);
+  const [showRequestDialog, setShowRequestDialog] = useState(false);
+  const logsQuery = useQuery(queryKeys.myAttendanceLogs(), () => getMyLogs());
+
+  const classified = useMemo(() => {
+    const policy = getPolicy(track || null);
+    const items = [...(logsQuery.data ?? [])]
+      .sort((a, b) => b.attendance_date.localeCompare(a.attendance_date))
+      .map((log) => {
+        const event = typeof log.event === "number" ? null : log.event;
+        return {
+          log,
+          date: log.attendance_date,
+          eventId: typeof log.event === "number" ? log.event : log.event.id,
+          eventTitle: log.event_title ?? event?.title ?? null,
+          classification: classifyAttendance(
+            {
+              checkIn: log.check_in_time,
+              checkOut: log.check_out_time,
+              eventStart: event?.start_time,
+              eventEnd: event?.end_time,
+              breakMinutes: getBreakMinutes(log),
+            },
+            policy
+          ),
+        };
+      });
+    return applyWeeklyBreakLimit(items, policy);
+  }, [logsQuery.data, getPolicy, track]);
+
+  const counts = countAttendanceStatuses(
+    classified.map((item) => item.classification)
+  );
+
+  const openRequestDialog = (target: AttendanceRequestTarget | null) => {
+    setRequestTarget(target);
+    setShowRequestDialog(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>
+            {t("pages.traineeStats.attendance", { defaultValue: "Attendance" })}
+          </CardTitle>
+          <CardDescription>
+            {t("pages.traineeStats.attendanceHelper", {
+              defaultValue: "How your check-ins measure up to the track's attendance policy.",
+            })}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => openRequestDialog(null)}
+        >
+          <IconMessageReport className="size-4 mr-2" />
+          {t("pages.attendanceRequests.fileRequest", {
+            defaultValue: "Excuse or correction",
+          })}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {logsQuery.isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader />
+          </div>
+        ) : classified.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("pages.traineeStats.noAttendance", {
+              defaultValue: "No attendance records yet.",
+            })}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3">
+              {ATTENDANCE_POLICY_STATUSES.map((status) => (
+                <span key={status} className="inline-flex items-center gap-1">
+                  <AttendancePolicyBadge status={status} />
+                  <span className="text-sm font-semibold">{counts[status]}</span>
+                </span>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {classified.slice(0, 5).map(({ log, eventId, eventTitle, classification }) => (
+                <div
+                  key={`${log.id}-${log.attendance_date}`}
+                  className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm"
+                >
+                  <div>
+                    <span className="font-medium">{log.attendance_date}</span>
+                    {eventTitle && (
+                      <span className="text-muted-foreground"> • {eventTitle}</span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center justify-end gap-1">
+                    {classification.statuses.map((status) => (
+                      <AttendancePolicyBadge key={status} status={status} />
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      title={t("pages.attendanceRequests.dispute", {
+                        defaultValue: "Request a correction",
+                      })}
+                      onClick={() =>
+                        openRequestDialog({
+                          event: eventId,
+                          attendanceDate: log.attendance_date,
+                          checkInTime: log.check_in_time,
+                          checkOutTime: log.check_out_time,
+                        })
+                      }
+                    >
+                      <IconMessageReport className="size-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+      <AttendanceRequestDialog
+        open={showRequestDialog}
+        onOpenChange={setShowRequestDialog}
+        target={requestTarget}
+      />
+    </Card>
+  );
+}
+
+function AttendanceCalendarCard({ track }: { track: string }) {
+  const { t } = useTranslation();
+  const { getPolicy } = useAttendancePolicies();
+  const logsQuery = useQuery(queryKeys.myAttendanceLogs(), () => getMyLogs());
+  const excusedDates = useExcusedDates({ mine: true });
+  const programDates = useProgramDates(track);
+
+  const days = useMemo(() => {
+    const logs = logsQuery.data ?? [];
+    const policy = getPolicy(track || null);
+    const flaggedDates = applyWeeklyBreakLimit(
+      logs.map((log) => {
+        const event = typeof log.event === "number" ? null : log.event;
+        return {
+          date: log.attendance_date,
+          classification: classifyAttendance(
+            {
+              checkIn: log.check_in_time,
+              checkOut: log.check_out_time,
+              eventStart: event?.start_time,
+              eventEnd: event?.end_time,
+              breakMinutes: getBreakMinutes(log),
+            },
+            policy
+          ),
+        };
+      }),
+      policy
+    )
+      .filter((item) => item.classification.statuses.includes("over_break"))
+      .map((item) => item.date);
+    return buildCalendarDays(attendanceLogsToDays(logs), {
+      excusedDates,
+      flaggedDates,
+      programDates,
+      today: todayIsoDate(),
+    });
+  }, [logsQuery.data, getPolicy, track, excusedDates, programDates]);
+
+  // The policy card already covers the empty and loading states
+  if (days.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>
+          {t("pages.traineeStats.attendanceCalendar", {
+            defaultValue: "Attendance calendar",
+          })}
+        </CardTitle>
+        <CardDescription>
+          {t("pages.traineeStats.attendanceCalendarHelper", {
+            defaultValue: "Every program day at a glance. Click a day for details.",
+          })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AttendanceCalendarHeatmap days={days} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function MyAttendanceRequestsCard() {
+  const { t } = useTranslation();
+  const filters = { mine: true };
+  const requestsQuery = useQuery(queryKeys.attendanceRequests(filters), () =>
+    getAttendanceRequests(filters)
+  );
+  const requests = requestsQuery.data ?? [];
+
+  // Nothing filed yet: keep the page uncluttered
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>
+          {t("pages.attendanceRequests.mine", { defaultValue: "My requests" })}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => (
+          <div key={request.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <div>
+                <span className="font-medium">{request.attendance_date}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  •{" "}
+                  {t(`pages.attendanceRequests.types.${request.type}`, {
+                    defaultValue:
+                      request.type === "excuse" ? "Excuse" : "Correction",
+                  })}
+                </span>
+              </div>
+              <AttendanceRequestStatusBadge status={request.status} />
+            </div>
+            <AttendanceRequestHistory entries={request.history} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 function ModuleRow({ module }: { module: TraineeStatsModule }) {
   const { t } = useTranslation();
   const prePercent = module.pre_score_max
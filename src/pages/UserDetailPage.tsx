@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import ReactMarkdown from "react-markdown";
@@ -11,6 +11,7 @@ import {
   CardFooter,
 } from "@/components/ui/card";
 import { AIAnalysisBanner } from "@/components/ai-analysis-banner";
+import { CandidateAnalysisCard } from "@/components/CandidateAnalysisCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Table,
@@ -29,6 +30,7 @@ import { Loader } from "@/components/ui/loader";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
 import { AttendanceBreakdown } from "@/components/AttendanceBreakdown";
+import { AttendanceWeekGrid } from "@/components/AttendanceWeekGrid";
 import { CandidateWeekPerformanceCard } from "@/components/CandidateWeekPerformanceCard";
 import {
   Dialog,
@@ -58,11 +60,29 @@ import {
   IconMapPin,
   IconSparkles,
   IconPresentation,
+  IconEye,
 } from "@tabler/icons-react";
 import { IconPlayerPlay, IconPlayerPause, IconFlagCheck, IconClock, IconRefresh } from "@tabler/icons-react";
 import { FaGithub, FaLinkedin, FaUniversity } from "react-icons/fa";
 import { useEffect } from "react";
-import { generateWithGemini } from "@/services/gemini";
+import { generateValidated, getLlmProvider } from "@/services/llm";
+import {
+  loadInterviewerCalibration,
+  useInterviewerCalibration,
+} from "@/hooks/useInterviewerCalibration";
+import {
+  INTERVIEW_KINDS,
+  LENIENCY_LABELS,
+  calibrateCandidate,
+  calibrateScore,
+  getLeniencyLabel,
+} from "@/lib/interviewer-calibration";
+import {
+  CANDIDATE_ANALYSIS_SCHEMA,
+  parseStoredAnalysis,
+  serializeCandidateAnalysis,
+  validateCandidateAnalysis,
+} from "@/lib/candidate-analysis";
 import {
   getUserDetailById,
   type BackendUserDetail,
@@ -77,7 +97,15 @@ import {
 } from "@/lib/api";
 import { toast } from "sonner";
 import { useCandidates } from "@/context/CandidatesContext";
+import { FieldError } from "@/components/ui/field";
+import { ValidationError, getErrorMessage } from "@/lib/api-errors";
+import { useFieldErrors } from "@/hooks/useFieldErrors";
 import { type Candidate } from "@/lib/candidates";
+import { todayIsoDate } from "@/lib/date-range";
+import { invalidateQueries } from "@/lib/query-cache";
+import { queryKeys } from "@/lib/query-keys";
+import { useAuth } from "@/context/AuthContext";
+import { ViewAsDialog } from "@/components/ViewAsDialog";
 
 type UserDetail = {
   id: string;
@@ -99,6 +127,7 @@ type UserDetail = {
   iqExamScore?: string;
   englishExamScore?: string;
   presentationTopic?: string;
+  track?: string;
   technicalSkills: Array<{
     skill: string;
     proficiency: string;
@@ -209,6 +238,7 @@ function transformBackendUserDetail(data: BackendUserDetail): UserDetail {
     iqExamScore: iqScore,
     englishExamScore: englishScore,
     presentationTopic: (add as any).topic ?? undefined,
+    track: data.track ?? add.Track ?? undefined,
     technicalSkills: Array.isArray((info as any).technicalSkills)
       ? ((info as any).technicalSkills as any[]).map((t) => ({
         skill: (t?.skill ?? "") as string,
@@ -374,16 +404,62 @@ export function UserDetailPage() {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<UserDetail | null>(null);
+  const [attendanceWeek, setAttendanceWeek] = useState(todayIsoDate);
   const { candidates, setCandidates } = useCandidates();
+  const { realUser, viewAs } = useAuth();
+  const [showViewAs, setShowViewAs] = useState(false);
+  const viewAsUser = useMemo(
+    () =>
+      user
+        ? {
+            id: Number(user.id),
+            name: user.fullName,
+            email: user.email,
+            avatar: user.avatar,
+          }
+        : undefined,
+    [user]
+  );
 
   // Interview form state
   const [form, setForm] = useState<InterviewForm | null>(null);
   const [answers, setAnswers] = useState<Record<number, string | number>>({});
   const [invalidFields, setInvalidFields] = useState<Set<number>>(new Set());
+  // Backend errors come back per payload row (form_fields.<index>.<key>);
+  // translate them to the form field id rendered in each card
+  const formFieldErrorMap = useMemo(() => {
+    const map: Record<string, string> = {};
+    (form?.fields ?? []).forEach((field, index) => {
+      const name = String(field.id);
+      map[`form_fields.${index}`] = name;
+      map[`form_fields.${index}.selected_option_id`] = name;
+      map[`form_fields.${index}.text_field_entry`] = name;
+      map[`form_fields.${index}.form_field_id`] = name;
+    });
+    return map;
+  }, [form]);
+  const {
+    applyError: applyFormFieldErrors,
+    clearFieldError: clearFormFieldError,
+    resetFieldErrors: resetFormFieldErrors,
+    getFieldError: getFormFieldError,
+    getFieldErrorItems: getFormFieldErrorItems,
+  } = useFieldErrors(formFieldErrorMap);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isGeminiLoading, setIsGeminiLoading] = useState(false);
   const [geminiResponse, setGeminiResponse] = useState<string | null>(null);
   const [storedAnalysis, setStoredAnalysis] = useState<string | null>(null);
+  // Structured JSON, or Markdown from before the analysis had a schema
+  const parsedAnalysis = useMemo(
+    () => parseStoredAnalysis(geminiResponse),
+    [geminiResponse]
+  );
+  // Calibration sweeps every candidate, so it loads only once the analysis
+  // runs or an interview breakdown is opened
+  const [calibrationRequested, setCalibrationRequested] = useState(false);
+  const { calibration: interviewerCalibration } = useInterviewerCalibration({
+    enabled: calibrationRequested,
+  });
 
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
   // Collapse state for Breakdown sections
@@ -521,6 +597,13 @@ export function UserDetailPage() {
     try {
       setIsGeminiLoading(true);
       setGeminiResponse(null);
+      setCalibrationRequested(true);
+      // This candidate's interview scores, raw and calibrated
+      const candidateCalibration = await loadInterviewerCalibration()
+        .then((calibration) =>
+          calibrateCandidate(calibration, user.formsEntries ?? [])
+        )
+        .catch(() => null);
 
       const instruction = `You are an expert AI assistant tasked with evaluating candidates for the "Tatweer Graduate Program 2025" (TGP2025). Your purpose is to analyze a candidate's profile, provided in JSON format, and provide a concise, data-driven evaluation that strongly incorporates CV evidence and calibrates interview scores for interviewer bias.
 
@@ -542,14 +625,14 @@ Synthesize information from these key areas to inform the overall score. **All s
 
 2.  **Interview Performance Context (Calibrated for interviewer bias):**
     *   **Technical Interview (Max Raw Score: 50):**
-        *   First, normalize the candidate's average raw score to a percentage: \`(average_raw_score / 50) * 100\`.
+        *   First, normalize the candidate's average calibrated score (raw if calibration is unavailable) to a percentage: \`(average_score / 50) * 100\`.
         *   Then, use the distribution chart to assess this percentage. Most candidates score between 20-50%.
         *   **Excellent:** 60%+
         *   **Strong:** 40% - 59%
         *   **Average / Developing:** 20% - 39%
         *   **Weak:** 0% - 19%
     *   **HR Interview (Max Raw Score: 26):**
-        *   First, normalize the candidate's average raw score to a percentage: \`(average_raw_score / 26) * 100\`.
+        *   First, normalize the candidate's average calibrated score (raw if calibration is unavailable) to a percentage: \`(average_score / 26) * 100\`.
         *   Then, use the distribution chart to assess this percentage. Note that the vast majority of candidates score high (80%+), so a high score is the expectation.
         *   **Excellent:** 90%+ (Exceeds expectations)
         *   **Expected:** 70% - 89% (Meets program expectations)
@@ -561,41 +644,11 @@ Synthesize information from these key areas to inform the overall score. **All s
     *   If only one interviewer scored the candidate, treat interview confidence as medium and cap the interview's contribution when computing the overall score (see Scoring Approach).
     *   When interview scores conflict with strong CV evidence (e.g., sustained relevant projects/internships, strong GitHub), favor CV evidence and explicitly note the discrepancy.
 
-3.  **Program-wide Interviewer Baselines and Bias Calibration:**
-    You are provided with average normalized scoring tendencies for interviewers (0 to 1 scale). Use these baselines to re-center interviewer scores onto a common scale before using them in the evaluation. The baselines may also be provided in the candidate JSON under \`interviewer_bias\`.
-
-    Known baselines (approximate, normalized 0–1):
-    {
-      "raouf": 0.79,
-      "anas": 0.78,
-      "Yousuf Aldharrat": 0.77,
-      "Mohammed alrafadi": 0.73,
-      "Ahmed Elomami": 0.72,
-      "Mohanned Najam": 0.71,
-      "Nouran Elarabi": 0.67,
-      "Ahmed B.": 0.65,
-      "Ehab Alraid": 0.63,
-      "Hanan Mohammed": 0.55,
-      "Aml": 0.49,
-      "Istabrak": 0.53,
-      "Amine": 0.40,
-      "Hana": 0.36,
-      "Salma": 0.32,
-      "Mohammed A": 0.15
-    }
-    Global average across interviewers: 0.61 (approx.).
-
-    Bias-adjustment algorithm (no external tools needed):
-    *   For each interviewer i with baseline \(\mu_i\) and the global average \(\mu_{all}=0.61\), convert the candidate's normalized score s (in [0,1]) to an adjusted score:
-        \( s' = \operatorname{clip}_{[0,1]}( s + \lambda (\mu_{all} - \mu_i) ) \)
-        where \n
-        - \(\lambda\) depends on how much evidence you have:
-          - 0.7 if there is only a single interviewer,
-          - 0.5 if there are two interviewers,
-          - 0.3 if there are three or more interviewers.
-        - Cap the absolute adjustment at 0.10 (±10 percentage points).
-    *   If multiple interviewers scored the candidate, compute \(s'\) for each, then use the weighted median where weights are \(w_i = 1 - \min(0.4, |\mu_i - \mu_{all}|)\). This downweights very lenient/harsh interviewers.
-    *   If a baseline for an interviewer is not provided, assume \(\mu_i = \mu_{all}\) (no adjustment).
+3.  **Interviewer Calibration (computed from real scores):**
+    Every interview score in the candidate JSON under \`interviewer_calibration\` comes with a calibrated value. It is computed from the distribution of all scores each interviewer has given across the candidate pool: the raw score's z-score within that interviewer's distribution is mapped back onto the pool's distribution, so it stays in interview points (out of 26 for HR, 50 for Technical). Interviewers with few entries are shrunk towards the pool.
+    *   Use \`calibrated\` (and \`average_calibrated\`) as the primary interview signal; \`raw\` is for reference.
+    *   \`leniency\` is the interviewer's mean relative to the pool in standard deviations (positive = lenient, negative = harsh); \`z\` is how this score compares with what that interviewer usually gives. Mention large adjustments (|leniency| ≥ 0.5) when they change the picture.
+    *   If \`interviewer_calibration\` is null, calibration data wasn't available: use raw scores and lower confidence.
 
 4.  **Test Scores Context:**
     *   **IQ Score (Custom Test, 0-60 (the IQ score is not important and must not affect the overall score or selection eligibility. Report it only as a data point)):**
@@ -612,65 +665,45 @@ Synthesize information from these key areas to inform the overall score. **All s
 5.  **Scoring Approach (flexible, bias-aware):**
     Compute the overall score using a balanced blend of signals with these defaults (adjust by ±10 total points if justified by evidence and calibration):
     *   CV Evidence: 40%–60% (default 50%)
-    *   Technical Interview (after calibration): 20%–35% (default 30%)
-    *   HR Interview (after calibration): 5%–15% (default 10%)
+    *   Technical Interview (calibrated): 20%–35% (default 30%)
+    *   HR Interview (calibrated): 5%–15% (default 10%)
     *   English Proficiency: 5%–15% (default 10%)
     Notes:
     *   If only one technical interviewer exists, cap Technical Interview contribution at 20% and shift the difference to CV.
-    *   Do not use IQ to increase or decrease the overall score; mention it only in Key Data Points.
+    *   Do not use IQ to increase or decrease the overall score; cite it only as evidence.
 
 **Output Format:**
-You must provide your evaluation in the following strict, concise format:
-
-**Candidate Evaluation: [Candidate's Name]**
-
-**Overall Score:** [Score out of 100]
+Reply with a single JSON object matching the response schema; no Markdown and no text outside the JSON.
+*   \`overall_score\`: integer 0-100 from the Scoring Approach.
+*   \`recommendation\`: "strong_yes" (75+ with solid CV evidence), "yes" (60-74), "maybe" (45-59) or "no" (below 45).
+*   \`confidence\`: "high", "medium" or "low", reflecting how much evidence there is (e.g. a single interviewer or an unreadable CV lowers it).
+*   \`justification\`: 1-2 sentences explaining the core reason for the score.
+*   \`strengths\` / \`weaknesses\`: 2-4 items each. \`point\` is a direct observation, \`source\` the data it comes from, and \`evidence\` the cited score, note or CV detail. Example: { "point": "Strong Technical Interview performance", "source": "technical_interview", "evidence": "25/50 (50%), 'Strong' tier" }.
+*   \`dimension_scores\`: for \`cv\`, \`technical_interview\` (after calibration), \`hr_interview\` (after calibration) and \`english\`, a normalized 0-100 \`score\` (null when there is no data), the \`tier\` name from the criteria above and a one-sentence \`note\`. IQ is not a dimension; cite it as evidence only.
 
-**Justification:**
-A brief, 1-2 sentence summary explaining the core reason for your score, synthesizing the candidate's profile and performance.
+**CV Usage Requirement:** If CV text is provided between the markers [CV_TEXT_START] and [CV_TEXT_END], or you can read the CV from the link provided, you MUST incorporate it: set \`cv_accessible\` to true and include at least one (preferably 2+) strengths/weaknesses with \`source\` "cv". If the CV could not be accessed, set \`cv_accessible\` to false. Even if CV text is unavailable, treat \`workExperience\`, \`coursesTaken\`, \`technicalSkills\`, \`fieldOfStudy\`, and any \`github\` link as CV evidence and reflect them in strengths/weaknesses.
 
-**Evidence Summary:**
-
-**Strengths:**
-*   [Bulleted list of 2-4 key strengths. Each point must be a direct observation. Example: "Strong Technical Interview performance (25/50 | 50%), placing in the 'Strong' tier."]
-*   [Example: "Notable CV projects/internship using React + Node, aligned with program focus."]
-*   [Example: "English score of Adv-B, indicating Advanced proficiency."]
-
-**Weaknesses:**
-*   [Bulleted list of 2-4 key weaknesses. Each point must be a direct observation. Example: "Concerning HR Interview performance (15/26 | 58%), which is below the expected range for candidates."]
-*   [Example: "Weak Technical Interview performance (8/50 | 16%)."]
-*   [Example: "Limited relevant project experience on CV."]
-
-
-**Key Data Points:**
-*   **Technical Interview:** [Avg Raw Score]/50 | [Normalized %] ([Performance Tier])
-*   **HR Interview:** [Avg Raw Score]/26 | [Normalized %] ([Performance Tier])
-*   **IQ Score:** [Score] ([Performance Tier])
-*   **English Score:** [Score] ([Proficiency Tier])
-
-**CV Usage Requirement:** If CV text is provided between the markers [CV_TEXT_START] and [CV_TEXT_END], you MUST incorporate it in your analysis and include at least one bullet (preferably 2+) in Strengths/Weaknesses derived from the CV (e.g., projects, tools, internships). If the CV could not be accessed, explicitly add a final bullet under Key Data Points: CV: not accessible. Even if CV text is unavailable, treat \`workExperience\`, \`coursesTaken\`, \`technicalSkills\`, \`fieldOfStudy\`, and any \`github\` link as CV evidence and reflect them in Strengths/Weaknesses.
-
-if you read the cv from the link provided with the data add a short section named **CV Insights** (1–3 bullets) only if the CV text is provided and yields useful, concrete signals.`;
+\`cv_insights\`: 1-3 concrete signals from the CV text, only if it yields useful ones; otherwise an empty array.`;
 
       // Build a compact candidate JSON from our current page state
-      const interviewerBaselines = {
-        raouf: 0.79,
-        anas: 0.78,
-        "Yousuf Aldharrat": 0.77,
-        "Mohammed alrafadi": 0.73,
-        "Ahmed Elomami": 0.72,
-        "Mohanned Najam": 0.71,
-        "Nouran Elarabi": 0.67,
-        "Ahmed B.": 0.65,
-        "Ehab Alraid": 0.63,
-        "Hanan Mohammed": 0.55,
-        Aml: 0.49,
-        Istabrak: 0.53,
-        Amine: 0.40,
-        Hana: 0.36,
-        Salma: 0.32,
-        "Mohammed A": 0.15,
-      } as const;
+      const calibrationPayload = candidateCalibration
+        ? Object.fromEntries(
+            INTERVIEW_KINDS.map((kind) => [
+              kind,
+              {
+                average_raw: candidateCalibration[kind].averageRaw,
+                average_calibrated: candidateCalibration[kind].averageCalibrated,
+                scores: candidateCalibration[kind].scores.map((score) => ({
+                  interviewer: score.interviewer,
+                  raw: score.raw,
+                  calibrated: score.calibrated,
+                  z: score.z,
+                  leniency: score.leniency,
+                })),
+              },
+            ])
+          )
+        : null;
 
       const candidatePayload = {
         id: user.id,
@@ -693,10 +726,7 @@ if you read the cv from the link provided with the data add a short section name
             averageScores(techForm?.entries).toFixed(2)
           ),
         },
-        interviewer_bias: {
-          baselines: interviewerBaselines,
-          global_average: 0.61,
-        },
+        interviewer_calibration: calibrationPayload,
       };
 
       // Optionally extract resume text via URL Context in a first pass
@@ -706,24 +736,37 @@ if you read the cv from the link provided with the data add a short section name
         2
       )}`;
 
-      const text = await generateWithGemini({
-        user: userPrompt,
-        system: instruction,
-        urls: user.resumeUrl ? [user.resumeUrl] : undefined,
+      // Retried with the validation errors until it matches the schema
+      const result = await generateValidated(
+        getLlmProvider(),
+        {
+          task: "candidate-analysis",
+          prompt: userPrompt,
+          system: instruction,
+          urls: user.resumeUrl ? [user.resumeUrl] : undefined,
+        },
+        CANDIDATE_ANALYSIS_SCHEMA,
+        validateCandidateAnalysis
+      );
+      const text = serializeCandidateAnalysis(result.data, {
+        provider: result.provider,
+        model: result.model,
       });
-      setGeminiResponse(text || "No response");
+      setGeminiResponse(text);
 
       // Save to backend (non-blocking toast on failure)
       try {
-        await patchUserAiAnalysis(user.id, text || "");
-        setStoredAnalysis(text || "");
+        await patchUserAiAnalysis(user.id, text);
+        setStoredAnalysis(text);
+        // The candidates list may read analyses from the detail sweep
+        invalidateQueries(queryKeys.candidateFormsEntries());
       } catch (saveErr: any) {
         console.warn("Failed to save AI analysis:", saveErr);
         toast.error("Failed to save AI analysis");
       }
     } catch (err: any) {
       console.error(err);
-      toast.error(err?.message || "Gemini request failed");
+      toast.error(err?.message || "AI request failed");
     } finally {
       setIsGeminiLoading(false);
     }
@@ -795,6 +838,7 @@ if you read the cv from the link provided with the data add a short section name
     // Reset answers/validation when switching forms
     setAnswers({});
     setInvalidFields(new Set());
+    resetFormFieldErrors();
     if (formsCache[formMeta.id]) {
       setForm(formsCache[formMeta.id]);
       return;
@@ -824,6 +868,7 @@ if you read the cv from the link provided with the data add a short section name
   const handleAnswerChange = (fieldId: number, value: string | number) => {
     setAnswers((prev) => ({ ...prev, [fieldId]: value }));
     // Clear invalid marker on change
+    clearFormFieldError(String(fieldId));
     setInvalidFields((prev) => {
       if (!prev.has(fieldId)) return prev;
       const next = new Set(prev);
@@ -908,6 +953,7 @@ if you read the cv from the link provided with the data add a short section name
       }),
     };
 
+    resetFormFieldErrors();
     try {
       setIsSubmitting(true);
       await submitForm(payload);
@@ -927,7 +973,15 @@ if you read the cv from the link provided with the data add a short section name
       }, 2000);
     } catch (err) {
       console.error("Failed to submit interview form", err);
-      toast.error("Failed to submit interview form");
+      const unmapped = applyFormFieldErrors(err);
+      if (unmapped === null && err instanceof ValidationError) {
+        setShowSubmitDialog(false);
+        toast.error("Please fix the highlighted fields.");
+      } else {
+        toast.error(
+          unmapped ?? getErrorMessage(err, "Failed to submit interview form")
+        );
+      }
       setIsSubmitting(false);
     }
   };
@@ -1023,11 +1077,17 @@ if you read the cv from the link provided with the data add a short section name
       (f: any) => typeof f?.label === "string" && f.label.toLowerCase().includes("notes")
     );
     const note = typeof (noteField as any)?.text === "string" ? (noteField as any).text.trim() : "";
+    const score = Number(e.final_score) || 0;
+    const calibrated = interviewerCalibration
+      ? calibrateScore(interviewerCalibration.hr, e.submitted_by?.id ?? null, score)
+      : null;
     return {
       interviewer: e.submitted_by?.name || "Unknown",
-      score: Number(e.final_score) || 0,
+      score,
       note,
-    } as { interviewer: string; score: number; note?: string };
+      calibrated: calibrated?.calibrated ?? null,
+      leniency: calibrated?.leniency ?? null,
+    } as { interviewer: string; score: number; note?: string; calibrated: number | null; leniency: number | null };
   });
 
   // Technical breakdown (similar to HR)
@@ -1058,13 +1118,30 @@ if you read the cv from the link provided with the data add a short section name
       (f: any) => typeof f?.label === "string" && f.label.toLowerCase().includes("notes")
     );
     const note = typeof (noteField as any)?.text === "string" ? (noteField as any).text.trim() : "";
+    const score = Number(e.final_score) || 0;
+    const calibrated = interviewerCalibration
+      ? calibrateScore(interviewerCalibration.technical, e.submitted_by?.id ?? null, score)
+      : null;
     return {
       interviewer: e.submitted_by?.name || "Unknown",
-      score: Number(e.final_score) || 0,
+      score,
       note,
-    } as { interviewer: string; score: number; note?: string };
+      calibrated: calibrated?.calibrated ?? null,
+      leniency: calibrated?.leniency ?? null,
+    } as { interviewer: string; score: number; note?: string; calibrated: number | null; leniency: number | null };
   });
 
+  // Mean of the calibrated totals above; null until calibration has loaded
+  const averageCalibrated = (totals: { calibrated: number | null }[]) => {
+    const values = totals
+      .map((it) => it.calibrated)
+      .filter((value): value is number => value !== null);
+    if (values.length === 0) return null;
+    return Number((values.reduce((s, n) => s + n, 0) / values.length).toFixed(2));
+  };
+  const hrCalibratedAverage = averageCalibrated(hrInterviewerTotals);
+  const techCalibratedAverage = averageCalibrated(techInterviewerTotals);
+
   // Generic builder for any other form (e.g., Presentation)
   function buildGenericSections(entries?: { submitted_by?: { name?: string }; fields: any[] }[]): Section[] {
     if (!entries || entries.length === 0) return [];
@@ -1159,7 +1236,18 @@ if you read the cv from the link provided with the data add a short section name
         onAnalyze={handleAnalyzeClick}
         analyzeText="Analyze"
         isLoading={isGeminiLoading}
-        response={geminiResponse}
+        response={
+          parsedAnalysis?.kind === "markdown" ? parsedAnalysis.text : null
+        }
+        content={
+          parsedAnalysis?.kind === "structured" ? (
+            <CandidateAnalysisCard
+              analysis={parsedAnalysis.analysis}
+              model={parsedAnalysis.model}
+              generatedAt={parsedAnalysis.generatedAt}
+            />
+          ) : undefined
+        }
         defaultCollapsed={true}
         defaultCardCollapsed={true}
       />
@@ -1250,6 +1338,23 @@ if you read the cv from the link provided with the data add a short section name
                   No Resume
                 </Button>
               )}
+              {realUser?.is_staff && !viewAs && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setShowViewAs(true)}
+                  >
+                    <IconEye className="size-4 mr-1.5" />
+                    {t("viewAs.title", { defaultValue: "View as" })}
+                  </Button>
+                  <ViewAsDialog
+                    open={showViewAs}
+                    onOpenChange={setShowViewAs}
+                    user={viewAsUser}
+                  />
+                </>
+              )}
             </div>
           </div>
         </CardContent>
@@ -1814,7 +1919,8 @@ if you read the cv from the link provided with the data add a short section name
               return (
                 <Card
                   key={field.id}
-                  className={`${invalidFields.has(field.id)
+                  className={`${invalidFields.has(field.id) ||
+                    getFormFieldError(String(field.id))
                     ? "border-1 border-destructive"
                     : ""
                     }`}
@@ -1941,6 +2047,9 @@ if you read the cv from the link provided with the data add a short section name
                         )}
                       </div>
                     )}
+                    <FieldError
+                      errors={getFormFieldErrorItems(String(field.id))}
+                    />
                   </CardContent>
                 </Card>
               );
@@ -2019,6 +2128,15 @@ if you read the cv from the link provided with the data add a short section name
                   </div>
                   <div className="text-muted-foreground">/{breakdownSummary.hr.total}</div>
                 </div>
+                {hrCalibratedAverage !== null && (
+                  <div
+                    className="mt-1 text-sm text-muted-foreground"
+                    title="Adjusted for each interviewer's scoring tendency"
+                  >
+                    Calibrated:{" "}
+                    <span className="font-medium text-foreground">{hrCalibratedAverage}</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -2037,6 +2155,15 @@ if you read the cv from the link provided with the data add a short section name
                   </div>
                   <div className="text-muted-foreground">/{breakdownSummary.technical.total}</div>
                 </div>
+                {techCalibratedAverage !== null && (
+                  <div
+                    className="mt-1 text-sm text-muted-foreground"
+                    title="Adjusted for each interviewer's scoring tendency"
+                  >
+                    Calibrated:{" "}
+                    <span className="font-medium text-foreground">{techCalibratedAverage}</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -2049,7 +2176,10 @@ if you read the cv from the link provided with the data add a short section name
                 <div className="flex items-center gap-3">
                   <button
                     className="inline-flex items-center gap-1.5 text-sm underline-offset-4 hover:underline text-muted-foreground"
-                    onClick={() => setHrDetailsOpen((v) => !v)}
+                    onClick={() => {
+                      setHrDetailsOpen((v) => !v);
+                      setCalibrationRequested(true);
+                    }}
                   >
                     <span>{hrDetailsOpen ? "Hide details" : "Show details"}</span>
                     <svg
@@ -2083,6 +2213,20 @@ if you read the cv from the link provided with the data add a short section name
                         <div className="text-3xl font-bold tracking-tight">{it.score}</div>
                         <div className="text-muted-foreground">/{hrBreakdown.total}</div>
                       </div>
+                      {it.calibrated !== null && (
+                        <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                          <span>
+                            Calibrated:{" "}
+                            <span className="font-medium text-foreground">{it.calibrated}</span>
+                          </span>
+                          {it.leniency !== null && getLeniencyLabel(it.leniency) !== "typical" && (
+                            <Badge variant="outline" className="text-xs">
+                              {LENIENCY_LABELS[getLeniencyLabel(it.leniency)]} ({it.leniency > 0 ? "+" : ""}
+                              {it.leniency} SD)
+                            </Badge>
+                          )}
+                        </div>
+                      )}
                       {it.note && (
                         <div className="mt-3 text-sm">
                           <div className="rounded-2xl border bg-muted/70 px-3 py-2 text-foreground">
@@ -2150,7 +2294,10 @@ if you read the cv from the link provided with the data add a short section name
                 <div className="flex items-center gap-3">
                   <button
                     className="inline-flex items-center gap-1.5 text-sm underline-offset-4 hover:underline text-muted-foreground"
-                    onClick={() => setTechDetailsOpen((v) => !v)}
+                    onClick={() => {
+                      setTechDetailsOpen((v) => !v);
+                      setCalibrationRequested(true);
+                    }}
                   >
                     <span>{techDetailsOpen ? "Hide details" : "Show details"}</span>
                     <svg
@@ -2184,6 +2331,20 @@ if you read the cv from the link provided with the data add a short section name
                         <div className="text-3xl font-bold tracking-tight">{it.score}</div>
                         <div className="text-muted-foreground">/{techBreakdown.total}</div>
                       </div>
+                      {it.calibrated !== null && (
+                        <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                          <span>
+                            Calibrated:{" "}
+                            <span className="font-medium text-foreground">{it.calibrated}</span>
+                          </span>
+                          {it.leniency !== null && getLeniencyLabel(it.leniency) !== "typical" && (
+                            <Badge variant="outline" className="text-xs">
+                              {LENIENCY_LABELS[getLeniencyLabel(it.leniency)]} ({it.leniency > 0 ? "+" : ""}
+                              {it.leniency} SD)
+                            </Badge>
+                          )}
+                        </div>
+                      )}
                       {it.note && (
                         <div className="mt-3 text-sm">
                           <div className="rounded-2xl border bg-muted/70 px-3 py-2 text-foreground">
@@ -2385,8 +2546,25 @@ if you read the cv from the link provided with the data add a short section name
                 </p>
               </div>
               <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      {t("pages.attendance.week.title", {
+                        defaultValue: "Weekly overview",
+                      })}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <AttendanceWeekGrid
+                      date={attendanceWeek}
+                      onDateChange={setAttendanceWeek}
+                      user={id!}
+                    />
+                  </CardContent>
+                </Card>
                 <AttendanceBreakdown
                   userId={id!}
+                  track={user.track}
                   attendanceLog={user.attendanceLog ?? null}
                   className="w-full"
                 />
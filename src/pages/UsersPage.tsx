@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useCallback } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -29,6 +29,10 @@ import {
   IconChevronRight,
   IconCopy,
   IconRefresh,
+  IconSparkles,
+  IconArrowsSort,
+  IconSortAscending,
+  IconSortDescending,
 } from "@tabler/icons-react";
 import {
   IconMinus,
@@ -41,6 +45,15 @@ import { Loader } from "@/components/ui/loader";
 
 import { getCandidates } from "@/lib/api";
 import { transformBackendCandidate, type Candidate } from "@/lib/candidates";
+import {
+  RECOMMENDATIONS,
+  RECOMMENDATION_LABELS,
+  getStoredAnalysisScore,
+  getStoredRecommendation,
+  parseStoredAnalysis,
+} from "@/lib/candidate-analysis";
+import { useCandidateFormsEntries } from "@/hooks/useCandidateFormsEntries";
+import { CandidateRecommendationBadge } from "@/components/CandidateAnalysisCard";
 import { useCandidates } from "@/context/CandidatesContext";
 import { useAuth } from "@/context/AuthContext";
 
@@ -68,12 +81,22 @@ const getStatusMeta = (t: any) => ({
 
 const ITEMS_PER_PAGE = 8;
 
+type AiScoreSort = "none" | "desc" | "asc";
+const NEXT_AI_SCORE_SORT: Record<AiScoreSort, AiScoreSort> = {
+  none: "desc",
+  desc: "asc",
+  asc: "none",
+};
+
 export function UsersPage() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { t } = useTranslation();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  // "all", "not_analyzed" or a recommendation
+  const [aiFilter, setAiFilter] = useState<string>("all");
+  const [aiScoreSort, setAiScoreSort] = useState<AiScoreSort>("none");
   const [currentPage, setCurrentPage] = useState(1);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -105,9 +128,43 @@ export function UsersPage() {
     fetchCandidates();
   }, []);
 
+  // The AI filter and sort prefer ai_analysis from the list. Where the list
+  // leaves it out they read every candidate's detail, once they're in use
+  const isAiInUse = aiFilter !== "all" || aiScoreSort !== "none";
+  const needsDetails = candidates.some(
+    (candidate) => candidate.aiAnalysis === undefined
+  );
+  const detailsQuery = useCandidateFormsEntries({
+    enabled: isAiInUse && needsDetails,
+  });
+  const analysisById = useMemo(
+    () =>
+      new Map(
+        (detailsQuery.data?.candidates ?? []).map((entry) => [
+          String(entry.id),
+          parseStoredAnalysis(entry.aiAnalysis),
+        ])
+      ),
+    [detailsQuery.data]
+  );
+  // undefined when unknown: neither the list nor a loaded detail says
+  const getAnalysis = useCallback(
+    (candidate: Candidate) =>
+      candidate.aiAnalysis !== undefined
+        ? candidate.aiAnalysis
+        : analysisById.get(candidate.id),
+    [analysisById]
+  );
+  const isDetailsSettled =
+    detailsQuery.data !== undefined || detailsQuery.error !== undefined;
+  const unknownAiCount = isDetailsSettled
+    ? candidates.filter((candidate) => getAnalysis(candidate) === undefined)
+        .length
+    : 0;
+
   // Filter and search logic
   const filteredCandidates = useMemo(() => {
-    return candidates.filter((candidate) => {
+    const matching = candidates.filter((candidate) => {
       const matchesSearch =
         candidate.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         candidate.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -117,9 +174,28 @@ export function UsersPage() {
       const matchesStatus =
         statusFilter === "all" || candidate.status === statusFilter;
 
-      return matchesSearch && matchesStatus;
+      const analysis = getAnalysis(candidate);
+      const matchesAi =
+        aiFilter === "all" ||
+        (analysis !== undefined &&
+          (aiFilter === "not_analyzed"
+            ? analysis === null
+            : getStoredRecommendation(analysis) === aiFilter));
+
+      return matchesSearch && matchesStatus && matchesAi;
+    });
+    if (aiScoreSort === "none") return matching;
+    // Unscored candidates stay at the bottom in both directions
+    const direction = aiScoreSort === "desc" ? -1 : 1;
+    return [...matching].sort((a, b) => {
+      const scoreA = getStoredAnalysisScore(getAnalysis(a));
+      const scoreB = getStoredAnalysisScore(getAnalysis(b));
+      if (scoreA === null || scoreB === null) {
+        return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+      }
+      return (scoreA - scoreB) * direction;
     });
-  }, [candidates, searchTerm, statusFilter]);
+  }, [candidates, searchTerm, statusFilter, aiFilter, aiScoreSort, getAnalysis]);
 
   // Pagination logic
   const totalPages = Math.ceil(filteredCandidates.length / ITEMS_PER_PAGE);
@@ -135,6 +211,11 @@ export function UsersPage() {
     setCurrentPage(1);
   };
 
+  const handleAiFilterChange = (newFilter: string) => {
+    setAiFilter(newFilter);
+    setCurrentPage(1);
+  };
+
   const handleSearchChange = (value: string) => {
     setSearchTerm(value);
     setCurrentPage(1);
@@ -312,6 +393,54 @@ export function UsersPage() {
               </SelectContent>
             </Select>
 
+            {/* AI recommendation filter */}
+            <Select value={aiFilter} onValueChange={handleAiFilterChange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">
+                  <IconSparkles className="opacity-70" />
+                  {t("pages.candidates.aiFilterAll", {
+                    defaultValue: "All AI results",
+                  })}
+                </SelectItem>
+                {RECOMMENDATIONS.map((recommendation) => (
+                  <SelectItem key={recommendation} value={recommendation}>
+                    {t(`candidateAnalysis.recommendation.${recommendation}`, {
+                      defaultValue: RECOMMENDATION_LABELS[recommendation],
+                    })}
+                  </SelectItem>
+                ))}
+                <SelectItem value="not_analyzed">
+                  <IconMinus className="text-gray-500" />
+                  {t("pages.candidates.notAnalyzed", {
+                    defaultValue: "Not analyzed",
+                  })}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {isAiInUse && detailsQuery.isFetching ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader />
+                {t("pages.candidates.aiLoading", {
+                  defaultValue: "Loading AI results…",
+                })}
+              </div>
+            ) : (
+              isAiInUse &&
+              unknownAiCount > 0 && (
+                <div className="text-sm text-muted-foreground">
+                  {t("pages.candidates.aiUnknown", {
+                    count: unknownAiCount,
+                    failed: detailsQuery.data?.failedCount ?? unknownAiCount,
+                    defaultValue:
+                      "AI results unknown for {{count}} candidates ({{failed}} failed to load); the AI filter leaves them out",
+                  })}
+                </div>
+              )
+            )}
+
             {/* <Button onClick={fetchCandidates} variant="outline" size="sm">
               <IconRefresh className="size-4 mr-2" />
               Refresh
@@ -369,6 +498,27 @@ export function UsersPage() {
                   </div>
                 </TableHead>
                 <TableHead>{t("table.headers.status")}</TableHead>
+                <TableHead>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="-ml-3 h-8"
+                    onClick={() => {
+                      setAiScoreSort((prev) => NEXT_AI_SCORE_SORT[prev]);
+                      setCurrentPage(1);
+                    }}
+                  >
+                    {t("pages.candidates.aiScore", { defaultValue: "AI score" })}
+                    {aiScoreSort === "desc" ? (
+                      <IconSortDescending className="size-4" />
+                    ) : aiScoreSort === "asc" ? (
+                      <IconSortAscending className="size-4" />
+                    ) : (
+                      <IconArrowsSort className="size-4 opacity-50" />
+                    )}
+                  </Button>
+                </TableHead>
                 <TableHead className="w-[100px]">
                   {t("table.headers.actions")}
                 </TableHead>
@@ -377,7 +527,7 @@ export function UsersPage() {
             <TableBody>
               {paginatedCandidates.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8">
+                  <TableCell colSpan={6} className="text-center py-8">
                     <div className="text-muted-foreground">
                       {t("pages.candidates.noCandidates")}
                     </div>
@@ -386,6 +536,9 @@ export function UsersPage() {
               ) : (
                 paginatedCandidates.map((candidate) => {
                   const meta = getStatusMeta(t)[candidate.status];
+                  const aiAnalysis = getAnalysis(candidate);
+                  const aiScore = getStoredAnalysisScore(aiAnalysis);
+                  const aiRecommendation = getStoredRecommendation(aiAnalysis);
                   return (
                   <TableRow key={candidate.id}>
                     <TableCell>
@@ -505,6 +658,28 @@ export function UsersPage() {
                           })()}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        {aiAnalysis === undefined && isDetailsSettled ? (
+                          <span className="text-muted-foreground">
+                            {t("pages.candidates.aiUnknownCell", {
+                              defaultValue: "Unknown",
+                            })}
+                          </span>
+                        ) : aiScore === null && !aiRecommendation ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold tabular-nums">
+                              {aiScore ?? "—"}
+                            </span>
+                            {aiRecommendation && (
+                              <CandidateRecommendationBadge
+                                recommendation={aiRecommendation}
+                              />
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Button variant="outline" size="sm" asChild>
                           <Link to={`/candidates/${candidate.id}`}>
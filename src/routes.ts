@@ -0,0 +1,430 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from "react";
+import { matchPath } from "react-router-dom";
+import {
+  IconAlertTriangle,
+  IconBook,
+  IconChartBar,
+  IconClock,
+  IconFileText,
+  IconHome,
+  IconInbox,
+  IconPresentation,
+  IconQrcode,
+  IconReportAnalytics,
+  IconScale,
+  IconShieldCheck,
+  IconUsers,
+  type Icon,
+} from "@tabler/icons-react";
+import {
+  CAPABILITIES,
+  ROLE_DEFINITIONS,
+  type Capability,
+} from "@/lib/permissions";
+
+/*
+ Route registry: the one place a signed-in page is declared.
+ - The router, sidebar, breadcrumbs and page permissions are all generated
+   from ROUTES; nothing else lists paths
+ - guard is the capability a route requires, or "authenticated" for pages
+   every signed-in user may open
+ - parent builds the breadcrumb trail and picks the highlighted sidebar item
+ - findRouteRegistryProblems() runs in development and reports routes that
+   no role can reach or that have no usable guard
+*/
+
+export type RouteGuard = Capability | "authenticated";
+
+export type NavGroupId = "main" | "candidates" | "forms" | "learning" | "analytics";
+
+export type RouteDefinition = {
+  path: string;
+  component: LazyExoticComponent<ComponentType>;
+  guard: RouteGuard;
+  // i18n key and English fallback, shared by the sidebar and breadcrumbs
+  titleKey: string;
+  defaultTitle: string;
+  icon?: Icon;
+  // Sidebar section; routes without one stay out of the nav
+  nav?: NavGroupId;
+  // Breadcrumb parent, as a path in this registry
+  parent?: string;
+  // Rendered outside the app layout (no sidebar or header)
+  fullscreen?: boolean;
+};
+
+// For pages that export a named component rather than a default one
+function lazyNamed<M extends Record<string, unknown>>(
+  load: () => Promise<M>,
+  name: keyof M
+): LazyExoticComponent<ComponentType> {
+  return lazy(async () => ({
+    default: (await load())[name] as ComponentType,
+  }));
+}
+
+export const ROUTES = [
+  {
+    path: "/home",
+    component: lazyNamed(() => import("@/pages/HomePage"), "HomePage"),
+    guard: "authenticated",
+    titleKey: "navigation.home",
+    defaultTitle: "Home",
+    icon: IconHome,
+    nav: "main",
+  },
+  {
+    path: "/overview",
+    component: lazyNamed(() => import("@/pages/DashboardPage"), "DashboardPage"),
+    guard: "overview.read",
+    titleKey: "navigation.overview",
+    defaultTitle: "Overview",
+    icon: IconChartBar,
+    nav: "main",
+  },
+  {
+    path: "/candidates",
+    component: lazyNamed(() => import("@/pages/UsersPage"), "UsersPage"),
+    guard: "candidates.read",
+    titleKey: "navigation.candidates",
+    defaultTitle: "Trainees",
+    icon: IconUsers,
+    nav: "candidates",
+  },
+  {
+    path: "/candidates/:id",
+    component: lazyNamed(() => import("@/pages/UserDetailPage"), "UserDetailPage"),
+    guard: "candidates.read",
+    titleKey: "navigation.candidate_detail",
+    defaultTitle: "Trainee",
+    parent: "/candidates",
+  },
+  {
+    path: "/trainee-monitoring",
+    component: lazyNamed(
+      () => import("@/pages/TraineeMonitoringPage"),
+      "TraineeMonitoringPage"
+    ),
+    guard: "trainee_monitoring.read",
+    titleKey: "navigation.trainee_monitoring",
+    defaultTitle: "Trainee Monitoring",
+    icon: IconUsers,
+    nav: "candidates",
+  },
+  {
+    path: "/forms",
+    component: lazyNamed(() => import("@/pages/FormsPage"), "FormsPage"),
+    guard: "forms.read",
+    titleKey: "navigation.forms",
+    defaultTitle: "Forms",
+    icon: IconPresentation,
+    nav: "forms",
+  },
+  {
+    path: "/forms-results",
+    component: lazy(() => import("@/pages/FormsResultsPage")),
+    guard: "forms.results",
+    titleKey: "navigation.forms_summary",
+    defaultTitle: "Forms Summary",
+    icon: IconPresentation,
+    nav: "forms",
+  },
+  {
+    path: "/modules",
+    component: lazyNamed(() => import("@/pages/TrackPage"), "TrackPage"),
+    guard: "modules.read",
+    titleKey: "navigation.my_track",
+    defaultTitle: "My Track",
+    icon: IconBook,
+    nav: "learning",
+  },
+  {
+    path: "/modules/session/:id",
+    component: lazy(() => import("@/pages/SessionViewPage")),
+    guard: "modules.read",
+    titleKey: "navigation.track_session_view",
+    defaultTitle: "Session",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/session/:id/edit",
+    component: lazy(() => import("@/pages/SessionEditPage")),
+    guard: "modules.edit",
+    titleKey: "navigation.track_session_edit",
+    defaultTitle: "Edit Session",
+    parent: "/modules/session/:id",
+  },
+  {
+    path: "/modules/:moduleId/pre-post-exams/new",
+    component: lazy(() => import("@/pages/PrePostExamCreatePage")),
+    guard: "exam.author",
+    titleKey: "navigation.pre_post_exam_create",
+    defaultTitle: "Create Pre/Post Exam",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/:moduleId/pre-post-exams/view",
+    component: lazy(() => import("@/pages/ModulePrePostExamViewPage")),
+    guard: "modules.read",
+    titleKey: "navigation.pre_post_exam_view",
+    defaultTitle: "Pre/Post Exam",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/:moduleId/pre-post-exams/results",
+    component: lazy(() => import("@/pages/ModulePrePostExamResultsPage")),
+    guard: "exam.author",
+    titleKey: "navigation.pre_post_exam_results",
+    defaultTitle: "Pre/Post Exam Results",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/:moduleId/ranking",
+    component: lazy(() => import("@/pages/WeekRankingPage")),
+    guard: "ranking.submit",
+    titleKey: "navigation.week_ranking",
+    defaultTitle: "Week Ranking",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/:id/exam/edit",
+    component: lazy(() => import("@/pages/ModuleExamEditPage")),
+    guard: "exam.author",
+    titleKey: "navigation.exam_edit",
+    defaultTitle: "Edit Exam",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/:id/exam/results",
+    component: lazy(() => import("@/pages/ModuleExamResultsPage")),
+    guard: "exam.author",
+    titleKey: "navigation.exam_results",
+    defaultTitle: "Exam Results",
+    parent: "/modules",
+  },
+  {
+    path: "/modules/:id/exam/take",
+    component: lazy(() => import("@/pages/ModuleExamTakePage")),
+    guard: "exam.take",
+    titleKey: "navigation.exam_take",
+    defaultTitle: "Take Exam",
+    parent: "/modules",
+  },
+  {
+    path: "/assignments",
+    component: lazy(() => import("@/pages/AssignmentsPage")),
+    guard: "assignments.manage",
+    titleKey: "navigation.assignments",
+    defaultTitle: "Assignments",
+    icon: IconFileText,
+    nav: "learning",
+  },
+  {
+    path: "/attendance",
+    component: lazyNamed(() => import("@/pages/AttendancePage"), "AttendancePage"),
+    guard: "attendance.write",
+    titleKey: "navigation.attendance",
+    defaultTitle: "Attendance",
+    icon: IconClock,
+    nav: "analytics",
+  },
+  {
+    path: "/attendance/qr/:eventId",
+    component: lazy(() => import("@/pages/AttendanceQrPage")),
+    guard: "attendance.write",
+    titleKey: "navigation.attendance_qr",
+    defaultTitle: "QR Check-in",
+    parent: "/attendance",
+  },
+  {
+    path: "/attendance/kiosk/:eventId",
+    component: lazy(() => import("@/pages/AttendanceKioskPage")),
+    guard: "attendance.write",
+    titleKey: "navigation.attendance_kiosk",
+    defaultTitle: "Attendance Kiosk",
+    fullscreen: true,
+  },
+  {
+    path: "/attendance/scan",
+    component: lazy(() => import("@/pages/AttendanceScanPage")),
+    guard: "attendance.self_check_in",
+    titleKey: "navigation.self_check_in",
+    defaultTitle: "Self Check-in",
+    icon: IconQrcode,
+    nav: "analytics",
+  },
+  {
+    path: "/attendance/requests",
+    component: lazy(() => import("@/pages/AttendanceRequestsPage")),
+    guard: "attendance.review",
+    titleKey: "navigation.attendance_requests",
+    defaultTitle: "Attendance Requests",
+    icon: IconInbox,
+    nav: "analytics",
+    parent: "/attendance",
+  },
+  {
+    path: "/attendance/anomalies",
+    component: lazy(() => import("@/pages/AttendanceAnomaliesPage")),
+    guard: "attendance.review",
+    titleKey: "navigation.attendance_anomalies",
+    defaultTitle: "Attendance Anomalies",
+    icon: IconAlertTriangle,
+    nav: "analytics",
+    parent: "/attendance",
+  },
+  {
+    path: "/my-stats",
+    component: lazyNamed(() => import("@/pages/TraineeStatsPage"), "TraineeStatsPage"),
+    guard: "stats.self",
+    titleKey: "navigation.my_stats",
+    defaultTitle: "My Stats",
+    icon: IconReportAnalytics,
+    nav: "analytics",
+  },
+  {
+    path: "/interviewer-calibration",
+    component: lazy(() => import("@/pages/InterviewerCalibrationPage")),
+    guard: "interviews.calibration",
+    titleKey: "navigation.calibration",
+    defaultTitle: "Interviewer Calibration",
+    icon: IconScale,
+    nav: "analytics",
+  },
+  {
+    path: "/permissions",
+    component: lazy(() => import("@/pages/PermissionDebuggerPage")),
+    guard: "permissions.debug",
+    titleKey: "navigation.permissions",
+    defaultTitle: "Permissions",
+    icon: IconShieldCheck,
+    nav: "analytics",
+  },
+  {
+    path: "/account",
+    component: lazyNamed(() => import("@/pages/AccountPage"), "AccountPage"),
+    guard: "authenticated",
+    titleKey: "navigation.account",
+    defaultTitle: "Account",
+  },
+] as const satisfies readonly RouteDefinition[];
+
+export type PageRoute = (typeof ROUTES)[number]["path"];
+
+export const NAV_GROUPS: Array<{
+  id: NavGroupId;
+  labelKey?: string;
+  defaultLabel?: string;
+}> = [
+  { id: "main" },
+  { id: "candidates", labelKey: "navigation.groups.candidates", defaultLabel: "Candidates" },
+  { id: "forms", labelKey: "navigation.groups.forms", defaultLabel: "Forms" },
+  { id: "learning", labelKey: "navigation.groups.learning", defaultLabel: "Learning" },
+  { id: "analytics", labelKey: "navigation.groups.analytics", defaultLabel: "Analytics" },
+];
+
+const ROUTE_LIST: readonly RouteDefinition[] = ROUTES;
+
+export function getRoute(path: string): RouteDefinition | undefined {
+  return ROUTE_LIST.find((route) => route.path === path);
+}
+
+/**
+ * Registry entry and params for a concrete URL path
+ */
+export function matchRoute(
+  pathname: string
+): { route: RouteDefinition; params: Record<string, string | undefined> } | null {
+  for (const route of ROUTE_LIST) {
+    const match = matchPath({ path: route.path, end: true }, pathname);
+    if (match) return { route, params: match.params };
+  }
+  return null;
+}
+
+/**
+ * Check if a user with these capabilities can open a route pattern or a
+ * concrete path. Paths outside the registry are denied.
+ */
+export function canAccessPage(
+  capabilities: ReadonlySet<Capability>,
+  page: string
+): boolean {
+  const route = getRoute(page) ?? matchRoute(page)?.route;
+  if (!route) return false;
+  return route.guard === "authenticated" || capabilities.has(route.guard);
+}
+
+/**
+ * Sidebar routes the user can open, in registry order
+ */
+export function getNavigationItems(
+  capabilities: ReadonlySet<Capability>
+): RouteDefinition[] {
+  return ROUTE_LIST.filter(
+    (route) => route.nav && canAccessPage(capabilities, route.path)
+  );
+}
+
+/**
+ * Routes from the top-level ancestor down to the one matching pathname
+ */
+export function getRouteTrail(pathname: string): RouteDefinition[] {
+  const trail: RouteDefinition[] = [];
+  let route = matchRoute(pathname)?.route;
+  while (route && !trail.includes(route)) {
+    trail.unshift(route);
+    route = route.parent ? getRoute(route.parent) : undefined;
+  }
+  return trail;
+}
+
+/**
+ * Sidebar item to highlight: the closest route in the trail that has one
+ */
+export function getActiveNavPath(pathname: string): string | null {
+  const trail = getRouteTrail(pathname);
+  for (let index = trail.length - 1; index >= 0; index -= 1) {
+    if (trail[index].nav) return trail[index].path;
+  }
+  return null;
+}
+
+/**
+ * Registry mistakes worth a warning in development: duplicate paths, broken
+ * parents, unknown guards, and routes no role is able to reach
+ */
+export function findRouteRegistryProblems(): string[] {
+  const problems: string[] = [];
+  const granted = new Set<string>(
+    Object.values(ROLE_DEFINITIONS).flatMap((role) => role.capabilities)
+  );
+  const seen = new Set<string>();
+
+  ROUTE_LIST.forEach((route) => {
+    if (seen.has(route.path)) {
+      problems.push(`${route.path} is declared more than once`);
+    }
+    seen.add(route.path);
+
+    if (
+      route.guard !== "authenticated" &&
+      !(CAPABILITIES as string[]).includes(route.guard)
+    ) {
+      problems.push(`${route.path} is unguarded: unknown capability "${route.guard}"`);
+    } else if (route.guard !== "authenticated" && !granted.has(route.guard)) {
+      problems.push(
+        `${route.path} is unreachable: no role grants "${route.guard}"`
+      );
+    }
+
+    if (route.parent && !getRoute(route.parent)) {
+      problems.push(`${route.path} has unknown parent ${route.parent}`);
+    }
+    if (route.nav && route.path.includes(":")) {
+      problems.push(`${route.path} has URL params and can't be a sidebar item`);
+    }
+  });
+
+  return problems;
+}
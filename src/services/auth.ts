@@ -1,4 +1,10 @@
-import { apiFetch, setAccessToken } from "@/lib/api";
+import {
+  apiBaseUrl,
+  apiFetch,
+  setAccessToken,
+  setRefreshToken,
+} from "@/lib/api";
+import { NotFoundError, ValidationError } from "@/lib/api-errors";
 
 export type LoginRequest = {
   email: string;
@@ -20,10 +26,14 @@ export async function login(credentials: LoginRequest): Promise<LoginResponse> {
     method: "POST",
     body: credentials,
     requireCsrf: true,
+    // Wrong credentials also answer 401; that must not trigger a token refresh
+    skipAuthRefresh: true,
   });
 
-  // Persist access token (optional; cookies are also set by backend)
+  // Persist tokens (optional; cookies are also set by backend).
+  // The refresh token lets apiFetch renew an expired access token in place.
   if (data?.access) setAccessToken(data.access);
+  if (data?.refresh) setRefreshToken(data.refresh);
   return data;
 }
 
@@ -33,9 +43,92 @@ export async function logout(): Promise<{ detail: string }> {
     requireCsrf: true,
   });
   setAccessToken(null);
+  setRefreshToken(null);
   return data;
 }
 
+// Password endpoints live on the backend. Set VITE_PASSWORD_API_URL=/__auth
+// in development to use the Vite dev server's stand-in
+// (dev/password-server.ts), which accepts any current password.
+const passwordBaseUrl: string =
+  import.meta.env.VITE_PASSWORD_API_URL || apiBaseUrl;
+
+export type ChangePasswordRequest = {
+  current_password: string;
+  new_password: string;
+};
+
+export async function changePassword(
+  payload: ChangePasswordRequest
+): Promise<{ detail: string }> {
+  const data = await apiFetch<{
+    detail: string;
+    access?: string;
+    refresh?: string;
+  }>("/password/change/", {
+    method: "POST",
+    body: payload,
+    requireCsrf: true,
+    baseUrl: passwordBaseUrl,
+  });
+  // The backend may rotate tokens so other sessions are signed out
+  if (data?.access) setAccessToken(data.access);
+  if (data?.refresh) setRefreshToken(data.refresh);
+  return data;
+}
+
+// Reset links look like /reset-password?uid=...&token=...
+export type PasswordResetToken = {
+  uid: string;
+  token: string;
+};
+
+export async function requestPasswordReset(
+  email: string
+): Promise<{ detail: string }> {
+  return apiFetch<{ detail: string }>("/password/reset/", {
+    method: "POST",
+    body: { email },
+    requireCsrf: true,
+    skipAuthRefresh: true,
+    baseUrl: passwordBaseUrl,
+  });
+}
+
+export async function validatePasswordResetToken(
+  resetToken: PasswordResetToken
+): Promise<{ detail: string }> {
+  return apiFetch<{ detail: string }>("/password/reset/validate/", {
+    method: "POST",
+    body: resetToken,
+    requireCsrf: true,
+    skipAuthRefresh: true,
+    baseUrl: passwordBaseUrl,
+  });
+}
+
+export async function confirmPasswordReset(
+  payload: PasswordResetToken & { new_password: string }
+): Promise<{ detail: string }> {
+  return apiFetch<{ detail: string }>("/password/reset/confirm/", {
+    method: "POST",
+    body: payload,
+    requireCsrf: true,
+    skipAuthRefresh: true,
+    baseUrl: passwordBaseUrl,
+  });
+}
+
+/**
+ * Whether a reset call failed because the link is unknown, used or expired
+ * rather than because of the new password.
+ */
+export function isInvalidResetTokenError(error: unknown): boolean {
+  if (error instanceof NotFoundError) return true;
+  if (!(error instanceof ValidationError)) return false;
+  return "token" in error.fieldErrors || "uid" in error.fieldErrors;
+}
+
 export type MeResponse = {
   user_id: number;
   user_name: string;
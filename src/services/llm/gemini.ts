@@ -0,0 +1,170 @@
+// Gemini adapter. Requests go through the gemini-proxy Netlify function
+// (netlify/functions/gemini-proxy.ts), which holds the API key and checks the
+// session, so no key ships in the bundle. In development they're answered by
+// a canned stand-in (dev/gemini-server.ts) unless VITE_GEMINI_PROXY_URL
+// points elsewhere, e.g. "/.netlify/functions" under `netlify dev`.
+
+import { apiFetch } from "@/lib/api";
+import {
+  parseStructuredOutput,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResult,
+  type LlmSchema,
+  type LlmUsage,
+} from "./types";
+
+export const GEMINI_DEFAULT_MODEL = "gemini-2.5-flash";
+
+const configuredProxyUrl: string | undefined = import.meta.env
+  .VITE_GEMINI_PROXY_URL;
+const proxyBaseUrl: string =
+  configuredProxyUrl ??
+  (import.meta.env.DEV ? "/__gemini" : "/.netlify/functions");
+
+type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } };
+
+type GeminiSchema = Omit<LlmSchema, "type" | "properties" | "items"> & {
+  type: string;
+  properties?: Record<string, GeminiSchema>;
+  items?: GeminiSchema;
+};
+
+type GenerateContentResponse = {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+};
+
+// Gemini's schema dialect is OpenAPI-flavoured: upper-case type names
+function toGeminiSchema(schema: LlmSchema): GeminiSchema {
+  const { type, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: type.toUpperCase(),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([key, value]) => [
+              key,
+              toGeminiSchema(value),
+            ])
+          ),
+        }
+      : {}),
+    ...(items ? { items: toGeminiSchema(items) } : {}),
+  };
+}
+
+// generateContent request body, forwarded as-is by the proxy
+function buildRequest(request: LlmRequest, schema?: LlmSchema) {
+  const useUrlContext = Boolean(request.urls?.length);
+  const parts: GeminiPart[] = [
+    { text: request.prompt },
+    ...(request.files ?? []).map((file) => ({
+      inline_data: { mime_type: file.mimeType, data: file.data },
+    })),
+  ];
+  // Gemini rejects a response schema alongside tools, so with URL Context on
+  // the schema is spelled out in the instructions instead
+  const system =
+    schema && useUrlContext
+      ? [
+          request.system,
+          `Respond with JSON only, matching this schema:\n${JSON.stringify(schema)}`,
+        ]
+          .filter(Boolean)
+          .join("\n\n")
+      : request.system;
+  return {
+    contents: [{ role: "user", parts }],
+    ...(useUrlContext ? { tools: [{ url_context: {} }] } : {}),
+    ...(schema && !useUrlContext
+      ? {
+          generationConfig: {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(schema),
+          },
+        }
+      : {}),
+    ...(system ? { system_instruction: { parts: [{ text: system }] } } : {}),
+  };
+}
+
+function readUsage(response: GenerateContentResponse): LlmUsage | null {
+  const meta = response.usageMetadata;
+  if (!meta) return null;
+  const inputTokens = meta.promptTokenCount ?? 0;
+  // Thinking tokens are billed as output
+  const outputTokens =
+    (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: meta.totalTokenCount ?? inputTokens + outputTokens,
+  };
+}
+
+export function createGeminiProvider({
+  model = GEMINI_DEFAULT_MODEL,
+}: { model?: string } = {}): LlmProvider {
+  async function generate(
+    request: LlmRequest,
+    schema?: LlmSchema
+  ): Promise<LlmResult<string>> {
+    const response = await apiFetch<GenerateContentResponse>("/gemini-proxy", {
+      method: "POST",
+      body: { model, request: buildRequest(request, schema) },
+      baseUrl: proxyBaseUrl,
+      // An expired token is refreshed as usual, but the proxy's own session
+      // check failing mustn't sign the user out; it surfaces as an error
+      keepSessionOn401: true,
+    });
+    const text = (response.candidates?.[0]?.content?.parts ?? [])
+      .map((part) => part.text ?? "")
+      .join("")
+      .trim();
+    return {
+      data: text,
+      text,
+      usage: readUsage(response),
+      provider: "gemini",
+      model,
+    };
+  }
+
+  return {
+    id: "gemini",
+    model,
+    readsUrls: true,
+    generateText: (request) => generate(request),
+    async generateStructured<T>(request: LlmRequest, schema: LlmSchema) {
+      const result = await generate(request, schema);
+      return { ...result, data: parseStructuredOutput<T>(result.text) };
+    },
+  };
+}
+
+export async function extractResumeTextLocally(resumeUrl: string): Promise<string> {
+  const endpoint = "/.netlify/functions/extract-resume";
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url: resumeUrl }),
+  });
+  if (!res.ok) {
+    const msg = await res.text();
+    throw new Error(`extract-resume failed: ${res.status} ${msg}`);
+  }
+  const data = (await res.json()) as { text?: string };
+  return (data.text || "").trim();
+}
@@ -0,0 +1,67 @@
+/*
+ LLM providers behind one interface (types.ts), chosen by build-time config.
+ - VITE_LLM_PROVIDER: "gemini" (default), "openai" or "mock"
+ - VITE_LLM_MODEL: model name for the chosen provider; Gemini models must
+   also be allowed by the proxy
+ - VITE_LLM_BASE_URL / VITE_LLM_API_KEY: OpenAI-compatible server, e.g. a
+   local Ollama or LM Studio (see openai-compatible.ts). Development only:
+   production builds fall back to the Gemini proxy and never read the key
+ - "mock" needs no network at all and answers from mock-fixtures.ts
+*/
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAiCompatibleProvider } from "./openai-compatible";
+import type { LlmProvider, LlmProviderId } from "./types";
+
+export { LlmOutputError } from "./types";
+export type {
+  LlmFile,
+  LlmProvider,
+  LlmProviderId,
+  LlmRequest,
+  LlmResult,
+  LlmSchema,
+  LlmUsage,
+  LlmValidation,
+} from "./types";
+export { generateValidated } from "./validated";
+
+const PROVIDER_IDS: LlmProviderId[] = ["gemini", "openai", "mock"];
+
+function createConfiguredProvider(): LlmProvider {
+  // import.meta.env is spelled out per variable: Vite then inlines only those,
+  // and drops the DEV-only branch below (with the key) from production builds
+  const configured: string = import.meta.env.VITE_LLM_PROVIDER || "gemini";
+  const id = PROVIDER_IDS.find((candidate) => candidate === configured);
+  if (!id) {
+    console.warn(
+      `Unknown VITE_LLM_PROVIDER "${configured}", falling back to gemini`
+    );
+  }
+  const model: string | undefined = import.meta.env.VITE_LLM_MODEL || undefined;
+  switch (id ?? "gemini") {
+    case "openai":
+      if (import.meta.env.DEV) {
+        return createOpenAiCompatibleProvider({
+          baseUrl: import.meta.env.VITE_LLM_BASE_URL || undefined,
+          model,
+          apiKey: import.meta.env.VITE_LLM_API_KEY || undefined,
+        });
+      }
+      console.warn(
+        'VITE_LLM_PROVIDER "openai" is for development only, falling back to gemini'
+      );
+      return createGeminiProvider({ model });
+    case "mock":
+      return createMockProvider();
+    case "gemini":
+      return createGeminiProvider({ model });
+  }
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  provider ??= createConfiguredProvider();
+  return provider;
+}
@@ -0,0 +1,75 @@
+// Canned answers for the mock provider, keyed by LlmRequest.task. They follow
+// the output format each call site asks for, so pages render as they would
+// with a real model. `text` answers generateText, `data` generateStructured.
+
+export type MockFixture = {
+  text?: string;
+  data?: unknown;
+};
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+  "candidate-analysis": {
+    data: {
+      overall_score: 68,
+      recommendation: "yes",
+      confidence: "medium",
+      justification:
+        "Solid CV evidence and a strong technical interview outweigh an average English result. Mock response; no model was called.",
+      strengths: [
+        {
+          point: "Strong technical interview performance",
+          source: "technical_interview",
+          evidence: "24/50 (48%), 'Strong' tier",
+        },
+        {
+          point: "Sustained web projects",
+          source: "cv",
+          evidence: "Two React + Node projects listed under work experience",
+        },
+      ],
+      weaknesses: [
+        {
+          point: "English in the common range",
+          source: "english_test",
+          evidence: "Placement level Inter-B",
+        },
+        {
+          point: "No internship experience",
+          source: "cv",
+          evidence: "workExperience lists personal projects only",
+        },
+      ],
+      dimension_scores: {
+        cv: { score: 70, tier: "Strong", note: "Relevant, sustained projects." },
+        technical_interview: {
+          score: 48,
+          tier: "Strong",
+          note: "Single interviewer; confidence medium.",
+        },
+        hr_interview: {
+          score: 85,
+          tier: "Expected",
+          note: "Meets program expectations.",
+        },
+        english: { score: 50, tier: "Average", note: "Inter-B." },
+      },
+      cv_accessible: true,
+      cv_insights: ["Built and deployed a full-stack booking app"],
+    },
+  },
+  "forms-analysis": {
+    text: `## Overview
+- Mock analysis: no model was called.
+- Overall satisfaction is high (82% positive across rated questions).
+
+## Going well
+- Session content rated useful by most respondents.
+- Notes praise hands-on exercises.
+
+## Needs attention
+- Several notes mention sessions running over time.
+
+## Recommendations
+- Keep the hands-on format and share a timed agenda before each session.`,
+  },
+};
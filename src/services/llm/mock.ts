@@ -0,0 +1,116 @@
+// Deterministic offline provider for development and demos: no network, no
+// key. Answers come from fixtures keyed by LlmRequest.task; tasks without one
+// get a reply built from the prompt (text) or a placeholder shaped by the
+// schema (structured). The same request always yields the same result.
+
+import { MOCK_FIXTURES, type MockFixture } from "./mock-fixtures";
+import {
+  estimateTokens,
+  parseStructuredOutput,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResult,
+  type LlmSchema,
+} from "./types";
+
+const MOCK_MODEL = "mock";
+// Long enough for loading states to show
+const DEFAULT_LATENCY_MS = 300;
+
+type MockOptions = {
+  fixtures?: Record<string, MockFixture>;
+  latencyMs?: number;
+};
+
+// FNV-1a, so fallback replies differ per prompt but never between runs
+function hashPrompt(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function fallbackText(request: LlmRequest): string {
+  const prompt = request.prompt.replace(/\s+/g, " ").trim();
+  return [
+    "**Mock response** (no model was called).",
+    "",
+    `- Task: ${request.task ?? "unnamed"}`,
+    `- Prompt: ${prompt.length > 160 ? `${prompt.slice(0, 160)}…` : prompt}`,
+    `- Fingerprint: ${hashPrompt(`${request.system ?? ""}\n${request.prompt}`)}`,
+  ].join("\n");
+}
+
+function placeholderFor(schema: LlmSchema, name: string): unknown {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          placeholderFor(value, key),
+        ])
+      );
+    case "array":
+      return schema.items ? [placeholderFor(schema.items, name)] : [];
+    case "string":
+      return schema.enum?.[0] ?? `Mock ${name}`;
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createMockProvider({
+  fixtures = MOCK_FIXTURES,
+  latencyMs = DEFAULT_LATENCY_MS,
+}: MockOptions = {}): LlmProvider {
+  function respond(request: LlmRequest, text: string): LlmResult<string> {
+    const inputTokens = estimateTokens(
+      [request.system, request.prompt, ...(request.urls ?? [])]
+        .filter(Boolean)
+        .join("\n")
+    );
+    const outputTokens = estimateTokens(text);
+    return {
+      data: text,
+      text,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      provider: "mock",
+      model: MOCK_MODEL,
+    };
+  }
+
+  return {
+    id: "mock",
+    model: MOCK_MODEL,
+    readsUrls: false,
+    async generateText(request) {
+      await delay(latencyMs);
+      const fixture = request.task ? fixtures[request.task] : undefined;
+      return respond(request, fixture?.text ?? fallbackText(request));
+    },
+    async generateStructured<T>(request: LlmRequest, schema: LlmSchema) {
+      await delay(latencyMs);
+      const fixture = request.task ? fixtures[request.task] : undefined;
+      const text = JSON.stringify(
+        fixture?.data ?? placeholderFor(schema, request.task ?? "value"),
+        null,
+        2
+      );
+      const result = respond(request, text);
+      return { ...result, data: parseStructuredOutput<T>(text) };
+    },
+  };
+}
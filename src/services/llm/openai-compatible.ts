@@ -0,0 +1,182 @@
+// Adapter for any server speaking the OpenAI chat completions API: Ollama,
+// LM Studio, llama.cpp, vLLM and the like. Development only (index.ts never
+// picks it in a production build): requests go straight from the browser, the
+// session token is never sent, and an API key would end up in the bundle.
+
+import { NetworkError, createApiError } from "@/lib/api-errors";
+import {
+  parseStructuredOutput,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResult,
+  type LlmSchema,
+} from "./types";
+
+// Ollama's OpenAI-compatible endpoint
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = "http://localhost:11434/v1";
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = "llama3.1";
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type ChatCompletionResponse = {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+};
+
+type OpenAiCompatibleOptions = {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+};
+
+// JSON Schema proper has no "nullable"; it's a type union instead
+function toJsonSchema(schema: LlmSchema): Record<string, unknown> {
+  const { type, nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: nullable ? [type, "null"] : type,
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([key, value]) => [
+              key,
+              toJsonSchema(value),
+            ])
+          ),
+        }
+      : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+  };
+}
+
+function decodeBase64Text(data: string): string {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function buildUserContent(request: LlmRequest): ContentPart[] {
+  const parts: ContentPart[] = [{ type: "text", text: request.prompt }];
+  if (request.urls?.length) {
+    // These servers can't fetch pages, so the model only sees the addresses
+    parts.push({
+      type: "text",
+      text: `Referenced URLs (not fetched):\n${request.urls.join("\n")}`,
+    });
+  }
+  for (const file of request.files ?? []) {
+    if (file.mimeType.startsWith("image/")) {
+      parts.push({
+        type: "image_url",
+        image_url: { url: `data:${file.mimeType};base64,${file.data}` },
+      });
+    } else if (
+      file.mimeType.startsWith("text/") ||
+      file.mimeType === "application/json"
+    ) {
+      parts.push({
+        type: "text",
+        text: `[FILE ${file.name ?? file.mimeType}]\n${decodeBase64Text(file.data)}\n[END FILE]`,
+      });
+    } else {
+      throw new Error(
+        `The OpenAI-compatible provider can't read ${file.mimeType} files`
+      );
+    }
+  }
+  return parts;
+}
+
+export function createOpenAiCompatibleProvider({
+  baseUrl = OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+  model = OPENAI_COMPATIBLE_DEFAULT_MODEL,
+  apiKey,
+}: OpenAiCompatibleOptions = {}): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  async function generate(
+    request: LlmRequest,
+    schema?: LlmSchema
+  ): Promise<LlmResult<string>> {
+    const body = {
+      model,
+      messages: [
+        ...(request.system
+          ? [{ role: "system", content: request.system }]
+          : []),
+        { role: "user", content: buildUserContent(request) },
+      ],
+      ...(schema
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: request.task ?? "response", schema: toJsonSchema(schema) },
+            },
+          }
+        : {}),
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (cause) {
+      throw new NetworkError(`Couldn't reach ${endpoint}`, cause);
+    }
+    if (!response.ok) {
+      let data: unknown = undefined;
+      try {
+        const parsed = (await response.json()) as {
+          error?: { message?: string };
+        };
+        // OpenAI-style errors nest the message; surface it as the detail
+        data = parsed?.error?.message ? { detail: parsed.error.message } : parsed;
+      } catch {
+        // ignore
+      }
+      throw createApiError(response.status, response.statusText, data);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const text = (data.choices?.[0]?.message?.content ?? "").trim();
+    const usage = data.usage;
+    return {
+      data: text,
+      text,
+      usage: usage
+        ? {
+            inputTokens: usage.prompt_tokens ?? 0,
+            outputTokens: usage.completion_tokens ?? 0,
+            totalTokens:
+              usage.total_tokens ??
+              (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+          }
+        : null,
+      provider: "openai",
+      model: data.model ?? model,
+    };
+  }
+
+  return {
+    id: "openai",
+    model,
+    readsUrls: false,
+    generateText: (request) => generate(request),
+    async generateStructured<T>(request: LlmRequest, schema: LlmSchema) {
+      const result = await generate(request, schema);
+      return { ...result, data: parseStructuredOutput<T>(result.text) };
+    },
+  };
+}
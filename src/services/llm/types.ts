@@ -0,0 +1,98 @@
+// Provider-neutral shapes shared by the LLM adapters in this folder
+
+export type LlmProviderId = "gemini" | "openai" | "mock";
+
+// JSON Schema subset both Gemini (responseSchema) and OpenAI-compatible
+// servers (response_format json_schema) accept
+export type LlmSchema = {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: string[];
+  nullable?: boolean;
+  properties?: Record<string, LlmSchema>;
+  required?: string[];
+  items?: LlmSchema;
+};
+
+// Inline file sent with the prompt; data is base64 without the data: prefix
+export type LlmFile = {
+  name?: string;
+  mimeType: string;
+  data: string;
+};
+
+export type LlmRequest = {
+  prompt: string;
+  system?: string;
+  // Pages the model should read. Gemini fetches them itself (URL Context);
+  // other providers only see the addresses in the prompt
+  urls?: string[];
+  files?: LlmFile[];
+  // Stable name for the call site, e.g. "candidate-analysis". The mock
+  // provider picks its fixture by it; real providers ignore it
+  task?: string;
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type LlmResult<T> = {
+  data: T;
+  // Raw model output; for structured calls, the JSON before parsing
+  text: string;
+  // null when the provider didn't report usage
+  usage: LlmUsage | null;
+  provider: LlmProviderId;
+  model: string;
+};
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  // Whether urls are fetched by the provider rather than just listed
+  readonly readsUrls: boolean;
+  generateText(request: LlmRequest): Promise<LlmResult<string>>;
+  generateStructured<T>(
+    request: LlmRequest,
+    schema: LlmSchema
+  ): Promise<LlmResult<T>>;
+}
+
+// Outcome of checking structured output beyond its JSON shape; errors are
+// sent back to the model when retrying
+export type LlmValidation<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+// The model answered, but not with JSON matching the requested shape
+export class LlmOutputError extends Error {
+  readonly text: string;
+
+  constructor(message: string, text: string) {
+    super(message);
+    this.name = "LlmOutputError";
+    this.text = text;
+  }
+}
+
+export function parseStructuredOutput<T>(text: string): T {
+  // Some models wrap JSON in a Markdown fence even when asked not to
+  const unfenced = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return JSON.parse(unfenced) as T;
+  } catch {
+    throw new LlmOutputError("The model didn't return valid JSON", text);
+  }
+}
+
+// Rough count for providers that don't report usage (about 4 characters per
+// token for English text)
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
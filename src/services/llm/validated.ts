@@ -0,0 +1,80 @@
+// Structured generation with a validation loop: when the answer isn't JSON or
+// fails the caller's checks, the problems are sent back with the prompt and
+// the model gets another try.
+
+import {
+  LlmOutputError,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResult,
+  type LlmSchema,
+  type LlmUsage,
+  type LlmValidation,
+} from "./types";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Enough for the model to see what to fix without drowning the prompt
+const MAX_REPORTED_ERRORS = 8;
+
+function addUsage(
+  total: LlmUsage | null,
+  usage: LlmUsage | null
+): LlmUsage | null {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+function withFeedback(prompt: string, errors: string[]): string {
+  if (errors.length === 0) return prompt;
+  return [
+    prompt,
+    "Your previous reply was rejected for these problems:",
+    ...errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `- ${error}`),
+    "Reply again with the complete JSON, fixing all of them.",
+  ].join("\n\n");
+}
+
+export async function generateValidated<T>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  schema: LlmSchema,
+  validate: (value: unknown) => LlmValidation<T>,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS }: { maxAttempts?: number } = {}
+): Promise<LlmResult<T> & { attempts: number }> {
+  let errors: string[] = [];
+  let lastText = "";
+  // Usage of every attempt that came back parsable, including rejected ones
+  let usage: LlmUsage | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const result = await provider.generateStructured<unknown>(
+        { ...request, prompt: withFeedback(request.prompt, errors) },
+        schema
+      );
+      usage = addUsage(usage, result.usage);
+      lastText = result.text;
+      const checked = validate(result.data);
+      if (checked.ok) {
+        return { ...result, data: checked.value, usage, attempts: attempt };
+      }
+      errors = checked.errors;
+    } catch (error) {
+      if (!(error instanceof LlmOutputError)) throw error;
+      lastText = error.text;
+      errors = [error.message];
+    }
+  }
+
+  throw new LlmOutputError(
+    `The model's answer didn't match the expected format after ${maxAttempts} attempts (${errors
+      .slice(0, 3)
+      .join("; ")})`,
+    lastText
+  );
+}
@@ -2,10 +2,19 @@ import path from "path";
 import tailwindcss from "@tailwindcss/vite";
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { attendanceLiveDevServer } from "./dev/attendance-live-server";
+import { passwordDevServer } from "./dev/password-server";
+import { geminiDevServer } from "./dev/gemini-server";
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [
+    react(),
+    tailwindcss(),
+    attendanceLiveDevServer(),
+    passwordDevServer(),
+    geminiDevServer(),
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),